@@ -0,0 +1,21 @@
+import { redirect } from 'next/navigation'
+import { requireRole } from '@/utils/roles/roles'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * 管理后台布局，编辑及以上角色可访问
+ */
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const guard = await requireRole('editor')
+
+  if (!guard.authorized) {
+    redirect(guard.status === 401 ? '/sign-in' : '/')
+  }
+
+  return <>{children}</>
+}
@@ -0,0 +1,440 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { ArrowLeft, Save, Trash, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "../../ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { toast } from "react-hot-toast";
+import { generatePromptWithStyle, PROMPT_PLACEHOLDER, PROMPT_SLOT, StyleConfig } from "@/app/config/styles";
+import { validatePromptTemplate } from "@/utils/promptTemplate";
+
+// 表单数据，字段与风格接口的请求体一致
+interface StyleForm {
+  id: string;
+  name: string;
+  description: string;
+  preview_image: string;
+  prompt_template: string;
+  negative_prompt: string;
+  default_aspect_ratio: string;
+  enabled: boolean;
+  sort_order: number;
+}
+
+const toForm = (style: StyleConfig): StyleForm => ({
+  id: style.id,
+  name: style.name,
+  description: style.description,
+  preview_image: style.imageUrl,
+  prompt_template: style.promptTemplate,
+  negative_prompt: style.negativePrompt || "",
+  default_aspect_ratio: style.defaultAspectRatio || "",
+  enabled: style.enabled,
+  sort_order: style.sortOrder
+});
+
+export default function EditStylePage() {
+  const params = useParams();
+  const idParam = decodeURIComponent(params?.id as string);
+
+  const router = useRouter();
+  const isNewStyle = idParam === "new";
+
+  // 状态管理
+  const [isLoading, setIsLoading] = useState(!isNewStyle);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 表单数据
+  const [style, setStyle] = useState<StyleForm>({
+    id: "",
+    name: "",
+    description: "",
+    preview_image: "",
+    prompt_template: `${PROMPT_PLACEHOLDER}，风格：`,
+    negative_prompt: "",
+    default_aspect_ratio: "",
+    enabled: true,
+    sort_order: 0
+  });
+
+  // 获取风格数据
+  const fetchStyleData = async () => {
+    if (isNewStyle) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/styles/${encodeURIComponent(idParam)}`);
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `获取风格失败 (HTTP ${response.status})`);
+      }
+
+      setStyle(toForm(data.data));
+    } catch (err) {
+      console.error("获取风格数据错误:", err);
+      setError(err instanceof Error ? err.message : "获取风格数据失败");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStyleData();
+  }, [idParam]);
+
+  // 处理表单输入变化
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setStyle(prev => ({
+      ...prev,
+      [name]: name === "sort_order" ? parseInt(value, 10) || 0 : value
+    }));
+  };
+
+  // 处理删除
+  const handleDelete = async () => {
+    if (!confirm("确定要删除此风格吗？此操作不可撤销，仅想暂时下线请关闭启用开关。")) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const response = await fetch(`/api/styles/${encodeURIComponent(idParam)}`, {
+        method: "DELETE"
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `删除失败 (HTTP ${response.status})`);
+      }
+
+      toast.success("风格已成功删除");
+      router.push("/admin/styles");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "删除风格失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 提交表单
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // 表单验证
+    if (isNewStyle && !style.id.trim()) {
+      setError("请输入风格ID");
+      return;
+    }
+
+    if (!style.name.trim()) {
+      setError("请输入风格名称");
+      return;
+    }
+
+    const templateErrors = validatePromptTemplate(style.prompt_template, [PROMPT_SLOT]);
+    if (templateErrors.length > 0) {
+      setError(templateErrors.join("；"));
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const url = isNewStyle ? "/api/styles" : `/api/styles/${encodeURIComponent(idParam)}`;
+      const { id, ...fields } = style;
+
+      const response = await fetch(url, {
+        method: isNewStyle ? "POST" : "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(isNewStyle ? style : fields)
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `保存风格失败 (HTTP ${response.status})`);
+      }
+
+      if (isNewStyle) {
+        toast.success(`风格创建成功! ID: ${data.data.id}`);
+        router.push("/admin/styles");
+      } else {
+        toast.success("风格保存成功!");
+        setStyle(toForm(data.data));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "保存风格失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 提示词预览
+  const previewPrompt = generatePromptWithStyle({
+    id: style.id,
+    name: style.name,
+    description: style.description,
+    imageUrl: style.preview_image,
+    promptTemplate: style.prompt_template,
+    negativePrompt: style.negative_prompt,
+    enabled: style.enabled,
+    sortOrder: style.sort_order
+  }, "<用户输入的提示词>");
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => router.back()}
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h1 className="text-2xl font-bold">
+          {isNewStyle ? "创建新风格" : "编辑风格"}
+        </h1>
+      </div>
+
+      {/* 错误提示 */}
+      {error && (
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center h-[400px]">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* 左侧表单 */}
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <h2 className="text-lg font-medium">基本信息</h2>
+
+                <div className="space-y-2">
+                  <label htmlFor="id" className="text-sm font-medium">
+                    风格ID <span className="text-destructive">*</span>
+                  </label>
+                  <Input
+                    id="id"
+                    name="id"
+                    value={style.id}
+                    onChange={handleInputChange}
+                    placeholder="例如：水墨"
+                    disabled={!isNewStyle}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    生成任务和模板保存的是风格ID，创建后不可修改
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="name" className="text-sm font-medium">
+                    风格名称 <span className="text-destructive">*</span>
+                  </label>
+                  <Input
+                    id="name"
+                    name="name"
+                    value={style.name}
+                    onChange={handleInputChange}
+                    placeholder="输入风格名称"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="description" className="text-sm font-medium">
+                    风格描述
+                  </label>
+                  <Textarea
+                    id="description"
+                    name="description"
+                    value={style.description}
+                    onChange={handleInputChange}
+                    placeholder="输入风格描述"
+                    rows={2}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label htmlFor="default_aspect_ratio" className="text-sm font-medium">
+                      默认比例
+                    </label>
+                    <Input
+                      id="default_aspect_ratio"
+                      name="default_aspect_ratio"
+                      value={style.default_aspect_ratio}
+                      onChange={handleInputChange}
+                      placeholder="例如：3:4，留空不限制"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="sort_order" className="text-sm font-medium">
+                      排序值
+                    </label>
+                    <Input
+                      id="sort_order"
+                      name="sort_order"
+                      type="number"
+                      value={style.sort_order}
+                      onChange={handleInputChange}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <h2 className="text-lg font-medium">提示词设置</h2>
+
+                <div className="space-y-2">
+                  <label htmlFor="prompt_template" className="text-sm font-medium">
+                    提示词模板 <span className="text-destructive">*</span>
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    模板中的 <code className="bg-muted rounded px-1">{PROMPT_PLACEHOLDER}</code> 会替换为用户输入的提示词，
+                    方括号内为可选片段，例如 <code className="bg-muted rounded px-1">{"[，{prompt}]"}</code>
+                  </p>
+                  <Textarea
+                    id="prompt_template"
+                    name="prompt_template"
+                    value={style.prompt_template}
+                    onChange={handleInputChange}
+                    rows={4}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label htmlFor="negative_prompt" className="text-sm font-medium">
+                    负面提示
+                  </label>
+                  <Input
+                    id="negative_prompt"
+                    name="negative_prompt"
+                    value={style.negative_prompt}
+                    onChange={handleInputChange}
+                    placeholder="需要避免的元素，例如：文字、水印、模糊"
+                  />
+                </div>
+
+                <div className="mt-2 p-3 bg-muted/30 rounded text-sm">
+                  <p className="font-medium mb-1">预览效果：</p>
+                  <p className="text-muted-foreground text-xs">{previewPrompt}</p>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* 右侧预览 */}
+          <div className="space-y-6">
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <h2 className="text-lg font-medium">预览图片</h2>
+
+                <div className="aspect-square w-full overflow-hidden rounded-lg border bg-muted">
+                  {style.preview_image && (
+                    <img
+                      src={style.preview_image}
+                      alt="风格预览"
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </div>
+                <Input
+                  name="preview_image"
+                  value={style.preview_image}
+                  onChange={handleInputChange}
+                  placeholder="预览图地址，例如：/examples/ghibli.webp"
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <h2 className="text-lg font-medium">操作</h2>
+
+                <div className="flex items-center justify-between">
+                  <label htmlFor="enabled" className="text-sm font-medium">
+                    启用（在生成页展示）
+                  </label>
+                  <Switch
+                    id="enabled"
+                    checked={style.enabled}
+                    onCheckedChange={(checked: boolean) =>
+                      setStyle(prev => ({ ...prev, enabled: checked }))
+                    }
+                  />
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="default"
+                    className="flex-1"
+                    onClick={handleSubmit}
+                    disabled={isSaving}
+                  >
+                    {isSaving ? (
+                      <span className="flex items-center gap-2">
+                        <div className="h-4 w-4 border-2 border-current border-t-transparent animate-spin rounded-full"></div>
+                        保存中...
+                      </span>
+                    ) : isNewStyle ? (
+                      <span className="flex items-center gap-2">
+                        <Sparkles className="h-4 w-4" />
+                        创建风格
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2">
+                        <Save className="h-4 w-4" />
+                        保存更改
+                      </span>
+                    )}
+                  </Button>
+                  {!isNewStyle && (
+                    <Button
+                      variant="destructive"
+                      onClick={handleDelete}
+                      disabled={isSaving}
+                    >
+                      <Trash className="h-4 w-4 mr-2" />
+                      删除
+                    </Button>
+                  )}
+                </div>
+
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => router.push("/admin/styles")}
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  返回列表
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import Link from "next/link";
+import { Loader2, Plus, Edit, Trash, Search, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { toast } from "react-hot-toast";
+import type { StyleConfig } from "@/app/config/styles";
+
+export default function AdminStylesPage() {
+  // 状态管理
+  const [styles, setStyles] = useState<StyleConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+
+  // 获取风格列表（包含已停用的风格）
+  const fetchStyles = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ all: "true" });
+      if (searchQuery) {
+        params.append("search", searchQuery);
+      }
+
+      const response = await fetch(`/api/styles?${params.toString()}`);
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "获取风格列表失败");
+      }
+
+      setStyles(data.data || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "获取风格列表失败");
+      console.error("获取风格列表错误:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStyles();
+  }, [searchQuery]);
+
+  // 启用或停用风格
+  const handleToggleEnabled = async (style: StyleConfig) => {
+    try {
+      setIsLoading(true);
+
+      const response = await fetch(`/api/styles/${encodeURIComponent(style.id)}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ enabled: !style.enabled })
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `更新状态失败 (${response.status})`);
+      }
+
+      toast.success(`已${data.data.enabled ? "启用" : "停用"}风格"${data.data.name}"`);
+      await fetchStyles();
+    } catch (err) {
+      console.error("更新风格状态失败:", err);
+      setError(err instanceof Error ? err.message : "更新风格状态失败");
+      setIsLoading(false);
+    }
+  };
+
+  // 处理删除
+  const handleDelete = async (style: StyleConfig) => {
+    if (!confirm(`确定要删除风格"${style.name}"吗？此操作不可撤销，仅想暂时下线请使用停用。`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const response = await fetch(`/api/styles/${encodeURIComponent(style.id)}`, {
+        method: "DELETE"
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `删除风格失败 (${response.status})`);
+      }
+
+      toast.success("风格已成功删除");
+      await fetchStyles();
+    } catch (err) {
+      console.error("删除风格失败:", err);
+      setError(err instanceof Error ? err.message : "删除风格失败");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">风格管理</h1>
+        <Link
+          href="/admin/styles/new"
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-[#ffffff] font-bold py-3 px-6 rounded-lg shadow-md hover:shadow-lg transition-all"
+        >
+          <Plus className="h-5 w-5 text-white" strokeWidth={2.5} />
+          <span className="text-white text-base tracking-wide">新建风格</span>
+        </Link>
+      </div>
+
+      {/* 搜索 */}
+      <div className="relative mb-6">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="搜索风格..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {/* 错误提示 */}
+      {error && (
+        <div className="bg-destructive/10 text-destructive p-4 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* 表格 */}
+      <div className="w-full overflow-auto rounded-lg border">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b bg-muted/40">
+              <th className="p-3 text-xs font-medium text-muted-foreground">预览</th>
+              <th className="p-3 text-xs font-medium text-muted-foreground">名称</th>
+              <th className="p-3 text-xs font-medium text-muted-foreground">提示词模板</th>
+              <th className="p-3 text-xs font-medium text-muted-foreground">默认比例</th>
+              <th className="p-3 text-xs font-medium text-muted-foreground">排序</th>
+              <th className="p-3 text-xs font-medium text-muted-foreground">状态</th>
+              <th className="p-3 text-xs font-medium text-muted-foreground">操作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {isLoading ? (
+              <tr>
+                <td colSpan={7} className="p-8 text-center">
+                  <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+                </td>
+              </tr>
+            ) : styles.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                  暂无风格数据
+                </td>
+              </tr>
+            ) : (
+              styles.map((style) => (
+                <tr key={style.id} className="border-b">
+                  <td className="p-3">
+                    <div className="w-16 h-16 rounded-md overflow-hidden bg-muted">
+                      {style.imageUrl && (
+                        <img
+                          src={style.imageUrl}
+                          alt={style.name}
+                          className="w-full h-full object-cover"
+                          loading="lazy"
+                        />
+                      )}
+                    </div>
+                  </td>
+                  <td className="p-3">
+                    <div className="font-medium">{style.name}</div>
+                    <div className="text-xs text-muted-foreground">ID: {style.id}</div>
+                    <div className="text-sm text-muted-foreground line-clamp-1">
+                      {style.description}
+                    </div>
+                  </td>
+                  <td className="p-3 max-w-xs">
+                    <code className="text-xs text-muted-foreground line-clamp-2">
+                      {style.promptTemplate}
+                    </code>
+                  </td>
+                  <td className="p-3 text-sm">{style.defaultAspectRatio || "—"}</td>
+                  <td className="p-3 text-sm">{style.sortOrder}</td>
+                  <td className="p-3">
+                    <Badge variant={style.enabled ? "default" : "outline"}>
+                      {style.enabled ? "已启用" : "已停用"}
+                    </Badge>
+                  </td>
+                  <td className="p-3">
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        asChild
+                        className="h-8 w-8"
+                      >
+                        <Link href={`/admin/styles/${encodeURIComponent(style.id)}`}>
+                          <Edit className="h-4 w-4" />
+                          <span className="sr-only">编辑</span>
+                        </Link>
+                      </Button>
+                      {style.enabled ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleToggleEnabled(style)}
+                          className="h-8 w-8 text-amber-500"
+                        >
+                          <X className="h-4 w-4" />
+                          <span className="sr-only">停用</span>
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleToggleEnabled(style)}
+                          className="h-8 w-8 text-green-500"
+                        >
+                          <Check className="h-4 w-4" />
+                          <span className="sr-only">启用</span>
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(style)}
+                        className="h-8 w-8 text-destructive"
+                      >
+                        <Trash className="h-4 w-4" />
+                        <span className="sr-only">删除</span>
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
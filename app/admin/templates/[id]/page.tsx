@@ -25,6 +25,12 @@ import {
   CardContent 
 } from "@/components/ui/card";
 import { toast } from "react-hot-toast";
+import {
+  buildTemplatePrompt,
+  FREE_TEXT_SLOT,
+  PromptSlot,
+  PromptSlotType
+} from "@/utils/promptTemplate";
 
 // 模板类型
 interface Template {
@@ -38,6 +44,8 @@ interface Template {
   prompt_guide: string;
   prompt_placeholder: string;
   base_prompt: string;
+  prompt_slots: PromptSlot[];
+  prompt_variants: Record<string, string>;
   tags: string[];
   status: string;
 }
@@ -73,6 +81,8 @@ export default function EditTemplatePage() {
     prompt_guide: "",
     prompt_placeholder: "请输入你的创意描述...",
     base_prompt: "",
+    prompt_slots: [],
+    prompt_variants: {},
     tags: [],
     status: "published",
     style_id: null
@@ -118,7 +128,11 @@ export default function EditTemplatePage() {
       console.log('获取到的模板数据:', data);
       
       if (data.success) {
-        setTemplate(data.data);
+        setTemplate({
+          ...data.data,
+          prompt_slots: data.data.prompt_slots || [],
+          prompt_variants: data.data.prompt_variants || {}
+        });
         // 如果有预览图片，设置预览URL
         if (data.data.preview_image) {
           setPreviewUrl(data.data.preview_image);
@@ -168,6 +182,67 @@ export default function EditTemplatePage() {
     }
   };
   
+  // 更新插槽声明
+  const updateSlot = (index: number, changes: Partial<PromptSlot>) => {
+    setTemplate(prev => ({
+      ...prev,
+      prompt_slots: prev.prompt_slots.map((slot, i) => i === index ? { ...slot, ...changes } : slot)
+    }));
+  };
+  
+  const handleAddSlot = () => {
+    setTemplate(prev => ({
+      ...prev,
+      prompt_slots: [
+        ...prev.prompt_slots,
+        { name: `slot${prev.prompt_slots.length + 1}`, label: "", type: "text", required: false }
+      ]
+    }));
+  };
+  
+  const handleRemoveSlot = (index: number) => {
+    setTemplate(prev => ({
+      ...prev,
+      prompt_slots: prev.prompt_slots.filter((_, i) => i !== index)
+    }));
+  };
+  
+  // 更新语言版本，修改语言代码时保留原有文本
+  const updateVariant = (locale: string, nextLocale: string, text: string) => {
+    setTemplate(prev => {
+      const entries = Object.entries(prev.prompt_variants).map(([key, value]) =>
+        key === locale ? [nextLocale, text] : [key, value]
+      );
+      return { ...prev, prompt_variants: Object.fromEntries(entries) };
+    });
+  };
+  
+  const handleAddVariant = () => {
+    setTemplate(prev => {
+      const locale = prev.prompt_variants.en === undefined ? "en" : `locale${Object.keys(prev.prompt_variants).length + 1}`;
+      return { ...prev, prompt_variants: { ...prev.prompt_variants, [locale]: prev.base_prompt } };
+    });
+  };
+  
+  const handleRemoveVariant = (locale: string) => {
+    setTemplate(prev => {
+      const { [locale]: _removed, ...rest } = prev.prompt_variants;
+      return { ...prev, prompt_variants: rest };
+    });
+  };
+  
+  // 提示词预览，插槽以显示名称代替
+  const renderPreview = (locale?: string) => {
+    try {
+      const sampleValues = template.prompt_slots.length > 0
+        ? Object.fromEntries(template.prompt_slots.map(slot => [slot.name, `<${slot.label || slot.name}>`]))
+        : { [FREE_TEXT_SLOT]: "<用户输入的提示词>" };
+      return buildTemplatePrompt(template, sampleValues, locale);
+    } catch (err) {
+      return `模板语法错误：${err instanceof Error ? err.message : String(err)}`;
+    }
+  };
+  
   // 处理标签添加
   const handleAddTag = () => {
     if (tagInput.trim() && !template.tags.includes(tagInput.trim())) {
@@ -571,8 +646,18 @@ export default function EditTemplatePage() {
                   </label>
                   <div className="mb-2">
                     <p className="text-xs text-muted-foreground mb-2">
-                      您可以通过在基础提示词中添加 <code className="bg-muted rounded px-1">{"{user_prompt}"}</code> 来指定用户输入提示词的位置。
-                      不添加占位符时，用户提示词会默认添加在基础提示词之前。
+                      {template.prompt_slots.length > 0 ? (
+                        <>
+                          使用 <code className="bg-muted rounded px-1">{"{插槽名}"}</code> 引用下方声明的插槽，
+                          <code className="bg-muted rounded px-1">{"{mood|温暖}"}</code> 可指定默认值，
+                          方括号内为可选片段，如 <code className="bg-muted rounded px-1">{"[，背景：{background}]"}</code>，片段内插槽为空时整段省略。
+                        </>
+                      ) : (
+                        <>
+                          您可以通过在基础提示词中添加 <code className="bg-muted rounded px-1">{`{${FREE_TEXT_SLOT}}`}</code> 来指定用户输入提示词的位置。
+                          不添加占位符时，用户提示词会添加在基础提示词之后。声明插槽后创意广场会展示结构化表单。
+                        </>
+                      )}
                     </p>
                   </div>
                   <Textarea
@@ -580,20 +665,148 @@ export default function EditTemplatePage() {
                     name="base_prompt"
                     value={template.base_prompt}
                     onChange={handleInputChange}
-                    placeholder="输入基础提示词，例如：a photo of {user_prompt}, high quality, detailed"
+                    placeholder={template.prompt_slots.length > 0
+                      ? "例如：{subject}的肖像[，背景是{background}]，{mood|温暖}的氛围"
+                      : `输入基础提示词，例如：a photo of {${FREE_TEXT_SLOT}}, high quality, detailed`}
                     rows={4}
                   />
                   <div className="mt-2 p-3 bg-muted/30 rounded text-sm">
                     <p className="font-medium mb-1">预览效果：</p>
-                    <p className="text-muted-foreground text-xs">
-                      {template.base_prompt.includes("{user_prompt}") 
-                        ? template.base_prompt.replace("{user_prompt}", "<用户输入的提示词>") 
-                        : "<用户输入的提示词> " + template.base_prompt}
-                    </p>
+                    <p className="text-muted-foreground text-xs">{renderPreview()}</p>
                   </div>
                 </div>
               </CardContent>
             </Card>
+            
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-medium">提示词插槽</h2>
+                  <Button type="button" variant="secondary" size="sm" onClick={handleAddSlot}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    添加插槽
+                  </Button>
+                </div>
+                
+                {template.prompt_slots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    未声明插槽时，创意广场展示单个提示词输入框
+                  </p>
+                ) : (
+                  template.prompt_slots.map((slot, index) => (
+                    <div key={index} className="rounded-lg border p-4 space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <Input
+                          value={slot.name}
+                          onChange={(e) => updateSlot(index, { name: e.target.value.trim() })}
+                          placeholder="插槽名，如 subject"
+                        />
+                        <Input
+                          value={slot.label}
+                          onChange={(e) => updateSlot(index, { label: e.target.value })}
+                          placeholder="显示名称，如 主体"
+                        />
+                        <Select
+                          value={slot.type || "text"}
+                          onValueChange={(value) => updateSlot(index, { type: value as PromptSlotType })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="text">单行文本</SelectItem>
+                            <SelectItem value="textarea">多行文本</SelectItem>
+                            <SelectItem value="select">下拉选择</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <Input
+                          value={slot.default || ""}
+                          onChange={(e) => updateSlot(index, { default: e.target.value || undefined })}
+                          placeholder="默认值（可选）"
+                        />
+                        <Input
+                          value={slot.placeholder || ""}
+                          onChange={(e) => updateSlot(index, { placeholder: e.target.value || undefined })}
+                          placeholder="输入提示（可选）"
+                        />
+                      </div>
+                      {slot.type === "select" && (
+                        <Input
+                          value={(slot.options || []).join("，")}
+                          onChange={(e) => updateSlot(index, {
+                            options: e.target.value.split(/[,，]/).map(option => option.trim()).filter(Boolean)
+                          })}
+                          placeholder="可选值，用逗号分隔"
+                        />
+                      )}
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <label className="text-sm font-medium">必填</label>
+                          <Switch
+                            checked={!!slot.required}
+                            onCheckedChange={(checked: boolean) => updateSlot(index, { required: checked })}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => handleRemoveSlot(index)}
+                        >
+                          <Trash className="h-4 w-4 mr-2" />
+                          移除
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+            
+            <Card>
+              <CardContent className="p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-medium">多语言版本</h2>
+                  <Button type="button" variant="secondary" size="sm" onClick={handleAddVariant}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    添加语言
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  按用户浏览器语言选择模板文本（如 en、ja），未匹配时使用基础提示词
+                </p>
+                
+                {Object.entries(template.prompt_variants).map(([locale, text], index) => (
+                  <div key={index} className="space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={locale}
+                        onChange={(e) => updateVariant(locale, e.target.value.trim(), text)}
+                        placeholder="语言代码"
+                        className="w-32"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveVariant(locale)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      value={text}
+                      onChange={(e) => updateVariant(locale, locale, e.target.value)}
+                      rows={3}
+                    />
+                    <p className="text-muted-foreground text-xs">预览：{renderPreview(locale)}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
           </div>
           
           {/* 右侧预览 */}
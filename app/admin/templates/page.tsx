@@ -32,11 +32,22 @@ interface Template {
   prompt_required: boolean;
   tags: string[];
   status: string;
+  author_id?: string | null;
+  author_name?: string | null;
+  review_note?: string | null;
   created_at: string;
   updated_at: string;
   use_count: number;
 }
 
+// 模板状态显示
+const STATUS_LABELS: Record<string, string> = {
+  draft: "草稿",
+  pending: "待审核",
+  published: "已发布",
+  rejected: "未通过"
+};
+
 export default function AdminTemplatesPage() {
   const router = useRouter();
   
@@ -154,7 +165,7 @@ export default function AdminTemplatesPage() {
       const data = await response.json();
       
       if (data.success) {
-        toast.success(`已将模板"${data.data.name}"状态更新为${newStatus === "published" ? "已发布" : "草稿"}`);
+        toast.success(`已将模板"${data.data.name}"状态更新为${STATUS_LABELS[newStatus] || newStatus}`);
       } else {
         throw new Error(data.error || "更新状态失败");
       }
@@ -169,6 +180,42 @@ export default function AdminTemplatesPage() {
     }
   };
 
+  // 审核用户投稿
+  const handleReview = async (template: Template, decision: "approve" | "reject") => {
+    let note: string | null = "";
+    if (decision === "reject") {
+      note = prompt(`请填写驳回"${template.name}"的原因（作者可以看到）：`);
+      if (!note?.trim()) {
+        return;
+      }
+    }
+    
+    try {
+      setIsLoading(true);
+      
+      const response = await fetch(`/api/templates/${template.id}/review`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ decision, note })
+      });
+      const data = await response.json().catch(() => null);
+      
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `审核失败 (${response.status})`);
+      }
+      
+      toast.success(decision === "approve" ? `已通过"${template.name}"，模板已发布` : `已驳回"${template.name}"`);
+      await fetchTemplates();
+    } catch (err) {
+      console.error("审核模板失败:", err);
+      setError(err instanceof Error ? err.message : "审核模板失败");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // 处理删除
   const handleDelete = async (id: string) => {
     if (!confirm("确定要删除此模板吗？此操作不可撤销。")) {
@@ -251,8 +298,10 @@ export default function AdminTemplatesPage() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">全部状态</SelectItem>
+              <SelectItem value="pending">待审核</SelectItem>
               <SelectItem value="draft">草稿</SelectItem>
               <SelectItem value="published">已发布</SelectItem>
+              <SelectItem value="rejected">未通过</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -340,6 +389,14 @@ export default function AdminTemplatesPage() {
                     <div className="text-sm text-muted-foreground line-clamp-1">
                       {template.description}
                     </div>
+                    <div className="text-xs text-muted-foreground">
+                      {template.author_id ? `投稿：${template.author_name || "用户"}` : "官方模板"}
+                    </div>
+                    {template.status === "rejected" && template.review_note && (
+                      <div className="text-xs text-destructive line-clamp-1">
+                        驳回原因：{template.review_note}
+                      </div>
+                    )}
                   </td>
                   <td className="p-3">
                     <div className="flex flex-wrap gap-1">
@@ -361,9 +418,9 @@ export default function AdminTemplatesPage() {
                   <td className="p-3">{template.use_count}</td>
                   <td className="p-3">
                     <Badge
-                      variant={template.status === "published" ? "default" : "outline"}
+                      variant={template.status === "published" ? "default" : template.status === "pending" ? "secondary" : "outline"}
                     >
-                      {template.status === "published" ? "已发布" : "草稿"}
+                      {STATUS_LABELS[template.status] || template.status}
                     </Badge>
                   </td>
                   <td className="p-3">
@@ -390,7 +447,28 @@ export default function AdminTemplatesPage() {
                           <span className="sr-only">编辑</span>
                         </Link>
                       </Button>
-                      {template.status === "published" ? (
+                      {template.status === "pending" ? (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleReview(template, "approve")}
+                            className="h-8 w-8 text-green-500"
+                          >
+                            <Check className="h-4 w-4" />
+                            <span className="sr-only">审核通过</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleReview(template, "reject")}
+                            className="h-8 w-8 text-amber-500"
+                          >
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">驳回</span>
+                          </Button>
+                        </>
+                      ) : template.status === "published" ? (
                         <Button
                           variant="ghost"
                           size="icon"
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { listAuditLogs } from '@/utils/roles/auditLog';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 查询特权操作审计日志
+ * 查询参数: limit、offset、action、resourceType、actorId
+ */
+export async function GET(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    const logs = await listAuditLogs({
+      limit: parseInt(searchParams.get('limit') || '50', 10) || 50,
+      offset: parseInt(searchParams.get('offset') || '0', 10) || 0,
+      action: searchParams.get('action') || undefined,
+      resourceType: searchParams.get('resourceType') || undefined,
+      actorId: searchParams.get('actorId') || undefined
+    });
+
+    return NextResponse.json({ success: true, logs });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reconcileCreditLedger } from "@/utils/credits/taskCredits";
+import { requireRole, roleGuardResponse } from "@/utils/roles/roles";
+import { recordAuditLog } from "@/utils/roles/auditLog";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 点数对账
+ * 查询参数 userId 可选，为空时检查全部用户，返回余额与账本之和不一致的用户；仅管理员可用
+ */
+export async function GET(req: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  const userId = req.nextUrl.searchParams.get('userId') || undefined;
+
+  try {
+    const mismatches = await reconcileCreditLedger(userId);
+
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'credits.reconcile',
+      resourceType: 'credit_ledger',
+      resourceId: userId || null,
+      metadata: { mismatches: mismatches.length }
+    }, req);
+
+    return NextResponse.json({
+      success: true,
+      balanced: mismatches.length === 0,
+      mismatches
+    });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listImageProviders, providerCircuitBreaker } from "@/utils/imageProviders";
+import { requireRole, roleGuardResponse } from "@/utils/roles/roles";
+import { recordAuditLog } from "@/utils/roles/auditLog";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 查看各图像提供商的配置与熔断状态
+ * 熔断状态保存在实例内存中，仅反映处理本次请求的实例；仅管理员可查看
+ */
+export async function GET(req: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  const snapshot = providerCircuitBreaker.getSnapshot();
+
+  const providers = listImageProviders().map(provider => {
+    const circuit = snapshot.find(item => item.provider === provider.id);
+    return {
+      id: provider.id,
+      name: provider.displayName,
+      model: provider.model,
+      configured: provider.isConfigured(),
+      state: circuit?.state || 'closed',
+      failureRate: circuit?.failureRate || 0,
+      recentRequests: circuit?.requests || 0,
+      openedAt: circuit?.openedAt ? new Date(circuit.openedAt).toISOString() : null
+    };
+  });
+
+  await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+    action: 'provider_health.view',
+    resourceType: 'image_provider'
+  }, req);
+
+  return NextResponse.json({ success: true, providers });
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import {
+  requireRole,
+  roleGuardResponse,
+  setUserRole,
+  isUserRole,
+  RoleValidationError
+} from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出拥有编辑或管理员角色的用户
+ */
+export async function GET() {
+  const guard = await requireRole('admin');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('user_id, role, granted_by, created_at, updated_at')
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ success: false, error: `查询角色失败: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true, roles: data || [] });
+}
+
+/**
+ * 设置用户角色
+ * 请求体: { userId, role }，role 为 user 时撤销特权
+ */
+export async function PUT(request: NextRequest) {
+  const guard = await requireRole('admin');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { userId, role } = body as { userId?: string; role?: string };
+
+    if (!userId || typeof userId !== 'string') {
+      return NextResponse.json({ success: false, error: '缺少用户ID' }, { status: 400 });
+    }
+
+    if (!isUserRole(role)) {
+      throw new RoleValidationError(`无效的角色: ${role}`);
+    }
+
+    // 避免管理员误操作后无人可以管理角色
+    if (userId === guard.user.id && role !== 'admin') {
+      throw new RoleValidationError('不能降低自己的角色');
+    }
+
+    const previousRole = await setUserRole(userId, role, guard.user.id);
+
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'role.update',
+      resourceType: 'user',
+      resourceId: userId,
+      metadata: { from: previousRole, to: role }
+    }, request);
+
+    return NextResponse.json({ success: true, userId, role, previousRole });
+  } catch (error) {
+    if (error instanceof RoleValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import {
+  addAlbumItems,
+  AlbumValidationError,
+  removeAlbumItems,
+  reorderAlbumItems
+} from '@/utils/albums/albums';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ albumId: string }> };
+
+/**
+ * 读取请求并执行相册图片操作，统一处理鉴权和错误
+ */
+async function handleItems(
+  request: NextRequest,
+  context: RouteContext,
+  action: (userId: string, albumId: string, historyIds: unknown) => Promise<Record<string, any> | boolean | null>
+) {
+  const { albumId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const result = await action(user.id, albumId, body?.historyIds);
+    if (!result) {
+      return NextResponse.json({ success: false, error: '相册不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, ...(typeof result === 'object' ? result : {}) });
+  } catch (error) {
+    if (error instanceof AlbumValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 把图片加入相册
+ * 请求体: { historyIds }，已在相册中的图片会被跳过
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  return handleItems(request, context, addAlbumItems);
+}
+
+/**
+ * 从相册移出图片
+ * 请求体: { historyIds }
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  return handleItems(request, context, removeAlbumItems);
+}
+
+/**
+ * 调整相册中图片的顺序
+ * 请求体: { historyIds }，按显示顺序排列
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  return handleItems(request, context, reorderAlbumItems);
+}
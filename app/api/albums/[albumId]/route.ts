@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import {
+  AlbumValidationError,
+  deleteAlbum,
+  getAlbum,
+  listAlbumItems,
+  updateAlbum
+} from '@/utils/albums/albums';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ albumId: string }> };
+
+/**
+ * 相册详情和其中的图片
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { albumId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const [album, items] = await Promise.all([
+      getAlbum(user.id, albumId),
+      listAlbumItems(user.id, albumId)
+    ]);
+    if (!album || !items) {
+      return NextResponse.json({ success: false, error: '相册不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, album, items });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 修改相册
+ * 请求体: { name?, description?, coverHistoryId? }
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { albumId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const album = await updateAlbum(user.id, albumId, {
+      name: body?.name,
+      description: body?.description,
+      coverHistoryId: body?.coverHistoryId
+    });
+    if (!album) {
+      return NextResponse.json({ success: false, error: '相册不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, album });
+  } catch (error) {
+    if (error instanceof AlbumValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 删除相册，图片仍保留在历史记录中
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { albumId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteAlbum(user.id, albumId);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: '相册不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { AlbumValidationError, reorderAlbums } from '@/utils/albums/albums';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 调整相册顺序
+ * 请求体: { albumIds }，按显示顺序排列
+ */
+export async function PUT(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    await reorderAlbums(user.id, body?.albumIds);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AlbumValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { AlbumValidationError, createAlbum, listAlbums } from '@/utils/albums/albums';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出当前用户的相册
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const albums = await listAlbums(user.id);
+    return NextResponse.json({ success: true, albums });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 创建相册
+ * 请求体: { name, description? }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const album = await createAlbum(user.id, {
+      name: body?.name,
+      description: body?.description
+    });
+    return NextResponse.json({ success: true, album }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AlbumValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { revokeApiKey } from '@/utils/apiKeys/apiKeys';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 吊销API密钥，吊销后立即失效且不可恢复
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ keyId: string }> }
+) {
+  const { keyId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const revoked = await revokeApiKey(user.id, keyId);
+    if (!revoked) {
+      return NextResponse.json({ success: false, error: '密钥不存在或已吊销' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { ApiKeyValidationError, createApiKey, listApiKeys } from '@/utils/apiKeys/apiKeys';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出当前用户的API密钥（不含明文和哈希）
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const keys = await listApiKeys(user.id);
+    return NextResponse.json({ success: true, keys });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 创建API密钥
+ * 请求体: { name, scopes?, expiresInDays? }，明文密钥只在此处返回一次
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const { apiKey, key } = await createApiKey(user.id, {
+      name: body?.name,
+      scopes: body?.scopes,
+      expiresInDays: body?.expiresInDays
+    });
+    return NextResponse.json({ success: true, apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiKeyValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { createClient } from '@/utils/supabase/server';
 import { createAdminClient } from '@/utils/supabase/admin';
 import { NextRequest, NextResponse } from 'next/server';
+import { ensureUserCredits, INITIAL_CREDITS } from '@/utils/credits/taskCredits';
 
 // 创建内存缓存
 const CACHE = new Map<string, {credits: number, timestamp: number}>();
@@ -133,24 +134,14 @@ export async function GET(request: NextRequest) {
     if (!creditsData || creditsError) {
       console.log(`[Credits API] 用户 ${userId} 点数记录不存在或查询错误，尝试创建新记录`);
       
-      // 使用管理员客户端创建记录
-      const adminClient = await createAdminClient();
-      const { data: newCredits, error: insertError } = await adminClient
-        .from('ai_images_creator_credits')
-        .insert({
-          user_id: userId,
-          credits: 5,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        })
-        .select('credits')
-        .single();
+      // 通过账本发放初始点数
+      const ensuredCredits = await ensureUserCredits(userId);
       
-      if (insertError) {
-        console.error(`[Credits API] 创建用户 ${userId} 点数记录失败:`, insertError);
+      if (ensuredCredits === null) {
+        console.error(`[Credits API] 创建用户 ${userId} 点数记录失败`);
         // 即使创建失败，也返回默认点数，确保前端可以显示
         return NextResponse.json(
-          { success: true, credits: 5 },
+          { success: true, credits: INITIAL_CREDITS },
           { 
             status: 200,
             headers: { 
@@ -161,7 +152,7 @@ export async function GET(request: NextRequest) {
         );
       }
       
-      const credits = newCredits?.credits || 5;
+      const credits = ensuredCredits;
       
       // 更新缓存
       CACHE.set(userId, {
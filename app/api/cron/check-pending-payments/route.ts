@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient, createTransactionalAdminClient } from '@/utils/supabase/admin';
+import { creditPaymentOrder } from '@/utils/credits/taskCredits';
 
 /**
  * 定时任务API，用于检查未完成的支付订单
@@ -100,73 +101,18 @@ export async function GET(request: NextRequest) {
           
           // 3. 处理查询结果
           if (shouldMarkAsSuccess) {
-            // 查询用户当前点数
-            const { data: creditData, error: creditQueryError } = await client
-              .from('ai_images_creator_credits')
-              .select('credits')
-              .eq('user_id', order.user_id)
-              .single();
-            
-            let currentCredits = 0;
-            let isNewCreditRecord = false;
-            
-            // 处理用户可能没有点数记录的情况
-            if (creditQueryError) {
-              if (creditQueryError.code === 'PGRST116') {
-                // 创建新的点数记录
-                isNewCreditRecord = true;
-                const { error: insertError } = await client
-                  .from('ai_images_creator_credits')
-                  .insert({
-                    user_id: order.user_id,
-                    credits: order.credits,
-                    created_at: new Date().toISOString(),
-                    updated_at: new Date().toISOString(),
-                    last_order_no: order.order_no
-                  });
-                
-                if (insertError) {
-                  throw new Error(`创建用户点数记录失败: ${insertError.message}`);
-                }
-              } else {
-                throw new Error(`查询用户点数失败: ${creditQueryError.message}`);
-              }
-            } else {
-              // 用户已有点数记录，更新点数
-              currentCredits = creditData.credits;
-              const newCredits = currentCredits + order.credits;
-              
-              const { error: updateCreditError } = await client
-                .from('ai_images_creator_credits')
-                .update({
-                  credits: newCredits,
-                  updated_at: new Date().toISOString(),
-                  last_order_no: order.order_no
-                })
-                .eq('user_id', order.user_id);
-                
-              if (updateCreditError) {
-                throw new Error(`更新用户点数失败: ${updateCreditError.message}`);
-              }
+            // 通过账本增加点数，订单已入账时不会重复增加
+            const creditResult = await creditPaymentOrder(
+              order.user_id,
+              order.order_no,
+              order.credits,
+              `自动检查充值${order.credits}点`
+            );
+            if (!creditResult.success) {
+              throw new Error(`增加用户点数失败: ${creditResult.error}`);
             }
             
-            // 记录点数变更日志
-            const { error: logInsertError } = await client
-              .from('ai_images_creator_credit_logs')
-              .insert({
-                user_id: order.user_id,
-                order_no: order.order_no,
-                operation_type: 'recharge',
-                old_value: currentCredits,
-                change_value: order.credits,
-                new_value: currentCredits + order.credits,
-                created_at: new Date().toISOString(),
-                note: `自动检查充值${order.credits}点`
-              });
-              
-            if (logInsertError) {
-              throw new Error(`创建点数变更日志失败: ${logInsertError.message}`);
-            }
+            const newCredits = creditResult.credits as number;
             
             // 更新订单标记
             const { error: updateMarkError } = await client
@@ -212,10 +158,9 @@ export async function GET(request: NextRequest) {
             return {
               order_no: order.order_no,
               status: 'success',
-              oldCredits: currentCredits,
+              oldCredits: newCredits - order.credits,
               addedCredits: order.credits,
-              newCredits: currentCredits + order.credits,
-              isNewCreditRecord
+              newCredits
             };
           } else {
             // 订单仍为pending状态，不做处理
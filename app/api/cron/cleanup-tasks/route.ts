@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createAdminClient } from '@/utils/supabase/admin';
+import { releaseTaskCredits } from '@/utils/credits/taskCredits';
+import { purgeRateLimitState } from '@/utils/rateLimit/postgresRateLimitStore';
 
 // 设置任务超时时间
 const TASK_TIMEOUT_HOURS = 12; // 12小时超时
@@ -33,7 +35,7 @@ export async function GET(request: Request) {
     // 获取所有超时任务
     const { data: timeoutTasks, error: timeoutError } = await supabase
       .from('image_tasks')
-      .select('id')
+      .select('id, task_id')
       .in('status', ['pending', 'processing'])
       .lt('created_at', timeoutTimestamp)
       .limit(100);
@@ -65,6 +67,11 @@ export async function GET(request: Request) {
         console.error(`更新超时任务失败: ${updateError.message}`);
       } else {
         cleanedTasksCount = timeoutTasks.length;
+
+        // 退还超时任务预留的点数
+        for (const task of timeoutTasks) {
+          await releaseTaskCredits(task.task_id, `任务超时(${TASK_TIMEOUT_HOURS}小时)`);
+        }
       }
     } else {
       console.log('没有超时任务需要清理');
@@ -92,7 +99,15 @@ export async function GET(request: Request) {
       console.log(`已清理 ${cleanedHistoryCount} 条旧的失败任务记录`);
     }
     
-    // 3. 可选：清理太旧的历史记录（如果需要）
+    // 3. 清理过期的速率限制计数
+    let purgedRateLimitRows = 0;
+    try {
+      purgedRateLimitRows = await purgeRateLimitState();
+    } catch (purgeError) {
+      console.error(purgeError instanceof Error ? purgeError.message : String(purgeError));
+    }
+    
+    // 4. 可选：清理太旧的历史记录（如果需要）
     // 保留 30 天内的历史记录，更早的可以被清理
     // 注意：这部分是可选的，取决于您的数据保留策略
     
@@ -114,7 +129,8 @@ export async function GET(request: Request) {
     return NextResponse.json({
       message: '清理完成',
       cleanedTasks: cleanedTasksCount,
-      cleanedHistoryRecords: cleanedHistoryCount
+      cleanedHistoryRecords: cleanedHistoryCount,
+      purgedRateLimitRows
     });
     
   } catch (error) {
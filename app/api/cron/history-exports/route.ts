@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { processPendingExports, purgeExpiredExports } from '@/utils/history/historyExport';
+
+// 日志工具函数
+const logger = {
+  error: (message: string) => {
+    console.error(`[Cron任务错误] ${message}`);
+  },
+  info: (message: string) => {
+    console.log(`[Cron任务] ${message}`);
+  }
+};
+
+/**
+ * 定时处理历史导出任务：每个任务每次打包一个分卷，并清理过期的导出文件
+ */
+export async function GET(request: Request) {
+  try {
+    // 检查Secret Key
+    const url = new URL(request.url);
+    const key = url.searchParams.get('key');
+    const cronSecret = process.env.CRON_SECRET || 'development-key';
+    const authHeader = request.headers.get('authorization');
+
+    // 在生产环境中验证Secret Key（Vercel Cron通过Authorization头携带CRON_SECRET）
+    if (
+      process.env.NODE_ENV === 'production' &&
+      key !== cronSecret &&
+      authHeader !== `Bearer ${cronSecret}`
+    ) {
+      logger.error('Cron任务密钥无效');
+      return NextResponse.json(
+        { error: '访问被拒绝' },
+        { status: 403 }
+      );
+    }
+
+    const result = await processPendingExports();
+    const purged = await purgeExpiredExports();
+    logger.info(`导出任务处理完成: 处理${result.processed}个，完成${result.completed}个，失败${result.failed}个，清理过期${purged}个`);
+
+    return NextResponse.json({ success: true, ...result, purged });
+  } catch (error) {
+    logger.error(`处理导出任务失败: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json(
+      { success: false, error: '处理导出任务失败' },
+      { status: 500 }
+    );
+  }
+}
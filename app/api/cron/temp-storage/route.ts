@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { migrateLegacyTaskInputs } from '@/utils/imageTasks/taskInputImages';
+import { purgeExpiredTempFiles } from '@/utils/storage/tempFiles';
+
+// 日志工具函数
+const logger = {
+  error: (message: string) => {
+    console.error(`[Cron任务错误] ${message}`);
+  },
+  info: (message: string) => {
+    console.log(`[Cron任务] ${message}`);
+  }
+};
+
+/**
+ * 定时清理临时存储：按 tempFileTTL 删除过期的临时文件，并把旧任务中的base64图片分批迁移到存储
+ */
+export async function GET(request: Request) {
+  try {
+    // 检查Secret Key
+    const url = new URL(request.url);
+    const key = url.searchParams.get('key');
+    const cronSecret = process.env.CRON_SECRET || 'development-key';
+    const authHeader = request.headers.get('authorization');
+
+    // 在生产环境中验证Secret Key（Vercel Cron通过Authorization头携带CRON_SECRET）
+    if (
+      process.env.NODE_ENV === 'production' &&
+      key !== cronSecret &&
+      authHeader !== `Bearer ${cronSecret}`
+    ) {
+      logger.error('Cron任务密钥无效');
+      return NextResponse.json(
+        { error: '访问被拒绝' },
+        { status: 403 }
+      );
+    }
+
+    const purged = await purgeExpiredTempFiles();
+    const legacy = await migrateLegacyTaskInputs();
+    logger.info(`临时存储清理完成: 删除过期文件${purged}个，迁移旧任务图片${legacy.migrated}个，失败${legacy.failed}个`);
+
+    return NextResponse.json({ success: true, purged, legacy });
+  } catch (error) {
+    logger.error(`清理临时存储失败: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json(
+      { success: false, error: '清理临时存储失败' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { refreshTrendingScores } from '@/utils/templates/templateEngagement';
+
+// 日志工具函数
+const logger = {
+  error: (message: string) => {
+    console.error(`[Cron任务错误] ${message}`);
+  },
+  info: (message: string) => {
+    console.log(`[Cron任务] ${message}`);
+  }
+};
+
+/**
+ * 定时重新计算创意广场模板的热门分数
+ */
+export async function GET(request: Request) {
+  try {
+    // 检查Secret Key
+    const url = new URL(request.url);
+    const key = url.searchParams.get('key');
+    const cronSecret = process.env.CRON_SECRET || 'development-key';
+    const authHeader = request.headers.get('authorization');
+
+    // 在生产环境中验证Secret Key（Vercel Cron通过Authorization头携带CRON_SECRET）
+    if (
+      process.env.NODE_ENV === 'production' &&
+      key !== cronSecret &&
+      authHeader !== `Bearer ${cronSecret}`
+    ) {
+      logger.error('Cron任务密钥无效');
+      return NextResponse.json(
+        { error: '访问被拒绝' },
+        { status: 403 }
+      );
+    }
+
+    const updated = await refreshTrendingScores();
+    logger.info(`热门分数已更新，${updated}个模板分数有变化`);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    logger.error(`计算热门分数失败: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json(
+      { success: false, error: '计算热门分数失败' },
+      { status: 500 }
+    );
+  }
+}
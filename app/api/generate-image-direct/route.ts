@@ -1,8 +1,6 @@
 import { NextRequest } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { createAdminClient } from '@/utils/supabase/admin';
-import { OpenAI } from 'openai';
-import { getApiConfig } from '@/utils/env';
 import { addBase64Prefix, compressImageServer, image2Base64 } from '@/utils/image/image2Base64';
 import dns from 'dns';
 import https from 'https';
@@ -10,14 +8,8 @@ import http from 'http';
 import fs from 'fs';
 import { uploadImageToStorage, cleanupTemporaryImage, ensureImageUrl } from '../../../utils/image/uploadImageToStorage';
 import { createLogger, createSafeSummary } from '../../../utils/logger';
-
-// 定义TuziConfig类型
-interface TuziConfig {
-  apiUrl: string;
-  apiKey: string;
-  model: string;
-  isConfigComplete: boolean;
-}
+import { quoteImageGeneration, resolveImageSize, selectImageProvider } from '@/utils/imageProviders';
+import { captureTaskCredits, ensureUserCredits, releaseTaskCredits, reserveTaskCredits } from '@/utils/credits/taskCredits';
 
 // 设置日志级别常量
 const LOG_LEVELS = {
@@ -48,32 +40,9 @@ let isProcessing = false;
 // 缓存图资支持的模型列表
 let cachedTuziModels: string[] | null = null;
 
-// 设置网络请求配置 - 调整为适配Vercel Pro的超时时间
-const API_TIMEOUT = 270000; // 270秒，给Vercel平台留出30秒处理开销
-
 // 延时函数
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// 创建图资API客户端
-function createTuziClient() {
-  // 获取环境配置
-  const apiConfig = getApiConfig('tuzi') as TuziConfig;
-  
-  // 优先使用环境变量中的配置
-  const apiKey = apiConfig.apiKey || process.env.OPENAI_API_KEY;
-  const baseURL = apiConfig.apiUrl || process.env.OPENAI_BASE_URL || "https://api.tu-zi.com/v1/chat/completions";
-  
-  logger.info(`创建图资API客户端，使用BASE URL: ${baseURL}，模型: ${process.env.OPENAI_MODEL || 'gpt-4o-image-vip'}，超时: ${API_TIMEOUT}ms`);
-  
-  // 返回配置的客户端 - 使用图资API
-  return new OpenAI({
-    apiKey: apiKey,
-    baseURL: baseURL,
-    defaultQuery: { model: process.env.OPENAI_MODEL || 'gpt-4o-image-vip' },
-    timeout: API_TIMEOUT
-  });
-}
-
 // 内容政策违规检测结果类型
 interface ContentPolicyViolation {
   detected: boolean;  // 是否检测到违规
@@ -192,89 +161,6 @@ function getSuggestionForPrompt(promptText: string, styleText: string | null): s
   return `建议: ${suggestions.join("; ")}`;
 }
 
-// 从API响应内容中提取URL
-function extractUrlFromContent(content: string): string | null {
-  try {
-    // 尝试匹配常见URL模式
-    const urlPatterns = [
-      /(https?:\/\/[^\s'"()<>]+)/, // 基本URL
-      /(https?:\/\/[^\s'"]+)/, // 更宽松的URL
-      /\b(https?:\/\/\S+)/, // 非空格的URL
-      /\[(https?:\/\/[^\]]+)\]/, // 方括号中的URL
-      /"(https?:\/\/[^"]+)"/, // 双引号中的URL
-      /'(https?:\/\/[^']+)'/, // 单引号中的URL
-      /链接[:：]\s*(https?:\/\/\S+)/, // 中文标记的URL
-      /URL[:：]\s*(https?:\/\/\S+)/, // URL标记
-      /image:?\s*(https?:\/\/\S+)/, // image标记
-      /源文件[地址链接]?[为是:：]\s*(https?:\/\/\S+)/ // 中文描述的图片URL
-    ];
-    
-    // 尝试所有模式
-    for (const pattern of urlPatterns) {
-      const match = content.match(pattern);
-      if (match && match[1]) {
-        let extractedUrl = match[1].trim();
-        
-        // 记录匹配的模式和原始URL
-        logger.info(`匹配到URL模式: ${pattern}, 原始URL: ${extractedUrl}`);
-        
-        // 清理URL
-        if (extractedUrl.endsWith(')') && !extractedUrl.includes('(')) {
-          extractedUrl = extractedUrl.slice(0, -1);
-        }
-        
-        // 删除尾部特殊字符
-        extractedUrl = extractedUrl.replace(/[.,;:!?)]$/, '');
-        
-        // 删除其他可能的无效字符
-        extractedUrl = extractedUrl.replace(/["'<>{}]/, '');
-        
-        // 日志记录清理后的URL
-        logger.info(`提取到URL: ${extractedUrl}`);
-        
-        // 返回清理后的URL
-        return extractedUrl;
-      }
-    }
-    
-    // 如果没有找到URL，记录整个内容以便分析
-    logger.warn(`无法从内容中提取URL，完整内容: ${content.substring(0, 500)}...`);
-    return null;
-  } catch (error) {
-    logger.error(`URL提取过程中出错: ${error instanceof Error ? error.message : String(error)}`);
-    return null;
-  }
-}
-
-// 添加getImageSize函数，根据纵横比返回合适的图像尺寸
-function getImageSize(aspectRatio: string | null): "1024x1024" | "1792x1024" | "1024x1792" | "512x512" | "256x256" {
-  if (!aspectRatio) return '1024x1024'; // 默认正方形
-  
-  // 标准尺寸对应表 - 只使用OpenAI支持的尺寸
-  if (aspectRatio?.includes('16:9') || aspectRatio?.includes('1.78')) {
-    return '1792x1024'; // 宽屏 16:9
-  } else if (aspectRatio?.includes('9:16') || aspectRatio?.includes('0.56')) {
-    return '1024x1792'; // 竖屏 9:16
-  }
-  
-  // 如果是自定义比例，尝试解析并适配到最接近的标准尺寸
-  try {
-    if (aspectRatio?.includes(':')) {
-      const [width, height] = aspectRatio.split(':').map(Number);
-      const ratio = width / height;
-      
-      if (ratio > 1.2) return '1792x1024'; // 宽屏比例
-      if (ratio < 0.8) return '1024x1792'; // 竖屏比例
-      return '1024x1024'; // 接近正方形
-    }
-  } catch (e) {
-    console.error('解析自定义比例失败:', e);
-  }
-  
-  // 默认返回正方形
-  return '1024x1024';
-}
-
 // 直接生成图像API - 按照tuzi-openai.md重写
 export async function POST(request: NextRequest) {
   let useBackupStrategy = false; // 标记是否使用备用策略
@@ -362,81 +248,41 @@ export async function POST(request: NextRequest) {
       originalAspectRatio = aspectRatio;
     }
     
-    // 检查用户点数
-    const { data: userCredits, error: creditsError } = await supabase
-      .from('ai_images_creator_credits')
-      .select('credits')
-      .eq('user_id', user.id)
-      .single();
+    // 选择图像提供商并按计费表计算所需点数
+    const provider = selectImageProvider(body.provider);
+    const taskCost = quoteImageGeneration(provider, {
+      size: resolveImageSize(originalAspectRatio),
+      hasReferenceImage: !!imageContent,
+      style
+    }).credits;
     
-    if (creditsError) {
-      logger.warn(`检查用户点数失败: ${creditsError.message}`);
-      
-      // 如果用户没有点数记录，创建一个初始记录
-      if (creditsError.code === 'PGRST116') {
-        const supabaseAdmin = await createAdminClient();
-        await supabaseAdmin
-          .from('ai_images_creator_credits')
-          .insert({
-            user_id: user.id,
-            credits: 5, // 初始赠送5点
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          });
-          
-        // 重新检查点数
-        const { data: newUserCredits, error: newCreditsError } = await supabase
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', user.id)
-          .single();
-          
-        if (newCreditsError || !newUserCredits || newUserCredits.credits <= 0) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: '点数不足，无法生成图片' 
-          }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
-      } else {
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: '获取用户点数失败' 
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
+    // 新用户通过账本发放初始点数
+    if (await ensureUserCredits(user.id) === null) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: '获取用户点数失败' 
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
     
-    // 检查点数是否足够
-    if (userCredits && userCredits.credits <= 0) {
+    // 预留用户点数，生成成功后确认，失败时退还
+    const creditTaskId = `direct-${crypto.randomUUID()}`;
+    const reservation = await reserveTaskCredits(user.id, creditTaskId, taskCost, '直接生成图片');
+    
+    if (reservation.insufficient) {
       return new Response(JSON.stringify({ 
         success: false, 
-        error: '点数不足，无法生成图片' 
+        error: `点数不足，本次生成需要${taskCost}点` 
       }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
     
-    // 创建图资API客户端
-    const tuziClient = createTuziClient();
-    
-    // 扣除用户点数
-    const supabaseAdmin = await createAdminClient();
-    const { error: deductError } = await supabaseAdmin
-      .from('ai_images_creator_credits')
-      .update({
-        credits: userCredits ? userCredits.credits - 1 : 4, // 如果没有点数记录，使用默认值4
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', user.id);
-    
-    if (deductError) {
-      logger.error(`扣除用户点数失败: ${deductError.message}`);
+    if (!reservation.success) {
+      logger.error(`预留用户点数失败: ${reservation.error}`);
       return new Response(JSON.stringify({ 
         success: false, 
         error: '扣除点数失败' 
@@ -446,7 +292,7 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    logger.info(`已扣除用户 ${user.id} 的1个点数，开始生成图片`);
+    logger.info(`已扣除用户 ${user.id} 的${taskCost}个点数，开始生成图片`);
     
     try {
       // 处理图片内容 - 支持文件路径或base64
@@ -518,352 +364,99 @@ export async function POST(request: NextRequest) {
         }
       }
       
-      // 两阶段图像处理实现
-      // 阶段1: 获取初始响应和gen_id
-      // 阶段2: 使用gen_id处理用户图片
-
-      logger.info('启动两阶段图像处理流程');
-      
-      // 阶段1: 获取gen_id
-      // 构建初始消息
-      const initialMessages: any[] = [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ];
-      
-      // 记录初始请求信息
-      logger.info('阶段1: 发送初始请求获取gen_id');
-      logger.debug(`初始提示词: ${prompt.substring(0, 100)}`);
-      
-      // 发送初始请求
-      const initialResponse = await tuziClient.chat.completions.create({
-        model: 'gpt-4o-image-vip',
-        messages: initialMessages,
-        stream: false,
-        user: `${user.id}_init`
-      });
-      
-      // 从响应中提取gen_id
-      let genId: string | null = null;
-      if (initialResponse?.choices?.[0]?.message?.content) {
-        const content = initialResponse.choices[0].message.content;
-        // 匹配gen_id格式
-        const genIdMatch = content.match(/gen_id: `([^`]+)`/);
-        if (genIdMatch && genIdMatch[1]) {
-          genId = genIdMatch[1];
-          logger.info(`成功获取gen_id: ${genId}`);
-        } else {
-          logger.warn('无法从初始响应中提取gen_id，将尝试继续但可能不成功');
-          logger.debug(`响应内容前200字符: ${content.substring(0, 200)}`);
-        }
-      } else {
-        logger.error('初始响应不包含有效内容');
-        throw new Error('无法获取初始响应，请稍后重试');
-      }
+      // 选择图像提供商，参考图优先使用URL格式
+      const referenceImage = imageUrl || base64Image;
+      const generationRequest = {
+        prompt: prompt || '生成图像',
+        size: resolveImageSize(originalAspectRatio),
+        aspectRatio: originalAspectRatio,
+        userId: user.id
+      };
       
-      // 确保图片已上传到存储服务获取URL
-      if (base64Image && !imageUrl) {
-        logger.info('上传用户图片到存储服务');
-        try {
-          imageUrl = await uploadImageToStorage(base64Image, user.id);
-          temporaryImageUrl = imageUrl; // 标记为临时，以便后续清理
-          logger.info('图片上传成功');
-        } catch (uploadError) {
-          logger.warn(`图片上传失败: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`);
-          logger.info('将使用原始base64数据继续');
-        }
-      }
+      logger.info(`使用提供商 ${provider.id} 生成图片(${referenceImage ? (imageUrl ? '参考图URL模式' : '参考图base64模式') : '文本模式'})`);
       
-      // 阶段2: 使用gen_id处理用户图片
-      if (genId && (base64Image || imageUrl)) {
-        logger.info(`阶段2: 使用gen_id处理用户图片(${imageUrl ? 'URL模式' : 'base64模式'})`);
-        
+      try {
+        let result;
         try {
-          const imageDataContent: any = {
-            prompt,
-            ratio: aspectRatio || "1:1",
-            gen_id: genId,
-            preserve_content: true,
-            keep_subject: true
-          };
-          
-          // 优先使用URL格式，仅在无法获取URL时才使用base64
-          if (imageUrl) {
-            imageDataContent.image_url = imageUrl;
-            logger.info('在第二阶段使用图片URL传递图片数据');
-          } else if (base64Image) {
-            imageDataContent.image = base64Image;
-            logger.info('在第二阶段使用base64传递图片数据');
-            // 记录base64长度但不记录内容
-            logger.debug(`base64数据长度: ${base64Image.length}字符`);
-          }
-          
-          // 避免记录完整消息内容（可能包含大量base64），仅记录部分
-          logger.debug(`第二阶段请求数据: ${JSON.stringify({
-            ...imageDataContent,
-            image: imageDataContent.image ? '[图片数据已省略]' : undefined,
-          })}`);
-          
-          // 发送编辑请求
-          const editResponse = await tuziClient.chat.completions.create({
-            model: 'gpt-4o-image-vip',
-            messages: [
-              {
-                role: 'system',
-                content: [
-                  {
-                    type: 'text',
-                    text: '你是一个先进的图像生成系统，能够根据图片和文字提示生成图像。请精确保持参考图片中的主要内容、人物和场景，尽量不要改变背景或添加额外元素，除非提示词明确要求。'
-                  }
-                ]
-              },
-              {
-                role: 'user',
-                content: imageDataContent
-              }
-            ],
-            stream: false,
-            user: `${user.id}_edit`,
-            temperature: 0.1
-          });
-          
-          // 从编辑响应中提取图片URL
-          let resultImageUrl = '';
-          if (editResponse?.choices?.[0]?.message?.content) {
-            const content = editResponse.choices[0].message.content;
-            
-            // 尝试多种模式提取URL
-            let urlMatch = content.match(/!\[.*?\]\((https:\/\/[^)]+)\)/); // Markdown格式
-            
-            if (!urlMatch) {
-              // 尝试直接URL提取
-              urlMatch = content.match(/(https?:\/\/[^\s"'<>]+\.(png|jpg|jpeg|gif|webp))/i);
-            }
-            
-            if (urlMatch && urlMatch[1]) {
-              resultImageUrl = urlMatch[1];
-              logger.info(`成功从编辑响应中提取图片URL`);
-            } else {
-              logger.error(`无法从编辑响应中提取图片URL: ${content.substring(0, 200)}...`);
-              throw new Error('API返回的响应中不包含有效的图片URL');
-            }
-          } else {
-            logger.error(`编辑响应不包含有效的消息内容`);
-            throw new Error('API返回的响应格式不正确');
+          result = referenceImage
+            ? await provider.editWithReference({ ...generationRequest, referenceImage })
+            : await provider.generate(generationRequest);
+        } catch (firstError) {
+          // 如果错误与超时有关，使用简化的提示词重试一次
+          if (!(firstError instanceof Error) ||
+              !(firstError.message.includes('timeout') || firstError.message.includes('超时') ||
+                (Date.now() - startTime) > 180000)) {
+            throw firstError;
           }
-
-          logger.info(`图像处理完成，总用时: ${(Date.now() - startTime)/1000}秒`);
-          
-          // 保存历史记录
-          await saveGenerationHistory(user.id, prompt, resultImageUrl, style || null, originalAspectRatio || null, useStandardRatio || null);
-          
-          const endTime = Date.now();
-          const duration = endTime - startTime;
-          
-          logger.info(`图片生成请求完成，总耗时: ${duration}ms (${duration/1000}秒)`);
           
-          // 清理临时上传的图片
-          if (temporaryImageUrl) {
-            try {
-              await cleanupTemporaryImage(temporaryImageUrl);
-            } catch (cleanupError) {
-              logger.warn(`清理临时上传图片失败: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
-            }
-          }
-          
-          // 返回结果
-          return new Response(JSON.stringify({ 
-            success: true,
-            imageUrl: resultImageUrl,
-            message: '图片生成成功',
-            duration: duration,
-            usedBackupStrategy: useBackupStrategy
-          }), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' },
-          });
-          
-        } catch (generationError) {
-          // 图片生成过程中出错，退还点数
-          logger.error(`图片生成过程失败: ${generationError instanceof Error ? generationError.message : String(generationError)}, 已用时间: ${(Date.now() - startTime)/1000}秒`);
-          
-          // 如果错误与超时有关，并且尚未尝试降级策略，尝试使用备用模型重试
-          if (!useBackupStrategy && 
-              (generationError instanceof Error) && 
-              (generationError.message.includes('timeout') || generationError.message.includes('time') || 
-              (Date.now() - startTime) > 180000)) {
-            
-            logger.warn(`检测到可能的超时问题，尝试使用备用策略重试`);
-            useBackupStrategy = true;
-            
-            // 使用提示词的简化版本
-            const shortenedPrompt = prompt ? prompt.substring(0, Math.min(prompt.length, 1500)) : "生成图像";
-            
-            // 使用较快的模型重试
-            let retryResponse: any;
-            
-            if (base64Image) {
-              // 如果有上传图片，还是需要使用聊天API，但使用简化的提示词
-              logger.info(`使用备用策略重试，包含上传图片 ${imageUrl ? '(通过URL)' : '(通过base64)'}`);
-              
-              // 重新构建消息但使用简化的提示词
-              const backupMessages: any[] = [
-                {
-                  role: 'system',
-                  content: [
-                    {
-                      type: 'text',
-                      text: '你是一个先进的图像生成系统，能够根据图片和文字提示生成图像。请精确保持参考图片中的主要内容、人物和场景，尽量不要改变背景或添加额外元素，除非提示词明确要求。'
-                    }
-                  ]
-                },
-                {
-                  role: 'user',
-                  content: []
-                }
-              ];
-              
-              // 添加图片内容
-              backupMessages[1].content.push({
-                type: "image_url",
-                image_url: {
-                  url: imageUrl || base64Image // 优先使用URL，没有则使用base64
-                }
-              });
-              
-              // 添加文本内容
-              backupMessages[1].content.push({
-                type: "text",
-                text: `${shortenedPrompt}`
-              });
-              
-              try {
-                // 使用聊天API调用
-                const backupChatResponse = await tuziClient.chat.completions.create({
-                  model: 'gpt-4o-mini', // 使用更快的模型
-                  messages: backupMessages,
-                  stream: false,
-                  user: `${user.id}_retry`
-                });
-                
-                // 从聊天完成响应中提取图片URL
-                if (backupChatResponse && backupChatResponse.choices && backupChatResponse.choices[0] && backupChatResponse.choices[0].message) {
-                  const assistantContent = backupChatResponse.choices[0].message.content || "";
-                  
-                  // 从响应中提取URL
-                  const urlRegex = /(https?:\/\/[^\s"'<>]+\.(png|jpg|jpeg|gif|webp))/i;
-                  const urlMatch = assistantContent.match(urlRegex);
-                  
-                  if (urlMatch && urlMatch[1]) {
-                    logger.info(`使用备用策略成功从聊天响应中提取图片URL`);
-                    retryResponse = {
-                      data: [{ url: urlMatch[1] }]
-                    };
-                  } else {
-                    logger.error(`无法从备用策略聊天响应中提取图片URL: ${assistantContent.substring(0, 200)}...`);
-                    throw new Error('备用API返回的响应中不包含有效的图片URL');
-                  }
-                } else {
-                  throw new Error('备用API返回的响应格式不正确');
-                }
-              } catch (backupError) {
-                // 如果带图片的备用调用失败，退回到不带图片的gpt-4o-image-vip
-                logger.warn(`带图片的备用策略失败，尝试使用备用模型: ${backupError instanceof Error ? backupError.message : String(backupError)}`);
-                
-                retryResponse = await tuziClient.images.generate({
-                  model: 'gpt-4o-image-vip', // 使用备用图像生成模型
-                  prompt: `${shortenedPrompt}`,
-                  n: 1,
-                  quality: "standard", // 使用标准质量提高速度
-                  size: "1024x1024", // 使用标准尺寸
-                  response_format: "url",
-                  user: `${user.id}_retry_backup`
-                });
-              }
-            } else {
-              // 没有上传图片，使用普通的备用模型
-              retryResponse = await tuziClient.images.generate({
-                model: 'gpt-4o-image-vip', // 使用备用图像生成模型
-              prompt: shortenedPrompt, // 使用简化版提示词
-              n: 1,
-              quality: "standard", // 使用标准质量提高速度
-              size: "1024x1024", // 使用标准尺寸
-              response_format: "url",
-              user: `${user.id}_retry`
-            });
-            }
-            
-            logger.info(`备用策略API响应接收完成，总用时: ${(Date.now() - startTime)/1000}秒`);
-            
-            if (retryResponse.data && retryResponse.data.length > 0 && retryResponse.data[0].url) {
-              const resultImageUrl = retryResponse.data[0].url;
-              logger.info(`使用备用策略成功生成图片: ${resultImageUrl}`);
-              
-              // 保存历史记录
-              await saveGenerationHistory(user.id, prompt, resultImageUrl, style || null, originalAspectRatio || null, useStandardRatio || null);
-              
-              const endTime = Date.now();
-              const duration = endTime - startTime;
-              
-              // 清理临时上传的图片
-              if (temporaryImageUrl) {
-                try {
-                  await cleanupTemporaryImage(temporaryImageUrl);
-                } catch (cleanupError) {
-                  logger.warn(`清理临时上传图片失败: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
-                }
-              }
-              
-              return new Response(JSON.stringify({ 
-                success: true,
-                imageUrl: resultImageUrl,
-                message: '使用备用策略生成图片成功',
-                duration: duration,
-                usedBackupStrategy: true
-              }), {
-                status: 200,
-                headers: { 'Content-Type': 'application/json' },
-              });
-            }
-          }
+          logger.warn(`检测到可能的超时问题，尝试使用备用策略重试`);
+          useBackupStrategy = true;
           
-          // 尝试退还用户点数
+          const shortenedRequest = {
+            ...generationRequest,
+            prompt: generationRequest.prompt.substring(0, Math.min(generationRequest.prompt.length, 1500))
+          };
+          result = referenceImage
+            ? await provider.editWithReference({ ...shortenedRequest, referenceImage })
+            : await provider.generate(shortenedRequest);
+        }
+        
+        const resultImageUrl = result.imageUrl;
+        logger.info(`图像处理完成，总用时: ${(Date.now() - startTime)/1000}秒`);
+        
+        // 保存历史记录
+        await saveGenerationHistory(user.id, prompt, resultImageUrl, style || null, originalAspectRatio || null, useStandardRatio || null, result.model);
+        
+        // 确认扣除预留的点数
+        await captureTaskCredits(creditTaskId);
+        
+        const endTime = Date.now();
+        const duration = endTime - startTime;
+        
+        logger.info(`图片生成请求完成，总耗时: ${duration}ms (${duration/1000}秒)`);
+        
+        // 清理临时上传的图片
+        if (temporaryImageUrl) {
           try {
-            const supabaseAdmin = await createAdminClient();
-            const { data: userCredits } = await supabaseAdmin
-              .from('ai_images_creator_credits')
-              .select('credits')
-              .eq('user_id', user.id)
-              .single();
-            
-            if (userCredits) {
-              await supabaseAdmin
-                .from('ai_images_creator_credits')
-                .update({
-                  credits: userCredits.credits + 1,
-                  updated_at: new Date().toISOString()
-                })
-                .eq('user_id', user.id);
-              
-              logger.info(`已退还用户 ${user.id} 的1个点数`);
-            }
-          } catch (refundError) {
-            logger.error(`尝试退还用户点数失败: ${refundError instanceof Error ? refundError.message : String(refundError)}`);
+            await cleanupTemporaryImage(temporaryImageUrl);
+          } catch (cleanupError) {
+            logger.warn(`清理临时上传图片失败: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
           }
-          
-          // 清理临时上传的图片
-          if (temporaryImageUrl) {
-            try {
-              await cleanupTemporaryImage(temporaryImageUrl);
-            } catch (cleanupError) {
-              logger.warn(`清理临时上传图片失败: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
-            }
+        }
+        
+        // 返回结果
+        return new Response(JSON.stringify({ 
+          success: true,
+          imageUrl: resultImageUrl,
+          message: useBackupStrategy ? '使用备用策略生成图片成功' : '图片生成成功',
+          duration: duration,
+          provider: result.provider,
+          usedBackupStrategy: useBackupStrategy
+        }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      } catch (generationError) {
+        // 图片生成过程中出错，退还点数
+        logger.error(`图片生成过程失败: ${generationError instanceof Error ? generationError.message : String(generationError)}, 已用时间: ${(Date.now() - startTime)/1000}秒`);
+        
+        // 尝试退还用户点数
+        try {
+          await releaseTaskCredits(creditTaskId, '图片生成失败');
+        } catch (refundError) {
+          logger.error(`尝试退还用户点数失败: ${refundError instanceof Error ? refundError.message : String(refundError)}`);
+        }
+        
+        // 清理临时上传的图片
+        if (temporaryImageUrl) {
+          try {
+            await cleanupTemporaryImage(temporaryImageUrl);
+          } catch (cleanupError) {
+            logger.warn(`清理临时上传图片失败: ${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}`);
           }
-          
-          throw generationError;
         }
+        
+        throw generationError;
       }
       
     } catch (error: any) {
@@ -972,7 +565,7 @@ export async function POST(request: NextRequest) {
 }
 
 // 保存生成历史到数据库，捕获但不传播错误
-async function saveGenerationHistory(userId: string, prompt: string, imageUrl: string, style: string | null = null, aspectRatio: string | null = null, standardAspectRatio: string | null = null) {
+async function saveGenerationHistory(userId: string, prompt: string, imageUrl: string, style: string | null = null, aspectRatio: string | null = null, standardAspectRatio: string | null = null, modelUsed: string = 'tuzi-gpt4o') {
   try {
     // 历史记录最大存储数量
     const MAX_HISTORY_RECORDS = 100;
@@ -1034,7 +627,7 @@ async function saveGenerationHistory(userId: string, prompt: string, imageUrl: s
         ...(aspectRatio ? { aspect_ratio: aspectRatio } : {}),
         // 添加标准化比例字段
         ...(standardAspectRatio ? { standard_aspect_ratio: standardAspectRatio } : {}),
-        model_used: 'tuzi-gpt4o', // 记录使用的是图资API的GPT-4o
+        model_used: modelUsed,
         created_at: new Date().toISOString()
       });
     
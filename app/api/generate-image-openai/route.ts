@@ -1,72 +1,8 @@
 import { NextRequest } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { createAdminClient } from '@/utils/supabase/admin';
-import { OpenAI } from 'openai';
-
-// API 请求配置
-const MAX_RETRIES = 3;
-const RETRY_DELAY = 2000; // 毫秒
-const TIMEOUT = 270000; // 270秒，给Vercel平台留出30秒处理开销
-
-// 延时函数
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// 获取有效的API配置
-function getEffectiveOpenAIConfig() {
-  const apiKey = process.env.OPENAI_API_KEY || '';
-  
-  if (!apiKey) {
-    console.error('OpenAI API Key 未设置');
-    return { apiKey: '', isConfigComplete: false };
-  }
-  
-  return {
-    apiKey,
-    isConfigComplete: true
-  };
-}
-
-// 更新用户点数
-async function updateUserCredits(userId: string, action: 'deduct' | 'add', amount = 1): Promise<boolean> {
-  try {
-    const supabaseAdmin = await createAdminClient();
-    
-    if (action === 'deduct') {
-      // 检查用户是否有足够的点数
-      const { data: credits, error: checkError } = await supabaseAdmin
-        .from('ai_images_creator_credits')
-        .select('credits')
-        .eq('user_id', userId)
-        .single();
-        
-      if (checkError || !credits || credits.credits < amount) {
-        console.error('检查点数失败或点数不足:', checkError || '点数不足');
-        return false;
-      }
-    }
-    
-    // 更新点数
-    const { error } = await supabaseAdmin
-      .from('ai_images_creator_credits')
-      .update({ 
-        credits: action === 'deduct' 
-          ? supabaseAdmin.rpc('decrement', { x: amount }) 
-          : supabaseAdmin.rpc('increment', { x: amount }),
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', userId);
-      
-    if (error) {
-      console.error(`${action === 'deduct' ? '扣除' : '添加'}点数失败:`, error);
-      return false;
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('更新用户点数时出错:', error);
-    return false;
-  }
-}
+import { getImageProvider, ImageSize, quoteImageGeneration } from '@/utils/imageProviders';
+import { captureTaskCredits, ensureUserCredits, releaseTaskCredits, reserveTaskCredits } from '@/utils/credits/taskCredits';
 
 // 保存图片历史记录
 async function saveImageHistory(
@@ -108,6 +44,9 @@ export async function POST(request: NextRequest) {
   const startTime = Date.now();
   let userId = '';  // 初始化为空字符串，而不是null
   let creditsDeducted = false;
+  let taskCost = 1;
+  // 点数账本中的预留ID
+  let creditTaskId = '';
   
   try {
     // 获取当前认证用户
@@ -123,10 +62,10 @@ export async function POST(request: NextRequest) {
     
     userId = user.id;
     
-    // 获取API配置
-    const { apiKey, isConfigComplete } = getEffectiveOpenAIConfig();
+    // 使用OpenAI官方提供商
+    const provider = getImageProvider('openai');
     
-    if (!isConfigComplete) {
+    if (!provider.isConfigured()) {
       return new Response(JSON.stringify({ 
         error: "OpenAI API配置不完整，请检查环境变量",
       }), {
@@ -137,7 +76,7 @@ export async function POST(request: NextRequest) {
     
     // 解析请求体
     const body = await request.json();
-    const { prompt, size = '1024x1024', n = 1, style = 'vivid' } = body;
+    const { prompt, size = '1024x1024', style = 'vivid' } = body;
     
     if (!prompt) {
       return new Response(JSON.stringify({ error: "提示词不能为空" }), {
@@ -148,44 +87,30 @@ export async function POST(request: NextRequest) {
     
     console.log('收到图片生成请求:', { prompt, size, style });
     
-    // 在扣除用户点数前先检查点数记录是否存在，如果不存在则创建
-    const supabaseAdmin = await createAdminClient();
-    const { data: existingCredits, error: checkError } = await supabaseAdmin
-      .from('ai_images_creator_credits')
-      .select('*')
-      .eq('user_id', userId)
-      .maybeSingle();
-      
-    if (checkError) {
-      console.error('检查用户点数记录失败:', checkError);
-    }
+    // 提供商不支持的尺寸退回正方形
+    const imageSize: ImageSize = provider.capabilities.sizes.includes(size) ? size : '1024x1024';
+    taskCost = quoteImageGeneration(provider, { size: imageSize, hasReferenceImage: false }).credits;
     
-    if (!existingCredits) {
-      console.log('用户点数记录不存在，创建初始记录');
-      const { error: insertError } = await supabaseAdmin
-        .from('ai_images_creator_credits')
-        .insert({
-          user_id: userId,
-          credits: 5,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-        
-      if (insertError) {
-        console.error('创建用户点数记录失败:', insertError);
-        return new Response(JSON.stringify({ error: "创建用户点数记录失败" }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-      
-      console.log('已成功创建用户点数初始记录，点数: 5');
+    // 新用户通过账本发放初始点数
+    if (await ensureUserCredits(userId) === null) {
+      return new Response(JSON.stringify({ error: "创建用户点数记录失败" }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
     
     // 扣除用户点数
-    const deductedSuccess = await updateUserCredits(userId, 'deduct', 1);
+    creditTaskId = `openai-${crypto.randomUUID()}`;
+    const reservation = await reserveTaskCredits(userId, creditTaskId, taskCost, 'OpenAI生成图片');
+    
+    if (reservation.insufficient) {
+      return new Response(JSON.stringify({ error: `点数不足，本次生成需要${taskCost}点` }), {
+        status: 402,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
     
-    if (!deductedSuccess) {
+    if (!reservation.success) {
       console.error('扣除用户点数失败');
       return new Response(JSON.stringify({ error: "扣除用户点数失败，请重试" }), {
         status: 500,
@@ -197,55 +122,29 @@ export async function POST(request: NextRequest) {
     creditsDeducted = true;
     console.log('已扣除用户点数，用户ID:', userId);
     
-    // 创建OpenAI客户端
-    const openai = new OpenAI({
-      apiKey: apiKey
-    });
-    
     console.log('发送OpenAI图像生成请求中，开始时间:', new Date().toISOString());
     
-    // 配置超时设置
-    const abortController = new AbortController();
-    const timeoutId = setTimeout(() => abortController.abort(), TIMEOUT);
-    
     try {
       // 开始计时
       const requestStart = Date.now();
       
-      // 调用OpenAI API生成图片
-      const response = await openai.images.generate({
-        prompt: prompt,
-        n: n,
-        size: size as "256x256" | "512x512" | "1024x1024",
-        style: style as "vivid" | "natural",
-        response_format: 'url'
+      // 调用提供商生成图片
+      const { imageUrl, model } = await provider.generate({
+        prompt,
+        size: imageSize,
+        userId
       });
       
-      // 清除超时计时器
-      clearTimeout(timeoutId);
-      
       // 计算请求耗时
       const requestTime = Date.now() - requestStart;
       console.log('请求完成，耗时:', requestTime + 'ms');
-      
-      // 检查响应是否为空
-      if (!response.data || response.data.length === 0) {
-        console.error('API返回数据格式不符合预期:', response);
-        throw new Error("API返回数据格式不符合预期");
-      }
-      
-      // 获取图片URL
-      const imageUrl = response.data[0].url;
-      
-      if (!imageUrl) {
-        console.error('API未返回有效的图片URL');
-        throw new Error("API未返回有效的图片URL");
-      }
-      
       console.log('成功获取图片URL:', imageUrl);
       
       // 保存历史记录
-      await saveImageHistory(userId, imageUrl, prompt, 'gpt-4o-image-vip', { size, style });
+      await saveImageHistory(userId, imageUrl, prompt, model, { size: imageSize, style, provider: provider.id });
+      
+      // 确认扣除预留的点数
+      await captureTaskCredits(creditTaskId);
       
       console.log('API请求完成，结束时间:', new Date().toISOString());
       
@@ -255,16 +154,13 @@ export async function POST(request: NextRequest) {
         headers: { 'Content-Type': 'application/json' },
       });
     } catch (error: any) {
-      // 清除超时计时器
-      clearTimeout(timeoutId);
-      
       // 处理中断或超时
       if (error.name === 'AbortError' || (error.message && error.message.includes('timeout'))) {
         console.error('API请求超时或被中断');
         
         // 退还用户点数
         if (creditsDeducted) {
-          const refundSuccess = await updateUserCredits(userId, 'add', 1);
+          const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
           if (refundSuccess) {
             console.log('由于请求超时，已退还用户点数，用户ID:', userId);
           } else {
@@ -286,7 +182,7 @@ export async function POST(request: NextRequest) {
       
       // 退还用户点数
       if (creditsDeducted) {
-        const refundSuccess = await updateUserCredits(userId, 'add', 1);
+        const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
         if (refundSuccess) {
           console.log('由于API错误，已退还用户点数，用户ID:', userId);
         } else {
@@ -309,7 +205,7 @@ export async function POST(request: NextRequest) {
     
     // 如果已扣除点数但请求失败，退还点数
     if (creditsDeducted && userId) {
-      const refundSuccess = await updateUserCredits(userId, 'add', 1);
+      const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
       if (refundSuccess) {
         console.log('由于请求处理失败，已退还用户点数，用户ID:', userId);
       } else {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/utils/supabase/server";
 import { createAdminClient } from "@/utils/supabase/admin";
+import { releaseTaskCredits } from "@/utils/credits/taskCredits";
 
 interface ErrorWithMessage {
   message?: string;
@@ -278,39 +279,8 @@ export async function POST(request: NextRequest) {
       console.warn('准备取消通知失败，但这不影响主要流程:', notifyError);
     }
     
-    // 检查是否需要退还点数
-    let creditsRefunded = false;
-    
-    if (task.credits_deducted && !task.credits_refunded) {
-      // 退还点数
-      const { error: creditError } = await supabase.rpc('increment_user_credits', {
-        user_id_param: user.id,
-        credits_to_add: 1  // 假设每个任务扣除1点
-      });
-      
-      if (creditError) {
-        console.error('退还点数失败:', creditError);
-        
-        // 即使退还点数失败，任务取消操作已经成功，返回成功但带警告
-        return NextResponse.json({ 
-          success: true, 
-          warning: '任务已取消，但点数退还失败，请联系客服' 
-        });
-      }
-      
-      // 更新任务的退款状态
-      const { error: refundError } = await supabase
-        .from('image_tasks')
-        .update({ credits_refunded: true })
-        .eq('task_id', taskId);
-      
-      if (refundError) {
-        console.error('更新任务退款状态失败:', refundError);
-        // 退款已经成功，但标记失败，不影响主流程
-      } else {
-        creditsRefunded = true;
-      }
-    }
+    // 释放任务预留的点数，已结算的任务不会重复退还
+    const creditsRefunded = await releaseTaskCredits(taskId, '用户取消任务');
     
     // 返回成功消息
     return NextResponse.json({ 
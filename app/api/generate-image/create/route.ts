@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { createAdminClient } from '@/utils/supabase/admin';
 import { v4 as uuidv4 } from 'uuid';
+import { discardStoredTaskImages, storeTaskImage } from '@/utils/imageTasks/taskInputImages';
+import { ensureUserCredits } from '@/utils/credits/taskCredits';
 
 /**
  * 创建图像生成任务API
@@ -52,57 +54,20 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    // 检查用户点数
-    const { data: userCredits, error: creditsError } = await supabase
-      .from('ai_images_creator_credits')
-      .select('credits')
-      .eq('user_id', user.id)
-      .single();
-    
-    if (creditsError) {
-      console.error('检查用户点数失败:', creditsError);
-      
-      // 如果用户没有点数记录，创建一个初始记录
-      if (creditsError.code === 'PGRST116') {
-        const supabaseAdmin = await createAdminClient();
-        await supabaseAdmin
-          .from('ai_images_creator_credits')
-          .insert({
-            user_id: user.id,
-            credits: 5, // 初始赠送5点
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          });
-          
-        // 重新检查点数
-        const { data: newUserCredits, error: newCreditsError } = await supabase
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', user.id)
-          .single();
-          
-        if (newCreditsError || !newUserCredits || newUserCredits.credits <= 0) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: '点数不足，无法生成图片' 
-          }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
-      } else {
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: '获取用户点数失败' 
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
+    // 检查用户点数，新用户通过账本发放初始点数
+    const credits = await ensureUserCredits(user.id);
+    if (credits === null) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: '获取用户点数失败' 
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
     
     // 检查点数是否足够
-    if (userCredits && userCredits.credits <= 0) {
+    if (credits <= 0) {
       return new Response(JSON.stringify({ 
         success: false, 
         error: '点数不足，无法生成图片' 
@@ -115,6 +80,23 @@ export async function POST(request: NextRequest) {
     // 生成任务ID
     const taskId = `task_${uuidv4()}`;
     
+    // 输入图片上传到参考图存储桶，任务记录只保存URL和内容哈希
+    let inputImage = null;
+    if (image) {
+      try {
+        inputImage = await storeTaskImage(image, user.id);
+      } catch (uploadError) {
+        console.error('上传输入图片失败:', uploadError);
+        return new Response(JSON.stringify({ 
+          success: false, 
+          error: '上传输入图片失败' 
+        }), {
+          status: 502,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+    
     // 创建任务记录
     const supabaseAdmin = await createAdminClient();
     const { error: taskError } = await supabaseAdmin
@@ -124,7 +106,8 @@ export async function POST(request: NextRequest) {
         task_id: taskId,
         status: 'pending',
         prompt: prompt,
-        image_base64: image || null,
+        input_image_url: inputImage?.url || null,
+        input_image_hash: inputImage?.hash || null,
         style: style || null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -132,6 +115,7 @@ export async function POST(request: NextRequest) {
     
     if (taskError) {
       console.error('创建任务记录失败:', taskError);
+      await discardStoredTaskImages([inputImage]);
       return new Response(JSON.stringify({ 
         success: false, 
         error: '创建任务失败' 
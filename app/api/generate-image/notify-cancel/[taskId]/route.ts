@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/utils/supabase/admin";
 import { createClient } from "@/utils/supabase/server";
+import { releaseTaskCredits } from "@/utils/credits/taskCredits";
 
 // 可选：维护内存中的取消任务ID集合，用于快速校验
 const cancelledTaskIds = new Set<string>();
@@ -101,30 +102,8 @@ export async function POST(
       }, { status: 500 });
     }
     
-    // 尝试给用户退还积分
-    try {
-      const { data: creditData, error: creditError } = await adminClient
-        .from('ai_images_creator_credits')
-        .select('credits')
-        .eq('user_id', user.id)
-        .single();
-        
-      if (!creditError && creditData) {
-        // 增加1点积分作为退款
-        await adminClient
-          .from('ai_images_creator_credits')
-          .update({ 
-            credits: creditData.credits + 1,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', user.id);
-          
-        console.log(`已退还用户积分: ${user.id}`);
-      }
-    } catch (creditError) {
-      console.error('退还积分失败:', creditError);
-      // 不影响主流程，继续返回成功
-    }
+    // 释放任务预留的点数，已结算的任务不会重复退还
+    await releaseTaskCredits(task.task_id, '任务已被用户取消');
     
     return NextResponse.json({
       success: true,
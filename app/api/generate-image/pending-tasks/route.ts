@@ -50,7 +50,7 @@ export async function GET(req: Request) {
           prompt: task.prompt,
           processing_started_at: task.processing_started_at,
           completed_at: task.completed_at,
-          image_base64: task.image_base64 // 包含图片数据
+          input_image_url: task.input_image_url // 输入图片地址
         }));
         
         return NextResponse.json({
@@ -10,6 +10,7 @@ import http from 'http';
 import fs from 'fs';
 import { persistImageUrl } from '@/utils/image/persistImage';
 import { uploadImageToStorage, cleanupTemporaryImage, ensureImageUrl } from '@/utils/image/uploadImageToStorage';
+import { captureTaskCredits, ensureUserCredits, releaseTaskCredits, reserveTaskCredits } from '@/utils/credits/taskCredits';
 
 // 设置日志级别常量
 const LOG_LEVELS = {
@@ -522,57 +523,22 @@ export async function POST(request: NextRequest) {
       originalAspectRatio = aspectRatio;
     }
     
-    // 检查用户点数
-    const { data: userCredits, error: creditsError } = await supabase
-      .from('ai_images_creator_credits')
-      .select('credits')
-      .eq('user_id', user.id)
-      .single();
-    
-    if (creditsError) {
-      logger.warn(`检查用户点数失败: ${creditsError.message}`);
-      
-      // 如果用户没有点数记录，创建一个初始记录
-      if (creditsError.code === 'PGRST116') {
-        const supabaseAdmin = await createAdminClient();
-        await supabaseAdmin
-          .from('ai_images_creator_credits')
-          .insert({
-            user_id: user.id,
-            credits: 5, // 初始赠送5点
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          });
-          
-        // 重新检查点数
-        const { data: newUserCredits, error: newCreditsError } = await supabase
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', user.id)
-          .single();
-          
-        if (newCreditsError || !newUserCredits || newUserCredits.credits <= 0) {
-          return new Response(JSON.stringify({ 
-            success: false, 
-            error: '点数不足，无法生成图片' 
-          }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
-      } else {
-        return new Response(JSON.stringify({ 
-          success: false, 
-          error: '获取用户点数失败' 
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
+    // 新用户通过账本发放初始点数
+    if (await ensureUserCredits(user.id) === null) {
+      return new Response(JSON.stringify({ 
+        success: false, 
+        error: '获取用户点数失败' 
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
     }
     
-    // 检查点数是否足够
-    if (userCredits && userCredits.credits <= 0) {
+    // 预留用户点数，生成成功后确认，失败时退还
+    const creditTaskId = `process-${crypto.randomUUID()}`;
+    const reservation = await reserveTaskCredits(user.id, creditTaskId, 1, '生成图片');
+    
+    if (reservation.insufficient) {
       return new Response(JSON.stringify({ 
         success: false, 
         error: '点数不足，无法生成图片' 
@@ -582,18 +548,8 @@ export async function POST(request: NextRequest) {
       });
     }
     
-    // 扣除用户点数
-    const supabaseAdmin = await createAdminClient();
-    const { error: deductError } = await supabaseAdmin
-      .from('ai_images_creator_credits')
-      .update({
-        credits: userCredits ? userCredits.credits - 1 : 4, // 如果没有点数记录，使用默认值4
-        updated_at: new Date().toISOString()
-      })
-      .eq('user_id', user.id);
-    
-    if (deductError) {
-      logger.error(`扣除用户点数失败: ${deductError.message}`);
+    if (!reservation.success) {
+      logger.error(`扣除用户点数失败: ${reservation.error}`);
       return new Response(JSON.stringify({ 
         success: false, 
         error: '扣除点数失败' 
@@ -648,7 +604,8 @@ export async function POST(request: NextRequest) {
         useStandardRatio
       });
       
-      // 保存历史记录
+      // 确认扣除点数并保存历史记录
+      await captureTaskCredits(creditTaskId);
       saveGenerationHistory(user.id, prompt, imageUrl, style || null, originalAspectRatio || null, standardAspectRatio || null, genId);
       
       const endTime = Date.now();
@@ -671,28 +628,8 @@ export async function POST(request: NextRequest) {
       // 图片生成过程中出错，退还点数
       logger.error(`图片生成过程失败: ${generationError instanceof Error ? generationError.message : String(generationError)}`);
       
-      // 尝试退还用户点数
-      try {
-        const { data: userCredits } = await supabaseAdmin
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', user.id)
-          .single();
-        
-        if (userCredits) {
-          await supabaseAdmin
-            .from('ai_images_creator_credits')
-            .update({
-              credits: userCredits.credits + 1,
-              updated_at: new Date().toISOString()
-            })
-            .eq('user_id', user.id);
-          
-          logger.info(`已退还用户 ${user.id} 的1个点数`);
-        }
-      } catch (refundError) {
-        logger.error(`尝试退还用户点数失败: ${refundError instanceof Error ? refundError.message : String(refundError)}`);
-      }
+      // 退还预留的点数
+      await releaseTaskCredits(creditTaskId, '图片生成失败');
       
       throw generationError;
     }
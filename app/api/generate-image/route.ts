@@ -3,7 +3,7 @@ import { addBase64Prefix, estimateBase64Size, compressImageServer } from '@/util
 import { OpenAI } from 'openai';
 import { getApiConfig, logApiConfig, TuziConfig } from '@/utils/env';
 import { createClient } from '@/utils/supabase/server';
-import { createAdminClient } from '@/utils/supabase/admin';
+import { captureTaskCredits, ensureUserCredits, releaseTaskCredits, reserveTaskCredits } from '@/utils/credits/taskCredits';
 
 // 备用API配置（仅在环境变量不可用时使用）
 const BACKUP_API_URL = "https://api.tu-zi.com/v1/chat/completions";
@@ -211,31 +211,6 @@ function getEffectiveApiConfig() {
   return envConfig;
 }
 
-// 用户点数操作：扣除或增加点数
-async function updateUserCredits(userId: string, action: 'deduct' | 'add', amount = 1): Promise<boolean> {
-  try {
-    const response = await fetch(`${process.env.VERCEL_URL || 'http://localhost:3000'}/api/credits/update`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ userId, action, amount }),
-    });
-    
-    if (!response.ok) {
-      console.error(`${action === 'deduct' ? '扣除' : '增加'}用户点数失败: HTTP状态码 ${response.status}`);
-      return false;
-    }
-    
-    const data = await response.json();
-    console.log(`${action === 'deduct' ? '扣除' : '增加'}用户点数操作结果:`, data);
-    return data.success;
-  } catch (error) {
-    console.error(`${action === 'deduct' ? '扣除' : '增加'}用户点数失败:`, error);
-    return false;
-  }
-}
-
 // 保存用户图片生成历史
 async function saveImageHistory(
   userId: string, 
@@ -302,6 +277,7 @@ export async function POST(request: NextRequest) {
   let requestType = "纯文本请求";
   let userId: string | null = null; // 用户ID
   let creditsDeducted = false; // 标记是否已扣除点数
+  const creditTaskId = `legacy-${crypto.randomUUID()}`; // 点数账本中本次请求的预留标识
   let apiRequestSent = false; // 标记是否已发送API请求
 
   try {
@@ -356,50 +332,23 @@ export async function POST(request: NextRequest) {
 
     console.log(`[${requestType}] 接收到图像生成请求:`, { prompt, hasImage, style });
 
-    // 在扣除用户点数前先检查点数记录是否存在，如果不存在则创建
-    const supabaseAdmin = await createAdminClient();
-    const { data: existingCredits, error: checkError } = await supabaseAdmin
-      .from('ai_images_creator_credits')
-      .select('*')
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    if (checkError) {
-      console.error(`[${requestType}] 检查用户点数记录失败:`, checkError);
-    }
-
-    if (!existingCredits) {
-      console.log(`[${requestType}] 用户点数记录不存在，创建初始记录`);
-      // 如果不存在点数记录，创建一个初始记录
-      const { error: insertError } = await supabaseAdmin
-        .from('ai_images_creator_credits')
-        .insert({
-          user_id: userId,
-          credits: 5,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        });
-        
-      if (insertError) {
-        console.error(`[${requestType}] 创建用户点数记录失败:`, insertError);
-        return new Response(JSON.stringify({ error: "创建用户点数记录失败" }), {
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        });
-      }
-      
-      console.log(`[${requestType}] 已成功创建用户点数初始记录，点数: 5`);
+    // 新用户通过账本发放初始点数，再为本次请求预留点数
+    const initialCredits = await ensureUserCredits(userId);
+    if (initialCredits === null) {
+      return new Response(JSON.stringify({ error: "创建用户点数记录失败" }), {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
     }
 
-    // 扣除用户点数
-    const deductedSuccess = await updateUserCredits(userId, 'deduct', 1);
+    const reservation = await reserveTaskCredits(userId, creditTaskId, 1, '生成图片');
     
-    if (!deductedSuccess) {
-      console.error(`[${requestType}] 扣除用户点数失败`);
-      return new Response(JSON.stringify({ error: "扣除用户点数失败，请重试" }), {
-        status: 500,
+    if (!reservation.success) {
+      console.error(`[${requestType}] 扣除用户点数失败:`, reservation.error);
+      return new Response(JSON.stringify({ error: reservation.insufficient ? "点数不足，无法生成图片" : "扣除用户点数失败，请重试" }), {
+        status: reservation.insufficient ? 400 : 500,
         headers: {
           'Content-Type': 'application/json',
         },
@@ -436,7 +385,8 @@ export async function POST(request: NextRequest) {
       // 构建模拟图片URL
       const mockImageUrl = `https://placehold.co/512x512/${imageColor}/black?text=${imageText}`;
       
-      // 保存历史记录
+      // 确认扣除点数并保存历史记录
+      await captureTaskCredits(creditTaskId);
       await saveImageHistory(userId, mockImageUrl, prompt, "mock-model", { style });
       
       return new Response(JSON.stringify({ imageUrl: mockImageUrl }), {
@@ -589,7 +539,7 @@ export async function POST(request: NextRequest) {
           
           // 如果点数已扣除，尝试退还
           if (creditsDeducted) {
-            const refundSuccess = await updateUserCredits(userId!, 'add', 1);
+            const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
             console.log(`[${requestType}] 图片生成失败，尝试退还点数: ${refundSuccess ? '成功' : '失败'}`);
           }
           
@@ -611,7 +561,7 @@ export async function POST(request: NextRequest) {
           
           // 如果点数已扣除，尝试退还
           if (creditsDeducted) {
-            const refundSuccess = await updateUserCredits(userId!, 'add', 1);
+            const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
             console.log(`[${requestType}] 图片生成失败，尝试退还点数: ${refundSuccess ? '成功' : '失败'}`);
           }
           
@@ -625,7 +575,8 @@ export async function POST(request: NextRequest) {
           });
         }
         
-        // 保存历史记录
+        // 确认扣除点数并保存历史记录
+        await captureTaskCredits(creditTaskId);
         await saveImageHistory(userId, responseImageUrl, prompt, model, { style });
         
         // 清除超时计时器
@@ -651,7 +602,7 @@ export async function POST(request: NextRequest) {
           
           // 退还用户点数
           if (creditsDeducted && userId) {
-            const refundSuccess = await updateUserCredits(userId, 'add', 1);
+            const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
             if (refundSuccess) {
               console.log(`[${requestType}] 由于请求超时，已退还用户点数，用户ID: ${userId}`);
             } else {
@@ -676,7 +627,7 @@ export async function POST(request: NextRequest) {
         
         // 退还用户点数
         if (creditsDeducted && userId) {
-          const refundSuccess = await updateUserCredits(userId, 'add', 1);
+          const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
           if (refundSuccess) {
             console.log(`[${requestType}] 由于API错误，已退还用户点数，用户ID: ${userId}`);
           } else {
@@ -713,7 +664,7 @@ export async function POST(request: NextRequest) {
       
       // 如果已扣除点数但请求失败，退还点数
       if (creditsDeducted && userId) {
-        const refundSuccess = await updateUserCredits(userId, 'add', 1);
+        const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
         if (refundSuccess) {
           console.log(`[${requestType}] 由于请求处理失败，已退还用户点数，用户ID: ${userId}`);
         } else {
@@ -740,7 +691,7 @@ export async function POST(request: NextRequest) {
     
     // 如果已扣除点数但请求失败，退还点数
     if (creditsDeducted && userId) {
-      const refundSuccess = await updateUserCredits(userId, 'add', 1);
+      const refundSuccess = await releaseTaskCredits(creditTaskId, '图片生成失败');
       if (refundSuccess) {
         console.log(`[${requestType}] 由于请求处理失败，已退还用户点数，用户ID: ${userId}`);
       } else {
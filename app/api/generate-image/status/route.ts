@@ -88,7 +88,7 @@ export async function GET(request: Request) {
           updated_at: task.updated_at,
           completed_at: task.completed_at,
           prompt: task.prompt,
-          image_base64: task.image_base64, // 对系统访问包含图片数据
+          input_image_url: task.input_image_url, // 对系统访问包含输入图片地址
           user_id: task.user_id // 对系统访问包含用户ID
         };
         
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { getHistoryExport } from '@/utils/history/historyExport';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 查询导出任务进度，已完成时包含签名下载链接
+ */
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ exportId: string }> }
+) {
+  const { exportId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const historyExport = await getHistoryExport(user.id, exportId);
+    if (!historyExport) {
+      return NextResponse.json({ success: false, error: '导出任务不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, export: historyExport });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { HistorySearchError } from '@/utils/history/historySearch';
+import {
+  createHistoryExport,
+  HistoryExportError,
+  listHistoryExports,
+  parseExportSelection,
+  resolveExportItems,
+  STREAM_EXPORT_LIMIT
+} from '@/utils/history/historyExport';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出当前用户最近的导出任务，已完成的包含签名下载链接
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const exports = await listHistoryExports(user.id);
+    return NextResponse.json({ success: true, exports });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 导出历史图片
+ * 请求体: { ids } 或筛选条件 { q?, style?, aspect_ratio?, model?, from?, to? }，都为空时导出全部
+ * 图片较少时返回 { mode: 'stream', url }，直接访问 url 下载ZIP；
+ * 否则创建后台任务，返回 { mode: 'background', export }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const selection = parseExportSelection(body || {});
+    const items = await resolveExportItems(user.id, selection);
+
+    if (items.length === 0) {
+      return NextResponse.json({ success: false, error: '没有符合条件的图片' }, { status: 400 });
+    }
+
+    if (items.length <= STREAM_EXPORT_LIMIT) {
+      const params = new URLSearchParams({ ids: items.map(item => item.id).join(',') });
+      return NextResponse.json({
+        success: true,
+        mode: 'stream',
+        count: items.length,
+        url: `/api/history/exports/stream?${params.toString()}`
+      });
+    }
+
+    const historyExport = await createHistoryExport(user.id, selection, items);
+    return NextResponse.json({
+      success: true,
+      mode: 'background',
+      count: items.length,
+      export: historyExport
+    }, { status: 202 });
+  } catch (error) {
+    if (error instanceof HistoryExportError || error instanceof HistorySearchError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { HistorySearchError } from '@/utils/history/historySearch';
+import {
+  createExportZipStream,
+  getExportFilename,
+  HistoryExportError,
+  parseExportSelection,
+  resolveExportItems,
+  STREAM_EXPORT_LIMIT
+} from '@/utils/history/historyExport';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 直接下载导出ZIP，边下载原图边输出
+ * 查询参数与 POST /api/history/exports 的请求体相同，ids 用逗号分隔；
+ * 超过 STREAM_EXPORT_LIMIT 张时需使用后台导出
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const selection = parseExportSelection(Object.fromEntries(request.nextUrl.searchParams.entries()));
+    const items = await resolveExportItems(user.id, selection);
+
+    if (items.length === 0) {
+      return NextResponse.json({ success: false, error: '没有符合条件的图片' }, { status: 400 });
+    }
+    if (items.length > STREAM_EXPORT_LIMIT) {
+      return NextResponse.json({
+        success: false,
+        error: `超过${STREAM_EXPORT_LIMIT}张图片请使用后台导出`
+      }, { status: 400 });
+    }
+
+    const filename = getExportFilename(new Date().toISOString());
+    return new Response(createExportZipStream(items), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof HistoryExportError || error instanceof HistorySearchError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
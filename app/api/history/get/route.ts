@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
+import { normalizeHistoryImageUrl } from '@/utils/history/historySearch';
+import { attachImageAssets } from '@/utils/image/imagePipeline';
 
 // 历史记录最大数量限制
 const MAX_HISTORY_RECORDS = 100;
@@ -353,33 +355,11 @@ export async function GET(request: NextRequest) {
       return errorResponse;
     }
     
-    // 处理URL格式，确保所有URL都是完整正确的格式
-    const processedData = data.map(item => {
-      // 确保URL格式正确
-      if (item.image_url && typeof item.image_url === 'string') {
-        let imageUrl = item.image_url.trim();
-        
-        // 移除URL两端的引号
-        if ((imageUrl.startsWith('"') && imageUrl.endsWith('"')) || 
-            (imageUrl.startsWith("'") && imageUrl.endsWith("'"))) {
-          imageUrl = imageUrl.slice(1, -1);
-        }
-        
-        // 确保URL包含协议
-        if (!imageUrl.startsWith('http://') && !imageUrl.startsWith('https://')) {
-          imageUrl = `https://${imageUrl}`;
-        }
-        
-        // 确保filesystem.site域名正确
-        if (imageUrl.includes('filesystem.site')) {
-          // 移除URL末尾可能的多余字符
-          imageUrl = imageUrl.replace(/[.,;:!?)]$/, '');
-        }
-        
-        item.image_url = imageUrl;
-      }
-      return item;
-    });
+    // 处理URL格式，确保所有URL都是完整正确的格式，并附加衍生版本供前端选择
+    const processedData = await attachImageAssets(data.map(item => ({
+      ...item,
+      image_url: normalizeHistoryImageUrl(item.image_url)
+    })));
     
     // 生成响应数据
     const responseData = { 
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { getHistoryRemixSource } from '@/utils/history/historyRemix';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取历史记录的重新创作参数
+ * GET 参数: id 历史记录ID
+ * 返回提示词、风格、比例、原参考图和生成结果，由创作页还原到表单
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  const historyId = Number(request.nextUrl.searchParams.get('id'));
+  if (!Number.isInteger(historyId) || historyId <= 0) {
+    return NextResponse.json({ success: false, error: '历史记录ID无效' }, { status: 400 });
+  }
+
+  try {
+    const source = await getHistoryRemixSource(user.id, historyId);
+    if (!source) {
+      return NextResponse.json({ success: false, error: '历史记录不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, source });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
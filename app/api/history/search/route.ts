@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import {
+  getHistoryFacets,
+  HistorySearchError,
+  parseHistorySearchParams,
+  searchImageHistory
+} from '@/utils/history/historySearch';
+import { attachImageAssets } from '@/utils/image/imagePipeline';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 搜索当前用户的生成历史
+ *
+ * GET 参数:
+ * - q: 提示词关键词，中文自动分词，多个词需同时命中
+ * - style / aspect_ratio / model: 精确筛选
+ * - from / to: 创建时间范围，如 2026-10-01，结束日期包含当天
+ * - cursor: 上一页返回的 nextCursor
+ * - limit: 每页数量，默认24，最大100
+ * - facets=true: 同时返回可用的风格、比例和模型筛选项
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ success: false, error: '用户未认证' }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const includeFacets = searchParams.get('facets') === 'true';
+
+    const [result, facets] = await Promise.all([
+      searchImageHistory(user.id, parseHistorySearchParams(searchParams)),
+      includeFacets ? getHistoryFacets(user.id) : Promise.resolve(undefined)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      items: await attachImageAssets(result.items),
+      nextCursor: result.nextCursor,
+      terms: result.terms,
+      ...(facets ? { facets } : {})
+    });
+  } catch (error) {
+    if (error instanceof HistorySearchError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('[历史搜索] 搜索失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '搜索历史记录失败'
+    }, { status: 500 });
+  }
+}
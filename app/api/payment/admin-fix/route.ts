@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createTransactionalAdminClient } from '@/utils/supabase/admin';
-import { withAuth, AuthType, getClientIP, getRequestInfo } from '@/utils/auth-middleware';
-import { getEnv } from '@/utils/env';
+import { getClientIP, getRequestInfo } from '@/utils/auth-middleware';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
+import { creditPaymentOrder } from '@/utils/credits/taskCredits';
 
 /**
  * 管理员手动修复特定订单的API接口
- * 仅管理员可访问
+ * 仅管理员角色可访问，每次调用记录审计日志
  * 
  * 参数：
  * - order_no: 订单号
- * - override_key: 管理员密钥，用于验证操作
  */
 export const GET = async (request: NextRequest) => {
   try {
@@ -21,7 +22,12 @@ export const GET = async (request: NextRequest) => {
     const url = new URL(request.url);
     const orderNo = url.searchParams.get('order_no');
     const refundFlag = url.searchParams.get('refund') === 'true';
-    const adminKey = url.searchParams.get('key');
+    
+    // 验证管理员角色
+    const guard = await requireRole('admin');
+    if (!guard.authorized) {
+      return roleGuardResponse(guard);
+    }
     
     // 验证参数
     if (!orderNo) {
@@ -31,16 +37,6 @@ export const GET = async (request: NextRequest) => {
       }, { status: 400 });
     }
     
-    // 验证覆盖密钥
-    const validKey = process.env.ADMIN_OVERRIDE_KEY || '';
-    if (adminKey !== validKey) {
-      console.warn(`尝试使用无效的管理员密钥进行操作: ${adminKey}`);
-      return NextResponse.json({
-        success: false,
-        error: '无效的管理员密钥'
-      }, { status: 403 });
-    }
-    
     // 获取事务客户端
     const transactionalAdmin = await createTransactionalAdminClient();
     
@@ -101,79 +97,21 @@ export const GET = async (request: NextRequest) => {
         console.log(`订单 ${orderNo} 状态已更新为成功`);
       }
       
-      // 4. 查询用户当前点数
-      const { data: creditData, error: creditQueryError } = await client
-        .from('ai_images_creator_credits')
-        .select('credits')
-        .eq('user_id', orderData.user_id)
-        .single();
-      
-      let currentCredits = 0;
-      let isNewCreditRecord = false;
-      
-      // 处理用户可能没有点数记录的情况
-      if (creditQueryError) {
-        if (creditQueryError.code === 'PGRST116') { // 不存在的记录
-          // 创建新的点数记录
-          isNewCreditRecord = true;
-          const { error: insertError } = await client
-            .from('ai_images_creator_credits')
-            .insert({
-              user_id: orderData.user_id,
-              credits: orderData.credits,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              last_order_no: orderNo
-            });
-            
-          if (insertError) {
-            throw new Error(`创建用户点数记录失败: ${insertError.message}`);
-          }
-          
-          console.log(`已为用户 ${orderData.user_id} 创建新的点数记录: ${orderData.credits}点`);
-        } else {
-          throw new Error(`查询用户点数失败: ${creditQueryError.message}`);
-        }
-      } else {
-        // 用户已有点数记录，更新点数
-        currentCredits = creditData.credits;
-        const newCredits = currentCredits + orderData.credits;
-        
-        const { error: updateCreditError } = await client
-          .from('ai_images_creator_credits')
-          .update({
-            credits: newCredits,
-            updated_at: new Date().toISOString(),
-            last_order_no: orderNo
-          })
-          .eq('user_id', orderData.user_id);
-          
-        if (updateCreditError) {
-          throw new Error(`更新用户点数失败: ${updateCreditError.message}`);
-        }
-        
-        console.log(`已更新用户 ${orderData.user_id} 的点数: ${currentCredits} -> ${newCredits}`);
+      // 4. 通过账本增加点数，订单已入账时不会重复增加
+      const creditResult = await creditPaymentOrder(
+        orderData.user_id,
+        orderNo,
+        orderData.credits,
+        `管理员手动修复充值${orderData.credits}点`
+      );
+      if (!creditResult.success) {
+        throw new Error(`增加用户点数失败: ${creditResult.error}`);
       }
       
-      // 5. 记录点数变更日志
-      const { error: logInsertError } = await client
-        .from('ai_images_creator_credit_logs')
-        .insert({
-          user_id: orderData.user_id,
-          order_no: orderNo,
-          operation_type: 'recharge',
-          old_value: currentCredits,
-          change_value: orderData.credits,
-          new_value: currentCredits + orderData.credits,
-          created_at: new Date().toISOString(),
-          note: `管理员手动修复充值${orderData.credits}点`
-        });
-        
-      if (logInsertError) {
-        throw new Error(`创建点数变更日志失败: ${logInsertError.message}`);
-      }
+      const newCredits = creditResult.credits as number;
+      console.log(`已为用户 ${orderData.user_id} 增加${orderData.credits}点，当前余额${newCredits}`);
       
-      // 6. 记录支付处理日志
+      // 5. 记录支付处理日志
       await client
         .from('ai_images_creator_payment_logs')
         .insert({
@@ -184,7 +122,7 @@ export const GET = async (request: NextRequest) => {
           credits: orderData.credits,
           status: 'success',
           created_at: new Date().toISOString(),
-          note: `管理员手动修复，IP: ${getClientIP(request)}`
+          note: `管理员 ${guard.user.id} 手动修复，IP: ${getClientIP(request)}`
         });
       
       // 更新订单标记
@@ -205,10 +143,9 @@ export const GET = async (request: NextRequest) => {
         message: '订单已修复，状态已更新为成功，点数已增加',
         orderNo: orderNo,
         userId: orderData.user_id,
-        oldCredits: currentCredits,
+        oldCredits: newCredits - orderData.credits,
         addedCredits: orderData.credits,
-        newCredits: currentCredits + orderData.credits,
-        isNewCreditRecord,
+        newCredits,
         time: new Date().toISOString()
       };
       
@@ -216,6 +153,16 @@ export const GET = async (request: NextRequest) => {
       return result;
     });
     
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'payment.admin_fix',
+      resourceType: 'payment',
+      resourceId: orderNo,
+      metadata: {
+        addedCredits: 'addedCredits' in result ? result.addedCredits : 0,
+        message: result.message
+      }
+    }, request);
+    
     return NextResponse.json({
       success: true,
       data: result
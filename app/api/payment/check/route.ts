@@ -4,6 +4,7 @@ import { withAuth, AuthType, getRequestInfo, authenticate } from '@/utils/auth-m
 import { getEnv, getApiConfig } from '@/utils/env';
 import { handleError, ErrorLevel } from '@/utils/error-handler';
 import { withRateLimit, userIdKeyGenerator, rateLimitPresets } from '@/utils/rate-limiter';
+import { creditPaymentOrder } from '@/utils/credits/taskCredits';
 
 /**
  * 检查支付状态API
@@ -170,77 +171,14 @@ const checkPaymentHandler = async (request: NextRequest, authResult: any) => {
           };
         }
         
-        // 查询用户当前点数
-        const { data: creditData, error: creditQueryError } = await client
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', order.user_id)
-          .single();
-        
-        let currentCredits = 0;
-        let isNewCreditRecord = false;
-        
-        // 处理用户可能没有点数记录的情况
-        if (creditQueryError) {
-          if (creditQueryError.code === 'PGRST116') { // 不存在的记录
-            // 创建新的点数记录
-            isNewCreditRecord = true;
-            const { error: insertError } = await client
-              .from('ai_images_creator_credits')
-              .insert({
-                user_id: order.user_id,
-                credits: order.credits,
-                created_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
-                last_order_no: orderNo
-              });
-              
-            if (insertError) {
-              throw new Error(`创建用户点数记录失败: ${insertError.message}`);
-            }
-            
-            console.log(`已为用户 ${order.user_id} 创建新的点数记录: ${order.credits}点`);
-          } else {
-            throw new Error(`查询用户点数失败: ${creditQueryError.message}`);
-          }
-        } else {
-          // 用户已有点数记录，更新点数
-          currentCredits = creditData.credits;
-          const newCredits = currentCredits + order.credits;
-          
-          const { error: updateCreditError } = await client
-            .from('ai_images_creator_credits')
-            .update({
-              credits: newCredits,
-              updated_at: new Date().toISOString(),
-              last_order_no: orderNo
-            })
-            .eq('user_id', order.user_id);
-            
-          if (updateCreditError) {
-            throw new Error(`更新用户点数失败: ${updateCreditError.message}`);
-          }
-          
-          console.log(`已更新用户 ${order.user_id} 的点数: ${currentCredits} -> ${newCredits}`);
+        // 通过账本增加点数，同一订单只入账一次
+        const creditResult = await creditPaymentOrder(order.user_id, orderNo, order.credits);
+        if (!creditResult.success) {
+          throw new Error(`增加用户点数失败: ${creditResult.error}`);
         }
         
-        // 记录点数变更日志
-        const { error: logInsertError } = await client
-          .from('ai_images_creator_credit_logs')
-          .insert({
-            user_id: order.user_id,
-            order_no: orderNo,
-            operation_type: 'recharge',
-            old_value: currentCredits,
-            change_value: order.credits,
-            new_value: currentCredits + order.credits,
-            created_at: new Date().toISOString(),
-            note: `支付成功自动增加${order.credits}点`
-          });
-          
-        if (logInsertError) {
-          throw new Error(`创建点数变更日志失败: ${logInsertError.message}`);
-        }
+        const newCredits = creditResult.credits as number;
+        console.log(`已为用户 ${order.user_id} 增加${order.credits}点，当前余额${newCredits}`);
         
         // 更新订单标记为已更新点数
         const { error: updateOrderError } = await client
@@ -263,9 +201,9 @@ const checkPaymentHandler = async (request: NextRequest, authResult: any) => {
             credits_updated: true
           },
           creditsUpdated: true,
-          oldCredits: currentCredits,
+          oldCredits: newCredits - order.credits,
           creditsAdded: order.credits,
-          newCredits: currentCredits + order.credits
+          newCredits
         };
       }
       
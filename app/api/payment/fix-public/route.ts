@@ -3,6 +3,7 @@ import { createTransactionalAdminClient } from '@/utils/supabase/admin';
 import { handleError, ErrorLevel } from '@/utils/error-handler';
 import { withRateLimit } from '@/utils/rate-limiter';
 import { verifyPaymentStatus } from '@/utils/payment-validator';
+import { creditPaymentOrder } from '@/utils/credits/taskCredits';
 
 /**
  * 公开的订单修复接口，支付完成后页面自动调用
@@ -245,53 +246,23 @@ const handleFixPublic = async (request: NextRequest) => {
           throw new Error(`更新订单状态失败: ${updateError.message}`);
         }
         
-        // 4. 检查是否已经增加过点数
-        const { data: credits, error: creditsError } = await client
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', order.user_id)
-          .single();
-        
-        if (creditsError) {
-          throw new Error(`查询用户点数失败: ${creditsError.message}`);
-        }
-        
-        const oldCredits = credits ? credits.credits : 0;
+        // 4. 通过账本增加点数，订单已入账时不会重复增加
         const addCredits = order.credits || 0;
-        const newCredits = oldCredits + addCredits;
-        
-        // 6. 更新用户点数
-        const { error: updateCreditsError } = await client
-          .from('ai_images_creator_credits')
-          .update({
-            credits: newCredits,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', order.user_id);
+        const creditResult = await creditPaymentOrder(
+          order.user_id,
+          order.order_no,
+          addCredits,
+          `支付成功，增加${addCredits}点`
+        );
         
-        if (updateCreditsError) {
-          throw new Error(`更新用户点数失败: ${updateCreditsError.message}`);
+        if (!creditResult.success) {
+          throw new Error(`增加用户点数失败: ${creditResult.error}`);
         }
         
-        // 7. 记录点数变更日志
-        const { error: logError } = await client
-          .from('ai_images_creator_credit_logs')
-          .insert({
-            user_id: order.user_id,
-            order_no: order.order_no,
-            operation_type: 'recharge',
-            old_value: oldCredits,
-            change_value: addCredits,
-            new_value: newCredits,
-            created_at: new Date().toISOString(),
-            note: `支付成功，增加${addCredits}点`
-          });
-        
-        if (logError) {
-          throw new Error(`记录点数变更日志失败: ${logError.message}`);
-        }
+        const newCredits = creditResult.credits as number;
+        const oldCredits = newCredits - addCredits;
         
-        // 8. 记录处理历史
+        // 5. 记录处理历史
         await logPaymentProcessHistory(client, orderNo, 'fix-public', 'success', {
           oldCredits,
           addCredits,
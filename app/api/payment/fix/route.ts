@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient, createTransactionalAdminClient } from '@/utils/supabase/admin';
-import { authenticate, AuthType } from '@/utils/auth-middleware';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
 import { PaymentStatus } from '@/utils/payment';
+import { creditPaymentOrder, grantCredits } from '@/utils/credits/taskCredits';
 import { handleError, ErrorLevel } from '@/utils/error-handler';
 
 /**
@@ -20,12 +22,9 @@ import { handleError, ErrorLevel } from '@/utils/error-handler';
 export async function POST(request: NextRequest) {
   try {
     // 验证管理员权限
-    const authResult = await authenticate(request, AuthType.ADMIN);
-    if (!authResult.user) {
-      return NextResponse.json({
-        success: false,
-        error: '未授权访问'
-      }, { status: 401 });
+    const guard = await requireRole('admin');
+    if (!guard.authorized) {
+      return roleGuardResponse(guard);
     }
     
     // 获取请求参数
@@ -47,7 +46,7 @@ export async function POST(request: NextRequest) {
     }
     
     // 获取管理员信息
-    const adminId = authResult.user?.id;
+    const adminId = guard.user.id;
     console.log(`管理员 ${adminId} 尝试修复订单 ${orderNo} 状态为 ${targetStatus}`);
     
     // 使用事务客户端
@@ -107,77 +106,19 @@ export async function POST(request: NextRequest) {
       if ((targetStatus === PaymentStatus.SUCCESS && !order.credits_updated) || 
           (targetStatus === PaymentStatus.SUCCESS && forceCreditUpdate)) {
       
-        // 查询用户当前点数
-      const { data: creditData, error: creditQueryError } = await client
-        .from('ai_images_creator_credits')
-        .select('credits')
-          .eq('user_id', order.user_id)
-        .single();
-      
-      let currentCredits = 0;
-      let isNewCreditRecord = false;
-      
-      // 处理用户可能没有点数记录的情况
-      if (creditQueryError) {
-        if (creditQueryError.code === 'PGRST116') { // 不存在的记录
-          // 创建新的点数记录
-          isNewCreditRecord = true;
-          const { error: insertError } = await client
-            .from('ai_images_creator_credits')
-            .insert({
-                user_id: order.user_id,
-                credits: order.credits,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              last_order_no: orderNo
-            });
-            
-          if (insertError) {
-            throw new Error(`创建用户点数记录失败: ${insertError.message}`);
-          }
-          
-            console.log(`已为用户 ${order.user_id} 创建新的点数记录: ${order.credits}点`);
-        } else {
-          throw new Error(`查询用户点数失败: ${creditQueryError.message}`);
-        }
-      } else {
-        // 用户已有点数记录，更新点数
-        currentCredits = creditData.credits;
-          const newCredits = currentCredits + order.credits;
-        
-        const { error: updateCreditError } = await client
-          .from('ai_images_creator_credits')
-          .update({
-            credits: newCredits,
-            updated_at: new Date().toISOString(),
-            last_order_no: orderNo
-          })
-            .eq('user_id', order.user_id);
-            
-          if (updateCreditError) {
-            throw new Error(`更新用户点数失败: ${updateCreditError.message}`);
-          }
-          
-          console.log(`已更新用户 ${order.user_id} 的点数: ${currentCredits} -> ${newCredits}`);
+        // 通过账本增加点数，订单已入账时不会重复增加
+        const creditResult = await creditPaymentOrder(
+          order.user_id,
+          orderNo,
+          order.credits,
+          `管理员手动修复-增加${order.credits}点`
+        );
+        if (!creditResult.success) {
+          throw new Error(`增加用户点数失败: ${creditResult.error}`);
         }
         
-        // 记录点数变更日志
-        const { error: logInsertError } = await client
-          .from('ai_images_creator_credit_logs')
-          .insert({
-            user_id: order.user_id,
-            order_no: orderNo,
-            operation_type: 'recharge',
-            old_value: currentCredits,
-            change_value: order.credits,
-            new_value: currentCredits + order.credits,
-            created_at: new Date().toISOString(),
-            note: `管理员手动修复-增加${order.credits}点`
-          });
-          
-        if (logInsertError) {
-          throw new Error(`创建点数变更日志失败: ${logInsertError.message}`);
-        }
+        const newCredits = creditResult.credits as number;
+        console.log(`已为用户 ${order.user_id} 增加${order.credits}点，当前余额${newCredits}`);
         
         // 更新订单标记为已更新点数
         const { error: updateOrderError } = await client
@@ -215,60 +156,30 @@ export async function POST(request: NextRequest) {
             paid_at: updates.paid_at
           },
           creditsUpdated: true,
-          oldCredits: currentCredits,
+          oldCredits: newCredits - order.credits,
           creditsAdded: order.credits,
-          newCredits: currentCredits + order.credits
+          newCredits
         };
       }
       
       // 如果状态改为非成功，且之前已经更新过点数，需要扣除点数
       if (targetStatus !== PaymentStatus.SUCCESS && order.credits_updated) {
-        // 需要扣除之前增加的点数
-        // 查询用户当前点数
-        const { data: creditData, error: creditQueryError } = await client
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', order.user_id)
-          .single();
-          
-        if (creditQueryError) {
-          throw new Error(`查询用户点数失败: ${creditQueryError.message}`);
-        }
-        
-        // 扣除点数
-        const currentCredits = creditData.credits;
-        const newCredits = Math.max(0, currentCredits - order.credits); // 确保不会变成负数
-        
-        const { error: updateCreditError } = await client
-          .from('ai_images_creator_credits')
-          .update({
-            credits: newCredits,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', order.user_id);
-          
-        if (updateCreditError) {
-          throw new Error(`更新用户点数失败: ${updateCreditError.message}`);
+        // 通过账本扣除之前增加的点数，余额不足时不扣除，由管理员另行处理
+        const deductResult = await grantCredits(
+          order.user_id,
+          -order.credits,
+          'deduct',
+          `管理员手动修复-扣除${order.credits}点`,
+          orderNo
+        );
+        if (!deductResult.success) {
+          throw new Error(deductResult.insufficient
+            ? `用户点数不足，无法扣除${order.credits}点`
+            : `扣除用户点数失败: ${deductResult.error}`);
         }
         
-        // 记录点数变更日志
-      const { error: logInsertError } = await client
-        .from('ai_images_creator_credit_logs')
-        .insert({
-            user_id: order.user_id,
-          order_no: orderNo,
-            operation_type: 'deduct',
-          old_value: currentCredits,
-            change_value: -order.credits,
-            new_value: newCredits,
-          created_at: new Date().toISOString(),
-            note: `管理员手动修复-扣除${order.credits}点`
-        });
+        const newCredits = deductResult.credits as number;
         
-      if (logInsertError) {
-        throw new Error(`创建点数变更日志失败: ${logInsertError.message}`);
-      }
-      
         // 更新订单标记为未更新点数
         const { error: updateOrderError } = await client
           .from('ai_images_creator_payments')
@@ -304,9 +215,9 @@ export async function POST(request: NextRequest) {
             credits_updated: false
           },
           creditsUpdated: false,
-          oldCredits: currentCredits,
+          oldCredits: newCredits + order.credits,
           creditsDeducted: order.credits,
-          newCredits: newCredits
+          newCredits
         };
       }
       
@@ -333,6 +244,13 @@ export async function POST(request: NextRequest) {
       };
     });
     
+    await recordAuditLog({ userId: adminId, role: guard.role }, {
+      action: 'payment.fix_status',
+      resourceType: 'payment',
+      resourceId: orderNo,
+      metadata: { targetStatus, forceCreditUpdate, message: result.message }
+    }, request);
+    
     return NextResponse.json(result);
   } catch (error) {
     handleError(error, '修复订单状态', null, ErrorLevel.ERROR);
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createTransactionalAdminClient } from '@/utils/supabase/admin';
 import { getRequestInfo, getClientIP } from '@/utils/auth-middleware';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
+import { creditPaymentOrder } from '@/utils/credits/taskCredits';
 
 /**
  * 手动同步指定天数内未完成支付的API
  * 主要用于测试环境调试和特殊情况下的数据修复
+ * 仅管理员角色可访问，每次调用记录审计日志
  */
 export const GET = async (request: NextRequest) => {
   try {
@@ -14,16 +18,11 @@ export const GET = async (request: NextRequest) => {
     // 获取参数
     const url = new URL(request.url);
     const days = parseInt(url.searchParams.get('days') || '1', 10);
-    const overrideKey = url.searchParams.get('override_key');
     
-    // 安全检查
-    const validKey = process.env.ADMIN_OVERRIDE_KEY || '';
-    if (overrideKey !== validKey) {
-      console.warn(`尝试使用无效的管理员密钥进行操作: ${overrideKey}`);
-      return NextResponse.json({
-        success: false,
-        error: '无效的管理员密钥'
-      }, { status: 403 });
+    // 验证管理员角色
+    const guard = await requireRole('admin');
+    if (!guard.authorized) {
+      return roleGuardResponse(guard);
     }
     
     // 获取事务客户端
@@ -88,75 +87,20 @@ export const GET = async (request: NextRequest) => {
             throw new Error(`更新订单状态失败: ${updateError.message}`);
           }
           
-          // 2. 查询用户当前点数
-          const { data: creditData, error: creditQueryError } = await client
-            .from('ai_images_creator_credits')
-            .select('credits')
-            .eq('user_id', order.user_id)
-            .single();
-          
-          let currentCredits = 0;
-          let isNewCreditRecord = false;
-          
-          // 处理用户可能没有点数记录的情况
-          if (creditQueryError) {
-            if (creditQueryError.code === 'PGRST116') { // 不存在的记录
-              // 创建新的点数记录
-              isNewCreditRecord = true;
-              const { error: insertError } = await client
-                .from('ai_images_creator_credits')
-                .insert({
-                  user_id: order.user_id,
-                  credits: order.credits,
-                  created_at: new Date().toISOString(),
-                  updated_at: new Date().toISOString(),
-                  last_order_no: order.order_no
-                });
-                
-              if (insertError) {
-                throw new Error(`创建用户点数记录失败: ${insertError.message}`);
-              }
-            } else {
-              throw new Error(`查询用户点数失败: ${creditQueryError.message}`);
-            }
-          } else {
-            // 用户已有点数记录，更新点数
-            currentCredits = creditData.credits;
-            const newCredits = currentCredits + order.credits;
-            
-            const { error: updateCreditError } = await client
-              .from('ai_images_creator_credits')
-              .update({
-                credits: newCredits,
-                updated_at: new Date().toISOString(),
-                last_order_no: order.order_no
-              })
-              .eq('user_id', order.user_id);
-              
-            if (updateCreditError) {
-              throw new Error(`更新用户点数失败: ${updateCreditError.message}`);
-            }
+          // 2. 通过账本增加点数，订单已入账时不会重复增加
+          const creditResult = await creditPaymentOrder(
+            order.user_id,
+            order.order_no,
+            order.credits,
+            `手动同步充值${order.credits}点`
+          );
+          if (!creditResult.success) {
+            throw new Error(`增加用户点数失败: ${creditResult.error}`);
           }
           
-          // 3. 记录点数变更日志
-          const { error: logInsertError } = await client
-            .from('ai_images_creator_credit_logs')
-            .insert({
-              user_id: order.user_id,
-              order_no: order.order_no,
-              operation_type: 'recharge',
-              old_value: currentCredits,
-              change_value: order.credits,
-              new_value: currentCredits + order.credits,
-              created_at: new Date().toISOString(),
-              note: `手动同步充值${order.credits}点`
-            });
-            
-          if (logInsertError) {
-            throw new Error(`创建点数变更日志失败: ${logInsertError.message}`);
-          }
+          const newCredits = creditResult.credits as number;
           
-          // 4. 记录处理日志
+          // 3. 记录处理日志
           await client
             .from('ai_images_creator_payment_logs')
             .insert({
@@ -173,10 +117,9 @@ export const GET = async (request: NextRequest) => {
           results.push({
             order_no: order.order_no,
             result: 'success',
-            oldCredits: currentCredits,
+            oldCredits: newCredits - order.credits,
             addedCredits: order.credits,
-            newCredits: currentCredits + order.credits,
-            isNewCreditRecord
+            newCredits
           });
           
           console.log(`成功处理订单 ${order.order_no}`);
@@ -196,6 +139,15 @@ export const GET = async (request: NextRequest) => {
       };
     });
     
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'payment.manual_sync',
+      resourceType: 'payment',
+      metadata: {
+        days,
+        totalProcessed: result.totalProcessed
+      }
+    }, request);
+    
     return NextResponse.json({
       success: true,
       data: result
@@ -4,6 +4,7 @@ import { PaymentStatus, parsePaymentNotification } from '@/utils/payment';
 import { handleError, ErrorLevel } from '@/utils/error-handler';
 import { getRequestInfo } from '@/utils/auth-middleware';
 import { withRateLimit, ipKeyGenerator, rateLimitPresets } from '@/utils/rate-limiter';
+import { creditPaymentOrder } from '@/utils/credits/taskCredits';
 
 /**
  * 处理支付平台的异步通知
@@ -320,95 +321,19 @@ async function processWechatPaymentSuccess(
         };
       }
       
-      // 4. 查询用户当前点数
-      const { data: creditData, error: creditQueryError } = await client
-        .from('ai_images_creator_credits')
-        .select('credits')
-        .eq('user_id', orderData.user_id)
-        .single();
-        
-      let currentCredits = 0;
-      let isNewCreditRecord = false;
-      
-      // 处理用户可能没有点数记录的情况
-      if (creditQueryError) {
-        if (creditQueryError.code === 'PGRST116') {
-          // 创建新的点数记录
-          isNewCreditRecord = true;
-          const { error: insertError } = await client
-            .from('ai_images_creator_credits')
-            .insert({
-              user_id: orderData.user_id,
-              credits: orderData.credits,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-              last_order_no: orderNo
-            });
-            
-          if (insertError) {
-            console.error('创建用户点数记录失败:', insertError);
-            
-            // 更新回调日志状态
-            await updateCallbackStatus(orderNo, 'error', `创建用户点数记录失败: ${insertError.message}`);
-            
-            return new Response("success", { status: 200 }); // 仍返回成功，避免重复查询
-          }
-        } else {
-          console.error('查询用户点数失败:', creditQueryError);
-          
-          // 更新回调日志状态
-          await updateCallbackStatus(orderNo, 'error', `查询用户点数失败: ${creditQueryError.message}`);
-          
-          return new Response("success", { status: 200 }); // 仍返回成功，避免重复查询
-        }
-      } else {
-        // 用户已有点数记录，更新点数
-        currentCredits = creditData.credits;
-        const newCredits = currentCredits + orderData.credits;
-        
-        const { error: updateCreditError } = await client
-          .from('ai_images_creator_credits')
-          .update({
-            credits: newCredits,
-            updated_at: new Date().toISOString(),
-            last_order_no: orderNo
-          })
-          .eq('user_id', orderData.user_id);
-          
-        if (updateCreditError) {
-          console.error('更新用户点数失败:', updateCreditError);
-          
-          // 更新回调日志状态
-          await updateCallbackStatus(orderNo, 'error', `更新用户点数失败: ${updateCreditError.message}`);
-          
-          return new Response("success", { status: 200 }); // 仍返回成功，避免重复查询
-        }
-      }
-      
-      // 5. 记录点数变更日志
-      const { error: logInsertError } = await client
-        .from('ai_images_creator_credit_logs')
-        .insert({
-          user_id: orderData.user_id,
-          order_no: orderNo,
-          operation_type: 'recharge',
-          old_value: currentCredits,
-          change_value: orderData.credits,
-          new_value: currentCredits + orderData.credits,
-          created_at: new Date().toISOString(),
-          note: `充值${orderData.credits}点`
-        });
+      // 4. 通过账本增加点数，同一订单只入账一次
+      const creditResult = await creditPaymentOrder(orderData.user_id, orderNo, orderData.credits);
       
-      if (logInsertError) {
-        console.error('创建点数变更日志失败:', logInsertError);
+      if (!creditResult.success) {
+        console.error('增加用户点数失败:', creditResult.error);
         
         // 更新回调日志状态
-        await updateCallbackStatus(orderNo, 'error', `创建点数变更日志失败: ${logInsertError.message}`);
+        await updateCallbackStatus(orderNo, 'error', `增加用户点数失败: ${creditResult.error}`);
         
         return new Response("success", { status: 200 }); // 仍返回成功，避免重复查询
       }
       
-      // 6. 记录支付处理日志
+      // 5. 记录支付处理日志
       const { error: paymentLogError } = await client
         .from('ai_images_creator_payment_logs')
         .insert({
@@ -427,8 +352,7 @@ async function processWechatPaymentSuccess(
       }
       
       // 更新回调日志状态
-      await updateCallbackStatus(orderNo, 'success', isNewCreditRecord ? 
-        '新建用户点数记录并增加点数' : `更新用户点数: ${currentCredits} -> ${currentCredits + orderData.credits}`);
+      await updateCallbackStatus(orderNo, 'success', `增加${orderData.credits}点，当前余额${creditResult.credits}`);
       
       // 更新订单标记为已更新点数 - 增强版
       try {
@@ -689,90 +613,14 @@ async function processPaymentCallback(params: Record<string, any>) {
           return NextResponse.json({ message: "success" }, { status: 200 }); // 仍返回成功，避免重复查询
         }
         
-        // 查询用户当前点数
-        const { data: creditData, error: creditQueryError } = await client
-          .from('ai_images_creator_credits')
-          .select('credits')
-          .eq('user_id', orderData.user_id)
-          .single();
-          
-        let currentCredits = 0;
-        let isNewCreditRecord = false;
-        
-        // 处理用户可能没有点数记录的情况
-        if (creditQueryError) {
-          if (creditQueryError.code === 'PGRST116') {
-            // 创建新的点数记录
-            isNewCreditRecord = true;
-            const { error: insertError } = await client
-              .from('ai_images_creator_credits')
-              .insert({
-                user_id: orderData.user_id,
-                credits: orderData.credits,
-                created_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
-                last_order_no: orderNo
-              });
-              
-            if (insertError) {
-              console.error('创建用户点数记录失败:', insertError);
-              
-              // 更新回调日志状态
-              await updateCallbackStatus(orderNo, 'error', `创建用户点数记录失败: ${insertError.message}`);
-              
-              return NextResponse.json({ message: "success" }, { status: 200 }); // 仍返回成功，避免重复查询
-            }
-          } else {
-            console.error('查询用户点数失败:', creditQueryError);
-            
-            // 更新回调日志状态
-            await updateCallbackStatus(orderNo, 'error', `查询用户点数失败: ${creditQueryError.message}`);
-            
-            return NextResponse.json({ message: "success" }, { status: 200 }); // 仍返回成功，避免重复查询
-          }
-        } else {
-          // 用户已有点数记录，更新点数
-          currentCredits = creditData.credits;
-          const newCredits = currentCredits + orderData.credits;
-          
-          const { error: updateCreditError } = await client
-            .from('ai_images_creator_credits')
-            .update({
-              credits: newCredits,
-              updated_at: new Date().toISOString(),
-              last_order_no: orderNo
-            })
-            .eq('user_id', orderData.user_id);
-            
-          if (updateCreditError) {
-            console.error('更新用户点数失败:', updateCreditError);
-            
-            // 更新回调日志状态
-            await updateCallbackStatus(orderNo, 'error', `更新用户点数失败: ${updateCreditError.message}`);
-            
-            return NextResponse.json({ message: "success" }, { status: 200 }); // 仍返回成功，避免重复查询
-          }
-        }
-        
-        // 记录点数变更日志
-        const { error: logInsertError } = await client
-          .from('ai_images_creator_credit_logs')
-          .insert({
-            user_id: orderData.user_id,
-            order_no: orderNo,
-            operation_type: 'recharge',
-            old_value: currentCredits,
-            change_value: orderData.credits,
-            new_value: currentCredits + orderData.credits,
-            created_at: new Date().toISOString(),
-            note: `充值${orderData.credits}点`
-          });
+        // 通过账本增加点数，同一订单只入账一次
+        const creditResult = await creditPaymentOrder(orderData.user_id, orderNo, orderData.credits);
           
-        if (logInsertError) {
-          console.error('创建点数变更日志失败:', logInsertError);
+        if (!creditResult.success) {
+          console.error('增加用户点数失败:', creditResult.error);
           
           // 更新回调日志状态
-          await updateCallbackStatus(orderNo, 'error', `创建点数变更日志失败: ${logInsertError.message}`);
+          await updateCallbackStatus(orderNo, 'error', `增加用户点数失败: ${creditResult.error}`);
           
           return NextResponse.json({ message: "success" }, { status: 200 }); // 仍返回成功，避免重复查询
         }
@@ -789,8 +637,7 @@ async function processPaymentCallback(params: Record<string, any>) {
         }
         
         // 更新回调日志状态
-        await updateCallbackStatus(orderNo, 'success', isNewCreditRecord ? 
-          '新建用户点数记录并增加点数' : `更新用户点数: ${currentCredits} -> ${currentCredits + orderData.credits}`);
+        await updateCallbackStatus(orderNo, 'success', `增加${orderData.credits}点，当前余额${creditResult.credits}`);
         
       // 更新订单标记为已更新点数 - 增强版
       try {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { quoteImageGeneration, resolveImageSize, selectImageProviderForTask } from '@/utils/imageProviders';
+import { MAX_VARIANTS } from '@/utils/imageTasks/createImageTasks';
+import { resolveStyleConfig, resolveTaskAspectRatio } from '@/utils/styles/styleCatalog';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 生成前报价
+ * 使用与生成接口相同的提供商选择与计费逻辑，前端据此在提交前展示所需点数
+ *
+ * 查询参数: aspectRatio, hasReferenceImage(1/true), style, provider, variants
+ * 未指定比例时与创建任务一样使用风格的默认比例
+ * 批量生成按变体数量计费，credits 为总点数，creditsPerVariant 为单个变体的点数
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const aspectRatio = params.get('aspectRatio');
+  const hasReferenceImage = ['1', 'true'].includes(params.get('hasReferenceImage') || '');
+  const style = params.get('style');
+  const variants = Math.min(Math.max(parseInt(params.get('variants') || '1', 10) || 1, 1), MAX_VARIANTS);
+
+  const styleConfig = await resolveStyleConfig(style);
+  const { provider } = selectImageProviderForTask(params.get('provider'));
+  const quote = quoteImageGeneration(provider, {
+    size: resolveImageSize(resolveTaskAspectRatio(aspectRatio, styleConfig)),
+    hasReferenceImage,
+    style
+  });
+
+  return NextResponse.json({
+    success: true,
+    ...quote,
+    credits: quote.credits * variants,
+    creditsPerVariant: quote.credits,
+    variants
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { revokeImageShare } from '@/utils/shares/imageShares';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ shareId: string }> };
+
+/**
+ * 撤销分享链接，撤销后公开页面立即失效
+ */
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const { shareId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const revoked = await revokeImageShare(user.id, shareId);
+    if (!revoked) {
+      return NextResponse.json({ success: false, error: '分享链接不存在或已撤销' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { createImageShare, ImageShareValidationError, listImageShares } from '@/utils/shares/imageShares';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出当前用户的分享链接
+ * 查询参数: historyId? 只列出某张图片的链接
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  const historyId = Number(request.nextUrl.searchParams.get('historyId')) || undefined;
+
+  try {
+    const shares = await listImageShares(user.id, historyId);
+    return NextResponse.json({ success: true, shares });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 创建分享链接
+ * 请求体: { historyId? | imageUrl?, showPrompt?, expiresInDays? }
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const share = await createImageShare(user.id, {
+      historyId: body?.historyId,
+      imageUrl: body?.imageUrl,
+      showPrompt: body?.showPrompt,
+      expiresInDays: body?.expiresInDays
+    });
+    return NextResponse.json({ success: true, share }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ImageShareValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LocalStorageBackend, StorageError, getStorageBackendForBucket } from '@/utils/storage/backends';
+import { bucketConfigs } from '@/utils/storage/storageConfig';
+import { createLogger } from '@/utils/logger';
+
+export const dynamic = 'force-dynamic';
+
+const logger = createLogger('本地存储');
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  zip: 'application/zip',
+  pdf: 'application/pdf'
+};
+
+/**
+ * 本地文件系统存储的文件访问
+ * 只在存储桶使用 local 存储后端时可用；公开存储桶直接返回文件，
+ * 其他存储桶需要 createSignedUrl 生成的 expires 和 signature 参数
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ bucket: string; path: string[] }> }
+) {
+  const { bucket, path: segments } = await params;
+  const path = (segments || []).join('/');
+
+  try {
+    // 存储后端配置不完整（如缺少 LOCAL_STORAGE_SECRET）时在这里抛出，统一返回JSON错误
+    const backend = getStorageBackendForBucket(bucket);
+    const config = Object.values(bucketConfigs).find(item => item.name === bucket);
+    if (!config || !(backend instanceof LocalStorageBackend) || !path) {
+      return NextResponse.json({ success: false, error: '文件不存在' }, { status: 404 });
+    }
+
+    const { searchParams } = request.nextUrl;
+    if (!config.publicAccess &&
+        !backend.verifySignedUrl(bucket, path, searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json({ success: false, error: '访问链接无效或已过期' }, { status: 403 });
+    }
+
+    const data = await backend.get(bucket, path);
+    const extension = path.split('.').pop()?.toLowerCase() || '';
+    const headers: Record<string, string> = {
+      'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+      'Content-Length': String(data.length),
+      'Cache-Control': config.publicAccess ? 'public, max-age=31536000, immutable' : 'private, no-store'
+    };
+
+    const download = searchParams.get('download');
+    if (download) {
+      headers['Content-Disposition'] = `attachment; filename*=UTF-8''${encodeURIComponent(download)}`;
+    }
+
+    return new NextResponse(new Uint8Array(data), { headers });
+  } catch (error) {
+    const status = error instanceof StorageError && error.status ? error.status : 500;
+    if (status === 500) {
+      logger.error(`读取文件${bucket}/${path}失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return NextResponse.json(
+      { success: false, error: status === 404 ? '文件不存在' : '读取文件失败' },
+      { status: status === 404 || status === 400 ? status : 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteStyle,
+  getStyle,
+  StyleValidationError,
+  toStyleConfig,
+  updateStyle
+} from "@/utils/styles/styleCatalog";
+import { requireRole, roleGuardResponse } from "@/utils/roles/roles";
+import { recordAuditLog } from "@/utils/roles/auditLog";
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * 获取单个风格，已停用的风格只有编辑及以上角色可见
+ */
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+  const styleId = decodeURIComponent(id);
+
+  try {
+    const style = await getStyle(styleId);
+
+    if (!style || (!style.enabled && !(await requireRole('editor')).authorized)) {
+      return NextResponse.json({ success: false, error: '未找到风格' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: toStyleConfig(style) });
+  } catch (error) {
+    console.error('获取风格失败:', error);
+    return NextResponse.json({ success: false, error: '获取风格失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 更新风格，需要编辑及以上角色
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  const { id } = await context.params;
+  const styleId = decodeURIComponent(id);
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const style = await updateStyle(styleId, body);
+
+    if (!style) {
+      return NextResponse.json({ success: false, error: '未找到风格' }, { status: 404 });
+    }
+
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'style.update',
+      resourceType: 'style',
+      resourceId: styleId,
+      metadata: { fields: Object.keys(body || {}), enabled: style.enabled }
+    }, request);
+
+    return NextResponse.json({ success: true, data: toStyleConfig(style) });
+  } catch (error) {
+    if (error instanceof StyleValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('更新风格失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新风格失败'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 删除风格，需要编辑及以上角色
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  const { id } = await context.params;
+  const styleId = decodeURIComponent(id);
+
+  try {
+    const deleted = await deleteStyle(styleId);
+
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: '未找到风格' }, { status: 404 });
+    }
+
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'style.delete',
+      resourceType: 'style',
+      resourceId: styleId
+    }, request);
+
+    return NextResponse.json({ success: true, message: '风格已删除' });
+  } catch (error) {
+    console.error('删除风格失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '删除风格失败'
+    }, { status: 500 });
+  }
+}
@@ -1,77 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
+import { createStyle, listStyles, StyleValidationError, toStyleConfig } from "@/utils/styles/styleCatalog";
+import { requireRole, roleGuardResponse } from "@/utils/roles/roles";
+import { recordAuditLog } from "@/utils/roles/auditLog";
 
-// 模拟数据
-const mockStyles = [
-  {
-    id: "style-1",
-    name: "动漫风格",
-    description: "日式动漫风格，适合创建动漫角色和场景",
-    preview_image: "/images/styles/anime.jpg",
-    created_at: "2023-09-01T08:00:00Z",
-    updated_at: "2023-09-01T08:00:00Z",
-  },
-  {
-    id: "style-2",
-    name: "水彩插画",
-    description: "精美水彩风格插画，色彩丰富，质感细腻",
-    preview_image: "/images/styles/watercolor.jpg",
-    created_at: "2023-09-02T10:15:00Z",
-    updated_at: "2023-09-02T10:15:00Z",
-  },
-  {
-    id: "style-3",
-    name: "卡通风格",
-    description: "可爱的卡通风格，适合创建有趣的人物和场景",
-    preview_image: "/images/styles/cartoon.jpg",
-    created_at: "2023-09-03T09:30:00Z",
-    updated_at: "2023-09-03T09:30:00Z",
-  },
-  {
-    id: "style-4",
-    name: "动物森友会风格",
-    description: "任天堂动物森友会游戏风格，可爱、圆润的角色与明亮的色彩",
-    preview_image: "/images/styles/animal-crossing.jpg",
-    created_at: "2023-09-10T14:45:00Z",
-    updated_at: "2023-09-10T14:45:00Z",
-  },
-  {
-    id: "style-5",
-    name: "像素艺术",
-    description: "复古像素风格，适合创建游戏角色和场景",
-    preview_image: "/images/styles/pixel-art.jpg",
-    created_at: "2023-09-15T11:20:00Z",
-    updated_at: "2023-09-15T11:20:00Z",
-  },
-  {
-    id: "style-6",
-    name: "赛博朋克",
-    description: "未来科技与复古元素混合的赛博朋克风格",
-    preview_image: "/images/styles/cyberpunk.jpg",
-    created_at: "2023-09-20T16:10:00Z",
-    updated_at: "2023-09-20T16:10:00Z",
-  }
-];
+export const dynamic = 'force-dynamic';
 
+/**
+ * 获取风格列表
+ * 查询参数: search 按名称或描述过滤；all=true 包含已停用的风格（需要编辑及以上角色）
+ */
 export async function GET(request: NextRequest) {
   try {
     // 获取查询参数
     const searchParams = request.nextUrl.searchParams;
     const search = searchParams.get('search') || '';
-    
+    const includeDisabled = searchParams.get('all') === 'true';
+
+    if (includeDisabled) {
+      const guard = await requireRole('editor');
+      if (!guard.authorized) {
+        return roleGuardResponse(guard);
+      }
+    }
+
+    let styles = (await listStyles(includeDisabled)).map(toStyleConfig);
+
     // 搜索过滤
-    let filteredStyles = [...mockStyles];
     if (search) {
       const searchLower = search.toLowerCase();
-      filteredStyles = filteredStyles.filter(style => 
-        style.name.toLowerCase().includes(searchLower) || 
+      styles = styles.filter(style =>
+        style.name.toLowerCase().includes(searchLower) ||
         style.description.toLowerCase().includes(searchLower)
       );
     }
-    
+
     // 返回结果
     return NextResponse.json({
       success: true,
-      data: filteredStyles
+      data: styles
     });
   } catch (error) {
     console.error('获取风格列表出错:', error);
@@ -80,4 +46,38 @@ export async function GET(request: NextRequest) {
       error: '获取风格列表失败'
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * 创建风格，需要编辑及以上角色
+ */
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const style = await createStyle(body);
+
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'style.create',
+      resourceType: 'style',
+      resourceId: style.id,
+      metadata: { name: style.name, enabled: style.enabled }
+    }, request);
+
+    return NextResponse.json({ success: true, data: toStyleConfig(style) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof StyleValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('创建风格失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '创建风格失败'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
 import { createAdminClient } from '@/utils/supabase/admin';
+import { releaseTaskCredits } from '@/utils/credits/taskCredits';
 // import { getLogger } from '@/utils/logger';
 
 // const logger = getLogger('task-final-check-api');
@@ -265,6 +266,9 @@ export async function POST(
     }
     
     logger.info(`[${requestId}] 已成功取消任务: ${taskId}`);
+
+    // 释放任务预留的点数
+    await releaseTaskCredits(taskId, '任务已被取消');
     
     // 尝试通知前端任务已取消
     try {
@@ -20,7 +20,7 @@ const logger = {
 
 /**
  * 任务通知API - 处理任务状态变更通知
- * 可以被后端服务调用，也可以通过Server-Sent Events被前端订阅
+ * 可以被后端服务调用；前端订阅任务进度请使用 /api/tasks/[taskId]/events
  */
 export async function POST(request: NextRequest) {
   try {
@@ -57,7 +57,8 @@ export async function POST(request: NextRequest) {
             completed_at: new Date().toISOString(),
             updated_at: new Date().toISOString()
           })
-          .eq('task_id', taskId);
+          .eq('task_id', taskId)
+          .neq('status', 'cancelled'); // 已取消的任务不再被覆盖
         
         logger.info(`已更新任务${taskId}状态为completed，图片URL: ${imageUrl?.substring(0, 50)}...`);
         
@@ -108,7 +109,8 @@ export async function POST(request: NextRequest) {
             error_message: errorMessage || '未知错误',
             updated_at: new Date().toISOString()
           })
-          .eq('task_id', taskId);
+          .eq('task_id', taskId)
+          .neq('status', 'cancelled');
         
         logger.info(`已更新任务${taskId}状态为failed，错误: ${errorMessage || '未知错误'}`);
         
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { createTaskEventStream, TASK_SNAPSHOT_COLUMNS, TaskSnapshot } from '@/utils/imageTasks/taskEventStream';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const logger = createLogger('任务事件流');
+
+/**
+ * 任务进度事件流(SSE)
+ * 推送 updateTaskProgress/reportProgress 写入的 progress、stage，
+ * 任务结束时发送 completed、failed 或 cancelled 事件，随后发送 done 并关闭连接
+ *
+ * 事件：
+ * - progress: { taskId, status, progress, stage }
+ * - completed: { taskId, status, imageUrl, progress, stage }
+ * - failed / cancelled: { taskId, status, error, progress, stage }
+ * - done: { taskIds }
+ * - timeout: 连接达到最长保持时间，任务仍未结束
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await context.params;
+
+  if (!taskId) {
+    return NextResponse.json({ error: '缺少任务ID', code: 'missing_task_id' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: '未授权访问', code: 'unauthorized' }, { status: 401 });
+  }
+
+  const supabaseAdmin = createAdminClient();
+
+  const loadSnapshots = async (): Promise<TaskSnapshot[]> => {
+    const { data, error } = await supabaseAdmin
+      .from('image_tasks')
+      .select(TASK_SNAPSHOT_COLUMNS)
+      .eq('task_id', taskId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data || []) as TaskSnapshot[];
+  };
+
+  let initial: TaskSnapshot[];
+  try {
+    initial = await loadSnapshots();
+  } catch (error) {
+    logger.error(`查询任务${taskId}失败: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: '查询任务状态失败', code: 'query_error' }, { status: 500 });
+  }
+
+  if (initial.length === 0) {
+    return NextResponse.json({ error: '任务不存在或无权访问', code: 'task_not_found' }, { status: 404 });
+  }
+
+  logger.info(`用户${user.id}开始订阅任务${taskId}的事件`);
+
+  return createTaskEventStream({
+    request,
+    taskIds: [taskId],
+    initial,
+    loadSnapshots,
+    maxDurationMs: (maxDuration - 10) * 1000,
+    label: `任务${taskId}`
+  });
+}
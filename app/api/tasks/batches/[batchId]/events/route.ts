@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { createTaskEventStream, TASK_SNAPSHOT_COLUMNS, TaskSnapshot } from '@/utils/imageTasks/taskEventStream';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const logger = createLogger('任务事件流');
+
+/**
+ * 批次进度事件流(SSE)
+ * 一个连接推送批次内所有变体任务的进度，事件与单个任务的事件流相同并带有 taskId；
+ * 每个任务结束时发送一次 completed、failed 或 cancelled，全部结束后发送 done 并关闭连接
+ *
+ * 事件：
+ * - progress: { taskId, status, progress, stage }
+ * - completed: { taskId, status, imageUrl, progress, stage }
+ * - failed / cancelled: { taskId, status, error, progress, stage }
+ * - done: { taskIds }，按批次顺序
+ * - timeout: 连接达到最长保持时间，仍有任务未结束
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ batchId: string }> }
+) {
+  const { batchId } = await context.params;
+
+  if (!batchId) {
+    return NextResponse.json({ error: '缺少批次ID', code: 'missing_batch_id' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: '未授权访问', code: 'unauthorized' }, { status: 401 });
+  }
+
+  const supabaseAdmin = createAdminClient();
+
+  const loadSnapshots = async (): Promise<TaskSnapshot[]> => {
+    const { data, error } = await supabaseAdmin
+      .from('image_tasks')
+      .select(TASK_SNAPSHOT_COLUMNS)
+      .eq('batch_id', batchId)
+      .eq('user_id', user.id)
+      .order('batch_index', { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data || []) as TaskSnapshot[];
+  };
+
+  let initial: TaskSnapshot[];
+  try {
+    initial = await loadSnapshots();
+  } catch (error) {
+    logger.error(`查询批次${batchId}失败: ${error instanceof Error ? error.message : String(error)}`);
+    return NextResponse.json({ error: '查询任务状态失败', code: 'query_error' }, { status: 500 });
+  }
+
+  if (initial.length === 0) {
+    return NextResponse.json({ error: '批次不存在或无权访问', code: 'batch_not_found' }, { status: 404 });
+  }
+
+  logger.info(`用户${user.id}开始订阅批次${batchId}的事件，共${initial.length}个任务`);
+
+  return createTaskEventStream({
+    request,
+    taskIds: initial.map(task => task.task_id),
+    initial,
+    loadSnapshots,
+    maxDurationMs: (maxDuration - 10) * 1000,
+    label: `批次${batchId}`
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/utils/logger';
+import { runImageTaskWorker } from '@/utils/imageTasks/worker';
+
+const logger = createLogger('任务Worker API');
+
+// 执行可能耗时较长，与生成接口保持一致
+export const maxDuration = 300;
+
+// 单次调用最多领取的任务数
+const MAX_LIMIT = 10;
+
+/**
+ * 内部任务Worker API - 由后台处理程序(如Edge Function、轮询脚本)调用
+ * 回收过期租约并从队列中领取任务执行
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  const secretKey = process.env.TASK_PROCESS_SECRET_KEY;
+
+  if (!secretKey || authHeader !== `Bearer ${secretKey}`) {
+    logger.warn('未授权的任务Worker请求');
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { limit, source } = body as { limit?: number; source?: string };
+
+  try {
+    const summary = await runImageTaskWorker({
+      limit: Math.min(Math.max(Number(limit) || 1, 1), MAX_LIMIT),
+      source: source || 'api'
+    });
+    return NextResponse.json({ success: true, ...summary });
+  } catch (workerError) {
+    const errorMessage = workerError instanceof Error ? workerError.message : String(workerError);
+    logger.error(`运行任务Worker失败: ${errorMessage}`);
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { setTemplateFavorite, TemplateEngagementError } from '@/utils/templates/templateEngagement';
+
+export const dynamic = 'force-dynamic';
+
+async function handleFavorite(context: any, favorited: boolean) {
+  const guard = await requireRole('user');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  try {
+    const { id: templateId } = context.params;
+    const result = await setTemplateFavorite(guard.user.id, templateId, favorited);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof TemplateEngagementError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('更新模板收藏失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '更新收藏失败'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 收藏模板
+ */
+export async function POST(request: NextRequest, context: any) {
+  return handleFavorite(context, true);
+}
+
+/**
+ * 取消收藏
+ */
+export async function DELETE(request: NextRequest, context: any) {
+  return handleFavorite(context, false);
+}
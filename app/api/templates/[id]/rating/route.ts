@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { rateTemplate, TemplateEngagementError } from '@/utils/templates/templateEngagement';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 为模板评分，请求体: { rating: 1-5 }，重复评分覆盖之前的评分
+ */
+export async function PUT(
+  request: NextRequest,
+  context: any
+) {
+  const guard = await requireRole('user');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  try {
+    const { id: templateId } = context.params;
+    const body = await request.json().catch(() => ({}));
+    const result = await rateTemplate(guard.user.id, templateId, body?.rating);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof TemplateEngagementError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('模板评分失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '评分失败'
+    }, { status: 500 });
+  }
+}
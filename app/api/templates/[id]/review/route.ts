@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
+import { reviewTemplate, TemplateSubmissionError } from '@/utils/templates/templateSubmissions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 审核用户投稿的模板，需要编辑及以上角色
+ * 请求体: { decision: 'approve' | 'reject', note? }，驳回时 note 必填并展示给作者
+ */
+export async function POST(
+  request: NextRequest,
+  context: any
+) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  try {
+    const { id: templateId } = context.params;
+    const body = await request.json().catch(() => ({}));
+    const template = await reviewTemplate(templateId, guard.user.id, body?.decision, body?.note);
+
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: '模板不存在或已被审核'
+      }, { status: 409 });
+    }
+
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: body.decision === 'approve' ? 'template.approve' : 'template.reject',
+      resourceType: 'template',
+      resourceId: templateId,
+      metadata: { name: template.name, authorId: template.author_id, note: template.review_note }
+    }, request);
+
+    return NextResponse.json({ success: true, data: template });
+  } catch (error) {
+    if (error instanceof TemplateSubmissionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('审核模板失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '审核模板失败'
+    }, { status: 500 });
+  }
+}
@@ -2,9 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import { handleError } from '@/utils/error-handler';
 import { v4 as uuidv4 } from 'uuid';
 import { templateStore } from '../supabase-store';
+import { hasRole, requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
+import { validateTemplateDefinition } from '@/utils/promptTemplate';
+import { getTemplateEngagement } from '@/utils/templates/templateEngagement';
+
+// 投稿来源与审核信息只能通过投稿、审核接口写入
+// 互动聚合字段由数据库维护
+const PROTECTED_FIELDS = [
+  'author_id', 'author_name', 'source_history_id', 'submitted_at',
+  'reviewed_by', 'reviewed_at', 'review_note',
+  'favorite_count', 'rating_count', 'rating_avg', 'trending_score'
+];
 
 /**
  * 获取单个模板详情
+ * 未发布的模板只对作者和编辑及以上角色可见
  */
 export async function GET(
   request: NextRequest,
@@ -32,9 +45,28 @@ export async function GET(
       }, { status: 404 });
     }
     
+    const viewer = await requireRole('user');
+    
+    if (template.status !== 'published') {
+      const canView = viewer.authorized &&
+        (viewer.user.id === template.author_id || hasRole(viewer.role, 'editor'));
+      if (!canView) {
+        return NextResponse.json({
+          success: false,
+          error: '未找到模板'
+        }, { status: 404 });
+      }
+    }
+    
+    // 登录用户附带自己的收藏和评分状态
+    const engagement = viewer.authorized
+      ? await getTemplateEngagement(viewer.user.id, templateId)
+      : null;
+    
     return NextResponse.json({
       success: true,
-      data: template
+      data: template,
+      engagement
     });
   } catch (error: any) {
     console.error('获取模板失败:', error);
@@ -47,11 +79,17 @@ export async function GET(
 
 /**
  * 更新模板使用次数
+ * 创意广场中使用模板时调用，登录用户即可访问；同一用户每天只计一次，只统计已发布的模板
  */
 export async function PATCH(
   request: NextRequest,
   context: any
 ) {
+  const guard = await requireRole('user');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
   try {
     const { id: templateId } = context.params;
     console.log(`更新模板，ID: ${templateId}`);
@@ -64,7 +102,14 @@ export async function PATCH(
     }
     
     // 使用新的模板存储类增加使用次数
-    const success = await templateStore.incrementUseCount(templateId);
+    const success = await templateStore.incrementUseCount(templateId, guard.user.id);
+    
+    if (success === 'not_found') {
+      return NextResponse.json(
+        { success: false, error: '未找到模板' },
+        { status: 404 }
+      );
+    }
     
     if (!success) {
       return NextResponse.json(
@@ -88,12 +133,17 @@ export async function PATCH(
 }
 
 /**
- * 更新模板
+ * 更新模板，需要编辑及以上角色
  */
 export async function PUT(
   request: NextRequest,
   context: any
 ) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
   try {
     const { id: templateId } = context.params;
     console.log(`更新模板，ID: ${templateId}`);
@@ -102,6 +152,30 @@ export async function PUT(
     const updateData = await request.json();
     console.log('更新数据:', updateData);
     
+    for (const field of PROTECTED_FIELDS) {
+      delete updateData?.[field];
+    }
+    
+    // 修改提示词相关字段时，与现有字段合并后整体校验
+    if (['base_prompt', 'prompt_slots', 'prompt_variants'].some(field => field in (updateData || {}))) {
+      const existing = await templateStore.getTemplate(templateId);
+      if (!existing) {
+        return NextResponse.json({ success: false, error: "未找到模板" }, { status: 404 });
+      }
+      
+      const templateErrors = validateTemplateDefinition({
+        base_prompt: updateData.base_prompt ?? existing.base_prompt,
+        prompt_slots: updateData.prompt_slots ?? existing.prompt_slots ?? [],
+        prompt_variants: updateData.prompt_variants ?? existing.prompt_variants ?? {}
+      });
+      if (templateErrors.length > 0) {
+        return NextResponse.json({
+          success: false,
+          error: `提示词模板无效: ${templateErrors.join('；')}`
+        }, { status: 400 });
+      }
+    }
+    
     // 更新模板
     const updatedTemplate = await templateStore.updateTemplate(templateId, updateData);
     
@@ -115,6 +189,13 @@ export async function PUT(
       );
     }
     
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'template.update',
+      resourceType: 'template',
+      resourceId: templateId,
+      metadata: { fields: Object.keys(updateData || {}), status: updatedTemplate.status }
+    }, request);
+    
     return NextResponse.json({
       success: true,
       data: updatedTemplate
@@ -132,12 +213,17 @@ export async function PUT(
 }
 
 /**
- * 删除模板
+ * 删除模板，需要编辑及以上角色
  */
 export async function DELETE(
   request: NextRequest,
   context: any
 ) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
   try {
     const { id: templateId } = context.params;
     console.log(`删除模板，ID: ${templateId}`);
@@ -159,6 +245,12 @@ export async function DELETE(
       }, { status: 404 });
     }
     
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'template.delete',
+      resourceType: 'template',
+      resourceId: templateId
+    }, request);
+    
     return NextResponse.json({
       success: true,
       message: '模板已删除'
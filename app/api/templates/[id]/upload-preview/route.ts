@@ -1,6 +1,8 @@
 import type { NextApiRequest } from 'next';
 import { NextRequest, NextResponse } from 'next/server';
 import { templateStore } from '../../supabase-store';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
 
 type RouteContext = {
   params: {
@@ -8,10 +10,18 @@ type RouteContext = {
   };
 };
 
+/**
+ * 上传模板预览图，需要编辑及以上角色
+ */
 export async function POST(
   request: NextRequest,
   context: any
 ): Promise<Response> {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
   try {
     const { id: templateId } = context.params;
     console.log(`尝试上传图片到模板 ID: ${templateId}`);
@@ -97,6 +107,13 @@ export async function POST(
       
       console.log(`成功更新模板预览图片: ${template.name} (ID: ${template.id})`);
       
+      await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+        action: 'template.upload_preview',
+        resourceType: 'template',
+        resourceId: template.id,
+        metadata: { size: file.size, type: file.type }
+      }, request);
+      
       return NextResponse.json({
         success: true,
         data: {
@@ -2,9 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
 import { templateStore } from './supabase-store';
 import type { Template } from '@/app/api/templates/types';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { recordAuditLog } from '@/utils/roles/auditLog';
+import { validateTemplateDefinition } from '@/utils/promptTemplate';
+import { listFavoriteTemplateIds } from '@/utils/templates/templateEngagement';
+
+// 可用的排序方式，trending 为服务端计算的热门分数
+const SORT_FIELDS = ['created_at', 'use_count', 'name', 'favorite_count', 'rating_avg', 'trending'];
 
 /**
  * 获取模板列表
+ * 默认只返回已发布的模板；mine=true 返回当前用户的投稿（任意状态），
+ * favorites=true 返回当前用户收藏的模板，查询其他状态（审核队列等）需要编辑及以上角色
+ * sort=trending 按热门分数排序
  */
 export async function GET(request: NextRequest) {
   try {
@@ -14,9 +24,11 @@ export async function GET(request: NextRequest) {
     // 如果是获取标签列表的请求
     if (getTags) {
       const templates = await templateStore.getTemplates();
-      // 从所有模板中提取标签并去重
+      // 从已发布的模板中提取标签并去重
       const tags = Array.from(new Set(
-        templates.flatMap(template => template.tags || [])
+        templates
+          .filter(template => template.status === 'published')
+          .flatMap(template => template.tags || [])
       )).filter(Boolean);
       
       return NextResponse.json({
@@ -30,12 +42,36 @@ export async function GET(request: NextRequest) {
     // 解析查询参数
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '12');
-    const sort = searchParams.get('sort') || 'created_at';
+    const requestedSort = searchParams.get('sort') || 'created_at';
+    const sort = SORT_FIELDS.includes(requestedSort) ? requestedSort : 'created_at';
     const order = (searchParams.get('order') || 'desc') as 'asc' | 'desc';
-    const status = searchParams.get('status') || 'published';
+    const mine = searchParams.get('mine') === 'true';
+    const favorites = searchParams.get('favorites') === 'true';
+    const status = searchParams.get('status') || (mine ? 'all' : 'published');
     const tag = searchParams.get('tag') || undefined;
     const search = searchParams.get('search') || undefined;
     
+    // 我的投稿和收藏需要登录，其他状态的模板只对编辑及以上角色可见
+    let authorId: string | undefined;
+    let ids: string[] | undefined;
+    if (mine || favorites) {
+      const guard = await requireRole('user');
+      if (!guard.authorized) {
+        return roleGuardResponse(guard);
+      }
+      if (mine) {
+        authorId = guard.user.id;
+      } else {
+        ids = await listFavoriteTemplateIds(guard.user.id);
+      }
+    }
+    if (!mine && status !== 'published') {
+      const guard = await requireRole('editor');
+      if (!guard.authorized) {
+        return roleGuardResponse(guard);
+      }
+    }
+    
     // 防止异常参数
     const validPage = Math.max(1, page);
     const validLimit = Math.min(24, Math.max(4, limit));
@@ -48,6 +84,8 @@ export async function GET(request: NextRequest) {
       sort, 
       order, 
       status, 
+      mine,
+      favorites,
       tag, 
       search
     });
@@ -55,6 +93,8 @@ export async function GET(request: NextRequest) {
     // 使用Supabase存储查询
     const result = await templateStore.queryTemplates({
       status: status !== 'all' ? status : undefined,
+      authorId,
+      ids,
       tag,
       search,
       sort,
@@ -85,9 +125,14 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * 创建新模板
+ * 创建新模板，需要编辑及以上角色
  */
 export async function POST(request: NextRequest) {
+  const guard = await requireRole('editor');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
   try {
     const templateData = await request.json();
     
@@ -106,6 +151,19 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
     
+    // 校验提示词模板与插槽声明
+    const templateErrors = validateTemplateDefinition({
+      base_prompt: templateData.base_prompt || '',
+      prompt_slots: templateData.prompt_slots || [],
+      prompt_variants: templateData.prompt_variants || {}
+    });
+    if (templateErrors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `提示词模板无效: ${templateErrors.join('；')}`
+      }, { status: 400 });
+    }
+    
     // 生成标准UUID作为模板ID，以适应Supabase的UUID类型要求
     const templateId = uuidv4();
     
@@ -120,9 +178,23 @@ export async function POST(request: NextRequest) {
       preview_image: templateData.preview_image || '',
       status: templateData.status || 'published',
       tags: templateData.tags || [],
+      prompt_slots: templateData.prompt_slots || [],
+      prompt_variants: templateData.prompt_variants || {},
       prompt_guide: templateData.prompt_guide || null,
       prompt_placeholder: templateData.prompt_placeholder || null,
-      style_id: templateData.style_id || null
+      style_id: templateData.style_id || null,
+      // 管理后台创建的是官方模板，不署名
+      author_id: null,
+      author_name: null,
+      source_history_id: null,
+      submitted_at: null,
+      reviewed_by: null,
+      reviewed_at: null,
+      review_note: null,
+      favorite_count: 0,
+      rating_count: 0,
+      rating_avg: 0,
+      trending_score: 0
     };
     
     console.log('准备创建新模板:', {
@@ -134,6 +206,13 @@ export async function POST(request: NextRequest) {
     // 添加到Supabase
     const savedTemplate = await templateStore.addTemplate(newTemplate);
     
+    await recordAuditLog({ userId: guard.user.id, role: guard.role }, {
+      action: 'template.create',
+      resourceType: 'template',
+      resourceId: templateId,
+      metadata: { name: newTemplate.name, status: newTemplate.status }
+    }, request);
+    
     return NextResponse.json({
       success: true,
       data: savedTemplate
@@ -1,3 +1,5 @@
+import type { PromptSlot } from '@/utils/promptTemplate';
+
 // 定义模板数据类型
 export interface Template {
   id: string;
@@ -5,6 +7,9 @@ export interface Template {
   description: string;
   preview_image: string;
   base_prompt: string;
+  // 插槽声明与按语言的模板文本，语法见 utils/promptTemplate.ts
+  prompt_slots?: PromptSlot[];
+  prompt_variants?: Record<string, string>;
   style_id: string | null;
   requires_image: boolean;
   prompt_required: boolean;
@@ -12,6 +17,19 @@ export interface Template {
   prompt_placeholder: string | null;
   tags: string[];
   status: string;
+  // 投稿作者与审核信息，官方模板为空
+  author_id?: string | null;
+  author_name?: string | null;
+  source_history_id?: number | null;
+  submitted_at?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_note?: string | null;
+  // 互动统计，由数据库触发器和热门分数定时任务维护
+  favorite_count?: number;
+  rating_count?: number;
+  rating_avg?: number;
+  trending_score?: number;
   created_at: string;
   updated_at: string;
   use_count: number;
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, roleGuardResponse } from '@/utils/roles/roles';
+import { submitTemplateFromHistory, TemplateSubmissionError } from '@/utils/templates/templateSubmissions';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 把历史记录中的作品投稿为模板，投稿进入待审核状态
+ * 请求体: { historyId, name, description, tags? }
+ */
+export async function POST(request: NextRequest) {
+  const guard = await requireRole('user');
+  if (!guard.authorized) {
+    return roleGuardResponse(guard);
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const template = await submitTemplateFromHistory(guard.user, body || {});
+
+    return NextResponse.json({ success: true, data: template }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TemplateSubmissionError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+
+    console.error('投稿模板失败:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : '投稿模板失败'
+    }, { status: 500 });
+  }
+}
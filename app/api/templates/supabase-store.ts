@@ -1,5 +1,6 @@
 // Supabase版模板存储类
 import { supabaseClient } from '@/utils/supabase-client';
+import { createAdminClient } from '@/utils/supabase/admin';
 import { Template } from './store';
 
 // 模板存储类 - Supabase版本
@@ -122,6 +123,8 @@ export class SupabaseTemplateStore {
   // 按条件查询模板
   public async queryTemplates(options: {
     status?: string,
+    authorId?: string,
+    ids?: string[],
     search?: string,
     tag?: string,
     sort?: string,
@@ -138,6 +141,19 @@ export class SupabaseTemplateStore {
         query = query.eq('status', options.status);
       }
       
+      // 只看指定作者的投稿
+      if (options.authorId) {
+        query = query.eq('author_id', options.authorId);
+      }
+      
+      // 只查询指定模板（收藏列表）
+      if (options.ids) {
+        if (options.ids.length === 0) {
+          return { templates: [], total: 0 };
+        }
+        query = query.in('id', options.ids);
+      }
+      
       // 应用标签过滤
       if (options.tag) {
         query = query.contains('tags', [options.tag]);
@@ -149,7 +165,12 @@ export class SupabaseTemplateStore {
       }
       
       // 应用排序
-      if (options.sort) {
+      if (options.sort === 'trending') {
+        // 热门分数相同（如尚未计算）时按累计使用次数排序
+        query = query
+          .order('trending_score', { ascending: false })
+          .order('use_count', { ascending: false });
+      } else if (options.sort) {
         const direction = options.order || 'desc';
         query = query.order(options.sort, { ascending: direction === 'asc' });
       } else {
@@ -183,31 +204,22 @@ export class SupabaseTemplateStore {
     }
   }
 
-  // 增加模板使用次数
-  public async incrementUseCount(id: string): Promise<boolean> {
+  // 增加模板使用次数并记录使用，用于热门排序
+  // 通过数据库函数原子递增，同一用户对同一模板每天只计一次，未发布的模板返回 'not_found'
+  public async incrementUseCount(id: string, userId: string): Promise<boolean | 'not_found'> {
     try {
-      // 获取当前模板信息
-      const { data: template, error: getError } = await supabaseClient
-        .from('templates')
-        .select('use_count')
-        .eq('id', id)
-        .single();
+      const supabaseAdmin = createAdminClient();
+      const { error } = await supabaseAdmin.rpc('increment_template_use', {
+        p_template_id: id,
+        p_user_id: userId
+      });
       
-      if (getError) {
-        console.error(`获取模板 ${id} 使用次数失败:`, getError);
-        throw getError;
-      }
-      
-      // 更新使用次数
-      const currentCount = template ? (template as unknown as { use_count?: number }).use_count || 0 : 0;
-      const { error: updateError } = await supabaseClient
-        .from('templates')
-        .update({ use_count: currentCount + 1, updated_at: new Date().toISOString() })
-        .eq('id', id);
-      
-      if (updateError) {
-        console.error(`更新模板 ${id} 使用次数失败:`, updateError);
-        throw updateError;
+      if (error) {
+        if (error.message.includes('template_not_found')) {
+          return 'not_found';
+        }
+        console.error(`更新模板 ${id} 使用次数失败:`, error);
+        throw error;
       }
       
       return true;
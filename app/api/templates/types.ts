@@ -1,3 +1,5 @@
+import type { PromptSlot } from '@/utils/promptTemplate';
+
 export interface Template {
   id: string;
   name: string;
@@ -9,8 +11,25 @@ export interface Template {
   prompt_guide: string | null;
   prompt_placeholder: string | null;
   base_prompt: string;
+  // 插槽声明与按语言的模板文本，语法见 utils/promptTemplate.ts
+  prompt_slots: PromptSlot[];
+  prompt_variants: Record<string, string>;
   tags: string[];
+  // draft / pending / published / rejected，见 utils/templates/templateSubmissions.ts
   status: string;
+  // 投稿作者，官方模板为空
+  author_id: string | null;
+  author_name: string | null;
+  source_history_id: number | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  // 互动统计，由数据库触发器和热门分数定时任务维护
+  favorite_count: number;
+  rating_count: number;
+  rating_avg: number;
+  trending_score: number;
   use_count: number;
   created_at: string;
   updated_at: string;
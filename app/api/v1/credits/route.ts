@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { apiError, withApiKeyAuth } from '@/utils/apiKeys/withApiKeyAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 查询密钥所属用户的可用点数
+ */
+export async function GET(request: NextRequest) {
+  return withApiKeyAuth(request, 'credits:read', async (principal) => {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin
+      .from('ai_images_creator_credits')
+      .select('credits, updated_at')
+      .eq('user_id', principal.userId)
+      .maybeSingle();
+
+    if (error) {
+      return apiError(500, 'query_error', '查询点数失败');
+    }
+
+    return NextResponse.json({
+      success: true,
+      credits: data?.credits ?? 0,
+      updatedAt: data?.updated_at ?? null
+    });
+  });
+}
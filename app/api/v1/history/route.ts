@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { apiError, withApiKeyAuth } from '@/utils/apiKeys/withApiKeyAuth';
+
+export const dynamic = 'force-dynamic';
+
+// 单页最大记录数
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * 生成历史，按创建时间倒序
+ * 查询参数: limit（默认20，最大100）、offset
+ */
+export async function GET(request: NextRequest) {
+  return withApiKeyAuth(request, 'history:read', async (principal) => {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin
+      .from('ai_images_creator_history')
+      .select('id, prompt, image_url, style, aspect_ratio, created_at')
+      .eq('user_id', principal.userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      return apiError(500, 'query_error', '查询历史记录失败');
+    }
+
+    const items = (data || []).map(item => ({
+      id: item.id,
+      prompt: item.prompt,
+      imageUrl: item.image_url,
+      style: item.style,
+      aspectRatio: item.aspect_ratio,
+      createdAt: item.created_at
+    }));
+
+    return NextResponse.json({
+      success: true,
+      items,
+      limit,
+      offset,
+      hasMore: items.length === limit
+    });
+  });
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { apiError, withApiKeyAuth } from '@/utils/apiKeys/withApiKeyAuth';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 查询生成任务，只能查询密钥所属用户的任务
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ taskId: string }> }
+) {
+  const { taskId } = await context.params;
+
+  return withApiKeyAuth(request, 'tasks:read', async (principal) => {
+    const supabaseAdmin = createAdminClient();
+    const { data: task, error } = await supabaseAdmin
+      .from('image_tasks')
+      .select('task_id, status, prompt, style, aspect_ratio, image_url, error_message, progress, stage, provider, model, credit_cost, batch_id, created_at, completed_at')
+      .eq('task_id', taskId)
+      .eq('user_id', principal.userId)
+      .maybeSingle();
+
+    if (error) {
+      return apiError(500, 'query_error', '查询任务失败');
+    }
+
+    if (!task) {
+      return apiError(404, 'task_not_found', '任务不存在');
+    }
+
+    return NextResponse.json({
+      success: true,
+      task: {
+        taskId: task.task_id,
+        status: task.status,
+        prompt: task.prompt,
+        style: task.style,
+        aspectRatio: task.aspect_ratio,
+        imageUrl: task.image_url,
+        error: task.error_message,
+        progress: task.status === 'completed' ? 100 : task.progress,
+        stage: task.stage,
+        provider: task.provider,
+        model: task.model,
+        creditCost: task.credit_cost,
+        batchId: task.batch_id,
+        createdAt: task.created_at,
+        completedAt: task.completed_at
+      }
+    });
+  });
+}
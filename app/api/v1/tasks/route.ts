@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitPresets } from '@/utils/rate-limiter';
+import { apiError, withApiKeyAuth } from '@/utils/apiKeys/withApiKeyAuth';
+import { createImageTasks, ImageTaskRequestError, parseImageTaskInput } from '@/utils/imageTasks/createImageTasks';
+import { createLogger } from '@/utils/logger';
+
+// 入队后在响应返回后运行worker
+export const maxDuration = 300;
+
+const logger = createLogger('开放接口');
+
+/**
+ * 创建生成任务
+ * 请求体与 /api/generate-image-task 相同: { prompt, image?, mask?, style?, aspectRatio?, variants? }
+ * 点数从密钥所属用户扣除；任务异步执行，通过 GET /api/v1/tasks/{taskId} 或Webhook获取结果
+ */
+export async function POST(request: NextRequest) {
+  return withApiKeyAuth(request, 'tasks:write', async (principal) => {
+    let body: any;
+    try {
+      body = await request.json();
+    } catch {
+      return apiError(400, 'invalid_json', '请求体不是有效的JSON');
+    }
+
+    try {
+      const input = parseImageTaskInput(body);
+      const created = await createImageTasks(principal.userId, input, 'api');
+
+      return NextResponse.json({
+        success: true,
+        taskId: created.taskIds[0],
+        taskIds: created.taskIds,
+        batchId: created.batchId,
+        status: created.duplicate ? 'duplicate' : 'pending',
+        provider: created.provider ?? null,
+        model: created.model ?? null,
+        credits: created.credits ?? null
+      }, { status: created.duplicate ? 200 : 202 });
+    } catch (error) {
+      if (error instanceof ImageTaskRequestError) {
+        const { code, ...extra } = error.details;
+        const response = apiError(error.status, typeof code === 'string' ? code : 'invalid_request', error.message, extra);
+        if (typeof extra.retryAfter === 'number') {
+          response.headers.set('Retry-After', String(extra.retryAfter));
+        }
+        return response;
+      }
+
+      logger.error(`密钥${principal.keyId}创建任务失败: ${error instanceof Error ? error.message : String(error)}`);
+      return apiError(500, 'task_creation_failed', '创建图像任务失败，请稍后重试');
+    }
+  }, rateLimitPresets.sensitive);
+}
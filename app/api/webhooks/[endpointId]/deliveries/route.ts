@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { listWebhookDeliveries } from '@/utils/webhooks/webhookEndpoints';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Webhook投递日志
+ * 查询参数 limit 可选（默认50，最大100），按创建时间倒序返回
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ endpointId: string }> }
+) {
+  const { endpointId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+
+  try {
+    const deliveries = await listWebhookDeliveries(user.id, endpointId, Number.isNaN(limit) ? 50 : limit);
+    return NextResponse.json({
+      success: true,
+      deliveries: deliveries.map(delivery => ({
+        id: delivery.id,
+        taskId: delivery.task_id,
+        event: delivery.event,
+        status: delivery.status,
+        attemptCount: delivery.attempt_count,
+        maxAttempts: delivery.max_attempts,
+        responseStatus: delivery.response_status ?? null,
+        lastError: delivery.last_error ?? null,
+        nextAttemptAt: delivery.status === 'pending' ? delivery.next_attempt_at : null,
+        deliveredAt: delivery.delivered_at ?? null,
+        createdAt: delivery.created_at
+      }))
+    });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
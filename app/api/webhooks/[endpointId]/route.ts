@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import {
+  deleteWebhookEndpoint,
+  toWebhookEndpointView,
+  updateWebhookEndpoint,
+  WebhookValidationError
+} from '@/utils/webhooks/webhookEndpoints';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 更新Webhook端点
+ * 请求体: { url?, events?, description?, isActive?, rotateSecret? }
+ * rotateSecret为true时返回新的签名密钥，旧密钥立即失效
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ endpointId: string }> }
+) {
+  const { endpointId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const endpoint = await updateWebhookEndpoint(user.id, endpointId, {
+      url: body?.url,
+      events: body?.events,
+      description: body?.description,
+      isActive: body?.isActive,
+      rotateSecret: body?.rotateSecret === true
+    });
+
+    if (!endpoint) {
+      return NextResponse.json({ success: false, error: 'Webhook端点不存在' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      endpoint: toWebhookEndpointView(endpoint),
+      ...(body?.rotateSecret === true ? { secret: endpoint.secret } : {})
+    });
+  } catch (error) {
+    if (error instanceof WebhookValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 删除Webhook端点及其投递日志
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ endpointId: string }> }
+) {
+  const { endpointId } = await context.params;
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteWebhookEndpoint(user.id, endpointId);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Webhook端点不存在' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
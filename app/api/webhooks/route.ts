@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  toWebhookEndpointView,
+  WebhookValidationError
+} from '@/utils/webhooks/webhookEndpoints';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出当前用户登记的Webhook端点（不含签名密钥）
+ */
+export async function GET() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  try {
+    const endpoints = await listWebhookEndpoints(user.id);
+    return NextResponse.json({ success: true, endpoints });
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+/**
+ * 登记Webhook端点
+ * 请求体: { url, events?, description? }，events 默认订阅 task.completed 和 task.failed
+ * 签名密钥只在此处返回一次，请妥善保存
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: '未授权访问' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ success: false, error: '请求体格式无效' }, { status: 400 });
+  }
+
+  try {
+    const endpoint = await createWebhookEndpoint(user.id, {
+      url: body?.url,
+      events: body?.events,
+      description: body?.description
+    });
+
+    return NextResponse.json({
+      success: true,
+      endpoint: toWebhookEndpointView(endpoint),
+      secret: endpoint.secret
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WebhookValidationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
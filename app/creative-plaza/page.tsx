@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from "react";
 import { Sparkles } from "lucide-react";
 import { TemplateGrid } from "@/components/creative-plaza/template-grid";
-import { TemplateFilters } from "@/components/creative-plaza/template-filters";
+import { TemplateFilters, TemplateView } from "@/components/creative-plaza/template-filters";
 import { Pagination } from "@/components/creative-plaza/pagination";
 
 // 模板数据类型
@@ -15,6 +15,13 @@ interface Template {
   tags: string[];
   use_count: number;
   requires_image: boolean;
+  status?: string;
+  author_id?: string | null;
+  author_name?: string | null;
+  review_note?: string | null;
+  favorite_count?: number;
+  rating_avg?: number;
+  rating_count?: number;
 }
 
 // 分页数据类型
@@ -33,6 +40,8 @@ export default function CreativePlazaPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [sortOption, setSortOption] = useState("created_at:desc");
+  // 当前视图，我的投稿包含审核中和未通过的模板
+  const [view, setView] = useState<TemplateView>("all");
   const [pagination, setPagination] = useState<PaginationData>({
     total: 0,
     page: 1,
@@ -80,10 +89,14 @@ export default function CreativePlazaPage() {
       params.append("page", pagination.page.toString());
       params.append("limit", pagination.limit.toString());
       
-      // 解析排序选项
-      const [sortField, sortOrder] = sortOption.split(":");
-      params.append("sort", sortField);
-      params.append("order", sortOrder);
+      // 解析排序选项，热门视图按服务端计算的热门分数排序
+      if (view === "trending") {
+        params.append("sort", "trending");
+      } else {
+        const [sortField, sortOrder] = sortOption.split(":");
+        params.append("sort", sortField);
+        params.append("order", sortOrder);
+      }
       
       // 添加搜索和标签筛选
       if (searchQuery) {
@@ -93,10 +106,20 @@ export default function CreativePlazaPage() {
       if (selectedTag) {
         params.append("tag", selectedTag);
       }
+      
+      if (view === "mine") {
+        params.append("mine", "true");
+      } else if (view === "favorites") {
+        params.append("favorites", "true");
+      }
 
       // 发送请求
       const response = await fetch(`/api/templates?${params.toString()}`);
       
+      if (response.status === 401) {
+        throw new Error(view === "mine" ? "请登录后查看我的投稿" : "请登录后查看我的收藏");
+      }
+      
       if (!response.ok) {
         throw new Error("获取模板列表失败");
       }
@@ -120,7 +143,7 @@ export default function CreativePlazaPage() {
   // 初始加载和参数变化时获取数据
   useEffect(() => {
     fetchTemplates();
-  }, [pagination.page, sortOption, selectedTag, searchQuery]);
+  }, [pagination.page, sortOption, selectedTag, searchQuery, view]);
 
   // 处理页面变化
   const handlePageChange = (page: number) => {
@@ -143,6 +166,13 @@ export default function CreativePlazaPage() {
     setPagination(prev => ({ ...prev, page: 1 }));
   };
 
+  // 切换视图
+  const handleViewChange = (value: TemplateView) => {
+    setView(value);
+    // 重置到第一页
+    setPagination(prev => ({ ...prev, page: 1 }));
+  };
+
   // 处理排序变化
   const handleSortChange = (option: string) => {
     setSortOption(option);
@@ -172,6 +202,8 @@ export default function CreativePlazaPage() {
         sortOption={sortOption}
         onSortChange={handleSortChange}
         availableTags={availableTags}
+        view={view}
+        onViewChange={handleViewChange}
       />
 
       {/* 错误提示 */}
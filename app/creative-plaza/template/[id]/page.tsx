@@ -14,6 +14,18 @@ import useImageGeneration from "@/hooks/useImageGeneration";
 import useNotification from "@/hooks/useNotification";
 import { ImageGenerationSkeleton } from "@/components/ui/skeleton-generation";
 import useUserCredits from "@/hooks/useUserCredits";
+import TemplateSlotForm from "@/components/creation/template-slot-form";
+import {
+  TemplateEngagementBar,
+  TemplateEngagementBarProps
+} from "@/components/creative-plaza/template-engagement-bar";
+import {
+  buildTemplatePrompt,
+  findMissingSlots,
+  FREE_TEXT_SLOT,
+  PromptSlot,
+  PromptSlotValues
+} from "@/utils/promptTemplate";
 
 // 模板详情类型
 interface Template {
@@ -22,6 +34,8 @@ interface Template {
   description: string;
   preview_image: string;
   base_prompt: string;
+  prompt_slots?: PromptSlot[];
+  prompt_variants?: Record<string, string>;
   style_id: string | null;
   requires_image: boolean;
   prompt_required: boolean;
@@ -29,6 +43,9 @@ interface Template {
   prompt_placeholder: string | null;
   tags: string[];
   use_count: number;
+  favorite_count?: number;
+  rating_avg?: number;
+  rating_count?: number;
 }
 
 export default function TemplateDetailPage() {
@@ -38,10 +55,19 @@ export default function TemplateDetailPage() {
 
   // 状态管理
   const [template, setTemplate] = useState<Template | null>(null);
+  // 当前用户的收藏和评分，未登录时为null
+  const [engagement, setEngagement] = useState<TemplateEngagementBarProps["engagement"]>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [prompt, setPrompt] = useState("");
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [slotValues, setSlotValues] = useState<PromptSlotValues>({});
+  // 按浏览器语言选择模板文本
+  const [locale, setLocale] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLocale(navigator.language || null);
+  }, []);
 
   const { showNotification } = useNotification();
   const { credits, refetch: refreshCredits } = useUserCredits();
@@ -85,6 +111,7 @@ export default function TemplateDetailPage() {
 
         if (data.success) {
           setTemplate(data.data);
+          setEngagement(data.engagement || null);
         } else {
           throw new Error(data.error || "获取模板详情失败");
         }
@@ -110,6 +137,18 @@ export default function TemplateDetailPage() {
     }
   };
 
+  // 模板声明了插槽时使用结构化表单
+  const slots = template?.prompt_slots || [];
+  const hasSlots = slots.length > 0;
+  const missingSlots = findMissingSlots(slots, slotValues);
+  const isPromptMissing = hasSlots
+    ? missingSlots.length > 0
+    : !!template?.prompt_required && !prompt.trim();
+
+  const handleSlotChange = (name: string, value: string) => {
+    setSlotValues(prev => ({ ...prev, [name]: value }));
+  };
+
   // 处理生成图片
   const handleGenerateImage = async () => {
     // 检查是否满足生成条件
@@ -118,8 +157,10 @@ export default function TemplateDetailPage() {
       return;
     }
 
-    if (template?.prompt_required && !prompt.trim()) {
-      setError("请输入提示词");
+    if (isPromptMissing) {
+      setError(hasSlots
+        ? `请填写：${missingSlots.map(slot => slot.label).join("、")}`
+        : "请输入提示词");
       return;
     }
 
@@ -129,11 +170,13 @@ export default function TemplateDetailPage() {
       // 更新使用次数
       await updateUseCount();
 
-      // 合并模板基础提示词和用户输入
-      const finalPrompt = template?.base_prompt
-        ? template.prompt_required && prompt.trim()
-          ? `${template.base_prompt}，${prompt.trim()}`
-          : template.base_prompt
+      // 按模板渲染最终提示词，旧模板把用户输入追加在基础提示词之后
+      const finalPrompt = template
+        ? buildTemplatePrompt(
+            template,
+            hasSlots ? slotValues : { [FREE_TEXT_SLOT]: prompt },
+            locale
+          )
         : prompt.trim();
 
       // 构建生成参数
@@ -146,7 +189,7 @@ export default function TemplateDetailPage() {
 
       console.log("[模板详情] 生成参数:", {
         basePrompt: template?.base_prompt,
-        userPrompt: prompt.trim(),
+        userPrompt: hasSlots ? slotValues : prompt.trim(),
         finalPrompt,
         style: template?.style_id,
       });
@@ -241,6 +284,15 @@ export default function TemplateDetailPage() {
             <p className="text-muted-foreground">{template.description}</p>
           </div>
 
+          <TemplateEngagementBar
+            key={template.id}
+            templateId={template.id}
+            favoriteCount={template.favorite_count || 0}
+            ratingAvg={Number(template.rating_avg || 0)}
+            ratingCount={template.rating_count || 0}
+            engagement={engagement}
+          />
+
           <div className="space-y-4">
             {/* 图片上传区 */}
             {template.requires_image && (
@@ -259,25 +311,37 @@ export default function TemplateDetailPage() {
             <div className="space-y-2">
               <h3 className="text-lg font-medium">
                 {template.requires_image ? "2. " : "1. "}
-                {template.prompt_required ? "输入提示词" : "输入提示词（可选）"}
+                {hasSlots
+                  ? "填写创作内容"
+                  : template.prompt_required ? "输入提示词" : "输入提示词（可选）"}
               </h3>
               {template.prompt_guide && (
                 <p className="text-sm text-muted-foreground mb-2">
                   {template.prompt_guide}
                 </p>
               )}
-              <Textarea
-                placeholder={template.prompt_placeholder || "请描述您想要的效果..."}
-                value={prompt}
-                onChange={(e) => setPrompt(e.target.value)}
-                className="min-h-[120px]"
-              />
+              {hasSlots ? (
+                <TemplateSlotForm
+                  slots={slots}
+                  values={slotValues}
+                  onChange={handleSlotChange}
+                  locale={locale}
+                  disabled={isGeneratingImage}
+                />
+              ) : (
+                <Textarea
+                  placeholder={template.prompt_placeholder || "请描述您想要的效果..."}
+                  value={prompt}
+                  onChange={(e) => setPrompt(e.target.value)}
+                  className="min-h-[120px]"
+                />
+              )}
             </div>
 
             {/* 生成按钮 */}
             <Button
               onClick={handleGenerateImage}
-              disabled={isGeneratingImage || (template?.requires_image && !uploadedImage) || (template?.prompt_required && !prompt.trim())}
+              disabled={isGeneratingImage || (template?.requires_image && !uploadedImage) || isPromptMissing}
               className="w-full"
               size="lg"
             >
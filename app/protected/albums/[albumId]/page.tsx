@@ -0,0 +1,262 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, ImageIcon, Loader2, Pencil, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ImagePreviewModal } from "@/components/ui/image-preview-modal";
+import ShareImageDialog, { ShareTarget } from "@/components/creation/share-image-dialog";
+import useImageHandling from "@/hooks/useImageHandling";
+import { AlbumSummary } from "@/hooks/useAlbums";
+import { cn } from "@/lib/utils";
+
+// 与 utils/albums/albums.ts 中的 AlbumItem 一致
+interface AlbumItem {
+  id: number;
+  image_url: string;
+  prompt: string | null;
+  style: string | null;
+  aspect_ratio: string | null;
+  created_at: string;
+  position: number;
+  added_at: string;
+}
+
+export default function AlbumDetailPage() {
+  const params = useParams();
+  const router = useRouter();
+  const albumId = params?.albumId as string;
+  const { downloadImage } = useImageHandling();
+
+  const [album, setAlbum] = useState<AlbumSummary | null>(null);
+  const [items, setItems] = useState<AlbumItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+
+  const loadAlbum = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/albums/${albumId}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "加载相册失败");
+      }
+      setAlbum(data.album);
+      setItems(data.items || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "加载相册失败");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [albumId]);
+
+  useEffect(() => {
+    if (albumId) {
+      loadAlbum();
+    }
+  }, [albumId, loadAlbum]);
+
+  const updateAlbum = async (changes: { name?: string; coverHistoryId?: number }) => {
+    const response = await fetch(`/api/albums/${albumId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes)
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.success) {
+      throw new Error(data?.error || "更新相册失败");
+    }
+    setAlbum(data.album);
+  };
+
+  const handleRename = async () => {
+    if (!album) return;
+    const name = window.prompt("相册名称", album.name);
+    if (!name || !name.trim() || name.trim() === album.name) return;
+
+    try {
+      await updateAlbum({ name: name.trim() });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "重命名失败");
+    }
+  };
+
+  const handleSetCover = async (item: AlbumItem) => {
+    try {
+      await updateAlbum({ coverHistoryId: item.id });
+      toast.success("已设为封面");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "设置封面失败");
+    }
+  };
+
+  const handleRemove = async (item: AlbumItem) => {
+    try {
+      const response = await fetch(`/api/albums/${albumId}/items`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ historyIds: [item.id] })
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "移出相册失败");
+      }
+      // 封面可能已变化，重新加载
+      await loadAlbum();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "移出相册失败");
+    }
+  };
+
+  // 调整图片顺序，失败时恢复
+  const handleMove = async (index: number, offset: number) => {
+    const toIndex = index + offset;
+    if (toIndex < 0 || toIndex >= items.length) return;
+
+    const previous = items;
+    const reordered = [...items];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(toIndex, 0, moved);
+    setItems(reordered);
+
+    try {
+      const response = await fetch(`/api/albums/${albumId}/items`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ historyIds: reordered.map(item => item.id) })
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "调整顺序失败");
+      }
+    } catch (err) {
+      setItems(previous);
+      toast.error(err instanceof Error ? err.message : "调整顺序失败");
+    }
+  };
+
+  return (
+    <div className="flex-1 w-full flex flex-col items-center">
+      <div className="max-w-7xl w-full px-4 py-8">
+        <div className="flex flex-col gap-8">
+          <div className="w-full flex flex-wrap justify-between items-center gap-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold font-quicksand">
+                  {album?.name || "相册"}
+                </h1>
+                {album && (
+                  <Button variant="ghost" size="icon" aria-label="重命名" onClick={handleRename}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {album && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {album.description ? `${album.description} · ` : ""}{items.length} 张图片
+                </p>
+              )}
+            </div>
+            <Button variant="outline" asChild>
+              <Link href="/protected/history">从历史记录添加图片</Link>
+            </Button>
+          </div>
+
+          {error ? (
+            <div className="w-full flex flex-col items-center justify-center py-16">
+              <p className="text-foreground/80 mb-2 font-quicksand text-lg">加载失败</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="w-full flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : !items.length ? (
+            <div className="w-full flex flex-col items-center justify-center py-16">
+              <div className="bg-muted/50 rounded-full p-4 mb-3">
+                <ImageIcon className="h-8 w-8 text-muted-foreground/60" />
+              </div>
+              <p className="text-foreground/80 mb-2 font-quicksand text-lg">相册还是空的</p>
+              <p className="text-sm text-muted-foreground">在历史记录中选择图片加入这个相册</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+              {items.map((item, index) => {
+                const isCover = album?.cover_history_id === item.id;
+                return (
+                  <div
+                    key={item.id}
+                    className={cn(
+                      "group relative aspect-square overflow-hidden rounded-xl border border-border/40 shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300",
+                      isCover && "ring-2 ring-amber-400"
+                    )}
+                  >
+                    <img
+                      src={item.image_url}
+                      alt={item.prompt || `相册图片 ${index + 1}`}
+                      className="object-cover w-full h-full cursor-pointer"
+                      onClick={() => setPreviewImage(item.image_url)}
+                    />
+                    <div className="absolute inset-x-0 bottom-0 flex items-center gap-1 p-2 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                      <Button variant="secondary" size="icon" className="h-7 w-7 rounded-full" aria-label="前移" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <Button variant="secondary" size="icon" className="h-7 w-7 rounded-full" aria-label="后移" disabled={index === items.length - 1} onClick={() => handleMove(index, 1)}>
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                      <Button variant="secondary" size="icon" className="h-7 w-7 rounded-full ml-auto" aria-label="设为封面" disabled={isCover} onClick={() => handleSetCover(item)}>
+                        <Star className={cn("h-4 w-4", isCover && "fill-amber-400 text-amber-400")} />
+                      </Button>
+                      <Button variant="destructive" size="icon" className="h-7 w-7 rounded-full" aria-label="移出相册" onClick={() => handleRemove(item)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-center mt-8">
+          <Button
+            variant="outline"
+            asChild
+            className="bg-primary/10 text-primary hover:bg-primary/20 border-none shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+          >
+            <Link href="/protected/albums">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              返回相册列表
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <ImagePreviewModal
+        isOpen={!!previewImage}
+        imageUrl={previewImage}
+        onClose={() => setPreviewImage(null)}
+        onDownload={previewImage ? () => downloadImage(previewImage) : undefined}
+        onRemix={(url, useOutput) => {
+          const item = items.find(entry => entry.image_url === url);
+          if (!item) return;
+          router.push(`/protected?remix=${item.id}${useOutput ? "&source=output" : ""}`);
+        }}
+        onShare={(url) => {
+          const item = items.find(entry => entry.image_url === url);
+          setPreviewImage(null);
+          setShareTarget(item ? { historyId: item.id } : { imageUrl: url });
+        }}
+      />
+
+      <ShareImageDialog
+        target={shareTarget}
+        onClose={() => setShareTarget(null)}
+      />
+    </div>
+  );
+}
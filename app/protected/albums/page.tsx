@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { ChevronLeft, ChevronRight, FolderPlus, ImageIcon, Loader2, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import useAlbums, { AlbumSummary } from "@/hooks/useAlbums";
+
+export default function AlbumsPage() {
+  const { albums, isLoading, error, createAlbum, renameAlbum, deleteAlbum, moveAlbum } = useAlbums();
+  const [newAlbumName, setNewAlbumName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    if (!newAlbumName.trim()) {
+      toast.error("请填写相册名称");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      await createAlbum(newAlbumName.trim());
+      setNewAlbumName("");
+      toast.success("相册已创建");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "创建相册失败");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRename = async (album: AlbumSummary) => {
+    const name = window.prompt("相册名称", album.name);
+    if (!name || !name.trim() || name.trim() === album.name) return;
+
+    try {
+      await renameAlbum(album.id, name.trim());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "重命名失败");
+    }
+  };
+
+  const handleDelete = async (album: AlbumSummary) => {
+    if (!window.confirm(`确定删除相册「${album.name}」吗？相册中的图片仍会保留在历史记录中。`)) {
+      return;
+    }
+
+    try {
+      await deleteAlbum(album.id);
+      toast.success("相册已删除");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "删除相册失败");
+    }
+  };
+
+  const handleMove = async (album: AlbumSummary, offset: number) => {
+    try {
+      await moveAlbum(album.id, albums.indexOf(album) + offset);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "调整顺序失败");
+    }
+  };
+
+  return (
+    <div className="flex-1 w-full flex flex-col items-center">
+      <div className="max-w-7xl w-full px-4 py-8">
+        <div className="flex flex-col gap-8">
+          <div className="w-full flex flex-wrap justify-between items-center gap-4">
+            <h1 className="text-3xl font-bold font-quicksand">
+              我的相册
+            </h1>
+            <div className="flex gap-2">
+              <Input
+                value={newAlbumName}
+                onChange={(e) => setNewAlbumName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                maxLength={50}
+                placeholder="新相册名称"
+                className="w-48"
+              />
+              <Button onClick={handleCreate} disabled={isCreating || !newAlbumName.trim()}>
+                {isCreating ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <FolderPlus className="h-4 w-4 mr-2" />
+                )}
+                新建相册
+              </Button>
+            </div>
+          </div>
+
+          {error ? (
+            <div className="w-full flex flex-col items-center justify-center py-16">
+              <p className="text-foreground/80 mb-2 font-quicksand text-lg">加载失败</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="w-full flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : !albums.length ? (
+            <div className="w-full flex flex-col items-center justify-center py-16">
+              <div className="bg-muted/50 rounded-full p-4 mb-3">
+                <ImageIcon className="h-8 w-8 text-muted-foreground/60" />
+              </div>
+              <p className="text-foreground/80 mb-2 font-quicksand text-lg">还没有相册</p>
+              <p className="text-sm text-muted-foreground">新建相册后，可以在历史记录中批量选择图片加入</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+              {albums.map((album, index) => (
+                <div
+                  key={album.id}
+                  className="group rounded-xl border border-border/40 overflow-hidden shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                >
+                  <Link href={`/protected/albums/${album.id}`} className="block aspect-square bg-muted/50">
+                    {album.cover_url ? (
+                      <img
+                        src={album.cover_url}
+                        alt={album.name}
+                        className="object-cover w-full h-full"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <ImageIcon className="h-8 w-8 text-muted-foreground/60" />
+                      </div>
+                    )}
+                  </Link>
+                  <div className="p-3">
+                    <Link href={`/protected/albums/${album.id}`} className="block">
+                      <p className="font-medium truncate">{album.name}</p>
+                      <p className="text-xs text-muted-foreground">{album.item_count} 张图片</p>
+                    </Link>
+                    <div className="flex items-center gap-1 mt-2">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="前移" disabled={index === 0} onClick={() => handleMove(album, -1)}>
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="后移" disabled={index === albums.length - 1} onClick={() => handleMove(album, 1)}>
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 ml-auto" aria-label="重命名" onClick={() => handleRename(album)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" aria-label="删除相册" onClick={() => handleDelete(album)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-center mt-8">
+          <Button
+            variant="outline"
+            asChild
+            className="bg-primary/10 text-primary hover:bg-primary/20 border-none shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+          >
+            <Link href="/protected/history">
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              返回历史记录
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
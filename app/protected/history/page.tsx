@@ -1,16 +1,27 @@
 "use client";
 
-import { useEffect, useState, useCallback, useRef } from "react";
-import { useRouter } from "next/navigation";
+import { useEffect, useState, useCallback, useRef, useMemo } from "react";
+import { useRouter, useSearchParams, usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { Loader2, ImageIcon, ChevronLeft, ChevronRight } from "lucide-react";
+import { Loader2, ImageIcon, ChevronLeft, ChevronRight, CheckCircle2, Circle, FolderPlus, Download } from "lucide-react";
 import { ImagePreviewModal } from "@/components/ui/image-preview-modal";
 import { LazyImage } from "@/components/ui/lazy-image";
 import { ImageLoading, ImageError } from "@/components/ui/loading-states";
-import useImageHistory from "@/hooks/useImageHistory";
+import useImageHistory, { ImageHistoryItem } from "@/hooks/useImageHistory";
+import SubmitTemplateDialog from "@/components/creation/submit-template-dialog";
+import AddToAlbumDialog from "@/components/creation/add-to-album-dialog";
+import ShareImageDialog, { ShareTarget } from "@/components/creation/share-image-dialog";
+import HistoryExportsDialog from "@/components/creation/history-exports-dialog";
+import HistorySearchBar from "@/components/creation/history-search-bar";
+import useHistorySearch, {
+  HISTORY_FILTER_KEYS,
+  HistorySearchFilters,
+  hasActiveHistoryFilters
+} from "@/hooks/useHistorySearch";
 import useImageHandling from "@/hooks/useImageHandling";
 import { cn } from "@/lib/utils";
+import { HISTORY_GRID_IMAGE_SIZES } from "@/utils/image/imageVariants";
 
 // 每页显示图片数量
 const ITEMS_PER_PAGE = 12;
@@ -35,6 +46,8 @@ function debounce<T extends (...args: any[]) => any>(
 
 export default function HistoryPage() {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const {
     images,
     historyItems,
@@ -47,6 +60,20 @@ export default function HistoryPage() {
   } = useImageHistory();
   
   const { getImageUrl, downloadImage } = useImageHandling();
+
+  // 搜索条件保存在URL中，刷新和分享链接时保留
+  const searchParamsKey = searchParams.toString();
+  const filters = useMemo(() => {
+    const params = new URLSearchParams(searchParamsKey);
+    const result: HistorySearchFilters = {};
+    for (const key of HISTORY_FILTER_KEYS) {
+      const value = params.get(key);
+      if (value) result[key] = value;
+    }
+    return result;
+  }, [searchParamsKey]);
+  const isSearching = hasActiveHistoryFilters(filters);
+  const search = useHistorySearch(filters, isSearching);
   
   // 页面状态
   const [currentPage, setCurrentPage] = useState(1);
@@ -54,6 +81,14 @@ export default function HistoryPage() {
   const [pageLoading, setPageLoading] = useState(false);
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [submittingItem, setSubmittingItem] = useState<ImageHistoryItem | null>(null);
+  // 批量选择，用于一次把多张图片加入相册
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [albumTargetIds, setAlbumTargetIds] = useState<string[] | null>(null);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportsOpen, setExportsOpen] = useState(false);
   
   // 请求状态跟踪
   const isInitialLoading = useRef(false);
@@ -170,6 +205,25 @@ export default function HistoryPage() {
     }
   }, [currentPage, hasMore, historyItems.length, loadMore]);
 
+  // 更新搜索条件，写回URL
+  const updateFilters = useCallback((changes: Partial<HistorySearchFilters>) => {
+    const params = new URLSearchParams(searchParamsKey);
+    for (const key of Object.keys(changes) as Array<keyof HistorySearchFilters>) {
+      const value = changes[key];
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    }
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, searchParamsKey]);
+
+  const clearFilters = useCallback(() => {
+    router.replace(pathname, { scroll: false });
+  }, [router, pathname]);
+
   // 处理图片加载
   const handleImageLoad = useCallback(() => {
     // 图片加载完成后的处理（可以添加动画等）
@@ -185,7 +239,9 @@ export default function HistoryPage() {
     if (!imageUrl) return Promise.resolve();
     
     // 查找要删除的条目
-    const targetItem = currentPageImages.find(item => item.image_url === imageUrl);
+    const targetItem = isSearching
+      ? search.items.find(item => item.image_url === imageUrl)
+      : currentPageImages.find(item => item.image_url === imageUrl);
     if (!targetItem) {
       toast.error("找不到要删除的图片记录");
       return Promise.resolve();
@@ -198,6 +254,7 @@ export default function HistoryPage() {
     
     try {
       await deleteImage(targetItem);
+      search.removeItem(targetItem.id);
       
       // 如果当前页面只有一张图片且不是第一页，则返回上一页
       if (currentPageImages.length === 1 && currentPage > 1) {
@@ -222,7 +279,110 @@ export default function HistoryPage() {
       toast.error("删除失败，请重试");
       throw error;
     }
-  }, [deleteImage, currentPageImages, currentPage, fetchTotalCount]);
+  }, [deleteImage, currentPageImages, currentPage, fetchTotalCount, isSearching, search]);
+
+  // 投稿为模板
+  const handleSubmitTemplate = useCallback((imageUrl: string) => {
+    const targetItem = historyItems.find(item => item.image_url === imageUrl)
+      || search.items.find(item => item.image_url === imageUrl);
+    if (!targetItem) {
+      toast.error("找不到对应的图片记录");
+      return;
+    }
+    
+    setPreviewImage(null);
+    setSubmittingItem(targetItem);
+  }, [historyItems, search.items]);
+
+  // 加入相册
+  const handleAddToAlbum = useCallback((imageUrl: string) => {
+    const targetItem = historyItems.find(item => item.image_url === imageUrl)
+      || search.items.find(item => item.image_url === imageUrl);
+    if (!targetItem) {
+      toast.error("找不到对应的图片记录");
+      return;
+    }
+    
+    setPreviewImage(null);
+    setAlbumTargetIds([String(targetItem.id)]);
+  }, [historyItems, search.items]);
+
+  // 为预览中的图片生成分享链接
+  const handleShare = useCallback((imageUrl: string) => {
+    const targetItem = historyItems.find(item => item.image_url === imageUrl)
+      || search.items.find(item => item.image_url === imageUrl);
+    if (!targetItem) {
+      toast.error("找不到对应的图片记录");
+      return;
+    }
+
+    setPreviewImage(null);
+    setShareTarget({ historyId: targetItem.id });
+  }, [historyItems, search.items]);
+
+  // 回到创作页重新创作，useOutput 为 true 时以该图作为参考图继续编辑
+  const handleRemix = useCallback((imageUrl: string, useOutput: boolean) => {
+    const targetItem = historyItems.find(item => item.image_url === imageUrl)
+      || search.items.find(item => item.image_url === imageUrl);
+    if (!targetItem) {
+      toast.error("找不到对应的图片记录");
+      return;
+    }
+
+    const params = new URLSearchParams({ remix: String(targetItem.id) });
+    if (useOutput) params.set("source", "output");
+    router.push(`/protected?${params.toString()}`);
+  }, [historyItems, search.items, router]);
+
+  // 切换选择状态
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  }, []);
+
+  const exitSelectionMode = useCallback(() => {
+    setSelectionMode(false);
+    setSelectedIds([]);
+  }, []);
+
+  // 当前显示的图片
+  const visibleItems = isSearching ? search.items : currentPageImages;
+  const allVisibleSelected = visibleItems.length > 0
+    && visibleItems.every(item => selectedIds.includes(String(item.id)));
+
+  const toggleSelectAll = () => {
+    const visibleIds = visibleItems.map(item => String(item.id));
+    setSelectedIds(prev => allVisibleSelected
+      ? prev.filter(id => !visibleIds.includes(id))
+      : Array.from(new Set([...prev, ...visibleIds])));
+  };
+
+  // 导出为ZIP：少量图片直接下载，大批量在后台打包
+  const handleExport = useCallback(async (selection: { ids: string[] } | HistorySearchFilters) => {
+    setIsExporting(true);
+    try {
+      const response = await fetch("/api/history/exports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(selection)
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "导出失败");
+      }
+
+      if (data.mode === "stream") {
+        window.location.href = data.url;
+        toast.success(`正在下载 ${data.count} 张图片`);
+      } else {
+        toast.success(`共 ${data.count} 张图片，正在后台打包，完成后可在导出记录中下载`);
+        setExportsOpen(true);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "导出失败，请重试");
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
 
   // 处理刷新
   const refreshHistory = useCallback(() => {
@@ -248,6 +408,52 @@ export default function HistoryPage() {
     );
   }, [refetch, fetchTotalCount, isLoading]);
 
+  // 图片网格中的单个条目，批量选择时点击切换选中
+  const renderGridItem = (item: ImageHistoryItem, index: number) => {
+    const selected = selectedIds.includes(String(item.id));
+    return (
+      <div
+        key={`${item.image_url}-${index}`}
+        className={cn(
+          "aspect-square relative overflow-hidden rounded-xl border border-border/40 cursor-pointer shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300 hover:border-border/60",
+          selected && "ring-2 ring-primary border-primary"
+        )}
+        onClick={() => selectionMode ? toggleSelected(String(item.id)) : setPreviewImage(item.image_url)}
+      >
+        {selectionMode && (
+          <div className="absolute top-2 left-2 z-20 rounded-full bg-background/80 backdrop-blur-sm">
+            {selected ? (
+              <CheckCircle2 className="h-6 w-6 text-primary" />
+            ) : (
+              <Circle className="h-6 w-6 text-muted-foreground" />
+            )}
+          </div>
+        )}
+        <LazyImage
+          src={getImageUrl(item.image_url)}
+          variants={item.asset?.variants}
+          sizes={HISTORY_GRID_IMAGE_SIZES}
+          alt={item.prompt || `历史图片 ${index + 1}`}
+          className="object-cover w-full h-full transition-transform duration-700 hover:scale-[1.05]"
+          onImageLoad={handleImageLoad}
+          onImageError={handleImageError}
+          fadeIn={true}
+          blurEffect={true}
+          loadingElement={
+            <div className="absolute inset-0 flex items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
+              <ImageLoading message="加载中..." />
+            </div>
+          }
+          errorElement={
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
+              <ImageError message="加载失败" />
+            </div>
+          }
+        />
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1 w-full flex flex-col items-center">
       <div className="max-w-7xl w-full px-4 py-8">
@@ -269,8 +475,122 @@ export default function HistoryPage() {
               刷新历史记录
             </Button>
           </div>
+
+          {/* 搜索和筛选 */}
+          <HistorySearchBar
+            filters={filters}
+            facets={search.facets}
+            onChange={updateFilters}
+            onClear={clearFilters}
+          />
+
+          {/* 批量选择 */}
+          <div className="w-full flex flex-wrap items-center gap-2">
+            {selectionMode ? (
+              <>
+                <span className="text-sm text-muted-foreground mr-2">已选择 {selectedIds.length} 张</span>
+                <Button variant="outline" size="sm" onClick={toggleSelectAll} disabled={!visibleItems.length}>
+                  {allVisibleSelected ? "取消全选" : "全选本页"}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => setAlbumTargetIds(selectedIds)}
+                  disabled={!selectedIds.length}
+                >
+                  <FolderPlus className="h-4 w-4 mr-1" />
+                  加入相册
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExport({ ids: selectedIds })}
+                  disabled={!selectedIds.length || isExporting}
+                >
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-1" />
+                  )}
+                  导出所选
+                </Button>
+                <Button variant="ghost" size="sm" onClick={exitSelectionMode}>
+                  取消
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" size="sm" onClick={() => setSelectionMode(true)}>
+                  批量选择
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExport(filters)} disabled={isExporting}>
+                  {isExporting ? (
+                    <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-1" />
+                  )}
+                  {isSearching ? "导出筛选结果" : "导出全部"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setExportsOpen(true)}>
+                  导出记录
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => router.push("/protected/albums")}>
+                  我的相册
+                </Button>
+              </>
+            )}
+          </div>
           
-          {/* 图片网格 */}
+          {/* 搜索结果 */}
+          {isSearching ? (
+          <div className="w-full">
+            {search.error ? (
+              <div className="w-full flex flex-col items-center justify-center py-16">
+                <div className="bg-destructive/10 rounded-full p-4 mb-3">
+                  <ImageIcon className="h-8 w-8 text-destructive/60" />
+                </div>
+                <p className="text-foreground/80 mb-2 font-quicksand text-lg">搜索失败</p>
+                <p className="text-sm text-muted-foreground mb-4">{search.error}</p>
+              </div>
+            ) : search.isLoading ? (
+              <div className="w-full flex flex-col items-center justify-center py-16">
+                <Loader2 className="h-8 w-8 animate-spin text-primary mb-3" />
+                <p className="text-foreground/90 font-quicksand">正在搜索...</p>
+              </div>
+            ) : !search.items.length ? (
+              <div className="w-full flex flex-col items-center justify-center py-16">
+                <div className="bg-muted/50 rounded-full p-4 mb-3">
+                  <ImageIcon className="h-8 w-8 text-muted-foreground/60" />
+                </div>
+                <p className="text-foreground/80 mb-2 font-quicksand text-lg">没有找到匹配的图片</p>
+                <p className="text-sm text-muted-foreground mb-4">试试其他关键词或清除筛选条件</p>
+                <Button variant="outline" onClick={clearFilters}>
+                  清除筛选
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {search.items.map((item, index) => renderGridItem(item, index))}
+                </div>
+                {search.hasMore && (
+                  <div className="w-full flex justify-center mt-8">
+                    <Button
+                      variant="outline"
+                      onClick={search.loadMore}
+                      disabled={search.isLoadingMore}
+                    >
+                      {search.isLoadingMore ? (
+                        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      ) : null}
+                      加载更多
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          ) : (
+          /* 图片网格 */
           <div className="w-full">
             {error ? (
               <div className="w-full flex flex-col items-center justify-center py-16">
@@ -326,33 +646,7 @@ export default function HistoryPage() {
               </div>
             ) : (
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                {currentPageImages.map((item, index) => (
-                  <div
-                    key={`${item.image_url}-${index}`}
-                    className="aspect-square relative overflow-hidden rounded-xl border border-border/40 cursor-pointer shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300 hover:border-border/60"
-                    onClick={() => setPreviewImage(item.image_url)}
-                  >
-                    <LazyImage
-                      src={getImageUrl(item.image_url)}
-                      alt={`历史图片 ${index + 1}`}
-                      className="object-cover w-full h-full transition-transform duration-700 hover:scale-[1.05]"
-                      onImageLoad={handleImageLoad}
-                      onImageError={handleImageError}
-                      fadeIn={true}
-                      blurEffect={true}
-                      loadingElement={
-                        <div className="absolute inset-0 flex items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
-                          <ImageLoading message="加载中..." />
-                        </div>
-                      }
-                      errorElement={
-                        <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
-                          <ImageError message="加载失败" />
-                        </div>
-                      }
-                    />
-                </div>
-                ))}
+                {currentPageImages.map((item, index) => renderGridItem(item, index))}
               </div>
             )}
             
@@ -418,6 +712,7 @@ export default function HistoryPage() {
               </div>
             )}
           </div>
+          )}
         </div>
         
         {/* 返回创作页按钮 */}
@@ -440,6 +735,35 @@ export default function HistoryPage() {
         onClose={() => setPreviewImage(null)}
         onDownload={previewImage ? () => downloadImage(previewImage) : undefined}
         onDelete={previewImage ? () => handleDeleteImage(previewImage) : undefined}
+        onSubmitTemplate={handleSubmitTemplate}
+        onAddToAlbum={handleAddToAlbum}
+        onShare={handleShare}
+        onRemix={handleRemix}
+      />
+
+      {/* 投稿为模板 */}
+      <SubmitTemplateDialog
+        item={submittingItem}
+        onClose={() => setSubmittingItem(null)}
+      />
+
+      {/* 加入相册 */}
+      <AddToAlbumDialog
+        historyIds={albumTargetIds}
+        onClose={() => setAlbumTargetIds(null)}
+        onAdded={exitSelectionMode}
+      />
+
+      {/* 分享链接 */}
+      <ShareImageDialog
+        target={shareTarget}
+        onClose={() => setShareTarget(null)}
+      />
+
+      {/* 导出记录 */}
+      <HistoryExportsDialog
+        open={exportsOpen}
+        onClose={() => setExportsOpen(false)}
       />
     </div>
   );
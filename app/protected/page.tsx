@@ -6,16 +6,13 @@ import dynamic from "next/dynamic";
 import { Loader2, AlertCircle, ChevronRight, ImageIcon, Download, X, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { generatePromptWithStyle } from "@/app/config/styles";
 import { ResponsiveContainer, ResponsiveSection, ResponsiveGrid } from "@/components/ui/responsive-container";
 import { GenerationStage, ImageGenerationSkeleton } from "@/components/ui/skeleton-generation";
-import { LazyImage } from "@/components/ui/lazy-image";
-import { ImageLoading, ImageError } from "@/components/ui/loading-states";
 import GeneratedImageGallery from "@/components/creation/generated-image-gallery";
-import { ImagePreviewModal } from "@/components/ui/image-preview-modal";
 
 // 导入创作页组件
 import EnhancedImageUploader from "@/components/creation/enhanced-image-uploader";
+import MaskPainter from "@/components/creation/mask-painter";
 import StyleSelector from "@/components/creation/style-selector";
 import PromptInput from "@/components/creation/prompt-input";
 
@@ -25,10 +22,12 @@ import useImageHistory from "@/hooks/useImageHistory";
 import useImageGeneration from "@/hooks/useImageGeneration";
 import useImageHandling from "@/hooks/useImageHandling";
 import useNotification from "@/hooks/useNotification";
+import usePriceQuote from "@/hooks/usePriceQuote";
 import TaskStatusListener from "@/app/components/TaskStatusListener";
 import TaskRecoveryDialog from "@/components/TaskRecoveryDialog";
 import { StoredTaskInfo } from "@/utils/taskStorage";
 import { supabaseClient } from "@/utils/supabase-client";
+import { getImageDimensions } from "@/utils/image/compressImage";
 
 // 动态导入CreditRechargeDialog组件
 const CreditRechargeDialog = dynamic(
@@ -43,6 +42,35 @@ type GenerationStatus = {
   generationPercentage?: number;
 };
 
+// 与 utils/history/historyRemix.ts 中的 HistoryRemixSource 一致
+type HistoryRemixSource = {
+  historyId: number;
+  prompt: string;
+  style: string | null;
+  aspectRatio: string | null;
+  standardAspectRatio: string | null;
+  inputImageUrl: string | null;
+  outputImageUrl: string;
+};
+
+// 通过图片代理读取远程图片为data URL，与本地上传的参考图格式一致
+async function loadRemoteImage(url: string): Promise<{ dataUrl: string; width: number; height: number }> {
+  const response = await fetch(`/api/image-proxy?url=${encodeURIComponent(url)}&source=remix`);
+  if (!response.ok) {
+    throw new Error(`读取图片失败: HTTP ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("读取图片失败"));
+    reader.readAsDataURL(blob);
+  });
+  const { width, height } = await getImageDimensions(dataUrl);
+  return { dataUrl, width, height };
+}
+
 export default function ProtectedPage() {
   const router = useRouter();
   const pathName = usePathname();
@@ -58,6 +86,33 @@ export default function ProtectedPage() {
   const [imageAspectRatio, setImageAspectRatio] = useState<string | null>(null);
   const [standardAspectRatio, setStandardAspectRatio] = useState<string | null>(null);
   
+  // 一次生成的变体数量
+  const [variants, setVariants] = useState(1);
+  
+  // 局部编辑蒙版，以及提交局部编辑时的原图(用于结果对比)
+  const [mask, setMask] = useState<string | null>(null);
+  const [comparisonImage, setComparisonImage] = useState<string | null>(null);
+  
+  // 更换或移除原图后蒙版失效
+  useEffect(() => {
+    setMask(null);
+  }, [uploadedImage]);
+
+  // 从分享页"试试这个风格"进入时预填风格和提示词，从历史记录重新创作时(remix)还原整条记录，应用后清除地址栏参数
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sharedStyle = params.get("style");
+    const sharedPrompt = params.get("prompt");
+    const remixId = params.get("remix");
+    if (!sharedStyle && !sharedPrompt && !remixId) return;
+
+    if (sharedStyle) setActiveStyle(sharedStyle);
+    if (sharedPrompt) setPrompt(sharedPrompt);
+    if (remixId) applyRemix(remixId, params.get("source") === "output");
+    router.replace(pathName, { scroll: false });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   // 添加当前任务ID状态
   const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
   
@@ -65,6 +120,14 @@ export default function ProtectedPage() {
   const { credits, isLoading: isLoadingCredits, refetch: refreshCredits } = useUserCredits();
   const { showNotification } = useNotification();
   
+  // 生成前报价，随比例、参考图、风格与变体数量变化
+  const priceQuote = usePriceQuote({
+    aspectRatio: imageAspectRatio,
+    hasReferenceImage: !!uploadedImage,
+    style: activeStyle,
+    variants
+  });
+  
   // 使用自定义hooks
   const { images, refetch: refreshHistory, deleteImage } = useImageHistory();
   const {
@@ -85,6 +148,7 @@ export default function ProtectedPage() {
   const {
     generatedImages,
     setGeneratedImages,
+    generatedBatches,
     isGenerating,
     error: generationError,
     generateImage,
@@ -241,6 +305,40 @@ export default function ProtectedPage() {
           setStandardAspectRatio(standardRatio);
     console.log(`[ProtectedPage] 标准化比例为: ${standardRatio}`);
   };
+
+  // 重新创作历史记录：还原提示词、风格和比例，参考图使用原任务的输入图，
+  // useOutput 为 true 时改用该记录的生成结果，便于在上一次结果上继续编辑
+  const applyRemix = async (historyId: string, useOutput: boolean) => {
+    try {
+      const response = await fetch(`/api/history/remix?id=${encodeURIComponent(historyId)}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "加载历史记录失败");
+      }
+
+      const source: HistoryRemixSource = data.source;
+      setPrompt(source.prompt);
+      setActiveStyle(source.style || "自定义");
+
+      const imageUrl = useOutput ? source.outputImageUrl : source.inputImageUrl;
+      if (imageUrl) {
+        const { dataUrl, width, height } = await loadRemoteImage(imageUrl);
+        handleImageUpload(dataUrl, width, height);
+      } else {
+        setUploadedImage(null);
+      }
+
+      // 原样重做时沿用原记录的比例，继续编辑时以结果图的实际尺寸为准
+      if (!useOutput && source.aspectRatio) {
+        setImageAspectRatio(source.aspectRatio);
+        setStandardAspectRatio(source.standardAspectRatio);
+      }
+
+      showNotification(useOutput ? "已将该图片设为参考图" : "已还原创作参数", "success");
+    } catch (err) {
+      showNotification(err instanceof Error ? err.message : "加载历史记录失败", "error");
+    }
+  };
   
   // 在页面挂载和卸载时清理图片缓存状态
   useEffect(() => {
@@ -260,6 +358,7 @@ export default function ProtectedPage() {
     setError(""); // 清除之前的错误
     // 清空当前生成图片状态，准备新的生成
     setCurrentGeneratedImage(null);
+    setComparisonImage(mask ? uploadedImage : null);
     
     // 记录生成参数，便于调试
     console.log('[ProtectedPage] 开始生成图片，参数：', {
@@ -267,16 +366,19 @@ export default function ProtectedPage() {
       styleSelected: activeStyle,
       hasUploadedImage: !!uploadedImage,
       aspectRatio: imageAspectRatio,
-      standardAspectRatio: standardAspectRatio
+      standardAspectRatio: standardAspectRatio,
+      variants
     });
     
     try {
       const taskResult = await generateImage({
         prompt,
         image: uploadedImage,
+        mask,
         style: activeStyle,
         aspectRatio: imageAspectRatio,
-        standardAspectRatio: standardAspectRatio
+        standardAspectRatio: standardAspectRatio,
+        variants
       });
       
       // 保存当前任务ID，用于实时状态更新
@@ -382,9 +484,6 @@ export default function ProtectedPage() {
       const updatedImages = generatedImages.filter(url => url !== imageUrl);
       setGeneratedImages(updatedImages);
       
-      // 关闭预览模态框
-      setPreviewImage(null);
-      
       // 显示成功提示
       showNotification("图片已删除", "success");
       
@@ -407,9 +506,6 @@ export default function ProtectedPage() {
   const displayError = error || generationError;
   const isInitializing = isLoadingCredits && generatedImages.length === 0;
 
-  // 添加预览状态
-  const [previewImage, setPreviewImage] = useState<string | null>(null);
-
   // 添加一个加载状态，避免闪烁
   const [isAuthChecking, setIsAuthChecking] = useState(true);
   
@@ -508,6 +604,7 @@ export default function ProtectedPage() {
   const handleContinueCreation = () => {
     console.log('[ProtectedPage] 用户点击继续创作按钮，清除当前生成的图像显示');
     setCurrentGeneratedImage(null);
+    setComparisonImage(null);
     setPrompt('');
     setActiveStyle('自定义');
     setImageAspectRatio(null);
@@ -579,17 +676,29 @@ export default function ProtectedPage() {
                 generationStage={generationStage}
                 generationPercentage={generationPercentage}
                 generatedImage={currentGeneratedImage}
+                originalImage={comparisonImage}
                 onDownload={handleDownloadGeneratedImage}
                 onContinueCreation={handleContinueCreation}
               />
+              {uploadedImage && !isGenerating && !currentGeneratedImage && (
+                <MaskPainter
+                  image={uploadedImage}
+                  mask={mask}
+                  onMaskChange={setMask}
+                />
+              )}
               <PromptInput
                 prompt={prompt}
                 onPromptChange={setPrompt}
                 onGenerate={handleGenerateImage}
                 isGenerating={isGenerating}
                 canGenerate={canGenerate()}
-                hasLowCredits={credits !== null && credits <= 0}
+                hasLowCredits={credits !== null && credits < (priceQuote.credits ?? 1)}
                 activeStyle={activeStyle}
+                creditCost={priceQuote.credits}
+                creditBreakdown={priceQuote.breakdown}
+                variants={variants}
+                onVariantsChange={setVariants}
               />
             </div>
           </div>
@@ -617,39 +726,18 @@ export default function ProtectedPage() {
               </div>
             </div>
             <div className="p-6 pt-0 font-nunito">
-              {/* 生成结果展示 */}
+              {/* 生成结果展示，同一批次的变体分组显示 */}
               {(generatedImages.length > 0) && (
-                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 md:gap-4">
-                  {/* 移除生成中骨架图，只显示历史生成的图片 */}
-                  {generatedImages.slice(0, 4).map((imageUrl, index) => (
-                    <div key={imageUrl + index} className="aspect-square w-full">
-                      <div 
-                        className="aspect-square relative bg-card/40 border border-border rounded-xl overflow-hidden shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300 cursor-pointer w-full h-full"
-                        onClick={() => setPreviewImage(imageUrl)}
-                      >
-                        <LazyImage
-                          src={getImageUrl(imageUrl)}
-                          alt={`生成的图片 ${index + 1}`}
-                          onImageLoad={() => handleImageLoad(imageUrl)}
-                          onImageError={() => handleImageError(imageUrl)}
-                          className="w-full h-full object-cover"
-                          fadeIn={true}
-                          blurEffect={true}
-                          loadingElement={
-                            <div className="absolute inset-0 flex items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
-                              <ImageLoading message="加载中..." />
-                            </div>
-                          }
-                          errorElement={
-                            <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
-                              <ImageError message="加载失败" />
-                            </div>
-                          }
-                        />
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <GeneratedImageGallery
+                  images={generatedImages.slice(0, 4)}
+                  batches={generatedBatches}
+                  isLoading={false}
+                  onImageLoad={handleImageLoad}
+                  onImageError={handleImageError}
+                  onDownloadImage={downloadImage}
+                  onDeleteImage={handleDeleteGeneratedImage}
+                  hideViewMoreButton
+                />
               )}
               
               {/* 空状态提示 */}
@@ -681,15 +769,6 @@ export default function ProtectedPage() {
           />
         )}
       </div>
-      
-      {/* 图片预览模态框 */}
-      <ImagePreviewModal
-        isOpen={!!previewImage}
-        imageUrl={previewImage}
-        onClose={() => setPreviewImage(null)}
-        onDownload={previewImage ? () => downloadImage(previewImage) : undefined}
-        onDelete={previewImage ? () => handleDeleteGeneratedImage(previewImage) : undefined}
-      />
     </div>
   );
 }
@@ -0,0 +1,15 @@
+import ApiKeysPanel from "@/components/settings/api-keys-panel";
+
+export default function SettingsPage() {
+  return (
+    <div className="container max-w-3xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold font-quicksand">开发者设置</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          管理用于脚本和合作系统调用的API密钥，接口说明见 README 的「开放接口」一节
+        </p>
+      </div>
+      <ApiKeysPanel />
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getPublicShare, recordShareView } from "@/utils/shares/imageShares";
+
+export const dynamic = "force-dynamic";
+
+type PageProps = { params: Promise<{ token: string }> };
+
+// generateMetadata 和页面共用一次查询
+const loadShare = cache((token: string) => getPublicShare(token));
+
+const OG_DESCRIPTION_LENGTH = 120;
+
+function describeShare(share: { prompt: string | null; style: string | null }): string {
+  const text = share.prompt
+    ? share.prompt
+    : `使用IMG图图创作的${share.style && share.style !== "自定义" ? `${share.style}风格` : ""}AI图像`;
+  return text.length > OG_DESCRIPTION_LENGTH ? `${text.slice(0, OG_DESCRIPTION_LENGTH)}…` : text;
+}
+
+// 创作页根据 style、prompt 参数预填
+function buildTryUrl(share: { prompt: string | null; style: string | null }): string {
+  const params = new URLSearchParams();
+  if (share.style) params.set("style", share.style);
+  if (share.prompt) params.set("prompt", share.prompt);
+  const query = params.toString();
+  return query ? `/protected?${query}` : "/protected";
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { token } = await params;
+  const share = await loadShare(token);
+
+  if (!share) {
+    return {
+      title: "分享链接已失效 - IMG图图",
+      robots: { index: false }
+    };
+  }
+
+  const title = share.style && share.style !== "自定义"
+    ? `${share.style}风格AI图像 - IMG图图`
+    : "AI图像作品 - IMG图图";
+  const description = describeShare(share);
+
+  return {
+    title,
+    description,
+    robots: { index: false },
+    openGraph: {
+      type: "article",
+      locale: "zh_CN",
+      url: `/share/${share.token}`,
+      title,
+      description,
+      siteName: "IMG图图",
+      images: [{ url: share.image_url, alt: title }]
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [share.image_url]
+    }
+  };
+}
+
+/**
+ * 公开分享页，无需登录
+ */
+export default async function SharePage({ params }: PageProps) {
+  const { token } = await params;
+  const share = await loadShare(token);
+
+  if (!share) {
+    notFound();
+  }
+
+  await recordShareView(share.token);
+
+  return (
+    <div className="container max-w-3xl mx-auto py-10 px-4">
+      <div className="rounded-xl border border-border bg-card overflow-hidden shadow-sm">
+        <div className="bg-muted/40 flex items-center justify-center">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={share.image_url}
+            alt={share.prompt || "AI生成图像"}
+            className="max-h-[70vh] w-auto object-contain"
+          />
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {share.style && <Badge variant="secondary">{share.style}</Badge>}
+            {share.aspect_ratio && <Badge variant="outline">{share.aspect_ratio}</Badge>}
+            <span className="text-xs text-muted-foreground">
+              创作于 {new Date(share.created_at).toLocaleDateString("zh-CN")}
+            </span>
+          </div>
+
+          {share.prompt && (
+            <div>
+              <h2 className="text-sm font-medium mb-1">提示词</h2>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{share.prompt}</p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Button asChild>
+              <Link href={buildTryUrl(share)}>
+                <Sparkles className="h-4 w-4 mr-1" />
+                试试这个风格
+              </Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link href="/">了解IMG图图</Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
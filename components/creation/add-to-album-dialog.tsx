@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { FolderPlus, ImageIcon, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import useAlbums from "@/hooks/useAlbums";
+import { cn } from "@/lib/utils";
+
+interface AddToAlbumDialogProps {
+  // 要加入相册的历史记录ID，为null时关闭
+  historyIds: Array<string | number> | null;
+  onClose: () => void;
+  onAdded?: () => void;
+}
+
+// 选择或新建相册，把一张或多张图片加入其中
+export default function AddToAlbumDialog({ historyIds, onClose, onAdded }: AddToAlbumDialogProps) {
+  const { albums, isLoading, refetch, createAlbum, addToAlbum } = useAlbums(false);
+  const [selectedAlbumId, setSelectedAlbumId] = useState<string | null>(null);
+  const [newAlbumName, setNewAlbumName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const isOpen = !!historyIds && historyIds.length > 0;
+
+  // 每次打开时刷新相册列表
+  useEffect(() => {
+    if (isOpen) {
+      refetch();
+      setSelectedAlbumId(null);
+      setNewAlbumName("");
+    }
+  }, [isOpen, refetch]);
+
+  const handleCreate = async () => {
+    if (!newAlbumName.trim()) {
+      toast.error("请填写相册名称");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const album = await createAlbum(newAlbumName.trim());
+      setSelectedAlbumId(album.id);
+      setNewAlbumName("");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "创建相册失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!historyIds || !selectedAlbumId) return;
+
+    setIsSaving(true);
+    try {
+      const added = await addToAlbum(selectedAlbumId, historyIds);
+      const albumName = albums.find(album => album.id === selectedAlbumId)?.name || "相册";
+      toast.success(added > 0 ? `已将${added}张图片加入「${albumName}」` : `图片已在「${albumName}」中`);
+      onAdded?.();
+      onClose();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "加入相册失败，请重试");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>加入相册</DialogTitle>
+          <DialogDescription>
+            已选择 {historyIds?.length || 0} 张图片，图片加入相册后仍保留在历史记录中。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : albums.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">还没有相册，先新建一个吧</p>
+            ) : (
+              albums.map(album => (
+                <button
+                  key={album.id}
+                  type="button"
+                  onClick={() => setSelectedAlbumId(album.id)}
+                  className={cn(
+                    "w-full flex items-center gap-3 rounded-lg border p-2 text-left transition-colors",
+                    selectedAlbumId === album.id ? "border-primary bg-primary/5" : "border-border hover:bg-muted/50"
+                  )}
+                >
+                  {album.cover_url ? (
+                    <img src={album.cover_url} alt={album.name} className="w-10 h-10 rounded object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-10 h-10 rounded bg-muted flex items-center justify-center flex-shrink-0">
+                      <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{album.name}</p>
+                    <p className="text-xs text-muted-foreground">{album.item_count} 张图片</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={newAlbumName}
+              onChange={(e) => setNewAlbumName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              maxLength={50}
+              placeholder="新相册名称"
+            />
+            <Button variant="outline" onClick={handleCreate} disabled={isSaving || !newAlbumName.trim()}>
+              <FolderPlus className="h-4 w-4 mr-1" />
+              新建
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="link" asChild className="px-0">
+            <Link href="/protected/albums">管理相册</Link>
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              取消
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving || !selectedAlbumId}>
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              加入相册
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,7 @@ interface EnhancedImageUploaderProps {
   generationStage?: GenerationStage;
   generationPercentage?: number;
   generatedImage?: string | null;
+  originalImage?: string | null;
   onDownload?: (imageUrl: string) => void;
   onContinueCreation?: () => void;
 }
@@ -28,6 +29,7 @@ export default function EnhancedImageUploader({
   generationStage,
   generationPercentage,
   generatedImage = null,
+  originalImage = null,
   onDownload = () => {},
   onContinueCreation = () => {},
 }: EnhancedImageUploaderProps) {
@@ -42,6 +44,7 @@ export default function EnhancedImageUploader({
       generationStage={generationStage}
       generationPercentage={generationPercentage}
       generatedImage={generatedImage}
+      originalImage={originalImage}
       onDownload={onDownload}
       onContinueCreation={onContinueCreation}
     />
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
-import { Loader2, X, Download, Trash2, ChevronRight, ImageIcon, History } from "lucide-react";
+import { Loader2, X, Download, Trash2, ChevronRight, ImageIcon, History, Layers } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { LazyImage } from "@/components/ui/lazy-image";
 import { ImageError, ImageLoading } from "@/components/ui/loading-states";
@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation";
 import { ImageGenerationSkeleton, GenerationStage } from "@/components/ui/skeleton-generation";
 import useImageHandling from "@/hooks/useImageHandling";
 import { ImagePreviewModal } from "@/components/ui/image-preview-modal";
+import ShareImageDialog, { ShareTarget } from "@/components/creation/share-image-dialog";
 import { debounce } from "@/lib/utils";
 
 // 一次性渲染的最大图片数量
@@ -29,6 +30,8 @@ export interface GeneratedImageGalleryProps extends React.PropsWithChildren {
   generationPercentage?: number;
   onStageChange?: (stage: GenerationStage, percentage: number) => void;
   getImageUrl?: (url: string) => string;
+  // 批次ID到图片列表的映射，同一批次的多个变体会分组展示
+  batches?: Record<string, string[]>;
 }
 
 const GeneratedImageGallery = React.forwardRef<HTMLDivElement, GeneratedImageGalleryProps>(({
@@ -45,10 +48,12 @@ const GeneratedImageGallery = React.forwardRef<HTMLDivElement, GeneratedImageGal
   generationStage,
   generationPercentage,
   onStageChange,
-  getImageUrl
+  getImageUrl,
+  batches
 }, ref) => {
   const router = useRouter();
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
   const [loadedImages, setLoadedImages] = useState<Record<string, boolean>>({});
   const [errorImages, setErrorImages] = useState<Record<string, boolean>>({});
   const [visibleCount, setVisibleCount] = useState<number>(MAX_VISIBLE_IMAGES);
@@ -308,6 +313,89 @@ const GeneratedImageGallery = React.forwardRef<HTMLDivElement, GeneratedImageGal
     }
   }, []);
 
+  // 渲染单张图片
+  const renderImageItem = (imageUrl: string, index: number, variantLabel?: string) => {
+    const isLatestImage = imageUrl === lastGeneratedImage;
+    const containerClassName = `ghibli-image-container aspect-square relative overflow-hidden rounded-xl border border-border/40 cursor-pointer shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300 hover:border-border/60 ${
+      isLatestImage && isTransitioning ? 'animate-fade-in' : ''
+    }`;
+
+    return (
+      <div
+        key={`${imageUrl}-${index}`}
+        ref={(node) => imageRefCallback(node, imageUrl)}
+        className={containerClassName}
+        onClick={() => setPreviewImage(imageUrl)}
+      >
+        {/* 同一批次的变体序号 */}
+        {variantLabel && (
+          <div className="absolute top-2 left-2 z-20 px-2 py-0.5 rounded-full bg-black/50 text-white text-xs font-quicksand backdrop-blur-sm">
+            {variantLabel}
+          </div>
+        )}
+        
+        {/* 图片加载中状态 */}
+        {!loadedImages[imageUrl] && !errorImages[imageUrl] && (
+          <div className="absolute inset-0 flex items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
+            <ImageLoading message="加载中..." />
+          </div>
+        )}
+        
+        {/* 图片加载错误状态 */}
+        {errorImages[imageUrl] && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
+            <ImageError message="加载失败" />
+          </div>
+        )}
+        
+        <div className="w-full h-full relative">
+          <LazyImage
+            src={getDisplayUrl(imageUrl)}
+            alt={`生成的图片 ${index + 1}`}
+            className={`object-cover w-full h-full transition-transform duration-700 hover:scale-[1.05] ${
+              isLatestImage ? 'animate-fade-in' : ''
+            }`}
+            onImageLoad={() => handleImageLoad(imageUrl)}
+            onImageError={() => handleImageError(imageUrl)}
+            fadeIn={true}
+            blurEffect={true}
+          />
+        </div>
+        
+        {/* 图片操作按钮 - 鼠标悬停时显示 */}
+        <div className="absolute bottom-0 left-0 right-0 p-2.5 bg-gradient-to-t from-black/80 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300 flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 rounded-full bg-black/40 hover:bg-black/60 text-white shadow-ghibli-sm backdrop-blur-sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleDownload(imageUrl);
+            }}
+            title="下载"
+          >
+            <Download className="h-3.5 w-3.5" />
+          </Button>
+          
+          {onDeleteImage && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 rounded-full bg-destructive/40 hover:bg-destructive/60 text-white shadow-ghibli-sm backdrop-blur-sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDeleteImage(imageUrl);
+              }}
+              title="删除"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   // 准备网格项，骨架屏优先，然后是图片
   const prepareGridItems = () => {
     const gridItems = [];
@@ -327,79 +415,40 @@ const GeneratedImageGallery = React.forwardRef<HTMLDivElement, GeneratedImageGal
       );
     }
     
+    // 图片所属的批次，只有多于一张的批次才分组展示
+    const batchByImage = new Map<string, string>();
+    Object.entries(batches || {}).forEach(([batchId, batchImages]) => {
+      if (batchImages.length > 1) {
+        batchImages.forEach(url => batchByImage.set(url, batchId));
+      }
+    });
+    const renderedBatches = new Set<string>();
+    
     // 添加所有图片
     images.forEach((imageUrl, index) => {
       // 当骨架屏显示时，不显示第一个图片位置
       if (shouldShowSkeleton && index === 0) return;
       
-      const isLatestImage = imageUrl === lastGeneratedImage;
-      const containerClassName = `ghibli-image-container aspect-square relative overflow-hidden rounded-xl border border-border/40 cursor-pointer shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300 hover:border-border/60 ${
-        isLatestImage && isTransitioning ? 'animate-fade-in' : ''
-      }`;
-
+      const batchId = batchByImage.get(imageUrl);
+      if (!batchId) {
+        gridItems.push(renderImageItem(imageUrl, index));
+        return;
+      }
+      
+      // 同一批次的变体在第一次出现的位置整体展示，方便对比挑选
+      if (renderedBatches.has(batchId)) return;
+      renderedBatches.add(batchId);
+      
+      const batchImages = (batches?.[batchId] || []).filter(url => images.includes(url));
       gridItems.push(
-        <div
-          key={`${imageUrl}-${index}`}
-          ref={(node) => imageRefCallback(node, imageUrl)}
-          className={containerClassName}
-          onClick={() => setPreviewImage(imageUrl)}
-        >
-          {/* 图片加载中状态 */}
-          {!loadedImages[imageUrl] && !errorImages[imageUrl] && (
-            <div className="absolute inset-0 flex items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
-              <ImageLoading message="加载中..." />
-            </div>
-          )}
-          
-          {/* 图片加载错误状态 */}
-          {errorImages[imageUrl] && (
-            <div className="absolute inset-0 flex flex-col items-center justify-center bg-muted/60 backdrop-blur-sm z-10">
-              <ImageError message="加载失败" />
-            </div>
-          )}
-          
-          <div className="w-full h-full relative">
-            <LazyImage
-              src={getDisplayUrl(imageUrl)}
-              alt={`生成的图片 ${index + 1}`}
-              className={`object-cover w-full h-full transition-transform duration-700 hover:scale-[1.05] ${
-                isLatestImage ? 'animate-fade-in' : ''
-              }`}
-              onImageLoad={() => handleImageLoad(imageUrl)}
-              onImageError={() => handleImageError(imageUrl)}
-              fadeIn={true}
-              blurEffect={true}
-            />
+        <div key={`batch-${batchId}`} className="col-span-full rounded-xl border border-primary/20 bg-primary/5 p-3">
+          <div className="flex items-center mb-3 text-sm text-foreground/80 font-quicksand">
+            <Layers className="h-4 w-4 mr-1.5 text-primary" />
+            同一批次的 {batchImages.length} 个变体
           </div>
-          
-          {/* 图片操作按钮 - 鼠标悬停时显示 */}
-          <div className="absolute bottom-0 left-0 right-0 p-2.5 bg-gradient-to-t from-black/80 to-transparent opacity-0 hover:opacity-100 transition-opacity duration-300 flex justify-end gap-2">
-            <Button
-              variant="ghost"
-              size="icon"
-              className="h-8 w-8 rounded-full bg-black/40 hover:bg-black/60 text-white shadow-ghibli-sm backdrop-blur-sm"
-              onClick={(e) => {
-                e.stopPropagation();
-                handleDownload(imageUrl);
-              }}
-              title="下载"
-            >
-              <Download className="h-3.5 w-3.5" />
-            </Button>
-            
-            {onDeleteImage && (
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-8 w-8 rounded-full bg-destructive/40 hover:bg-destructive/60 text-white shadow-ghibli-sm backdrop-blur-sm"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleDeleteImage(imageUrl);
-                }}
-                title="删除"
-              >
-                <Trash2 className="h-3.5 w-3.5" />
-              </Button>
+          <div className={gridClassName}>
+            {batchImages.map((batchImageUrl, variantIndex) =>
+              renderImageItem(batchImageUrl, images.indexOf(batchImageUrl), `变体 ${variantIndex + 1}`)
             )}
           </div>
         </div>
@@ -463,6 +512,16 @@ const GeneratedImageGallery = React.forwardRef<HTMLDivElement, GeneratedImageGal
         onClose={() => setPreviewImage(null)}
         onDownload={previewImage ? () => handleDownload(previewImage) : undefined}
         onDelete={onDeleteImage && previewImage ? () => handleDeleteImage(previewImage) : undefined}
+        onShare={(url) => {
+          setPreviewImage(null);
+          setShareTarget({ imageUrl: url });
+        }}
+      />
+
+      {/* 分享链接 */}
+      <ShareImageDialog
+        target={shareTarget}
+        onClose={() => setShareTarget(null)}
       />
     </div>
   );
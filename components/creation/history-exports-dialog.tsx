@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+// 与 utils/history/historyExport.ts 中的 HistoryExport 一致
+interface HistoryExportItem {
+  id: string;
+  status: "pending" | "processing" | "completed" | "failed" | "expired";
+  total_count: number;
+  processed_count: number;
+  error: string | null;
+  created_at: string;
+  expires_at: string | null;
+  downloads: Array<{ url: string; filename: string; size: number; count: number }>;
+}
+
+interface HistoryExportsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<HistoryExportItem["status"], string> = {
+  pending: "排队中",
+  processing: "打包中",
+  completed: "已完成",
+  failed: "失败",
+  expired: "已过期"
+};
+
+// 有进行中的任务时轮询进度
+const POLL_INTERVAL_MS = 5000;
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString("zh-CN", { hour12: false }) : "—";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// 后台导出任务列表，完成后提供分卷下载链接
+export default function HistoryExportsDialog({ open, onClose }: HistoryExportsDialogProps) {
+  const [exports, setExports] = useState<HistoryExportItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExports = useCallback(async () => {
+    try {
+      const response = await fetch("/api/history/exports");
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "加载导出记录失败");
+      }
+      setExports(data.exports || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "加载导出记录失败");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadExports();
+    }
+  }, [open, loadExports]);
+
+  const hasActive = exports.some(item => item.status === "pending" || item.status === "processing");
+
+  useEffect(() => {
+    if (!open || !hasActive) return;
+    const timer = setInterval(loadExports, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [open, hasActive, loadExports]);
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>导出记录</DialogTitle>
+          <DialogDescription>
+            大批量导出在后台分卷打包，完成后可在这里下载，文件保留7天。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center py-6">{error}</p>
+          ) : exports.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">暂无导出记录</p>
+          ) : (
+            exports.map(item => (
+              <div key={item.id} className="rounded-lg border border-border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {item.total_count} 张图片 · {formatDate(item.created_at)}
+                  </span>
+                  <Badge variant={item.status === "failed" ? "destructive" : item.status === "completed" ? "default" : "outline"}>
+                    {STATUS_LABELS[item.status]}
+                  </Badge>
+                </div>
+
+                {(item.status === "pending" || item.status === "processing") && (
+                  <p className="text-xs text-muted-foreground">
+                    已处理 {item.processed_count} / {item.total_count}
+                  </p>
+                )}
+                {item.status === "failed" && item.error && (
+                  <p className="text-xs text-destructive">{item.error}</p>
+                )}
+                {item.status === "completed" && (
+                  <div className="flex flex-wrap gap-2">
+                    {item.downloads.map(download => (
+                      <Button key={download.filename} variant="outline" size="sm" asChild disabled={!download.url}>
+                        <a href={download.url} download={download.filename}>
+                          <Download className="h-4 w-4 mr-1" />
+                          {item.downloads.length > 1 ? download.filename : "下载ZIP"}
+                          <span className="ml-1 text-muted-foreground">({formatSize(download.size)})</span>
+                        </a>
+                      </Button>
+                    ))}
+                    <p className="w-full text-xs text-muted-foreground">有效期至 {formatDate(item.expires_at)}</p>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,7 @@
 "use client";
 
 import React, { useState } from 'react';
-import Image from "next/image";
-import { Calendar, Download, Trash2, MessageSquare, ExternalLink, MoreHorizontal } from "lucide-react";
+import { Calendar, Download, Trash2, MessageSquare, ExternalLink, MoreHorizontal, FolderPlus, Share2 } from "lucide-react";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -24,12 +23,17 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import StatusBadge from "@/components/ui/status-badge";
 import { ImageHistoryItem } from "@/hooks/useImageHistory";
+import { buildImageSrcSet, HISTORY_GRID_IMAGE_SIZES, IMAGE_VARIANT_MIME_TYPES } from "@/utils/image/imageVariants";
 
 interface HistoryImageCardProps {
   item: ImageHistoryItem;
   onDelete: (id: string) => void;
   onDownload: (url: string) => void;
   onView?: (item: ImageHistoryItem) => void;
+  onAddToAlbum?: (item: ImageHistoryItem) => void;
+  onShare?: (item: ImageHistoryItem) => void;
+  // 重新创作，useOutput 为 true 时以该图作为新的参考图
+  onRemix?: (item: ImageHistoryItem, useOutput: boolean) => void;
   className?: string;
 }
 
@@ -38,6 +42,9 @@ export default function HistoryImageCard({
   onDelete,
   onDownload,
   onView,
+  onAddToAlbum,
+  onShare,
+  onRemix,
   className
 }: HistoryImageCardProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -86,6 +93,10 @@ export default function HistoryImageCard({
   
   // 图片任务状态
   const imageStatus = item.status || 'completed';
+  
+  // 有衍生版本时由浏览器按格式支持和显示宽度选择，旧图片直接加载原图
+  const avifSrcSet = buildImageSrcSet(item.asset?.variants, 'avif');
+  const webpSrcSet = buildImageSrcSet(item.asset?.variants, 'webp');
 
   return (
     <div className={cn(
@@ -106,17 +117,28 @@ export default function HistoryImageCard({
             <p className="text-xs">图片加载失败</p>
           </div>
         ) : (
-          <Image
-            src={item.image_url}
-            alt={item.prompt || "生成图片"}
-            fill
-            className={cn(
-              "object-cover transition-opacity duration-300",
-              loading ? "opacity-0" : "opacity-100"
+          <picture>
+            {avifSrcSet && (
+              <source type={IMAGE_VARIANT_MIME_TYPES.avif} srcSet={avifSrcSet} sizes={HISTORY_GRID_IMAGE_SIZES} />
+            )}
+            {webpSrcSet && (
+              <source type={IMAGE_VARIANT_MIME_TYPES.webp} srcSet={webpSrcSet} sizes={HISTORY_GRID_IMAGE_SIZES} />
             )}
-            onLoad={handleImageLoad}
-            onError={handleImageError}
-          />
+            <img
+              src={item.image_url}
+              alt={item.prompt || "生成图片"}
+              width={item.asset?.width}
+              height={item.asset?.height}
+              loading="lazy"
+              decoding="async"
+              className={cn(
+                "absolute inset-0 w-full h-full object-cover transition-opacity duration-300",
+                loading ? "opacity-0" : "opacity-100"
+              )}
+              onLoad={handleImageLoad}
+              onError={handleImageError}
+            />
+          </picture>
         )}
         
         {/* 悬停时显示的操作按钮 */}
@@ -139,6 +161,28 @@ export default function HistoryImageCard({
             <ExternalLink className="w-4 h-4" />
           </Button>
           
+          {onAddToAlbum && (
+            <Button
+              size="icon"
+              variant="secondary"
+              className="w-8 h-8 rounded-full"
+              onClick={() => onAddToAlbum(item)}
+            >
+              <FolderPlus className="w-4 h-4" />
+            </Button>
+          )}
+          
+          {onShare && (
+            <Button
+              size="icon"
+              variant="secondary"
+              className="w-8 h-8 rounded-full"
+              onClick={() => onShare(item)}
+            >
+              <Share2 className="w-4 h-4" />
+            </Button>
+          )}
+          
           <Button
             size="icon"
             variant="destructive"
@@ -177,6 +221,26 @@ export default function HistoryImageCard({
                   查看大图
                 </DropdownMenuItem>
               )}
+              {onAddToAlbum && (
+                <DropdownMenuItem onClick={() => onAddToAlbum(item)}>
+                  加入相册
+                </DropdownMenuItem>
+              )}
+              {onShare && (
+                <DropdownMenuItem onClick={() => onShare(item)}>
+                  分享链接
+                </DropdownMenuItem>
+              )}
+              {onRemix && (
+                <>
+                  <DropdownMenuItem onClick={() => onRemix(item, false)}>
+                    重新创作
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onRemix(item, true)}>
+                    以此图继续编辑
+                  </DropdownMenuItem>
+                </>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem 
                 className="text-red-600 dark:text-red-400"
@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  HistoryFacetOption,
+  HistoryFacets,
+  HistorySearchFilters,
+  hasActiveHistoryFilters
+} from "@/hooks/useHistorySearch";
+
+interface HistorySearchBarProps {
+  filters: HistorySearchFilters;
+  facets: HistoryFacets | null;
+  onChange: (changes: Partial<HistorySearchFilters>) => void;
+  onClear: () => void;
+}
+
+// 每类筛选项最多展示的数量
+const MAX_CHIPS = 8;
+
+// 日期快捷范围（天）
+const DATE_PRESETS = [
+  { label: "近7天", days: 7 },
+  { label: "近30天", days: 30 },
+  { label: "近一年", days: 365 }
+];
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function FacetChips({
+  label,
+  options,
+  value,
+  onSelect
+}: {
+  label: string;
+  options: HistoryFacetOption[];
+  value?: string;
+  onSelect: (value: string | undefined) => void;
+}) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-muted-foreground">{label}：</span>
+      {options.slice(0, MAX_CHIPS).map(option => (
+        <Badge
+          key={option.value}
+          variant={value === option.value ? "default" : "outline"}
+          className="cursor-pointer"
+          onClick={() => onSelect(value === option.value ? undefined : option.value)}
+        >
+          {option.value}
+          <span className="ml-1 opacity-60">{option.count}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+// 历史记录搜索栏和筛选项，条件由页面同步到URL
+export default function HistorySearchBar({ filters, facets, onChange, onClear }: HistorySearchBarProps) {
+  const [query, setQuery] = useState(filters.q || "");
+
+  // URL变化（如浏览器后退）时同步输入框
+  useEffect(() => {
+    setQuery(filters.q || "");
+  }, [filters.q]);
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    onChange({ q: e.target.value });
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="搜索提示词，例如：樱花 少女"
+          value={query}
+          onChange={handleQueryChange}
+          className="pl-10 pr-10"
+        />
+        {query && (
+          <button
+            type="button"
+            aria-label="清除关键词"
+            onClick={() => {
+              setQuery("");
+              onChange({ q: undefined });
+            }}
+            className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {facets && (
+        <>
+          <FacetChips
+            label="风格"
+            options={facets.styles}
+            value={filters.style}
+            onSelect={style => onChange({ style })}
+          />
+          <FacetChips
+            label="比例"
+            options={facets.aspectRatios}
+            value={filters.aspect_ratio}
+            onSelect={aspect_ratio => onChange({ aspect_ratio })}
+          />
+          <FacetChips
+            label="模型"
+            options={facets.models}
+            value={filters.model}
+            onSelect={model => onChange({ model })}
+          />
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-muted-foreground">时间：</span>
+        {DATE_PRESETS.map(preset => {
+          const from = daysAgo(preset.days);
+          const active = filters.from === from && !filters.to;
+          return (
+            <Badge
+              key={preset.days}
+              variant={active ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => onChange(active ? { from: undefined } : { from, to: undefined })}
+            >
+              {preset.label}
+            </Badge>
+          );
+        })}
+        <Input
+          type="date"
+          aria-label="开始日期"
+          value={filters.from || ""}
+          onChange={(e) => onChange({ from: e.target.value || undefined })}
+          className="h-8 w-[150px]"
+        />
+        <span className="text-sm text-muted-foreground">至</span>
+        <Input
+          type="date"
+          aria-label="结束日期"
+          value={filters.to || ""}
+          onChange={(e) => onChange({ to: e.target.value || undefined })}
+          className="h-8 w-[150px]"
+        />
+
+        {hasActiveHistoryFilters(filters) && (
+          <Button variant="ghost" size="sm" onClick={onClear} className="h-8">
+            清除筛选
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
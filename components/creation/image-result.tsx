@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Download, Loader2, Trash, Info } from "lucide-react";
+import { Download, Loader2, Trash, Info, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,7 @@ interface ImageResultProps {
   loading: boolean;
   onDownload?: () => void;
   onDelete?: () => void;
+  onShare?: () => void;
   error?: string | null;
 }
 
@@ -19,6 +20,7 @@ export default function ImageResult({
   loading,
   onDownload,
   onDelete,
+  onShare,
   error,
 }: ImageResultProps) {
   const [imageLoaded, setImageLoaded] = useState(false);
@@ -55,6 +57,19 @@ export default function ImageResult({
                 保存
               </Button>
             )}
+
+            {image && !loading && !error && onShare && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={onShare}
+                className="flex items-center text-sm bg-primary/10 text-primary hover:bg-primary/20 border-none shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                title="生成公开分享链接"
+              >
+                <Share2 className="h-4 w-4 mr-1" />
+                分享
+              </Button>
+            )}
             
             {image && !loading && (
               <Button
@@ -8,6 +8,7 @@ import { ImageLoading, ImageError } from "@/components/ui/loading-states";
 import { compressImage } from '@/utils/image/compressImage';
 import { useToast } from "@/components/ui/use-toast";
 import { ImageGenerationSkeleton, GenerationStage } from "@/components/ui/skeleton-generation";
+import { ImageComparisonSlider } from "@/components/ui/image-comparison-slider";
 
 // 定义上传区域的多种状态
 type UploaderState = 'idle' | 'uploading' | 'preview' | 'generating' | 'result';
@@ -20,6 +21,8 @@ interface ImageUploaderProps {
   generationStage?: GenerationStage;
   generationPercentage?: number;
   generatedImage?: string | null;
+  // 局部编辑时的原图，提供时结果与原图对比展示
+  originalImage?: string | null;
   onDownload?: (imageUrl: string) => void;
   onContinueCreation?: () => void;
 }
@@ -46,6 +49,7 @@ export default function ImageUploader({
   generationStage,
   generationPercentage,
   generatedImage = null,
+  originalImage = null,
   onDownload = () => {},
   onContinueCreation = () => {},
 }: ImageUploaderProps) {
@@ -387,15 +391,25 @@ export default function ImageUploader({
           {currentState === 'result' && generatedImage && (
             // 结果状态 - 显示生成的图片和按钮组
             <>
-              <LazyImage
-                src={generatedImage}
-                alt="生成的图片"
-                className="w-full h-full object-contain max-h-[380px]"
-                fadeIn={true}
-                blurEffect={true}
-                loadingElement={<ImageLoading message="加载中..." />}
-                errorElement={<ImageError message="加载失败" />}
-              />
+              {originalImage ? (
+                <ImageComparisonSlider
+                  beforeImage={originalImage}
+                  afterImage={generatedImage}
+                  beforeAlt="原图"
+                  afterAlt="局部编辑结果"
+                  className="h-[380px]"
+                />
+              ) : (
+                <LazyImage
+                  src={generatedImage}
+                  alt="生成的图片"
+                  className="w-full h-full object-contain max-h-[380px]"
+                  fadeIn={true}
+                  blurEffect={true}
+                  loadingElement={<ImageLoading message="加载中..." />}
+                  errorElement={<ImageError message="加载失败" />}
+                />
+              )}
               
               {/* 按钮组 - 放在右上角 */}
               <div className="absolute top-2 right-2 flex gap-2">
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Brush, Eraser, Trash2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+export interface MaskPainterProps {
+  // 需要局部编辑的原图
+  image: string;
+  // 当前蒙版，为空表示整图编辑
+  mask: string | null;
+  onMaskChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+type BrushMode = 'paint' | 'erase';
+
+// 画笔大小范围(按显示尺寸计算的像素)
+const MIN_BRUSH_SIZE = 8;
+const MAX_BRUSH_SIZE = 96;
+const DEFAULT_BRUSH_SIZE = 32;
+
+// 涂抹区域的显示颜色，导出蒙版时统一转换为白色
+const STROKE_COLOR = "rgb(239, 68, 68)";
+
+/**
+ * 蒙版绘制画布
+ * 在原图上涂抹需要修改的区域，导出与原图同尺寸的黑白蒙版，白色为需要修改的部分
+ */
+export default function MaskPainter({
+  image,
+  mask,
+  onMaskChange,
+  disabled = false,
+}: MaskPainterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [mode, setMode] = useState<BrushMode>('paint');
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  // 原图变化时按原图尺寸重置画布
+  useEffect(() => {
+    const img = new globalThis.Image();
+    img.onload = () => setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
+    img.src = image;
+  }, [image]);
+
+  // 外部清空蒙版时同步清空画布
+  useEffect(() => {
+    if (mask) return;
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+  }, [mask, imageSize]);
+
+  // 把指针位置换算为画布坐标
+  const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return {
+      x: (e.clientX - rect.left) * scale,
+      y: (e.clientY - rect.top) * scale,
+      scale
+    };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+
+    const { x, y, scale } = getCanvasPoint(e);
+    const from = lastPointRef.current || { x, y };
+
+    ctx.globalCompositeOperation = mode === 'erase' ? "destination-out" : "source-over";
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+
+    lastPointRef.current = { x, y };
+  };
+
+  // 导出黑白蒙版，画布上没有任何涂抹时返回null
+  const exportMask = useCallback((): string | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return null;
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const pixels = imageData.data;
+    let painted = false;
+
+    for (let i = 0; i < pixels.length; i += 4) {
+      const value = pixels[i + 3] > 0 ? 255 : 0;
+      painted = painted || value > 0;
+      pixels[i] = value;
+      pixels[i + 1] = value;
+      pixels[i + 2] = value;
+      pixels[i + 3] = 255;
+    }
+
+    if (!painted) return null;
+
+    const output = document.createElement("canvas");
+    output.width = canvas.width;
+    output.height = canvas.height;
+    output.getContext("2d")?.putImageData(imageData, 0, 0);
+    return output.toDataURL("image/png");
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    drawTo(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    lastPointRef.current = null;
+    onMaskChange(exportMask());
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  };
+
+  return (
+    <Card className="bg-card/60 rounded-xl border border-border shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300">
+      <CardContent className="p-5">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-medium font-quicksand text-foreground/90">局部编辑</h3>
+          {mask && (
+            <span className="text-xs text-primary font-quicksand">仅修改涂抹区域</span>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mb-4">
+          在图片上涂抹需要修改的区域，不涂抹则整张图片重新生成
+        </p>
+
+        {/* 原图与涂抹层 */}
+        <div className="relative w-full max-h-[400px] overflow-hidden rounded-lg border border-border/60 bg-muted/30 flex justify-center">
+          <div className="relative inline-block">
+            <img
+              src={image}
+              alt="局部编辑原图"
+              className="block max-h-[400px] w-auto max-w-full select-none"
+              draggable={false}
+            />
+            {imageSize && (
+              <canvas
+                ref={canvasRef}
+                width={imageSize.width}
+                height={imageSize.height}
+                className={`absolute inset-0 w-full h-full opacity-50 touch-none ${
+                  disabled ? 'cursor-not-allowed' : 'cursor-crosshair'
+                }`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* 工具栏 */}
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === 'paint' ? "default" : "outline"}
+            onClick={() => setMode('paint')}
+            disabled={disabled}
+          >
+            <Brush className="h-3.5 w-3.5 mr-1.5" />
+            画笔
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === 'erase' ? "default" : "outline"}
+            onClick={() => setMode('erase')}
+            disabled={disabled}
+          >
+            <Eraser className="h-3.5 w-3.5 mr-1.5" />
+            橡皮
+          </Button>
+
+          <label className="flex items-center gap-2 text-xs text-muted-foreground ml-2">
+            大小
+            <input
+              type="range"
+              min={MIN_BRUSH_SIZE}
+              max={MAX_BRUSH_SIZE}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              disabled={disabled}
+              className="w-24 accent-primary"
+            />
+          </label>
+
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="ml-auto"
+            onClick={handleClear}
+            disabled={disabled || !mask}
+          >
+            <Trash2 className="h-3.5 w-3.5 mr-1.5" />
+            清除
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
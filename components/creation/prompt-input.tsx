@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Sparkles, AlertCircle, Loader2 } from "lucide-react";
+import { Sparkles, AlertCircle, Loader2, Coins } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 
@@ -11,8 +11,17 @@ export interface PromptInputProps {
   canGenerate: boolean;
   hasLowCredits?: boolean;
   activeStyle?: string;
+  // 本次生成所需点数，未获取到报价时不展示
+  creditCost?: number | null;
+  creditBreakdown?: Array<{ label: string; credits: number }>;
+  // 一次生成的变体数量，提供onVariantsChange时显示选择器
+  variants?: number;
+  onVariantsChange?: (variants: number) => void;
 }
 
+// 可选的变体数量
+const VARIANT_OPTIONS = [1, 2, 3, 4];
+
 export default function PromptInput({
   prompt,
   onPromptChange,
@@ -21,6 +30,10 @@ export default function PromptInput({
   canGenerate,
   hasLowCredits = false,
   activeStyle = "自定义",
+  creditCost = null,
+  creditBreakdown = [],
+  variants = 1,
+  onVariantsChange,
 }: PromptInputProps) {
   const [focused, setFocused] = useState(false);
   const [showPlaceholder, setShowPlaceholder] = useState(true);
@@ -79,10 +92,41 @@ export default function PromptInput({
         
         {/* 操作按钮区 */}
         <div className="flex justify-end items-center p-2.5 bg-muted/30 border-t border-border">
-          {hasLowCredits && (
+          {hasLowCredits ? (
             <div className="text-amber-500 text-xs flex items-center mr-auto animate-pulse-soft">
               <AlertCircle className="h-3.5 w-3.5 mr-1" />
-              积分不足，生成后将扣除全部积分
+              {creditCost !== null ? `积分不足，本次生成需要${creditCost}点` : '积分不足'}
+            </div>
+          ) : creditCost !== null && (
+            <div
+              className="text-muted-foreground text-xs flex items-center mr-auto"
+              title={
+                creditBreakdown.map(item => `${item.label} ${item.credits}点`).join(' + ') +
+                (variants > 1 ? ` × ${variants}张` : '')
+              }
+            >
+              <Coins className="h-3.5 w-3.5 mr-1" />
+              本次消耗 {creditCost} 点
+            </div>
+          )}
+
+          {onVariantsChange && (
+            <div className="flex items-center mr-2 rounded-lg border border-border bg-card/60 p-0.5" title="一次生成的变体数量">
+              {VARIANT_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => onVariantsChange(option)}
+                  disabled={isGenerating}
+                  className={`h-7 min-w-[2.25rem] px-2 rounded-md text-xs font-quicksand transition-colors duration-200 ${
+                    option === variants
+                      ? 'bg-primary text-primary-foreground shadow-ghibli-sm'
+                      : 'text-muted-foreground hover:text-foreground hover:bg-muted/60'
+                  }`}
+                >
+                  {option}张
+                </button>
+              ))}
             </div>
           )}
 
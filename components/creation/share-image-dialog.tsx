@@ -0,0 +1,251 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { Copy, Link2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+// 与 utils/shares/imageShares.ts 中的 ImageShare 一致
+interface ImageShareItem {
+  id: string;
+  token: string;
+  history_id: number;
+  show_prompt: boolean;
+  view_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  path: string;
+}
+
+// 要分享的图片，有历史记录ID时优先使用，生成结果页只有图片地址
+export interface ShareTarget {
+  historyId?: string | number;
+  imageUrl?: string;
+}
+
+interface ShareImageDialogProps {
+  // 为null时关闭
+  target: ShareTarget | null;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: "永久", days: null },
+  { label: "1天", days: 1 },
+  { label: "7天", days: 7 },
+  { label: "30天", days: 30 }
+];
+
+const formatDate = (value: string) => new Date(value).toLocaleString("zh-CN", { hour12: false });
+
+const getShareState = (share: ImageShareItem): "active" | "revoked" | "expired" => {
+  if (share.revoked_at) return "revoked";
+  if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) return "expired";
+  return "active";
+};
+
+// 创建、复制和撤销图片的公开分享链接
+export default function ShareImageDialog({ target, onClose }: ShareImageDialogProps) {
+  const [showPrompt, setShowPrompt] = useState(true);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [shares, setShares] = useState<ImageShareItem[]>([]);
+  const [historyId, setHistoryId] = useState<string | number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const isOpen = !!target && (!!target.historyId || !!target.imageUrl);
+
+  const loadShares = useCallback(async (id: string | number) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/shares?historyId=${encodeURIComponent(String(id))}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "加载分享链接失败");
+      }
+      setShares(data.shares || []);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "加载分享链接失败");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // 每次打开时重置选项，已知历史记录ID时加载已有链接
+  useEffect(() => {
+    if (!isOpen) return;
+    setShowPrompt(true);
+    setExpiresInDays(null);
+    setShares([]);
+    setHistoryId(target?.historyId ?? null);
+    if (target?.historyId) {
+      loadShares(target.historyId);
+    }
+  }, [isOpen, target, loadShares]);
+
+  const copyLink = async (path: string) => {
+    const url = `${window.location.origin}${path}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("链接已复制");
+    } catch {
+      toast.error(`复制失败，请手动复制: ${url}`);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!target) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/shares", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          historyId: historyId ?? undefined,
+          imageUrl: historyId ? undefined : target.imageUrl,
+          showPrompt,
+          expiresInDays
+        })
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "创建分享链接失败");
+      }
+
+      const share: ImageShareItem = data.share;
+      setHistoryId(share.history_id);
+      setShares(prev => [share, ...prev]);
+      await copyLink(share.path);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "创建分享链接失败");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (share: ImageShareItem) => {
+    if (!window.confirm("撤销后该链接将无法访问，确定撤销吗？")) return;
+
+    try {
+      const response = await fetch(`/api/shares/${share.id}`, { method: "DELETE" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "撤销失败");
+      }
+      setShares(prev => prev.map(item =>
+        item.id === share.id ? { ...item, revoked_at: new Date().toISOString() } : item
+      ));
+      toast.success("分享链接已撤销");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "撤销失败");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>分享图片</DialogTitle>
+          <DialogDescription>
+            生成公开链接，任何人无需登录即可查看图片，可以随时撤销。
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-show-prompt">展示提示词</Label>
+            <Switch id="share-show-prompt" checked={showPrompt} onCheckedChange={setShowPrompt} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>有效期</Label>
+            <div className="flex flex-wrap gap-2">
+              {EXPIRY_OPTIONS.map(option => (
+                <Button
+                  key={option.label}
+                  type="button"
+                  size="sm"
+                  variant={expiresInDays === option.days ? "default" : "outline"}
+                  onClick={() => setExpiresInDays(option.days)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Button className="w-full" onClick={handleCreate} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Link2 className="h-4 w-4 mr-1" />}
+            生成并复制链接
+          </Button>
+
+          {(isLoading || shares.length > 0) && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">已有链接</h4>
+              {isLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <div className="max-h-60 overflow-y-auto space-y-2">
+                  {shares.map(share => {
+                    const state = getShareState(share);
+                    return (
+                      <div
+                        key={share.id}
+                        className={cn(
+                          "rounded-lg border border-border p-3 space-y-1",
+                          state !== "active" && "opacity-60"
+                        )}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-mono truncate">{share.path}</span>
+                          {state === "active" ? (
+                            <div className="flex gap-1 shrink-0">
+                              <Button size="sm" variant="ghost" onClick={() => copyLink(share.path)}>
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => handleRevoke(share)}
+                              >
+                                撤销
+                              </Button>
+                            </div>
+                          ) : (
+                            <Badge variant="outline">{state === "revoked" ? "已撤销" : "已过期"}</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {share.show_prompt ? "展示提示词" : "隐藏提示词"}
+                          {" · "}
+                          {share.expires_at ? `有效期至 ${formatDate(share.expires_at)}` : "永久有效"}
+                          {" · "}
+                          {share.view_count} 次访问
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
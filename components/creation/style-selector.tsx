@@ -1,8 +1,9 @@
 import React, { useState } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
 import StyleCard from "@/components/creation/style-card";
-import { STYLE_CONFIGS } from "@/app/config/styles";
+import { StyleConfig } from "@/app/config/styles";
 
 interface StyleSelectorProps {
   activeStyle: string;
@@ -17,6 +18,37 @@ export default function StyleSelector({
   const [showScrollControls, setShowScrollControls] = useState(false);
   const [showLeftScroll, setShowLeftScroll] = useState(false);
   const [showRightScroll, setShowRightScroll] = useState(true);
+  const [styles, setStyles] = useState<StyleConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // 风格由管理后台维护，从风格目录接口读取
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const fetchStyles = async () => {
+      try {
+        const response = await fetch("/api/styles");
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || "获取风格列表失败");
+        }
+        if (!cancelled) {
+          setStyles(data.data || []);
+        }
+      } catch (error) {
+        console.error("获取风格列表失败:", error);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchStyles();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const checkScrollPosition = () => {
     if (!scrollAreaRef.current) return;
@@ -46,7 +78,7 @@ export default function StyleSelector({
       scrollArea.removeEventListener("scroll", handleScroll);
       window.removeEventListener("resize", handleResize);
     };
-  }, []);
+  }, [styles]);
 
   // 向左滚动
   const scrollLeft = () => {
@@ -71,7 +103,13 @@ export default function StyleSelector({
           ref={scrollAreaRef}
           className="grid grid-flow-col auto-cols-max gap-3 overflow-x-auto hide-scrollbar overscroll-x-contain snap-x snap-mandatory pb-2 scroll-pl-6"
         >
-          {STYLE_CONFIGS.map((style) => (
+          {isLoading && Array.from({ length: 6 }).map((_, index) => (
+            <div key={index} className="snap-start min-w-[140px] sm:min-w-[150px]">
+              <Skeleton className="aspect-square w-full rounded-xl" />
+              <Skeleton className="h-4 w-2/3 mx-auto mt-2.5" />
+            </div>
+          ))}
+          {styles.map((style) => (
             <div key={style.id} className="snap-start min-w-[140px] sm:min-w-[150px]">
               <StyleCard
                 style={style}
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ImageHistoryItem } from "@/hooks/useImageHistory";
+
+interface SubmitTemplateDialogProps {
+  item: ImageHistoryItem | null;
+  onClose: () => void;
+}
+
+// 把历史作品投稿为创意广场模板
+export default function SubmitTemplateDialog({ item, onClose }: SubmitTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tagsInput, setTagsInput] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 切换作品时重置表单
+  useEffect(() => {
+    setName("");
+    setDescription("");
+    setTagsInput("");
+  }, [item?.id]);
+
+  const handleSubmit = async () => {
+    if (!item) return;
+
+    if (!name.trim() || !description.trim()) {
+      toast.error("请填写模板名称和描述");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/templates/submissions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          historyId: item.id,
+          name: name.trim(),
+          description: description.trim(),
+          tags: tagsInput.split(/[,，\s]+/).map(tag => tag.trim()).filter(Boolean)
+        })
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `投稿失败 (${response.status})`);
+      }
+
+      toast.success("投稿成功，审核通过后将在创意广场展示");
+      onClose();
+    } catch (err) {
+      console.error("投稿模板失败:", err);
+      toast.error(err instanceof Error ? err.message : "投稿失败，请重试");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>投稿为模板</DialogTitle>
+          <DialogDescription>
+            作品的提示词、风格和图片会作为模板发布到创意广场，并署名为你，审核通过后其他用户即可使用。
+          </DialogDescription>
+        </DialogHeader>
+
+        {item && (
+          <div className="space-y-4">
+            <div className="flex gap-3">
+              <img
+                src={item.image_url}
+                alt="作品预览"
+                className="w-20 h-20 rounded-md object-cover flex-shrink-0"
+              />
+              <p className="text-xs text-muted-foreground line-clamp-4">
+                {item.prompt || "无提示词"}
+              </p>
+            </div>
+
+            <div className="space-y-1.5">
+              <label htmlFor="template-name" className="text-sm font-medium">模板名称</label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={40}
+                placeholder="例如：复古胶片人像"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label htmlFor="template-description" className="text-sm font-medium">模板描述</label>
+              <Textarea
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={200}
+                placeholder="介绍这个模板适合生成什么样的图片"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label htmlFor="template-tags" className="text-sm font-medium">
+                标签<span className="text-muted-foreground font-normal ml-1">（可选，用逗号分隔，最多5个）</span>
+              </label>
+              <Input
+                id="template-tags"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="人像，胶片"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            取消
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !item?.prompt}>
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            提交审核
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { localizeSlot, PromptSlot, PromptSlotValues } from "@/utils/promptTemplate";
+
+interface TemplateSlotFormProps {
+  slots: PromptSlot[];
+  values: PromptSlotValues;
+  onChange: (name: string, value: string) => void;
+  locale?: string | null;
+  disabled?: boolean;
+}
+
+// 按模板声明的插槽渲染结构化表单
+export default function TemplateSlotForm({
+  slots,
+  values,
+  onChange,
+  locale,
+  disabled = false,
+}: TemplateSlotFormProps) {
+  return (
+    <div className="space-y-4">
+      {slots.map((rawSlot) => {
+        const slot = localizeSlot(rawSlot, locale);
+        const id = `template-slot-${slot.name}`;
+        const value = values[slot.name] || "";
+        const placeholder = slot.placeholder || (slot.default ? `默认：${slot.default}` : `请输入${slot.label}`);
+
+        return (
+          <div key={slot.name} className="space-y-1.5">
+            <label htmlFor={id} className="text-sm font-medium">
+              {slot.label}
+              {slot.required ? (
+                <span className="text-destructive ml-0.5">*</span>
+              ) : (
+                <span className="text-muted-foreground font-normal ml-1">（可选）</span>
+              )}
+            </label>
+
+            {slot.type === "select" ? (
+              <Select
+                value={value}
+                onValueChange={(next) => onChange(slot.name, next)}
+                disabled={disabled}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue placeholder={placeholder} />
+                </SelectTrigger>
+                <SelectContent>
+                  {(slot.options || []).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : slot.type === "textarea" ? (
+              <Textarea
+                id={id}
+                value={value}
+                onChange={(e) => onChange(slot.name, e.target.value)}
+                placeholder={placeholder}
+                maxLength={slot.maxLength}
+                disabled={disabled}
+                className="min-h-[90px]"
+              />
+            ) : (
+              <Input
+                id={id}
+                value={value}
+                onChange={(e) => onChange(slot.name, e.target.value)}
+                placeholder={placeholder}
+                maxLength={slot.maxLength}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
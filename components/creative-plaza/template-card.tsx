@@ -1,7 +1,7 @@
 import React from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { BarChart2, ChevronRight } from "lucide-react";
+import { BarChart2, ChevronRight, Heart, Star, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
@@ -15,9 +15,23 @@ export interface TemplateCardProps {
     tags: string[];
     use_count: number;
     requires_image: boolean;
+    status?: string;
+    author_id?: string | null;
+    author_name?: string | null;
+    review_note?: string | null;
+    favorite_count?: number;
+    rating_avg?: number;
+    rating_count?: number;
   };
 }
 
+// 投稿审核状态，仅在"我的模板"中出现
+const SUBMISSION_STATUS_LABELS: Record<string, string> = {
+  pending: "审核中",
+  rejected: "未通过",
+  draft: "草稿"
+};
+
 export function TemplateCard({ template }: TemplateCardProps) {
   const templateUrl = `/creative-plaza/template/${template.id}`;
   
@@ -36,6 +50,16 @@ export function TemplateCard({ template }: TemplateCardProps) {
           </Link>
         </div>
         
+        {/* 审核状态 */}
+        {template.status && SUBMISSION_STATUS_LABELS[template.status] && (
+          <Badge
+            variant={template.status === "rejected" ? "destructive" : "secondary"}
+            className="absolute top-2 right-2 text-xs"
+          >
+            {SUBMISSION_STATUS_LABELS[template.status]}
+          </Badge>
+        )}
+        
         {/* 必要条件标签 */}
         {template.requires_image && (
           <Badge 
@@ -54,14 +78,37 @@ export function TemplateCard({ template }: TemplateCardProps) {
           </h3>
         </Link>
         
+        <div className="flex items-center text-xs text-muted-foreground mb-2">
+          <User className="h-3 w-3 mr-1" />
+          <span>{template.author_id ? template.author_name || "用户投稿" : "官方"}</span>
+        </div>
+        
         <p className="text-sm text-muted-foreground line-clamp-2 mb-3 h-10">
           {template.description}
         </p>
         
+        {template.status === "rejected" && template.review_note && (
+          <p className="text-xs text-destructive mb-3">
+            未通过原因：{template.review_note}
+          </p>
+        )}
+        
         <div className="flex items-center justify-between">
-          <div className="flex items-center text-sm text-muted-foreground">
-            <BarChart2 className="h-4 w-4 mr-1" />
-            <span>{template.use_count || 0} 次使用</span>
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="flex items-center" title="使用次数">
+              <BarChart2 className="h-4 w-4 mr-1" />
+              {template.use_count || 0}
+            </span>
+            <span className="flex items-center" title="收藏数">
+              <Heart className="h-4 w-4 mr-1" />
+              {template.favorite_count || 0}
+            </span>
+            {!!template.rating_count && (
+              <span className="flex items-center" title={`${template.rating_count} 人评分`}>
+                <Star className="h-4 w-4 mr-1 fill-amber-400 text-amber-400" />
+                {Number(template.rating_avg || 0).toFixed(1)}
+              </span>
+            )}
           </div>
           
           <Button 
@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { Heart, Star } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+export interface TemplateEngagementBarProps {
+  templateId: string;
+  favoriteCount: number;
+  ratingAvg: number;
+  ratingCount: number;
+  // 未登录时为null，点击时提示登录
+  engagement: { favorited: boolean; rating: number | null } | null;
+}
+
+// 模板收藏按钮和1-5星评分
+export function TemplateEngagementBar({
+  templateId,
+  favoriteCount: initialFavoriteCount,
+  ratingAvg: initialRatingAvg,
+  ratingCount: initialRatingCount,
+  engagement
+}: TemplateEngagementBarProps) {
+  const [favorited, setFavorited] = useState(engagement?.favorited || false);
+  const [favoriteCount, setFavoriteCount] = useState(initialFavoriteCount);
+  const [rating, setRating] = useState<number | null>(engagement?.rating ?? null);
+  const [ratingAvg, setRatingAvg] = useState(initialRatingAvg);
+  const [ratingCount, setRatingCount] = useState(initialRatingCount);
+  const [hoverRating, setHoverRating] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const requireLogin = () => {
+    if (!engagement) {
+      toast.error("请登录后再收藏或评分");
+      return true;
+    }
+    return false;
+  };
+
+  const handleToggleFavorite = async () => {
+    if (requireLogin() || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/templates/${templateId}/favorite`, {
+        method: favorited ? "DELETE" : "POST"
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "操作失败");
+      }
+
+      setFavorited(data.data.favorited);
+      setFavoriteCount(data.data.favoriteCount);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "收藏失败，请重试");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRate = async (value: number) => {
+    if (requireLogin() || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/templates/${templateId}/rating`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ rating: value })
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || "评分失败");
+      }
+
+      setRating(data.data.rating);
+      setRatingAvg(data.data.ratingAvg);
+      setRatingCount(data.data.ratingCount);
+      toast.success("感谢您的评分");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "评分失败，请重试");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const displayRating = hoverRating ?? rating ?? 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleToggleFavorite}
+        disabled={isSaving}
+        className={cn(favorited && "text-rose-500 border-rose-200")}
+      >
+        <Heart className={cn("h-4 w-4 mr-1", favorited && "fill-rose-500")} />
+        {favorited ? "已收藏" : "收藏"} · {favoriteCount}
+      </Button>
+
+      <div className="flex items-center gap-2">
+        <div className="flex" onMouseLeave={() => setHoverRating(null)}>
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              type="button"
+              aria-label={`${value}星`}
+              disabled={isSaving}
+              onMouseEnter={() => setHoverRating(value)}
+              onClick={() => handleRate(value)}
+              className="p-0.5"
+            >
+              <Star
+                className={cn(
+                  "h-5 w-5 transition-colors",
+                  value <= displayRating ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"
+                )}
+              />
+            </button>
+          ))}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {ratingCount > 0 ? `${Number(ratingAvg).toFixed(1)}（${ratingCount}人评分）` : "暂无评分"}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+// 广场视图：全部、热门、我的收藏、我的投稿
+export type TemplateView = "all" | "trending" | "favorites" | "mine";
 
 export interface TemplateFiltersProps {
   searchQuery: string;
@@ -18,6 +22,8 @@ export interface TemplateFiltersProps {
   sortOption: string;
   onSortChange: (option: string) => void;
   availableTags: string[];
+  view: TemplateView;
+  onViewChange: (view: TemplateView) => void;
 }
 
 export function TemplateFilters({
@@ -27,7 +33,9 @@ export function TemplateFilters({
   onTagSelect,
   sortOption,
   onSortChange,
-  availableTags
+  availableTags,
+  view,
+  onViewChange
 }: TemplateFiltersProps) {
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onSearchChange(e.target.value);
@@ -35,6 +43,16 @@ export function TemplateFilters({
 
   return (
     <div className="mb-8 space-y-4">
+      {/* 视图切换 */}
+      <Tabs value={view} onValueChange={(value) => onViewChange(value as TemplateView)}>
+        <TabsList>
+          <TabsTrigger value="all">全部</TabsTrigger>
+          <TabsTrigger value="trending">热门</TabsTrigger>
+          <TabsTrigger value="favorites">我的收藏</TabsTrigger>
+          <TabsTrigger value="mine">我的投稿</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      
       {/* 搜索栏 */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -71,20 +89,25 @@ export function TemplateFilters({
           ))}
         </div>
         
-        <div className="flex items-center gap-2">
-          <span className="text-sm font-medium">排序：</span>
-          <Select value={sortOption} onValueChange={onSortChange}>
-            <SelectTrigger className="w-[140px]">
-              <SelectValue placeholder="排序方式" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="created_at:desc">最新上架</SelectItem>
-              <SelectItem value="use_count:desc">最多使用</SelectItem>
-              <SelectItem value="name:asc">名称 A-Z</SelectItem>
-              <SelectItem value="name:desc">名称 Z-A</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        {/* 热门视图固定按热门分数排序 */}
+        {view !== "trending" && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">排序：</span>
+            <Select value={sortOption} onValueChange={onSortChange}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="排序方式" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="created_at:desc">最新上架</SelectItem>
+                <SelectItem value="use_count:desc">最多使用</SelectItem>
+                <SelectItem value="favorite_count:desc">最多收藏</SelectItem>
+                <SelectItem value="rating_avg:desc">评分最高</SelectItem>
+                <SelectItem value="name:asc">名称 A-Z</SelectItem>
+                <SelectItem value="name:desc">名称 Z-A</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -3,7 +3,7 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { Home, Edit3, History, HelpCircle, User, LogOut, LogIn, Gem, Loader2, FileText, Palette, ChevronDown } from "lucide-react";
+import { Home, Edit3, History, HelpCircle, User, LogOut, LogIn, Gem, Loader2, FileText, Palette, ChevronDown, KeyRound, FolderOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { buttonVariants } from "@/components/ui/button";
 import { authService } from "@/utils/auth-service";
@@ -73,6 +73,18 @@ export function MainNav({ providedAuthState }: MainNavProps) {
       icon: <History className="h-4 w-4 mr-2" />,
       requiresAuth: true,
     },
+    {
+      name: "我的相册",
+      href: "/protected/albums",
+      icon: <FolderOpen className="h-4 w-4 mr-2" />,
+      requiresAuth: true,
+    },
+    {
+      name: "API密钥",
+      href: "/protected/settings",
+      icon: <KeyRound className="h-4 w-4 mr-2" />,
+      requiresAuth: true,
+    },
     {
       name: "创意广场",
       href: "/creative-plaza",
@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface ApiKeyItem {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// 权限说明，与 utils/apiKeys/apiKeys.ts 中的 API_KEY_SCOPES 一致
+const SCOPE_OPTIONS = [
+  { value: 'tasks:write', label: '创建生成任务（消耗点数）' },
+  { value: 'tasks:read', label: '查询任务' },
+  { value: 'history:read', label: '读取生成历史' },
+  { value: 'credits:read', label: '查询点数' },
+];
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('zh-CN', { hour12: false }) : '—';
+
+/**
+ * API密钥管理
+ * 创建、查看与吊销个人API密钥，明文密钥只在创建后展示一次
+ */
+export default function ApiKeysPanel() {
+  const [keys, setKeys] = useState<ApiKeyItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>(SCOPE_OPTIONS.map(option => option.value));
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await fetch('/api/api-keys');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '加载密钥失败');
+      }
+      setKeys(data.keys);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '加载密钥失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(item => item !== scope));
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('请填写密钥名称');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '创建密钥失败');
+      }
+
+      setNewKey(data.key);
+      setName('');
+      setKeys(prev => [data.apiKey, ...prev]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '创建密钥失败');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (key: ApiKeyItem) => {
+    if (!window.confirm(`确定吊销密钥「${key.name}」吗？使用该密钥的程序将立即无法调用。`)) {
+      return;
+    }
+
+    setRevokingId(key.id);
+    try {
+      const response = await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || '吊销密钥失败');
+      }
+      setKeys(prev => prev.map(item =>
+        item.id === key.id ? { ...item, revoked_at: new Date().toISOString() } : item
+      ));
+      toast.success('密钥已吊销');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '吊销密钥失败');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const copyNewKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast.success('已复制到剪贴板');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-quicksand">
+          <KeyRound className="h-5 w-5 text-primary" />
+          API密钥
+        </CardTitle>
+        <CardDescription>
+          使用密钥通过 <code className="text-xs">/api/v1</code> 接口创建任务和查询结果，调用消耗的点数从你的账户扣除。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* 新密钥只展示一次 */}
+        {newKey && (
+          <div className="rounded-lg border border-primary/40 bg-primary/5 p-4 space-y-2">
+            <p className="text-sm font-medium">请立即复制新密钥，关闭后将无法再次查看</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded bg-muted px-2 py-1.5 text-xs">{newKey}</code>
+              <Button type="button" size="sm" variant="outline" onClick={copyNewKey}>
+                <Copy className="h-3.5 w-3.5 mr-1.5" />
+                复制
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={() => setNewKey(null)}>
+                我已保存
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* 创建密钥 */}
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="密钥名称，例如：内容流水线"
+              maxLength={100}
+            />
+            <Button type="button" onClick={handleCreate} disabled={isCreating || scopes.length === 0}>
+              {isCreating ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Plus className="h-4 w-4 mr-1.5" />}
+              创建密钥
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-x-5 gap-y-2">
+            {SCOPE_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox
+                  checked={scopes.includes(option.value)}
+                  onCheckedChange={(checked) => toggleScope(option.value, checked === true)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* 密钥列表 */}
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">还没有创建API密钥</p>
+        ) : (
+          <div className="divide-y divide-border rounded-lg border border-border">
+            {keys.map(key => (
+              <div key={key.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{key.name}</span>
+                    <code className="text-xs text-muted-foreground">{key.key_prefix}…</code>
+                    {key.revoked_at && <Badge variant="secondary">已吊销</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {key.scopes.map(scope => (
+                      <Badge key={scope} variant="outline" className="text-[10px]">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    创建于 {formatDate(key.created_at)} · 最近使用 {formatDate(key.last_used_at)}
+                    {key.expires_at && ` · 过期时间 ${formatDate(key.expires_at)}`}
+                  </p>
+                </div>
+                {!key.revoked_at && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive shrink-0"
+                    onClick={() => handleRevoke(key)}
+                    disabled={revokingId === key.id}
+                  >
+                    {revokingId === key.id
+                      ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                      : <Trash2 className="h-3.5 w-3.5 mr-1.5" />}
+                    吊销
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
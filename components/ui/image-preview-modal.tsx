@@ -1,5 +1,5 @@
 import React from 'react';
-import { X, Download } from 'lucide-react';
+import { X, Download, Share2, FolderPlus, Link2, RotateCcw, Wand2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface ImagePreviewModalProps {
@@ -8,9 +8,17 @@ interface ImagePreviewModalProps {
   onClose: () => void;
   onDownload?: (url: string) => void;
   onDelete?: (url: string) => void;
+  // 投稿为创意广场模板
+  onSubmitTemplate?: (url: string) => void;
+  // 加入相册
+  onAddToAlbum?: (url: string) => void;
+  // 生成公开分享链接
+  onShare?: (url: string) => void;
+  // 重新创作，useOutput 为 true 时以该图作为新的参考图
+  onRemix?: (url: string, useOutput: boolean) => void;
 }
 
-export function ImagePreviewModal({ isOpen, imageUrl, onClose, onDownload, onDelete }: ImagePreviewModalProps) {
+export function ImagePreviewModal({ isOpen, imageUrl, onClose, onDownload, onDelete, onSubmitTemplate, onAddToAlbum, onShare, onRemix }: ImagePreviewModalProps) {
   if (!isOpen || !imageUrl) return null;
 
   return (
@@ -58,6 +66,61 @@ export function ImagePreviewModal({ isOpen, imageUrl, onClose, onDownload, onDel
                   <span>删除</span>
                 </Button>
               )}
+              {onSubmitTemplate && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  className="shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                  onClick={() => onSubmitTemplate(imageUrl)}
+                >
+                  <Share2 className="h-4 w-4 mr-1" />
+                  <span>投稿为模板</span>
+                </Button>
+              )}
+              {onAddToAlbum && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  className="shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                  onClick={() => onAddToAlbum(imageUrl)}
+                >
+                  <FolderPlus className="h-4 w-4 mr-1" />
+                  <span>加入相册</span>
+                </Button>
+              )}
+              {onShare && (
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  className="shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                  onClick={() => onShare(imageUrl)}
+                >
+                  <Link2 className="h-4 w-4 mr-1" />
+                  <span>分享链接</span>
+                </Button>
+              )}
+              {onRemix && (
+                <>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                    onClick={() => onRemix(imageUrl, false)}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    <span>重新创作</span>
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="shadow-ghibli-sm hover:shadow-ghibli transition-all duration-300"
+                    onClick={() => onRemix(imageUrl, true)}
+                  >
+                    <Wand2 className="h-4 w-4 mr-1" />
+                    <span>继续编辑</span>
+                  </Button>
+                </>
+              )}
             {onDownload && (
                 <Button 
                   variant="outline" 
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef, ImgHTMLAttributes, useCallback } from 'react';
 import { Loader2, ImageIcon } from 'lucide-react';
+import { buildImageSrcSet, ImageVariant } from '@/utils/image/imageVariants';
 
 // 全局预加载队列管理
 const PreloadManager = {
@@ -286,6 +287,8 @@ interface LazyImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'onLo
   retryCount?: number;
   retryDelay?: number;
   observerOptions?: IntersectionObserverInit;
+  // 服务端生成的衍生版本，有值时通过 srcset 按显示宽度选择，配合 sizes 使用
+  variants?: ImageVariant[];
 }
 
 // 图片黑名单管理器
@@ -373,6 +376,8 @@ export function LazyImage({
   retryCount = 2,
   retryDelay = 2000,
   observerOptions = {},
+  variants,
+  sizes,
   ...props
 }: LazyImageProps) {
   const [isLoading, setIsLoading] = useState(true);
@@ -382,6 +387,10 @@ export function LazyImage({
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
+  // 预加载用的 Image 对象无法像 <picture> 那样按类型选择，只使用 WebP 版本，渲染时与预加载保持一致以命中缓存
+  const srcSet = buildImageSrcSet(variants, 'webp') || undefined;
+  const imageSizes = srcSet ? sizes || '100vw' : sizes;
+  
   // 指数退避重试延迟计算，添加上限
   const getExponentialDelay = (attempt: number, baseDelay: number): number => {
     return Math.min(baseDelay * Math.pow(1.5, attempt), 10000); // 使用1.5作为基数，最大10秒
@@ -476,8 +485,12 @@ export function LazyImage({
       retryLoadImage(imageUrl);
     };
     
+    if (srcSet) {
+      img.sizes = imageSizes || '100vw';
+      img.srcset = srcSet;
+    }
     img.src = imageUrl;
-  }, [priority, onImageLoad, retryLoadImage, onImageError]);
+  }, [priority, onImageLoad, retryLoadImage, onImageError, srcSet, imageSizes]);
   
   // 使用 Intersection Observer 处理懒加载
   useIntersectionObserver<HTMLDivElement>(
@@ -535,6 +548,8 @@ export function LazyImage({
       <img
         ref={imageRef}
         src={currentSrc}
+        srcSet={currentSrc ? srcSet : undefined}
+        sizes={imageSizes}
         alt={alt}
         className={`
           ${className}
@@ -1,20 +1,31 @@
-import { renderHook, act } from '@testing-library/react-hooks';
+/**
+ * @jest-environment jsdom
+ */
+import { renderHook, act, waitFor } from '@testing-library/react';
 import useImageHistory from '../useImageHistory';
 import { cacheService } from '@/utils/cache-service';
 
 // 模拟fetch和其他依赖
 global.fetch = jest.fn();
 jest.mock('@/utils/cache-service');
+// 与 Next.js 一致，每次渲染返回同一个router
+const mockRouter = { push: jest.fn() };
 jest.mock('next/navigation', () => ({
-  useRouter: () => ({
-    push: jest.fn(),
-  }),
+  useRouter: () => mockRouter,
 }));
 
+// 等待hook延迟释放请求锁
+const waitForRequestLock = () => new Promise(resolve => setTimeout(resolve, 600));
+
 describe('useImageHistory Hook', () => {
+  // 请求去重缓存是模块级的，每个用例把时间推后，避免复用上一个用例的请求
+  let now = Date.now();
+
   beforeEach(() => {
     // 重置所有模拟
     jest.clearAllMocks();
+    now += 60000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
     
     // 模拟cacheService
     (cacheService.getOrFetch as jest.Mock).mockImplementation(async (key, fetchFn) => {
@@ -25,6 +36,10 @@ describe('useImageHistory Hook', () => {
     (cacheService.onRefresh as jest.Mock).mockImplementation(() => jest.fn());
     (cacheService.get as jest.Mock).mockImplementation(() => null);
   });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
   
   it('should initialize with empty arrays', () => {
     const { result } = renderHook(() => useImageHistory());
@@ -50,10 +65,10 @@ describe('useImageHistory Hook', () => {
       })
     });
     
-    const { result, waitForNextUpdate } = renderHook(() => useImageHistory());
+    const { result } = renderHook(() => useImageHistory());
     
     // 等待异步操作完成
-    await waitForNextUpdate();
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
     
     // 验证结果
     expect(result.current.images.length).toBe(1);
@@ -91,10 +106,10 @@ describe('useImageHistory Hook', () => {
         })
       });
     
-    const { result, waitForNextUpdate } = renderHook(() => useImageHistory());
+    const { result } = renderHook(() => useImageHistory());
     
     // 等待初始加载完成
-    await waitForNextUpdate();
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
     
     // 验证初始状态
     expect(result.current.images.length).toBe(2);
@@ -113,7 +128,7 @@ describe('useImageHistory Hook', () => {
       '/api/history/delete',
       expect.objectContaining({
         method: 'POST',
-        body: JSON.stringify({ imageUrl: 'https://example.com/image1.jpg' })
+        body: JSON.stringify({ id: '1' })
       })
     );
     
@@ -125,16 +140,15 @@ describe('useImageHistory Hook', () => {
     // 模拟失败响应
     (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
     
-    const { result, waitForNextUpdate } = renderHook(() => useImageHistory());
+    const { result } = renderHook(() => useImageHistory());
     
     // 等待异步操作完成
-    await waitForNextUpdate();
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
     
     // 验证错误处理
     expect(result.current.images).toEqual([]);
     expect(result.current.isLoading).toBe(false);
-    // 应该尝试从缓存获取
-    expect(cacheService.get).toHaveBeenCalled();
+    expect(result.current.error).toBe('Network error');
   });
   
   it('should refetch history when requested', async () => {
@@ -158,21 +172,25 @@ describe('useImageHistory Hook', () => {
         })
       });
     
-    const { result, waitForNextUpdate } = renderHook(() => useImageHistory());
+    const { result } = renderHook(() => useImageHistory());
     
     // 等待初始加载完成
-    await waitForNextUpdate();
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
     
     // 验证初始状态
     expect(result.current.images.length).toBe(1);
     
-    // 请求刷新
+    // 请求刷新，需在节流间隔和请求锁释放之后
+    await act(async () => {
+      await waitForRequestLock();
+    });
+    now += 3000;
     act(() => {
       result.current.refetch(true);
     });
     
     // 等待刷新完成
-    await waitForNextUpdate();
+    await waitFor(() => expect(result.current.images.length).toBe(2));
     
     // 验证刷新后的状态
     expect(result.current.images.length).toBe(2);
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// 与 utils/albums/albums.ts 中的 Album 一致
+export interface AlbumSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  cover_history_id: number | null;
+  cover_url: string | null;
+  item_count: number;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UseAlbumsResult {
+  albums: AlbumSummary[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  createAlbum: (name: string, description?: string) => Promise<AlbumSummary>;
+  renameAlbum: (albumId: string, name: string) => Promise<void>;
+  deleteAlbum: (albumId: string) => Promise<void>;
+  // 把相册移到新位置并保存顺序
+  moveAlbum: (albumId: string, toIndex: number) => Promise<void>;
+  addToAlbum: (albumId: string, historyIds: Array<string | number>) => Promise<number>;
+}
+
+async function requestJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || '请求失败');
+  }
+  return data;
+}
+
+/**
+ * 当前用户的相册列表及常用操作，操作失败时抛出错误，由调用方提示
+ * @param autoLoad 为false时不在挂载时加载，由调用方按需调用 refetch
+ */
+export default function useAlbums(autoLoad = true): UseAlbumsResult {
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refetch = useCallback(async () => {
+    try {
+      const data = await requestJson('/api/albums');
+      setAlbums(data.albums || []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载相册失败');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoLoad) {
+      refetch();
+    }
+  }, [autoLoad, refetch]);
+
+  const createAlbum = useCallback(async (name: string, description?: string) => {
+    const data = await requestJson('/api/albums', {
+      method: 'POST',
+      body: JSON.stringify({ name, description })
+    });
+    setAlbums(prev => [...prev, data.album]);
+    return data.album as AlbumSummary;
+  }, []);
+
+  const renameAlbum = useCallback(async (albumId: string, name: string) => {
+    const data = await requestJson(`/api/albums/${albumId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name })
+    });
+    setAlbums(prev => prev.map(album => album.id === albumId ? data.album : album));
+  }, []);
+
+  const deleteAlbum = useCallback(async (albumId: string) => {
+    await requestJson(`/api/albums/${albumId}`, { method: 'DELETE' });
+    setAlbums(prev => prev.filter(album => album.id !== albumId));
+  }, []);
+
+  const moveAlbum = useCallback(async (albumId: string, toIndex: number) => {
+    const fromIndex = albums.findIndex(album => album.id === albumId);
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= albums.length || fromIndex === toIndex) return;
+
+    const previous = albums;
+    const reordered = [...albums];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    setAlbums(reordered);
+
+    try {
+      await requestJson('/api/albums/order', {
+        method: 'PUT',
+        body: JSON.stringify({ albumIds: reordered.map(album => album.id) })
+      });
+    } catch (err) {
+      setAlbums(previous);
+      throw err;
+    }
+  }, [albums]);
+
+  const addToAlbum = useCallback(async (albumId: string, historyIds: Array<string | number>) => {
+    const data = await requestJson(`/api/albums/${albumId}/items`, {
+      method: 'POST',
+      body: JSON.stringify({ historyIds })
+    });
+    // 数量和封面以服务端为准
+    refetch();
+    return Number(data.added) || 0;
+  }, [refetch]);
+
+  return {
+    albums,
+    isLoading,
+    error,
+    refetch,
+    createAlbum,
+    renameAlbum,
+    deleteAlbum,
+    moveAlbum,
+    addToAlbum
+  };
+}
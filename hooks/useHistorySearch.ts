@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ImageHistoryItem } from '@/hooks/useImageHistory';
+
+// 搜索条件，与 /api/history/search 的查询参数同名，直接同步到页面URL
+export interface HistorySearchFilters {
+  q?: string;
+  style?: string;
+  aspect_ratio?: string;
+  model?: string;
+  from?: string;
+  to?: string;
+}
+
+export const HISTORY_FILTER_KEYS: Array<keyof HistorySearchFilters> = ['q', 'style', 'aspect_ratio', 'model', 'from', 'to'];
+
+export interface HistoryFacetOption {
+  value: string;
+  count: number;
+}
+
+export interface HistoryFacets {
+  styles: HistoryFacetOption[];
+  aspectRatios: HistoryFacetOption[];
+  models: HistoryFacetOption[];
+}
+
+export interface UseHistorySearchResult {
+  items: ImageHistoryItem[];
+  facets: HistoryFacets | null;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  // 删除记录后从结果中移除，避免重新搜索
+  removeItem: (id: string) => void;
+}
+
+// 输入关键词后等待一段时间再搜索
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 24;
+
+export function hasActiveHistoryFilters(filters: HistorySearchFilters): boolean {
+  return HISTORY_FILTER_KEYS.some(key => !!filters[key]);
+}
+
+function buildSearchParams(filters: HistorySearchFilters, extra: Record<string, string> = {}): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), ...extra });
+  for (const key of HISTORY_FILTER_KEYS) {
+    const value = filters[key]?.trim();
+    if (value) params.set(key, value);
+  }
+  return params;
+}
+
+/**
+ * 服务端搜索生成历史，游标分页
+ * @param enabled 没有搜索条件时不请求结果，只加载筛选项
+ */
+export default function useHistorySearch(filters: HistorySearchFilters, enabled: boolean): UseHistorySearchResult {
+  const [items, setItems] = useState<ImageHistoryItem[]>([]);
+  const [facets, setFacets] = useState<HistoryFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 当前搜索条件，加载更多时用于丢弃过期的结果
+  const filtersKey = buildSearchParams(filters).toString();
+  const activeKey = useRef(filtersKey);
+
+  // 筛选项只在进入页面时加载一次
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch('/api/history/search?facets=true&limit=1', { signal: controller.signal })
+      .then(response => response.json())
+      .then(data => {
+        if (data?.success && data.facets) {
+          setFacets(data.facets);
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          console.error('[历史搜索] 加载筛选项失败:', err);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    activeKey.current = filtersKey;
+    setItems([]);
+    setNextCursor(null);
+    setError(null);
+
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/history/search?${filtersKey}`, { signal: controller.signal });
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || !data?.success) {
+          throw new Error(data?.error || '搜索失败');
+        }
+
+        setItems(data.items || []);
+        setNextCursor(data.nextCursor || null);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : '搜索失败');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [filtersKey, enabled]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    const key = filtersKey;
+    setIsLoadingMore(true);
+    try {
+      const params = new URLSearchParams(key);
+      params.set('cursor', nextCursor);
+      const response = await fetch(`/api/history/search?${params.toString()}`);
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || '加载更多失败');
+      }
+
+      // 加载期间搜索条件已变化
+      if (activeKey.current !== key) return;
+
+      setItems(prev => [...prev, ...(data.items || [])]);
+      setNextCursor(data.nextCursor || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '加载更多失败');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [filtersKey, nextCursor, isLoadingMore]);
+
+  const removeItem = useCallback((id: string) => {
+    setItems(prev => prev.filter(item => String(item.id) !== String(id)));
+  }, []);
+
+  return {
+    items,
+    facets,
+    isLoading,
+    isLoadingMore,
+    error,
+    hasMore: !!nextCursor,
+    loadMore,
+    removeItem
+  };
+}
@@ -1,5 +1,4 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { generatePromptWithStyle } from '@/app/config/styles';
 import { cacheService, CACHE_PREFIXES } from '@/utils/cache-service';
 import { GenerationStage } from '@/components/ui/skeleton-generation';
 import { v4 as uuid } from 'uuid';
@@ -19,7 +18,7 @@ import {
   type PendingTask,
   type TaskStatus
 } from '@/utils/taskRecovery';
-import { enhancedPollTaskStatus } from '@/utils/taskPoller';
+import { watchBatchStatus, watchTaskStatus } from '@/utils/taskEvents';
 import { TaskSyncManager } from '@/utils/taskSync/taskSyncManager';
 import { useRouter } from 'next/navigation';
 import toast from 'react-hot-toast';
@@ -57,10 +56,18 @@ export type GenerationStatus = 'idle' | 'generating' | 'success' | 'error';
 export interface GenerationOptions {
   prompt: string;
   image?: string | null;
+  mask?: string | null;  // 局部编辑蒙版，白色区域为需要修改的部分
   style?: string;
   aspectRatio?: string | null;
   standardAspectRatio?: string | null;
   forced?: boolean;  // 添加强制生成选项，即使有重复任务也继续生成
+  variants?: number; // 一次生成的变体数量(1-4)，多个变体归为同一批次
+}
+
+export interface GenerationTaskResult {
+  taskId: string;
+  taskIds?: string[];
+  batchId?: string | null;
 }
 
 export interface UseImageGenerationResult {
@@ -68,8 +75,10 @@ export interface UseImageGenerationResult {
   status: GenerationStatus;
   isGenerating: boolean;
   error: string | null;
-  generateImage: (options: GenerationOptions) => Promise<{taskId: string} | null>;
+  generateImage: (options: GenerationOptions) => Promise<GenerationTaskResult | null>;
   setGeneratedImages: React.Dispatch<React.SetStateAction<string[]>>;
+  // 批次ID到该批次图片的映射，用于在图库中分组展示同一次提交的变体
+  generatedBatches: Record<string, string[]>;
   addGeneratedImage: (imageUrl: string) => void;
   generationStage: GenerationStage;
   generationPercentage: number;
@@ -89,6 +98,7 @@ export default function useImageGeneration(
   refreshHistory?: () => void | Promise<void>
 ): UseImageGenerationResult {
   const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [generatedBatches, setGeneratedBatches] = useState<Record<string, string[]>>({});
   const [status, setStatus] = useState<GenerationStatus>('idle');
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
@@ -220,10 +230,12 @@ export default function useImageGeneration(
     // 记录开始时间
     startTimeRef.current = Date.now();
     
-    // 创建一个可取消的轮询
+    // 创建一个可取消的订阅
     let cancelled = false;
+    const abortController = new AbortController();
     pollingCancelRef.current = () => {
       cancelled = true;
+      abortController.abort();
       console.log(`[useImageGeneration] 已取消任务${taskId}的轮询`);
     };
     
@@ -236,8 +248,9 @@ export default function useImageGeneration(
       });
     }
     
-    // 启动优化后的增强轮询
-    enhancedPollTaskStatus(taskId, {
+    // 订阅任务事件流，不支持时退回增强轮询
+    watchTaskStatus(taskId, {
+      signal: abortController.signal,
       maxAttempts: 200,         // 增加最大尝试次数
       initialInterval: 1000,     // 降低初始间隔到1秒
       maxInterval: 8000,         // 减少最大间隔到8秒
@@ -344,6 +357,104 @@ export default function useImageGeneration(
     });
   };
 
+  // 批量生成时订阅同一批次的所有任务，全部结束后一起展示
+  const startBatchPollingTaskStatus = (batchId: string, taskIds: string[]) => {
+    // 取消任何进行中的轮询
+    if (pollingCancelRef.current) {
+      pollingCancelRef.current();
+    }
+
+    startTimeRef.current = Date.now();
+    
+    let cancelled = false;
+    const abortController = new AbortController();
+    pollingCancelRef.current = () => {
+      cancelled = true;
+      abortController.abort();
+      console.log(`[useImageGeneration] 已取消批次${batchId}的轮询`);
+    };
+    
+    // 整体进度取各任务进度的平均值
+    const progressByTask: Record<string, number> = {};
+    
+    // 整个批次共用一个事件流连接
+    watchBatchStatus(batchId, taskIds, {
+      signal: abortController.signal,
+      maxAttempts: 200,
+      initialInterval: 1000,
+      maxInterval: 8000,
+      exponentialFactor: 1.3,
+      failureRetries: 1,
+      onProgress: (taskId, progress, stage) => {
+        if (cancelled) return;
+        progressByTask[taskId] = progress;
+        const total = taskIds.reduce((sum, id) => sum + (progressByTask[id] || 0), 0);
+        updateGenerationStage(stage as GenerationStage, Math.round(total / taskIds.length));
+      }
+    })
+    .then(async (outcomes) => {
+      if (cancelled) return;
+      
+      // 按批次顺序收集成功的图片
+      const imageUrls = outcomes
+        .map(outcome => outcome.status === 'fulfilled' ? outcome.value.data?.imageUrl : null)
+        .filter((url): url is string => !!url);
+      const failedCount = taskIds.length - imageUrls.length;
+      
+      console.log(`[useImageGeneration] 批次${batchId}轮询完成，成功${imageUrls.length}张，失败${failedCount}张`);
+      
+      try {
+        await refreshSession();
+      } catch (e) {
+        console.warn('[useImageGeneration] 任务完成后会话刷新失败:', e);
+      }
+      
+      setTaskActive(false);
+      taskIds.forEach(taskId => clearPendingTask(taskId));
+      setIsGenerating(false);
+      setCurrentTaskId(null);
+      
+      if (imageUrls.length === 0) {
+        taskIds.forEach(taskId => TaskSyncManager.updateTaskStatus(taskId, 'failed'));
+        const firstError = outcomes.find(outcome => outcome.status === 'rejected') as PromiseRejectedResult | undefined;
+        const errorMessage = firstError?.reason?.error || firstError?.reason?.message || '图像生成失败';
+        updateGenerationStage('failed', 0);
+        setError(errorMessage);
+        setStatus('error');
+        notify(`生成失败: ${errorMessage}`, 'error');
+        return;
+      }
+      
+      taskIds.forEach(taskId => TaskSyncManager.updateTaskStatus(taskId, 'completed'));
+      updateGenerationStage('completed', 100);
+      setStatus('success');
+      setGeneratedBatches(prev => ({ ...prev, [batchId]: imageUrls }));
+      
+      // 倒序添加，使批次中的第一张排在最前
+      [...imageUrls].reverse().forEach(imageUrl => {
+        addGeneratedImage(imageUrl);
+        if (onSuccess) {
+          onSuccess(imageUrl);
+        }
+      });
+      
+      cacheService.delete(USER_CREDITS_CACHE_KEY);
+      cacheService.delete(HISTORY_CACHE_KEY);
+      if (triggerCreditRefresh) {
+        setTimeout(() => {
+          triggerCreditRefresh();
+        }, 300);
+      }
+      
+      notify(
+        failedCount > 0
+          ? `已生成${imageUrls.length}张图片，${failedCount}张失败，失败部分的点数已退还`
+          : `已生成${imageUrls.length}张图片，请挑选最满意的一张`,
+        failedCount > 0 ? 'info' : 'success'
+      );
+    });
+  };
+
   // 处理轮询结果的函数
   const handlePollingResult = useCallback((result: any, taskId: string) => {
     if (result.status === 'completed' && result.data?.imageUrl) {
@@ -593,8 +704,8 @@ export default function useImageGeneration(
   }, []);
 
   // 生成图片 - 调用异步API
-  const generateImage = useCallback(async (options: GenerationOptions): Promise<{taskId: string} | null> => {
-    const { prompt, image, style, aspectRatio, standardAspectRatio } = options;
+  const generateImage = useCallback(async (options: GenerationOptions): Promise<GenerationTaskResult | null> => {
+    const { prompt, image, mask, style, aspectRatio, standardAspectRatio, variants = 1 } = options;
     
     console.log('[useImageGeneration] 开始生成图片流程');
     
@@ -747,9 +858,11 @@ export default function useImageGeneration(
             body: JSON.stringify({ 
               prompt: basePrompt,
               image: processedImage,
+              mask: processedImage ? mask || undefined : undefined,
               style,
               aspectRatio,
-              standardRatio: standardAspectRatio
+              standardRatio: standardAspectRatio,
+              variants
             })
           }),
           timeoutPromise
@@ -936,9 +1049,15 @@ export default function useImageGeneration(
           });
         }
         
-        // 开始轮询任务状态
+        // 开始轮询任务状态，批量生成时轮询整个批次
+        const taskIds: string[] = Array.isArray(data.taskIds) && data.taskIds.length > 0 ? data.taskIds : [taskId];
+        const batchId: string | null = data.batchId || null;
         updateGenerationStage('processing', 30);
-        startEnhancedPollingTaskStatus(taskId);
+        if (batchId && taskIds.length > 1) {
+          startBatchPollingTaskStatus(batchId, taskIds);
+        } else {
+          startEnhancedPollingTaskStatus(taskId);
+        }
         
         // 记录到跨标签页同步管理器
         TaskSyncManager.recordTask({
@@ -948,7 +1067,7 @@ export default function useImageGeneration(
           params: options
         });
         
-        return { taskId }; // 返回任务ID以支持外部状态监听
+        return { taskId, taskIds, batchId }; // 返回任务ID以支持外部状态监听
       } catch (fetchError) {
         // 特殊处理AbortError（超时）
         if (fetchError instanceof Error && fetchError.name === 'AbortError') {
@@ -1185,6 +1304,7 @@ export default function useImageGeneration(
     error,
     generateImage,
     setGeneratedImages,
+    generatedBatches,
     addGeneratedImage,
     generationStage,
     generationPercentage,
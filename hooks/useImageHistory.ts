@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import { cacheService, CACHE_PREFIXES } from '@/utils/cache-service';
 import { toast } from 'sonner';
 import { throttle } from '@/lib/utils';
+import type { ImageAssetInfo } from '@/utils/image/imageVariants';
 
 // 缓存键和过期时间
 const HISTORY_CACHE_KEY = CACHE_PREFIXES.HISTORY + ':recent';
@@ -55,6 +56,8 @@ export interface ImageHistoryItem {
   prompt?: string;
   created_at?: string;
   style?: string;
+  // 服务端处理后的尺寸、格式和衍生版本，旧图片没有
+  asset?: ImageAssetInfo;
   [key: string]: any;
 }
 
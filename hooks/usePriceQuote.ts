@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+
+export interface PriceQuoteOptions {
+  aspectRatio?: string | null;
+  hasReferenceImage: boolean;
+  style?: string | null;
+  // 变体数量，报价按变体数量计算总点数
+  variants?: number;
+}
+
+export interface UsePriceQuoteResult {
+  // 本次生成所需点数，报价未返回时为null
+  credits: number | null;
+  // 单个变体所需点数
+  creditsPerVariant: number | null;
+  breakdown: Array<{ label: string; credits: number }>;
+  isLoading: boolean;
+}
+
+// 参数变化后等待一段时间再请求报价，避免频繁调整比例时连续请求
+const QUOTE_DEBOUNCE_MS = 300;
+
+/**
+ * 获取生成前报价，参数变化时自动刷新
+ */
+export default function usePriceQuote({ aspectRatio, hasReferenceImage, style, variants = 1 }: PriceQuoteOptions): UsePriceQuoteResult {
+  const [credits, setCredits] = useState<number | null>(null);
+  const [creditsPerVariant, setCreditsPerVariant] = useState<number | null>(null);
+  const [breakdown, setBreakdown] = useState<UsePriceQuoteResult['breakdown']>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ hasReferenceImage: hasReferenceImage ? '1' : '0' });
+    if (aspectRatio) params.set('aspectRatio', aspectRatio);
+    if (style) params.set('style', style);
+    if (variants > 1) params.set('variants', String(variants));
+
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/pricing/quote?${params.toString()}`, { signal: controller.signal });
+        const data = await response.json();
+        if (response.ok && data.success) {
+          setCredits(data.credits);
+          setCreditsPerVariant(data.creditsPerVariant ?? data.credits);
+          setBreakdown(data.breakdown || []);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.warn('[usePriceQuote] 获取报价失败:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [aspectRatio, hasReferenceImage, style, variants]);
+
+  return { credits, creditsPerVariant, breakdown, isLoading };
+}
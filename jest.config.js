@@ -0,0 +1,18 @@
+/** @type {import('jest').Config} */
+
+// 单元测试配置：测试文件放在模块旁的 __tests__ 目录中
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // 默认在 Node 环境运行，hooks 的测试在文件头部声明使用 jsdom
+  testPathIgnorePatterns: ['/node_modules/', '/.next/'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1'
+  },
+  // tsconfig 的 es5 目标只用于类型检查，Next 实际编译为现代语法；
+  // 按 es5 编译时继承 Error 的错误类无法通过 instanceof 判断
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { jsx: 'react-jsx', module: 'commonjs', target: 'es2019' } }]
+  }
+};
@@ -46,8 +46,8 @@ const REQUIRED_BUCKETS = [
   },
   {
     name: 'uploads',
-    isPublic: false,
-    description: '用于存储用户上传的原始图片'
+    isPublic: true, // 图像服务通过公开地址读取参考图
+    description: '用于存储用户上传的参考图和蒙版'
   }
 ];
 
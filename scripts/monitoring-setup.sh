@@ -24,7 +24,6 @@ npm list dotenv @supabase/supabase-js || npm install dotenv @supabase/supabase-j
 # 添加可执行权限
 chmod +x "$SCRIPT_DIR/monitor-tasks.mjs"
 chmod +x "$SCRIPT_DIR/task-processor.mjs"
-chmod +x "$SCRIPT_DIR/fix-stuck-tasks.mjs"
 
 # 创建日志目录
 mkdir -p "$PROJECT_DIR/logs"
@@ -0,0 +1,18 @@
+-- 图像提供商故障转移记录
+
+-- 1. 记录任务本应使用的提供商，以及发生转移的原因
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS preferred_provider TEXT, -- 不考虑熔断时环境偏好选择的提供商
+ADD COLUMN IF NOT EXISTS failover_reason TEXT, -- 最近一次转移的原因
+ADD COLUMN IF NOT EXISTS failover_count INTEGER NOT NULL DEFAULT 0, -- 转移次数
+ADD COLUMN IF NOT EXISTS failover_history JSONB NOT NULL DEFAULT '[]'::jsonb; -- 转移明细: [{from, to, reason, at}]
+
+-- 2. 已有任务的首选提供商即为实际提供商
+UPDATE image_tasks
+SET preferred_provider = provider
+WHERE preferred_provider IS NULL;
+
+-- 添加索引，便于统计发生过转移的任务
+CREATE INDEX IF NOT EXISTS idx_image_tasks_failover
+ON image_tasks(created_at)
+WHERE failover_count > 0;
@@ -0,0 +1,142 @@
+-- 图像任务队列：API只负责入队，后台worker通过租约领取任务
+
+-- 1. 租约与重试相关字段
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS locked_by TEXT, -- 当前持有租约的worker
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE, -- 租约到期时间，过期后任务回到队列
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE, -- 最近一次心跳时间
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- 最早可被领取的时间(退避)
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3, -- 最大尝试次数
+ADD COLUMN IF NOT EXISTS last_error TEXT, -- 最近一次失败原因
+ADD COLUMN IF NOT EXISTS image_hash TEXT, -- 参考图哈希，worker据此查找gen_id
+ADD COLUMN IF NOT EXISTS standard_aspect_ratio TEXT; -- 标准化比例，写入历史记录
+
+-- 领取任务时按状态和可执行时间筛选
+CREATE INDEX IF NOT EXISTS idx_image_tasks_queue
+ON image_tasks(status, next_attempt_at);
+
+-- 查找租约过期的任务
+CREATE INDEX IF NOT EXISTS idx_image_tasks_lease
+ON image_tasks(lease_expires_at)
+WHERE status = 'processing';
+
+-- 2. 按尝试次数计算退避秒数：30s、60s、120s...，上限10分钟
+CREATE OR REPLACE FUNCTION image_task_backoff_seconds(p_attempt_count INT)
+RETURNS INT AS $$
+BEGIN
+  RETURN LEAST(30 * POWER(2, GREATEST(p_attempt_count - 1, 0)), 600)::INT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 3. 回收租约过期的任务：还有尝试机会的回到队列，否则标记失败
+CREATE OR REPLACE FUNCTION requeue_expired_image_tasks()
+RETURNS INT AS $$
+DECLARE
+  affected INT;
+BEGIN
+  UPDATE image_tasks
+  SET
+    status = CASE WHEN attempt_count >= max_attempts THEN 'failed'::task_status ELSE 'pending'::task_status END,
+    error_message = CASE WHEN attempt_count >= max_attempts THEN '任务处理超时，已达到最大尝试次数' ELSE error_message END,
+    last_error = '租约过期，worker未按时续约(' || COALESCE(locked_by, 'unknown') || ')',
+    next_attempt_at = NOW() + make_interval(secs => image_task_backoff_seconds(attempt_count)),
+    locked_by = NULL,
+    lease_expires_at = NULL,
+    updated_at = NOW()
+  WHERE status = 'processing'
+    AND lease_expires_at IS NOT NULL
+    AND lease_expires_at < NOW();
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. 领取任务：SKIP LOCKED 保证多个worker不会领到同一条任务
+CREATE OR REPLACE FUNCTION claim_image_tasks(
+  p_worker_id TEXT,
+  p_limit INT DEFAULT 1,
+  p_lease_seconds INT DEFAULT 120
+)
+RETURNS SETOF image_tasks AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE image_tasks AS t
+  SET
+    status = 'processing',
+    locked_by = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempt_count = t.attempt_count + 1,
+    updated_at = NOW()
+  WHERE t.id IN (
+    SELECT id
+    FROM image_tasks
+    WHERE status = 'pending'
+      AND next_attempt_at <= NOW()
+      AND attempt_count < max_attempts
+    ORDER BY next_attempt_at, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING t.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. 心跳续约：只有租约持有者才能续约，返回false说明租约已丢失
+CREATE OR REPLACE FUNCTION heartbeat_image_task(
+  p_task_id TEXT,
+  p_worker_id TEXT,
+  p_lease_seconds INT DEFAULT 120
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE image_tasks
+  SET
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW()
+  WHERE task_id = p_task_id
+    AND locked_by = p_worker_id
+    AND status = 'processing';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. 本次尝试失败后释放任务：可重试且未达上限时按退避回到队列，否则标记失败
+--    返回任务的新状态，租约已不属于该worker时返回NULL
+CREATE OR REPLACE FUNCTION release_image_task(
+  p_task_id TEXT,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_retryable BOOLEAN DEFAULT TRUE
+)
+RETURNS TEXT AS $$
+DECLARE
+  new_status task_status;
+BEGIN
+  UPDATE image_tasks
+  SET
+    status = CASE
+      WHEN p_retryable AND attempt_count < max_attempts THEN 'pending'::task_status
+      ELSE 'failed'::task_status
+    END,
+    last_error = LEFT(p_error, 500),
+    next_attempt_at = NOW() + make_interval(secs => image_task_backoff_seconds(attempt_count)),
+    locked_by = NULL,
+    lease_expires_at = NULL,
+    updated_at = NOW()
+  WHERE task_id = p_task_id
+    AND locked_by = p_worker_id
+    AND status = 'processing'
+  RETURNING status INTO new_status;
+
+  RETURN new_status::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 授予函数权限
+GRANT EXECUTE ON FUNCTION requeue_expired_image_tasks TO service_role;
+GRANT EXECUTE ON FUNCTION claim_image_tasks TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_image_task TO service_role;
+GRANT EXECUTE ON FUNCTION release_image_task TO service_role;
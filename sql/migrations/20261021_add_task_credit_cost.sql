@@ -0,0 +1,9 @@
+-- 记录每个任务按计费表扣除的点数，失败退款与对账以此为准
+
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS credit_cost INTEGER NOT NULL DEFAULT 1; -- 创建任务时扣除的点数
+
+-- 统计历史任务的消耗
+CREATE INDEX IF NOT EXISTS idx_image_tasks_user_credit_cost
+ON image_tasks(user_id, created_at)
+WHERE credit_cost > 1;
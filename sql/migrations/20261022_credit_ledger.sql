@@ -0,0 +1,232 @@
+-- 点数账本：生成任务先预留点数，完成时确认，失败、取消或租约过期时自动释放
+-- 账本记录写入 ai_images_creator_credit_logs，余额 = 该用户所有记录 change_value 之和
+
+-- 1. 账本字段
+ALTER TABLE ai_images_creator_credit_logs
+ADD COLUMN IF NOT EXISTS task_id TEXT; -- 关联的生成任务
+
+-- 同一任务的每种操作只能记录一次，保证预留、确认、释放都是幂等的
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_logs_task_operation
+ON ai_images_creator_credit_logs(task_id, operation_type)
+WHERE task_id IS NOT NULL;
+
+-- 2. 期初余额：让已有用户的账本之和等于当前余额
+INSERT INTO ai_images_creator_credit_logs (
+  user_id, operation_type, old_value, change_value, new_value, created_at, note
+)
+SELECT
+  c.user_id,
+  'opening',
+  0,
+  c.credits - COALESCE(l.total, 0),
+  c.credits - COALESCE(l.total, 0),
+  NOW(),
+  '启用点数账本时的期初余额'
+FROM ai_images_creator_credits c
+LEFT JOIN (
+  SELECT user_id, SUM(change_value) AS total
+  FROM ai_images_creator_credit_logs
+  GROUP BY user_id
+) l ON l.user_id = c.user_id
+WHERE c.credits - COALESCE(l.total, 0) <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM ai_images_creator_credit_logs o
+    WHERE o.user_id = c.user_id AND o.operation_type = 'opening'
+  );
+
+-- 3. 预留点数：锁定余额行，余额不足时抛出 insufficient_credits
+--    同一任务重复预留时直接返回当前余额
+CREATE OR REPLACE FUNCTION reserve_task_credits(
+  p_user_id UUID,
+  p_task_id TEXT,
+  p_amount INT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  current_credits INT;
+BEGIN
+  SELECT credits INTO current_credits
+  FROM ai_images_creator_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF current_credits IS NULL THEN
+    RAISE EXCEPTION 'credits_not_found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ai_images_creator_credit_logs
+    WHERE task_id = p_task_id AND operation_type = 'reserve'
+  ) THEN
+    RETURN current_credits;
+  END IF;
+
+  IF current_credits < p_amount THEN
+    RAISE EXCEPTION 'insufficient_credits';
+  END IF;
+
+  UPDATE ai_images_creator_credits
+  SET credits = current_credits - p_amount, updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO ai_images_creator_credit_logs (
+    user_id, task_id, operation_type, old_value, change_value, new_value, created_at, note
+  ) VALUES (
+    p_user_id, p_task_id, 'reserve', current_credits, -p_amount, current_credits - p_amount, NOW(), p_note
+  );
+
+  RETURN current_credits - p_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. 确认扣除：任务成功后记录capture，点数在预留时已扣除，不再变动余额
+--    未预留或已结算时返回false
+CREATE OR REPLACE FUNCTION capture_task_credits(p_task_id TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  reservation ai_images_creator_credit_logs%ROWTYPE;
+  current_credits INT;
+BEGIN
+  SELECT * INTO reservation
+  FROM ai_images_creator_credit_logs
+  WHERE task_id = p_task_id AND operation_type = 'reserve';
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- 锁定余额行，与释放操作串行
+  SELECT credits INTO current_credits
+  FROM ai_images_creator_credits
+  WHERE user_id = reservation.user_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM ai_images_creator_credit_logs
+    WHERE task_id = p_task_id AND operation_type IN ('capture', 'release')
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO ai_images_creator_credit_logs (
+    user_id, task_id, operation_type, old_value, change_value, new_value, created_at, note
+  ) VALUES (
+    reservation.user_id, p_task_id, 'capture', current_credits, 0, current_credits, NOW(), '任务完成，确认扣除'
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. 释放预留：任务失败、取消或租约过期时退还预留的点数
+--    未预留或已结算时返回false
+CREATE OR REPLACE FUNCTION release_task_credits(p_task_id TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  reservation ai_images_creator_credit_logs%ROWTYPE;
+  current_credits INT;
+  refund INT;
+BEGIN
+  SELECT * INTO reservation
+  FROM ai_images_creator_credit_logs
+  WHERE task_id = p_task_id AND operation_type = 'reserve';
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT credits INTO current_credits
+  FROM ai_images_creator_credits
+  WHERE user_id = reservation.user_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM ai_images_creator_credit_logs
+    WHERE task_id = p_task_id AND operation_type IN ('capture', 'release')
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  refund := -reservation.change_value;
+
+  UPDATE ai_images_creator_credits
+  SET credits = current_credits + refund, updated_at = NOW()
+  WHERE user_id = reservation.user_id;
+
+  INSERT INTO ai_images_creator_credit_logs (
+    user_id, task_id, operation_type, old_value, change_value, new_value, created_at, note
+  ) VALUES (
+    reservation.user_id, p_task_id, 'release', current_credits, refund, current_credits + refund, NOW(), p_reason
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 6. 对账：返回余额与账本之和不一致的用户，p_user_id 为空时检查全部用户
+CREATE OR REPLACE FUNCTION reconcile_credit_ledger(p_user_id UUID DEFAULT NULL)
+RETURNS TABLE (user_id UUID, balance INT, ledger_total BIGINT, difference BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.user_id,
+    c.credits,
+    COALESCE(l.total, 0),
+    c.credits - COALESCE(l.total, 0)
+  FROM ai_images_creator_credits c
+  LEFT JOIN (
+    SELECT logs.user_id, SUM(logs.change_value) AS total
+    FROM ai_images_creator_credit_logs logs
+    WHERE p_user_id IS NULL OR logs.user_id = p_user_id
+    GROUP BY logs.user_id
+  ) l ON l.user_id = c.user_id
+  WHERE (p_user_id IS NULL OR c.user_id = p_user_id)
+    AND c.credits <> COALESCE(l.total, 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- 7. 回收租约过期的任务时，标记失败的任务同时释放预留点数
+CREATE OR REPLACE FUNCTION requeue_expired_image_tasks()
+RETURNS INT AS $$
+DECLARE
+  affected INT;
+  failed_ids TEXT[];
+  failed_id TEXT;
+BEGIN
+  WITH expired AS (
+    UPDATE image_tasks
+    SET
+      status = CASE WHEN attempt_count >= max_attempts THEN 'failed'::task_status ELSE 'pending'::task_status END,
+      error_message = CASE WHEN attempt_count >= max_attempts THEN '任务处理超时，已达到最大尝试次数' ELSE error_message END,
+      last_error = '租约过期，worker未按时续约(' || COALESCE(locked_by, 'unknown') || ')',
+      next_attempt_at = NOW() + make_interval(secs => image_task_backoff_seconds(attempt_count)),
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+    WHERE status = 'processing'
+      AND lease_expires_at IS NOT NULL
+      AND lease_expires_at < NOW()
+    RETURNING task_id, status
+  )
+  SELECT COUNT(*), COALESCE(array_agg(task_id) FILTER (WHERE status = 'failed'), '{}')
+  INTO affected, failed_ids
+  FROM expired;
+
+  FOREACH failed_id IN ARRAY failed_ids LOOP
+    PERFORM release_task_credits(failed_id, '任务租约过期且达到最大尝试次数');
+  END LOOP;
+
+  RETURN affected;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 授予函数权限
+REVOKE ALL ON FUNCTION reserve_task_credits FROM PUBLIC;
+REVOKE ALL ON FUNCTION capture_task_credits FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_task_credits FROM PUBLIC;
+REVOKE ALL ON FUNCTION reconcile_credit_ledger FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reserve_task_credits TO service_role;
+GRANT EXECUTE ON FUNCTION capture_task_credits TO service_role;
+GRANT EXECUTE ON FUNCTION release_task_credits TO service_role;
+GRANT EXECUTE ON FUNCTION reconcile_credit_ledger TO service_role;
@@ -0,0 +1,11 @@
+-- 批量生成：一次提交生成多个变体，每个变体是一个独立任务，通过 batch_id 归为同一批次
+
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS batch_id UUID,                         -- 所属批次，单张生成时为空
+ADD COLUMN IF NOT EXISTS batch_index SMALLINT NOT NULL DEFAULT 0, -- 在批次中的序号，从0开始
+ADD COLUMN IF NOT EXISTS batch_size SMALLINT NOT NULL DEFAULT 1;  -- 批次中的变体数量
+
+-- 按批次查询兄弟任务
+CREATE INDEX IF NOT EXISTS idx_image_tasks_batch
+ON image_tasks(batch_id, batch_index)
+WHERE batch_id IS NOT NULL;
@@ -0,0 +1,4 @@
+-- 局部编辑：任务可以携带蒙版，只修改蒙版标记的区域
+
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS mask_base64 TEXT; -- 黑白蒙版(data URL)，白色区域为需要修改的部分
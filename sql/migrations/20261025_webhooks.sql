@@ -0,0 +1,194 @@
+-- 任务Webhook：用户登记回调地址，任务完成或失败时推送HMAC签名的事件
+-- 投递记录由触发器在任务进入终态时写入，后台按退避策略投递并保留投递日志
+
+-- 1. Webhook端点
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL, -- 接收事件的地址
+  secret TEXT NOT NULL, -- HMAC签名密钥
+  events TEXT[] NOT NULL DEFAULT ARRAY['task.completed', 'task.failed'], -- 订阅的事件
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user
+ON webhook_endpoints(user_id)
+WHERE is_active;
+
+-- 2. 投递日志，同一端点的同一任务事件只投递一次
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivering', 'succeeded', 'failed')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- 最早可投递的时间(退避)
+  locked_until TIMESTAMP WITH TIME ZONE, -- 投递中的租约，过期后可被重新领取
+  response_status INTEGER, -- 最近一次投递的HTTP状态码
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_webhook_delivery UNIQUE (endpoint_id, task_id, event)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_queue
+ON webhook_deliveries(status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+ON webhook_deliveries(endpoint_id, created_at DESC);
+
+-- 3. 行级安全：用户只能查看自己的端点和投递日志，写入均通过服务角色
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own webhook endpoints"
+  ON webhook_endpoints
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 4. 按尝试次数计算退避秒数：1分钟、2分钟、4分钟...，上限1小时
+CREATE OR REPLACE FUNCTION webhook_backoff_seconds(p_attempt_count INT)
+RETURNS INT AS $$
+BEGIN
+  RETURN LEAST(60 * POWER(2, GREATEST(p_attempt_count - 1, 0)), 3600)::INT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 5. 任务进入终态时为订阅了该事件的端点写入投递记录
+CREATE OR REPLACE FUNCTION enqueue_task_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_name TEXT;
+BEGIN
+  event_name := 'task.' || NEW.status::TEXT;
+
+  INSERT INTO webhook_deliveries (endpoint_id, user_id, task_id, event, payload)
+  SELECT
+    e.id,
+    NEW.user_id,
+    NEW.task_id,
+    event_name,
+    jsonb_build_object(
+      'event', event_name,
+      'createdAt', NOW(),
+      'data', jsonb_build_object(
+        'taskId', NEW.task_id,
+        'status', NEW.status::TEXT,
+        'imageUrl', NEW.image_url,
+        'prompt', NEW.prompt,
+        'style', NEW.style,
+        'provider', NEW.provider,
+        'model', NEW.model,
+        'creditCost', NEW.credit_cost,
+        'creditsRefunded', NEW.status::TEXT = 'failed',
+        'error', NEW.error_message,
+        'batchId', NEW.batch_id,
+        'completedAt', NEW.completed_at
+      )
+    )
+  FROM webhook_endpoints e
+  WHERE e.user_id = NEW.user_id
+    AND e.is_active
+    AND event_name = ANY(e.events)
+  ON CONFLICT (endpoint_id, task_id, event) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_enqueue_task_webhooks ON image_tasks;
+CREATE TRIGGER trigger_enqueue_task_webhooks
+AFTER UPDATE OF status ON image_tasks
+FOR EACH ROW
+WHEN (
+  NEW.status IS DISTINCT FROM OLD.status
+  AND NEW.status::TEXT IN ('completed', 'failed')
+)
+EXECUTE FUNCTION enqueue_task_webhooks();
+
+-- 6. 领取待投递的记录：SKIP LOCKED 保证并发投递时不会重复领取
+--    租约过期仍处于delivering的记录视为上次投递中断，可重新领取
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INT DEFAULT 10,
+  p_lease_seconds INT DEFAULT 60
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries AS d
+  SET
+    status = 'delivering',
+    locked_until = NOW() + make_interval(secs => p_lease_seconds),
+    attempt_count = d.attempt_count + 1,
+    updated_at = NOW()
+  WHERE d.id IN (
+    SELECT id
+    FROM webhook_deliveries
+    WHERE (
+        (status = 'pending' AND next_attempt_at <= NOW())
+        OR (status = 'delivering' AND locked_until < NOW())
+      )
+      AND attempt_count < max_attempts
+    ORDER BY next_attempt_at, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 7. 记录一次投递结果，失败且未达上限时按退避重新排队，返回新的状态
+CREATE OR REPLACE FUNCTION record_webhook_delivery(
+  p_delivery_id UUID,
+  p_success BOOLEAN,
+  p_response_status INT DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  new_status TEXT;
+BEGIN
+  UPDATE webhook_deliveries
+  SET
+    status = CASE
+      WHEN p_success THEN 'succeeded'
+      WHEN attempt_count < max_attempts THEN 'pending'
+      ELSE 'failed'
+    END,
+    response_status = p_response_status,
+    last_error = CASE WHEN p_success THEN NULL ELSE LEFT(p_error, 500) END,
+    delivered_at = CASE WHEN p_success THEN NOW() ELSE delivered_at END,
+    next_attempt_at = CASE
+      WHEN p_success THEN next_attempt_at
+      ELSE NOW() + make_interval(secs => webhook_backoff_seconds(attempt_count))
+    END,
+    locked_until = NULL,
+    updated_at = NOW()
+  WHERE id = p_delivery_id
+    AND status = 'delivering'
+  RETURNING status INTO new_status;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 授予函数权限
+REVOKE ALL ON FUNCTION claim_webhook_deliveries FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_webhook_delivery FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries TO service_role;
+GRANT EXECUTE ON FUNCTION record_webhook_delivery TO service_role;
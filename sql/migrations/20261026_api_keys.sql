@@ -0,0 +1,28 @@
+-- 个人API密钥：脚本和合作方系统通过 /api/v1 调用，不再依赖浏览器登录态
+-- 只保存密钥的SHA-256哈希，明文只在创建时返回一次
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- 用户填写的用途说明
+  key_prefix TEXT NOT NULL, -- 密钥前缀，用于在列表中识别
+  key_hash TEXT NOT NULL, -- 密钥的SHA-256哈希
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['tasks:write', 'tasks:read', 'history:read', 'credits:read'],
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE, -- 为空表示不过期
+  revoked_at TIMESTAMP WITH TIME ZONE, -- 吊销后立即失效
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_api_key_hash UNIQUE (key_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user
+ON api_keys(user_id, created_at DESC);
+
+-- 行级安全：用户只能查看自己的密钥，创建和吊销均通过服务角色
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own api keys"
+  ON api_keys
+  FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,47 @@
+-- 角色与审计：管理后台、模板维护和运维接口按角色授权，不再依赖查询串中的共享密钥
+-- 角色层级 user < editor < admin；没有记录的用户视为普通用户
+
+CREATE TABLE IF NOT EXISTS user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'editor', 'admin')),
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- 授予者，通过SQL初始化时为空
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- 特权操作审计日志，只追加不修改
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL,
+  action TEXT NOT NULL, -- 如 template.update、payment.admin_fix
+  resource_type TEXT NOT NULL,
+  resource_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created
+ON audit_logs(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_resource
+ON audit_logs(resource_type, resource_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor
+ON audit_logs(actor_id, created_at DESC);
+
+-- 行级安全：用户只能查看自己的角色；审计日志仅服务角色可读写
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role"
+  ON user_roles
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 初始化第一个管理员（替换为实际邮箱后执行）：
+-- INSERT INTO user_roles (user_id, role)
+-- SELECT id, 'admin' FROM auth.users WHERE email = 'admin@example.com'
+-- ON CONFLICT (user_id) DO UPDATE SET role = 'admin', updated_at = NOW();
@@ -0,0 +1,44 @@
+-- 风格目录：风格由管理后台维护，生成页和生成任务读取同一张表，新增风格无需重新部署
+-- id 沿用原 app/config/styles.ts 中的风格ID，历史任务和模板中保存的 style 仍然有效
+
+CREATE TABLE IF NOT EXISTS styles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  preview_image TEXT, -- 风格卡片展示的示例图
+  prompt_template TEXT NOT NULL DEFAULT '{prompt}', -- {prompt} 处替换为用户提示词
+  negative_prompt TEXT, -- 需要避免的元素，追加在提示词末尾
+  default_aspect_ratio TEXT CHECK (default_aspect_ratio IS NULL OR default_aspect_ratio ~ '^[0-9]+:[0-9]+$'),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT styles_prompt_placeholder CHECK (position('{prompt}' in prompt_template) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_styles_sort
+ON styles(sort_order, created_at);
+
+-- 行级安全：所有人可读取已启用的风格，维护通过服务角色
+ALTER TABLE styles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view enabled styles"
+  ON styles
+  FOR SELECT
+  USING (enabled = TRUE);
+
+-- 导入原有的内置风格，模板与原先实际生效的提示词格式一致（提示词，风格：名称）
+INSERT INTO styles (id, name, description, preview_image, prompt_template, sort_order) VALUES
+  ('自定义', '自定义', '使用您的提示词自由定义风格，不应用预设效果', '/examples/custom.webp', '{prompt}', 10),
+  ('吉卜力', '吉卜力', '细腻精致、充满幻想的日式动画风格', '/examples/ghibli.webp', '{prompt}，风格：吉卜力', 20),
+  ('乐高', '乐高', '积木拼搭风格，充满趣味性', '/examples/lego.webp', '{prompt}，风格：乐高', 30),
+  ('新海诚', '新海诚', '唯美光影、细腻情感表达', '/examples/shinkai.webp', '{prompt}，风格：新海诚', 40),
+  ('迪士尼', '迪士尼', '经典美式动画风格', '/examples/disney.webp', '{prompt}，风格：迪士尼', 50),
+  ('拍立得', '拍立得', '3d q版风格，拍立得', '/examples/pailide.webp', '{prompt}，风格：拍立得', 60),
+  ('动物森友会', '动物森友会', '动物森友会风格', '/examples/senyouhui.webp', '{prompt}，风格：动物森友会', 70),
+  ('插画屋', '插画屋', '插画屋风格', '/examples/chahuawu.webp', '{prompt}，风格：插画屋', 80),
+  ('卡通水彩', '卡通水彩', '卡通水彩风格', '/examples/shuicai.webp', '{prompt}，风格：卡通水彩', 90),
+  ('Q版3D', 'Q版3D', 'Q版3D风格', '/examples/3d.webp', '{prompt}，风格：Q版3D', 100),
+  ('snoopy', 'snoopy', '与snoopy的旅行', '/examples/snoopy.webp', '{prompt}，风格：snoopy', 110)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,17 @@
+-- 提示词模板语言：模板声明命名插槽，创意广场按插槽渲染表单，并支持按语言提供不同的模板文本
+-- 语法见 utils/promptTemplate.ts
+
+-- 插槽声明，例如 [{"name":"subject","label":"主体","required":true}]
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS prompt_slots JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 按语言覆盖 base_prompt，例如 {"en":"a portrait of {subject}"}
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS prompt_variants JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- 风格模板的 {prompt} 插槽允许带默认值，如 {prompt|生成图像}
+ALTER TABLE styles
+DROP CONSTRAINT IF EXISTS styles_prompt_placeholder;
+
+ALTER TABLE styles
+ADD CONSTRAINT styles_prompt_placeholder CHECK (prompt_template ~ '\{\s*prompt\s*(\|[^}]*)?\}');
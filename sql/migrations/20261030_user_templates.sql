@@ -0,0 +1,37 @@
+-- 用户投稿模板：用户可以把历史记录中的作品投稿为模板，编辑审核通过后在创意广场展示
+-- 状态流转：pending（待审核）-> published（已发布）/ rejected（未通过）；管理后台创建的模板仍使用 draft / published
+
+-- 作者，管理后台创建的官方模板为空
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 投稿时记录的作者显示名称，避免广场列表再去查询用户信息
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS author_name TEXT;
+
+-- 投稿来源的历史记录
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS source_history_id BIGINT REFERENCES ai_images_creator_history(id) ON DELETE SET NULL;
+
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+
+-- 审核信息，驳回时 review_note 会展示给作者
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE templates
+ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+ALTER TABLE templates
+DROP CONSTRAINT IF EXISTS templates_status_check;
+
+ALTER TABLE templates
+ADD CONSTRAINT templates_status_check CHECK (status IN ('draft', 'pending', 'published', 'rejected'));
+
+-- "我的模板"筛选与审核队列
+CREATE INDEX IF NOT EXISTS templates_author_id_idx ON templates(author_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS templates_pending_idx ON templates(submitted_at) WHERE status = 'pending';
@@ -0,0 +1,165 @@
+-- 模板互动：收藏、1-5星评分、使用记录，以及创意广场的"热门"排序
+-- 热门分数由 refresh_template_trending_scores() 在服务端计算，见 /api/cron/template-trending
+
+-- 使用记录，用于计算近期使用量；use_count 仍是累计值
+CREATE TABLE IF NOT EXISTS template_uses (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_uses_template_created
+  ON template_uses(template_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_template_uses_created
+  ON template_uses(created_at);
+
+CREATE TABLE IF NOT EXISTS template_favorites (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_favorites_template
+  ON template_favorites(template_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS template_ratings (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (user_id, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_ratings_template
+  ON template_ratings(template_id);
+
+-- 聚合字段，供列表展示和排序
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS favorite_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS rating_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS rating_avg NUMERIC(3, 2) NOT NULL DEFAULT 0;
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS trending_score DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS templates_trending_idx ON templates(trending_score DESC) WHERE status = 'published';
+
+ALTER TABLE template_uses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE template_favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE template_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own template favorites"
+  ON template_favorites
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own template ratings"
+  ON template_ratings
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 收藏、评分变化时更新模板上的聚合字段
+CREATE OR REPLACE FUNCTION refresh_template_engagement_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_template_id UUID := COALESCE(NEW.template_id, OLD.template_id);
+BEGIN
+  UPDATE templates t
+  SET
+    favorite_count = (SELECT COUNT(*) FROM template_favorites f WHERE f.template_id = v_template_id),
+    rating_count = r.cnt,
+    rating_avg = COALESCE(r.avg, 0)
+  FROM (
+    SELECT COUNT(*) AS cnt, ROUND(AVG(rating)::numeric, 2) AS avg
+    FROM template_ratings
+    WHERE template_id = v_template_id
+  ) r
+  WHERE t.id = v_template_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS template_favorites_counts ON template_favorites;
+CREATE TRIGGER template_favorites_counts
+AFTER INSERT OR DELETE ON template_favorites
+FOR EACH ROW
+EXECUTE FUNCTION refresh_template_engagement_counts();
+
+DROP TRIGGER IF EXISTS template_ratings_counts ON template_ratings;
+CREATE TRIGGER template_ratings_counts
+AFTER INSERT OR UPDATE OR DELETE ON template_ratings
+FOR EACH ROW
+EXECUTE FUNCTION refresh_template_engagement_counts();
+
+-- 原子地增加使用次数并记录使用，替代先读后写
+CREATE OR REPLACE FUNCTION increment_template_use(p_template_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_use_count INTEGER;
+BEGIN
+  UPDATE templates
+  SET use_count = COALESCE(use_count, 0) + 1
+  WHERE id = p_template_id
+  RETURNING use_count INTO v_use_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'template_not_found';
+  END IF;
+
+  INSERT INTO template_uses (template_id, user_id) VALUES (p_template_id, p_user_id);
+
+  RETURN v_use_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 计算已发布模板的热门分数
+-- 每条使用记1分、每个收藏记3分、每个评分记 (星级-3)*2 分，按事件时间以 p_half_life_hours 为半衰期衰减，
+-- 只统计最近 p_window_days 天内的事件
+CREATE OR REPLACE FUNCTION refresh_template_trending_scores(
+  p_half_life_hours DOUBLE PRECISION DEFAULT 72,
+  p_window_days INTEGER DEFAULT 30
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE := NOW() - make_interval(days => p_window_days);
+  v_updated INTEGER;
+BEGIN
+  WITH events AS (
+    SELECT template_id, created_at AS happened_at, 1.0 AS weight
+    FROM template_uses
+    WHERE created_at >= v_since
+    UNION ALL
+    SELECT template_id, created_at, 3.0
+    FROM template_favorites
+    WHERE created_at >= v_since
+    UNION ALL
+    SELECT template_id, updated_at, (rating - 3) * 2.0
+    FROM template_ratings
+    WHERE updated_at >= v_since
+  ),
+  scores AS (
+    SELECT
+      template_id,
+      SUM(weight * POWER(0.5, EXTRACT(EPOCH FROM (NOW() - happened_at)) / 3600.0 / p_half_life_hours)) AS score
+    FROM events
+    GROUP BY template_id
+  )
+  UPDATE templates t
+  SET trending_score = ROUND(COALESCE(s.score, 0)::numeric, 4)
+  FROM templates t2
+  LEFT JOIN scores s ON s.template_id = t2.id
+  WHERE t.id = t2.id
+    AND t.status = 'published'
+    AND t.trending_score IS DISTINCT FROM ROUND(COALESCE(s.score, 0)::numeric, 4);
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION increment_template_use FROM PUBLIC;
+REVOKE ALL ON FUNCTION refresh_template_trending_scores FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION increment_template_use TO service_role;
+GRANT EXECUTE ON FUNCTION refresh_template_trending_scores TO service_role;
+
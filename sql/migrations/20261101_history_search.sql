@@ -0,0 +1,40 @@
+-- 生成历史搜索：按提示词、风格、比例、模型和时间范围检索，游标分页
+-- 中文没有空格分词，查询词在服务端用 Intl.Segmenter 切分后逐词做子串匹配，
+-- 这里用 pg_trgm 三元组索引加速 ILIKE（见 utils/history/historySearch.ts）
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_history_prompt_trgm
+  ON ai_images_creator_history USING GIN (prompt gin_trgm_ops);
+
+-- 游标分页按 (created_at, id) 倒序
+CREATE INDEX IF NOT EXISTS idx_history_user_created_id
+  ON ai_images_creator_history(user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_history_user_style
+  ON ai_images_creator_history(user_id, style);
+
+CREATE INDEX IF NOT EXISTS idx_history_user_model
+  ON ai_images_creator_history(user_id, model_used);
+
+-- 筛选项：当前用户用过的风格、比例和模型
+CREATE OR REPLACE FUNCTION get_history_facets(p_user_id UUID)
+RETURNS TABLE (facet TEXT, value TEXT, count BIGINT) AS $$
+  SELECT 'style', style, COUNT(*)
+  FROM ai_images_creator_history
+  WHERE user_id = p_user_id AND style IS NOT NULL AND style <> ''
+  GROUP BY style
+  UNION ALL
+  SELECT 'aspect_ratio', aspect_ratio, COUNT(*)
+  FROM ai_images_creator_history
+  WHERE user_id = p_user_id AND aspect_ratio IS NOT NULL AND aspect_ratio <> ''
+  GROUP BY aspect_ratio
+  UNION ALL
+  SELECT 'model', model_used, COUNT(*)
+  FROM ai_images_creator_history
+  WHERE user_id = p_user_id AND model_used IS NOT NULL AND model_used <> ''
+  GROUP BY model_used
+$$ LANGUAGE sql STABLE;
+
+REVOKE ALL ON FUNCTION get_history_facets FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_history_facets TO service_role;
@@ -0,0 +1,68 @@
+-- 相册：用户自建的图片分组，一张历史图片可以放入多个相册
+-- 相册和图片都按 position 升序排列，调整顺序通过下面的函数整体重排
+
+CREATE TABLE IF NOT EXISTS image_albums (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  description TEXT,
+  -- 封面为空时使用相册中的第一张图片
+  cover_history_id BIGINT REFERENCES ai_images_creator_history(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_albums_user_position
+  ON image_albums(user_id, position);
+
+CREATE TABLE IF NOT EXISTS image_album_items (
+  album_id UUID NOT NULL REFERENCES image_albums(id) ON DELETE CASCADE,
+  history_id BIGINT NOT NULL REFERENCES ai_images_creator_history(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (album_id, history_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_album_items_album_position
+  ON image_album_items(album_id, position);
+CREATE INDEX IF NOT EXISTS idx_image_album_items_history
+  ON image_album_items(history_id);
+
+ALTER TABLE image_albums ENABLE ROW LEVEL SECURITY;
+ALTER TABLE image_album_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own albums"
+  ON image_albums
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own album items"
+  ON image_album_items
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM image_albums a
+    WHERE a.id = image_album_items.album_id AND a.user_id = auth.uid()
+  ));
+
+-- 按给定顺序重排用户的相册，未列出的相册排在后面
+CREATE OR REPLACE FUNCTION reorder_image_albums(p_user_id UUID, p_album_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE image_albums a
+  SET position = COALESCE(array_position(p_album_ids, a.id), array_length(p_album_ids, 1) + 1),
+      updated_at = NOW()
+  WHERE a.user_id = p_user_id;
+$$ LANGUAGE sql;
+
+-- 按给定顺序重排相册中的图片，未列出的图片排在后面
+CREATE OR REPLACE FUNCTION reorder_image_album_items(p_album_id UUID, p_history_ids BIGINT[])
+RETURNS VOID AS $$
+  UPDATE image_album_items i
+  SET position = COALESCE(array_position(p_history_ids, i.history_id), array_length(p_history_ids, 1) + 1)
+  WHERE i.album_id = p_album_id;
+$$ LANGUAGE sql;
+
+REVOKE ALL ON FUNCTION reorder_image_albums FROM PUBLIC;
+REVOKE ALL ON FUNCTION reorder_image_album_items FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION reorder_image_albums TO service_role;
+GRANT EXECUTE ON FUNCTION reorder_image_album_items TO service_role;
@@ -0,0 +1,45 @@
+-- 生成历史批量导出
+-- 少量图片直接流式下载ZIP；大批量导出记录在这里，由 /api/cron/history-exports 分批打包上传到私有存储桶
+
+CREATE TABLE IF NOT EXISTS history_exports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'expired')),
+  -- 用户提交的筛选条件，仅用于展示
+  selection JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- 创建时确定的图片列表，之后新增的图片不会被导出
+  history_ids BIGINT[] NOT NULL,
+  total_count INTEGER NOT NULL,
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  -- 已上传的分卷: [{ path, size, count }]
+  parts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  -- 处理中的任务被锁定到该时间，避免定时任务重复处理
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_history_exports_user_created
+  ON history_exports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_history_exports_active
+  ON history_exports(created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_history_exports_expires
+  ON history_exports(expires_at)
+  WHERE status = 'completed';
+
+ALTER TABLE history_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own history exports"
+  ON history_exports
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 导出文件存放在私有存储桶，通过签名链接下载
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('exports', 'exports', false)
+ON CONFLICT (id) DO NOTHING;
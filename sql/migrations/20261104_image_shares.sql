@@ -0,0 +1,34 @@
+-- 图片分享链接：为历史图片生成可撤销、可设置有效期的公开链接 /share/[token]
+-- 公开页面通过服务端管理员客户端按 token 查询，不对匿名用户开放表访问
+
+CREATE TABLE IF NOT EXISTS image_shares (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  history_id BIGINT NOT NULL REFERENCES ai_images_creator_history(id) ON DELETE CASCADE,
+  -- 是否在分享页展示提示词
+  show_prompt BOOLEAN NOT NULL DEFAULT TRUE,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_shares_user_history
+  ON image_shares(user_id, history_id, created_at DESC);
+
+ALTER TABLE image_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own image shares"
+  ON image_shares
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 分享页访问计数
+CREATE OR REPLACE FUNCTION increment_share_view(p_token TEXT)
+RETURNS VOID AS $$
+  UPDATE image_shares SET view_count = view_count + 1 WHERE token = p_token;
+$$ LANGUAGE sql;
+
+REVOKE ALL ON FUNCTION increment_share_view FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION increment_share_view TO service_role;
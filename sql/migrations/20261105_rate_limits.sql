@@ -0,0 +1,135 @@
+-- 分布式速率限制
+-- 各实例共用数据库中的计数，冷启动的实例不会拿到一份全新的额度
+-- 判断与计数在同一个函数内完成：滑动窗口用咨询锁串行化同一个键，令牌桶用行锁
+
+-- 滑动窗口：按固定窗口计数，判断时用上一个窗口的计数按剩余比例加权
+CREATE TABLE IF NOT EXISTS rate_limit_windows (
+  key TEXT NOT NULL,
+  -- 窗口起点，毫秒时间戳
+  window_start BIGINT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_windows_expires
+  ON rate_limit_windows(expires_at);
+
+-- 令牌桶：记录剩余令牌和上次结算时间，令牌按速率匀速补充
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at_ms BIGINT NOT NULL,
+  -- 桶重新装满的时间，之后这行记录与不存在等价
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires
+  ON rate_limit_buckets(expires_at);
+
+-- 只允许服务端通过RPC访问
+ALTER TABLE rate_limit_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION rate_limit_sliding_window(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_ms BIGINT,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE(allowed BOOLEAN, previous_count INTEGER, current_count INTEGER, now_ms BIGINT) AS $$
+DECLARE
+  v_now BIGINT := floor(extract(epoch FROM clock_timestamp()) * 1000);
+  v_current_start BIGINT := v_now - (v_now % p_window_ms);
+  v_previous INTEGER;
+  v_current INTEGER;
+  v_weight DOUBLE PRECISION;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || p_key));
+
+  SELECT
+    COALESCE(SUM(w.count) FILTER (WHERE w.window_start = v_current_start - p_window_ms), 0)::INTEGER,
+    COALESCE(SUM(w.count) FILTER (WHERE w.window_start = v_current_start), 0)::INTEGER
+  INTO v_previous, v_current
+  FROM rate_limit_windows w
+  WHERE w.key = p_key
+    AND w.window_start >= v_current_start - p_window_ms;
+
+  v_weight := 1 - (v_now - v_current_start)::DOUBLE PRECISION / p_window_ms;
+
+  IF v_previous * v_weight + v_current + p_cost > p_limit THEN
+    RETURN QUERY SELECT FALSE, v_previous, v_current, v_now;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_windows (key, window_start, count, expires_at)
+  VALUES (p_key, v_current_start, p_cost, to_timestamp((v_current_start + 2 * p_window_ms) / 1000.0))
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET count = rate_limit_windows.count + EXCLUDED.count;
+
+  RETURN QUERY SELECT TRUE, v_previous, v_current + p_cost, v_now;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rate_limit_token_bucket(
+  p_key TEXT,
+  p_capacity INTEGER,
+  p_refill_per_ms DOUBLE PRECISION,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE(allowed BOOLEAN, remaining_tokens DOUBLE PRECISION, now_ms BIGINT) AS $$
+DECLARE
+  v_now BIGINT := floor(extract(epoch FROM clock_timestamp()) * 1000);
+  v_tokens DOUBLE PRECISION;
+  v_updated BIGINT;
+  v_allowed BOOLEAN;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, updated_at_ms, expires_at)
+  VALUES (p_key, p_capacity, v_now, NOW())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT b.tokens, b.updated_at_ms
+  INTO v_tokens, v_updated
+  FROM rate_limit_buckets b
+  WHERE b.key = p_key
+  FOR UPDATE;
+
+  v_tokens := LEAST(p_capacity, v_tokens + GREATEST(0, v_now - v_updated) * p_refill_per_ms);
+  v_allowed := v_tokens >= p_cost;
+  IF v_allowed THEN
+    v_tokens := v_tokens - p_cost;
+  END IF;
+
+  UPDATE rate_limit_buckets
+  SET tokens = v_tokens,
+      updated_at_ms = v_now,
+      expires_at = to_timestamp((v_now + (p_capacity - v_tokens) / p_refill_per_ms) / 1000.0)
+  WHERE key = p_key;
+
+  RETURN QUERY SELECT v_allowed, v_tokens, v_now;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 清理过期的计数，由 /api/cron/cleanup-tasks 调用
+CREATE OR REPLACE FUNCTION purge_rate_limit_state()
+RETURNS INTEGER AS $$
+DECLARE
+  v_windows INTEGER;
+  v_buckets INTEGER;
+BEGIN
+  DELETE FROM rate_limit_windows WHERE expires_at < NOW();
+  GET DIAGNOSTICS v_windows = ROW_COUNT;
+
+  DELETE FROM rate_limit_buckets WHERE expires_at < NOW();
+  GET DIAGNOSTICS v_buckets = ROW_COUNT;
+
+  RETURN v_windows + v_buckets;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION rate_limit_sliding_window FROM PUBLIC;
+REVOKE ALL ON FUNCTION rate_limit_token_bucket FROM PUBLIC;
+REVOKE ALL ON FUNCTION purge_rate_limit_state FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION rate_limit_sliding_window TO service_role;
+GRANT EXECUTE ON FUNCTION rate_limit_token_bucket TO service_role;
+GRANT EXECUTE ON FUNCTION purge_rate_limit_state TO service_role;
@@ -0,0 +1,13 @@
+-- 生成配额：按用户等级限制同时进行的任务数和每小时、每天的任务数
+-- 创建任务时按用户统计 image_tasks，等级由 ai_images_creator_payments 中的成功充值累计金额决定
+
+CREATE INDEX IF NOT EXISTS idx_image_tasks_user_created
+  ON image_tasks(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_image_tasks_user_active
+  ON image_tasks(user_id)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_ai_images_creator_payments_user_success
+  ON ai_images_creator_payments(user_id)
+  WHERE status = 'success';
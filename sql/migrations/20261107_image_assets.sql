@@ -0,0 +1,26 @@
+-- 图片处理记录：保存的生成结果和上传图片经过去除EXIF、生成衍生版本后，记录尺寸、大小、格式和各版本地址
+-- 历史记录只保存 image_url，查询时按 url 关联本表，旧图片没有记录时前端直接使用原图
+
+CREATE TABLE IF NOT EXISTS image_assets (
+  url TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  bucket TEXT NOT NULL,
+  path TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  bytes BIGINT NOT NULL,
+  format TEXT NOT NULL,
+  -- [{name, format, width, height, bytes, url, path}]
+  variants JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_assets_user
+  ON image_assets(user_id, created_at DESC);
+
+ALTER TABLE image_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own image assets"
+  ON image_assets
+  FOR SELECT
+  USING (auth.uid() = user_id);
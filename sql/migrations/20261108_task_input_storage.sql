@@ -0,0 +1,43 @@
+-- 参考图和蒙版不再以base64写入 image_tasks：创建任务前上传到临时存储桶，任务只保存URL和内容哈希
+-- 临时存储桶的上传记录在 storage_temp_files 中，定时任务按 tempFileTTL 删除过期文件
+-- 已有的base64由 /api/cron/temp-storage 分批上传到存储后清空，全部迁移完成后可删除 image_base64 / mask_base64 列
+
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS input_image_hash TEXT, -- 参考图内容的SHA-256
+ADD COLUMN IF NOT EXISTS mask_image_url TEXT,
+ADD COLUMN IF NOT EXISTS mask_image_hash TEXT;
+
+-- 待迁移的旧任务
+CREATE INDEX IF NOT EXISTS idx_image_tasks_legacy_base64
+  ON image_tasks(created_at)
+  WHERE image_base64 IS NOT NULL OR mask_base64 IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_image_tasks_input_image_url
+  ON image_tasks(input_image_url)
+  WHERE input_image_url IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_image_tasks_mask_image_url
+  ON image_tasks(mask_image_url)
+  WHERE mask_image_url IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS storage_temp_files (
+  bucket TEXT NOT NULL,
+  path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 上传前原始内容的SHA-256，同一用户重复上传相同图片时复用
+  content_hash TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (bucket, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_temp_files_expires
+  ON storage_temp_files(expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_storage_temp_files_user_hash
+  ON storage_temp_files(user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- 只通过服务端管理员客户端访问
+ALTER TABLE storage_temp_files ENABLE ROW LEVEL SECURITY;
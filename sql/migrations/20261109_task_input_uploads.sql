@@ -0,0 +1,26 @@
+-- 参考图和蒙版改为长期保存在 uploads 存储桶，重新创作时仍可读取；临时存储桶只保存真正的临时文件
+-- 旧base64迁移失败时不再清空，记录原因后跳过
+
+ALTER TABLE image_tasks
+ADD COLUMN IF NOT EXISTS input_migration_error TEXT;
+
+-- 同一用户重复提交相同图片时按内容哈希复用
+CREATE INDEX IF NOT EXISTS idx_image_tasks_user_input_hash
+  ON image_tasks(user_id, input_image_hash)
+  WHERE input_image_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_image_tasks_user_mask_hash
+  ON image_tasks(user_id, mask_image_hash)
+  WHERE mask_image_hash IS NOT NULL;
+
+-- 此前写入临时存储桶、仍被任务引用的文件不再按有效期删除
+DELETE FROM storage_temp_files f
+WHERE EXISTS (
+  SELECT 1 FROM image_tasks t
+  WHERE t.input_image_url = f.url OR t.mask_image_url = f.url
+);
+
+-- 图像服务通过公开地址读取参考图
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('uploads', 'uploads', true)
+ON CONFLICT (id) DO UPDATE SET public = true;
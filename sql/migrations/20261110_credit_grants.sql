@@ -0,0 +1,99 @@
+-- 点数发放与调整走账本：新用户初始点数、手动增减都通过数据库函数加锁完成并写入 ai_images_creator_credit_logs，
+-- 避免直接写 ai_images_creator_credits 造成余额与账本之和不一致
+
+-- 1. 调整余额：p_amount 为正数时发放，为负数时扣除，扣除后余额为负时抛出 insufficient_credits
+--    余额行不存在时先以0创建
+CREATE OR REPLACE FUNCTION grant_credits(
+  p_user_id UUID,
+  p_amount INT,
+  p_operation_type TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  current_credits INT;
+BEGIN
+  INSERT INTO ai_images_creator_credits (user_id, credits, created_at, updated_at)
+  VALUES (p_user_id, 0, NOW(), NOW())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT credits INTO current_credits
+  FROM ai_images_creator_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF current_credits + p_amount < 0 THEN
+    RAISE EXCEPTION 'insufficient_credits';
+  END IF;
+
+  IF p_amount = 0 THEN
+    RETURN current_credits;
+  END IF;
+
+  UPDATE ai_images_creator_credits
+  SET credits = current_credits + p_amount, updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO ai_images_creator_credit_logs (
+    user_id, operation_type, old_value, change_value, new_value, created_at, note
+  ) VALUES (
+    p_user_id, p_operation_type, current_credits, p_amount, current_credits + p_amount, NOW(), p_note
+  );
+
+  RETURN current_credits + p_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. 新用户初始点数：余额行不存在时创建并记录 signup_bonus，已存在时直接返回余额；并发调用只发放一次
+CREATE OR REPLACE FUNCTION ensure_user_credits(p_user_id UUID, p_initial INT DEFAULT 5)
+RETURNS INT AS $$
+DECLARE
+  current_credits INT;
+  inserted INT;
+BEGIN
+  INSERT INTO ai_images_creator_credits (user_id, credits, created_at, updated_at)
+  VALUES (p_user_id, 0, NOW(), NOW())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+
+  IF inserted > 0 AND p_initial > 0 THEN
+    RETURN grant_credits(p_user_id, p_initial, 'signup_bonus', '新用户初始赠送');
+  END IF;
+
+  SELECT credits INTO current_credits
+  FROM ai_images_creator_credits
+  WHERE user_id = p_user_id;
+
+  RETURN current_credits;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. 启用账本后由旧接口直接创建余额行的用户没有期初记录，补记期初余额
+INSERT INTO ai_images_creator_credit_logs (
+  user_id, operation_type, old_value, change_value, new_value, created_at, note
+)
+SELECT
+  c.user_id,
+  'opening',
+  0,
+  c.credits - COALESCE(l.total, 0),
+  c.credits - COALESCE(l.total, 0),
+  NOW(),
+  '补记旧接口创建余额时的期初余额'
+FROM ai_images_creator_credits c
+LEFT JOIN (
+  SELECT user_id, SUM(change_value) AS total
+  FROM ai_images_creator_credit_logs
+  GROUP BY user_id
+) l ON l.user_id = c.user_id
+WHERE c.credits - COALESCE(l.total, 0) <> 0
+  AND NOT EXISTS (
+    SELECT 1 FROM ai_images_creator_credit_logs o
+    WHERE o.user_id = c.user_id AND o.operation_type IN ('opening', 'signup_bonus')
+  );
+
+REVOKE ALL ON FUNCTION grant_credits FROM PUBLIC;
+REVOKE ALL ON FUNCTION ensure_user_credits FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION grant_credits TO service_role;
+GRANT EXECUTE ON FUNCTION ensure_user_credits TO service_role;
@@ -0,0 +1,105 @@
+-- 任务失败的Webhook载荷：错误信息和点数退还状态以任务记录和点数账本为准
+-- release_image_task 标记失败时写入 error_message 并在同一事务中退还预留点数，
+-- 投递记录改为在事务提交前写入，此时同一事务中的退款记录已经可见
+
+-- 1. 释放任务租约：达到最大尝试次数或不可重试时标记失败、写入错误信息并退还预留点数
+CREATE OR REPLACE FUNCTION release_image_task(
+  p_task_id TEXT,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_retryable BOOLEAN DEFAULT TRUE
+)
+RETURNS TEXT AS $$
+DECLARE
+  new_status task_status;
+BEGIN
+  UPDATE image_tasks
+  SET
+    status = CASE
+      WHEN p_retryable AND attempt_count < max_attempts THEN 'pending'::task_status
+      ELSE 'failed'::task_status
+    END,
+    error_message = CASE
+      WHEN p_retryable AND attempt_count < max_attempts THEN error_message
+      ELSE LEFT(p_error, 500)
+    END,
+    last_error = LEFT(p_error, 500),
+    next_attempt_at = NOW() + make_interval(secs => image_task_backoff_seconds(attempt_count)),
+    locked_by = NULL,
+    lease_expires_at = NULL,
+    updated_at = NOW()
+  WHERE task_id = p_task_id
+    AND locked_by = p_worker_id
+    AND status = 'processing'
+  RETURNING status INTO new_status;
+
+  IF new_status = 'failed' THEN
+    PERFORM release_task_credits(p_task_id, LEFT(p_error, 200));
+  END IF;
+
+  RETURN new_status::TEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. 投递载荷：creditsRefunded 按点数账本中是否有该任务的退款记录判断，
+--    error 优先使用 error_message，没有时使用最近一次尝试的错误
+CREATE OR REPLACE FUNCTION enqueue_task_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+  event_name TEXT;
+  refunded BOOLEAN;
+BEGIN
+  event_name := 'task.' || NEW.status::TEXT;
+
+  refunded := EXISTS (
+    SELECT 1 FROM ai_images_creator_credit_logs
+    WHERE task_id = NEW.task_id AND operation_type = 'release'
+  );
+
+  INSERT INTO webhook_deliveries (endpoint_id, user_id, task_id, event, payload)
+  SELECT
+    e.id,
+    NEW.user_id,
+    NEW.task_id,
+    event_name,
+    jsonb_build_object(
+      'event', event_name,
+      'createdAt', NOW(),
+      'data', jsonb_build_object(
+        'taskId', NEW.task_id,
+        'status', NEW.status::TEXT,
+        'imageUrl', NEW.image_url,
+        'prompt', NEW.prompt,
+        'style', NEW.style,
+        'provider', NEW.provider,
+        'model', NEW.model,
+        'creditCost', NEW.credit_cost,
+        'creditsRefunded', refunded,
+        'error', CASE WHEN NEW.status::TEXT = 'failed' THEN COALESCE(NEW.error_message, NEW.last_error) ELSE NULL END,
+        'batchId', NEW.batch_id,
+        'completedAt', NEW.completed_at
+      )
+    )
+  FROM webhook_endpoints e
+  WHERE e.user_id = NEW.user_id
+    AND e.is_active
+    AND event_name = ANY(e.events)
+  ON CONFLICT (endpoint_id, task_id, event) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. 延迟到事务提交前触发，requeue_expired_image_tasks 等先改状态后退款的函数也能带上退款状态
+DROP TRIGGER IF EXISTS trigger_enqueue_task_webhooks ON image_tasks;
+CREATE CONSTRAINT TRIGGER trigger_enqueue_task_webhooks
+AFTER UPDATE OF status ON image_tasks
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (
+  NEW.status IS DISTINCT FROM OLD.status
+  AND NEW.status::TEXT IN ('completed', 'failed')
+)
+EXECUTE FUNCTION enqueue_task_webhooks();
+
+GRANT EXECUTE ON FUNCTION release_image_task TO service_role;
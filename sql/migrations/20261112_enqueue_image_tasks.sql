@@ -0,0 +1,137 @@
+-- 生成配额在入队事务中检查：锁定用户的点数记录后统计配额、预留点数并写入任务，
+-- 同一用户的并发请求依次执行，不会同时通过检查而超出配额；任一步失败时整个事务回滚，不会留下预留或任务
+
+-- 1. 时间窗口内已创建的任务数；再创建 p_requested 个会超出上限时，
+--    retry_after 为窗口内最早的若干个任务移出窗口所需的秒数，未超出时为NULL
+CREATE OR REPLACE FUNCTION generation_window_usage(
+  p_user_id UUID,
+  p_window INTERVAL,
+  p_limit INT,
+  p_requested INT
+)
+RETURNS TABLE (used INT, retry_after INT) AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE := NOW() - p_window;
+  oldest TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT COUNT(*)::INT INTO used
+  FROM image_tasks
+  WHERE user_id = p_user_id AND created_at > window_start;
+
+  retry_after := NULL;
+  IF used + p_requested > p_limit THEN
+    SELECT created_at INTO oldest
+    FROM image_tasks
+    WHERE user_id = p_user_id AND created_at > window_start
+    ORDER BY created_at
+    OFFSET GREATEST(used + p_requested - p_limit - 1, 0)
+    LIMIT 1;
+
+    retry_after := GREATEST(
+      1,
+      CEIL(EXTRACT(EPOCH FROM COALESCE(oldest + p_window - NOW(), p_window)))::INT
+    );
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. 检查配额、为每个任务预留点数并写入任务
+--    超出配额时不写入任何数据，返回 { kind, used, limit, retryAfter }；成功时返回NULL
+--    点数不足时抛出 insufficient_credits，没有点数记录时抛出 credits_not_found
+CREATE OR REPLACE FUNCTION enqueue_image_tasks(
+  p_user_id UUID,
+  p_tasks JSONB,
+  p_note TEXT,
+  p_max_concurrent INT,
+  p_max_per_hour INT,
+  p_max_per_day INT
+)
+RETURNS JSONB AS $$
+DECLARE
+  requested INT := jsonb_array_length(p_tasks);
+  active INT;
+  usage RECORD;
+  task RECORD;
+BEGIN
+  -- 同一用户的入队请求在这里排队
+  PERFORM 1 FROM ai_images_creator_credits WHERE user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'credits_not_found';
+  END IF;
+
+  SELECT COUNT(*)::INT INTO active
+  FROM image_tasks
+  WHERE user_id = p_user_id AND status IN ('pending', 'processing');
+
+  IF active + requested > p_max_concurrent THEN
+    RETURN jsonb_build_object('kind', 'concurrent', 'used', active, 'limit', p_max_concurrent, 'retryAfter', NULL);
+  END IF;
+
+  SELECT * INTO usage FROM generation_window_usage(p_user_id, INTERVAL '1 hour', p_max_per_hour, requested);
+  IF usage.retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('kind', 'hourly', 'used', usage.used, 'limit', p_max_per_hour, 'retryAfter', usage.retry_after);
+  END IF;
+
+  SELECT * INTO usage FROM generation_window_usage(p_user_id, INTERVAL '1 day', p_max_per_day, requested);
+  IF usage.retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('kind', 'daily', 'used', usage.used, 'limit', p_max_per_day, 'retryAfter', usage.retry_after);
+  END IF;
+
+  FOR task IN
+    SELECT t.task_id, t.credit_cost
+    FROM jsonb_to_recordset(p_tasks) AS t(task_id TEXT, credit_cost INT)
+  LOOP
+    PERFORM reserve_task_credits(p_user_id, task.task_id, task.credit_cost, p_note);
+  END LOOP;
+
+  INSERT INTO image_tasks (
+    id, user_id, task_id, status, prompt,
+    input_image_url, input_image_hash, mask_image_url, mask_image_hash, image_hash,
+    style, aspect_ratio, standard_aspect_ratio,
+    provider, model, preferred_provider, failover_reason, failover_count, failover_history,
+    request_id, credit_cost, batch_id, batch_index, batch_size, attempt_count,
+    request_fingerprint, created_at, updated_at
+  )
+  SELECT
+    t.id, p_user_id, t.task_id, 'pending', t.prompt,
+    t.input_image_url, t.input_image_hash, t.mask_image_url, t.mask_image_hash, t.image_hash,
+    t.style, t.aspect_ratio, t.standard_aspect_ratio,
+    t.provider, t.model, t.preferred_provider, t.failover_reason,
+    COALESCE(t.failover_count, 0), COALESCE(t.failover_history, '[]'::jsonb),
+    t.request_id, t.credit_cost, t.batch_id, COALESCE(t.batch_index, 0), COALESCE(t.batch_size, 1), 0,
+    t.request_fingerprint, NOW(), NOW()
+  FROM jsonb_to_recordset(p_tasks) AS t(
+    id UUID,
+    task_id TEXT,
+    prompt TEXT,
+    input_image_url TEXT,
+    input_image_hash TEXT,
+    mask_image_url TEXT,
+    mask_image_hash TEXT,
+    image_hash TEXT,
+    style TEXT,
+    aspect_ratio TEXT,
+    standard_aspect_ratio TEXT,
+    provider TEXT,
+    model TEXT,
+    preferred_provider TEXT,
+    failover_reason TEXT,
+    failover_count INT,
+    failover_history JSONB,
+    request_id TEXT,
+    credit_cost INT,
+    batch_id UUID,
+    batch_index SMALLINT,
+    batch_size SMALLINT,
+    request_fingerprint TEXT
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION generation_window_usage FROM PUBLIC;
+REVOKE ALL ON FUNCTION enqueue_image_tasks FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION enqueue_image_tasks TO service_role;
@@ -0,0 +1,50 @@
+-- 模板使用次数去重：同一用户对同一模板每天只计一次使用，未发布的模板不计数
+-- 避免反复调用使用接口刷高使用次数和热门分数
+
+-- 1. 使用日期，按UTC日期去重；此前的记录为空，不参与去重
+ALTER TABLE template_uses
+ADD COLUMN IF NOT EXISTS used_on DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_template_uses_user_day
+  ON template_uses(template_id, user_id, used_on);
+
+-- 2. 只为已发布的模板计数，当天已计过的使用直接返回当前次数；模板不存在或未发布时抛出 template_not_found
+CREATE OR REPLACE FUNCTION increment_template_use(p_template_id UUID, p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_use_count INTEGER;
+  v_inserted INTEGER;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'user_required';
+  END IF;
+
+  SELECT COALESCE(use_count, 0) INTO v_use_count
+  FROM templates
+  WHERE id = p_template_id AND status = 'published'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'template_not_found';
+  END IF;
+
+  INSERT INTO template_uses (template_id, user_id, used_on)
+  VALUES (p_template_id, p_user_id, (NOW() AT TIME ZONE 'UTC')::DATE)
+  ON CONFLICT (template_id, user_id, used_on) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  IF v_inserted = 0 THEN
+    RETURN v_use_count;
+  END IF;
+
+  UPDATE templates
+  SET use_count = v_use_count + 1
+  WHERE id = p_template_id
+  RETURNING use_count INTO v_use_count;
+
+  RETURN v_use_count;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION increment_template_use FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION increment_template_use TO service_role;
@@ -0,0 +1,46 @@
+-- Webhook投递租约过期的收尾：最后一次尝试的投递进程中断后（租约过期仍为 delivering，
+-- attempt_count 已达到 max_attempts），原领取函数既不会再领取也不会标记失败，记录会一直停留在 delivering
+
+-- 1. 领取前先把这类记录标记为失败，其余逻辑与原函数一致
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INT DEFAULT 10,
+  p_lease_seconds INT DEFAULT 60
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  UPDATE webhook_deliveries
+  SET
+    status = 'failed',
+    locked_until = NULL,
+    last_error = COALESCE(last_error, '投递中断且已达到最大尝试次数'),
+    updated_at = NOW()
+  WHERE status = 'delivering'
+    AND locked_until < NOW()
+    AND attempt_count >= max_attempts;
+
+  RETURN QUERY
+  UPDATE webhook_deliveries AS d
+  SET
+    status = 'delivering',
+    locked_until = NOW() + make_interval(secs => p_lease_seconds),
+    attempt_count = d.attempt_count + 1,
+    updated_at = NOW()
+  WHERE d.id IN (
+    SELECT id
+    FROM webhook_deliveries
+    WHERE (
+        (status = 'pending' AND next_attempt_at <= NOW())
+        OR (status = 'delivering' AND locked_until < NOW())
+      )
+      AND attempt_count < max_attempts
+    ORDER BY next_attempt_at, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 2. 已经停留在 delivering 的记录在下次领取时处理，这里只重新收紧权限
+REVOKE ALL ON FUNCTION claim_webhook_deliveries FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries TO service_role;
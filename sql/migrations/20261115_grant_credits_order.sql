@@ -0,0 +1,66 @@
+-- 订单充值走账本：支付回调、订单检查、补单和定时任务都通过 grant_credits 增加点数，
+-- 不再读出余额加上充值点数后写回（会覆盖同时发生的任务预留扣费，且不一定写入账本）
+
+-- 1. grant_credits 增加 p_order_no：按该订单已有账本记录的净额判断，已入账（净额为正）时不再增加，
+--    未入账或已扣回（净额不为正）时不再扣除；检查在余额行锁内完成，并发的回调与补单不会重复入账。
+--    增加参数需要先删除旧函数，避免出现两个重载
+DROP FUNCTION IF EXISTS grant_credits(UUID, INT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION grant_credits(
+  p_user_id UUID,
+  p_amount INT,
+  p_operation_type TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_order_no TEXT DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  current_credits INT;
+  order_net INT;
+BEGIN
+  INSERT INTO ai_images_creator_credits (user_id, credits, created_at, updated_at)
+  VALUES (p_user_id, 0, NOW(), NOW())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT credits INTO current_credits
+  FROM ai_images_creator_credits
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  IF p_order_no IS NOT NULL THEN
+    SELECT COALESCE(SUM(change_value), 0) INTO order_net
+    FROM ai_images_creator_credit_logs
+    WHERE order_no = p_order_no;
+
+    IF (p_amount > 0 AND order_net > 0) OR (p_amount < 0 AND order_net <= 0) THEN
+      RETURN current_credits;
+    END IF;
+  END IF;
+
+  IF current_credits + p_amount < 0 THEN
+    RAISE EXCEPTION 'insufficient_credits';
+  END IF;
+
+  IF p_amount = 0 THEN
+    RETURN current_credits;
+  END IF;
+
+  UPDATE ai_images_creator_credits
+  SET
+    credits = current_credits + p_amount,
+    last_order_no = COALESCE(p_order_no, last_order_no),
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  INSERT INTO ai_images_creator_credit_logs (
+    user_id, operation_type, old_value, change_value, new_value, created_at, note, order_no
+  ) VALUES (
+    p_user_id, p_operation_type, current_credits, p_amount, current_credits + p_amount, NOW(), p_note, p_order_no
+  );
+
+  RETURN current_credits + p_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION grant_credits FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION grant_credits TO service_role;
@@ -52,8 +52,12 @@ declare module '@/components/creation/prompt-input' {
     canGenerate: boolean;
     hasLowCredits?: boolean;
     activeStyle?: string;
+    creditCost?: number | null;
+    creditBreakdown?: Array<{ label: string; credits: number }>;
+    variants?: number;
+    onVariantsChange?: (variants: number) => void;
   }
-  
+
   const PromptInput: FC<PromptInputProps>;
   export default PromptInput;
 }
@@ -72,6 +76,7 @@ declare module '@/components/creation/generated-image-gallery' {
     hideViewMoreButton?: boolean;
     isLargerSize?: boolean;
     maxRows?: number;
+    batches?: Record<string, string[]>;
   }
   
   const GeneratedImageGallery: FC<GeneratedImageGalleryProps>;
@@ -1,9 +1,18 @@
 export interface ImageTask {
   id: string;
+  task_id: string;
   user_id: string;
   prompt: string;
   style?: string | null;
   aspect_ratio?: string | null;
+  // 旧任务的base64参考图和蒙版，新任务只保存URL和内容哈希
+  image_base64?: string | null;
+  mask_base64?: string | null;
+  input_image_url?: string | null;
+  input_image_hash?: string | null;
+  mask_image_url?: string | null;
+  mask_image_hash?: string | null;
+  input_migration_error?: string | null; // 旧base64迁移失败的原因，失败的任务不再重试
   status: 'pending' | 'processing' | 'completed' | 'failed';
   image_url?: string | null;
   error_message?: string | null;
@@ -12,13 +21,62 @@ export interface ImageTask {
   completed_at?: string | null;
   provider: string;
   model?: string | null;
+  preferred_provider?: string | null;
+  failover_reason?: string | null;
+  failover_count?: number;
+  failover_history?: Array<{ from: string; to: string; reason: string; at: string }>;
+  credit_cost?: number;
   attempt_count?: number;
+  max_attempts?: number;
+  next_attempt_at?: string | null;
+  locked_by?: string | null;
+  lease_expires_at?: string | null;
+  heartbeat_at?: string | null;
+  last_error?: string | null;
+  image_hash?: string | null;
+  standard_aspect_ratio?: string | null;
+  batch_id?: string | null;
+  batch_index?: number;
+  batch_size?: number;
   request_id?: string | null;
   progress?: number | null;
   stage?: string | null;
   lock_version: number;
 }
 
+export type WebhookEvent = 'task.completed' | 'task.failed';
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  description?: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  task_id: string;
+  event: WebhookEvent;
+  payload: Record<string, any>;
+  status: 'pending' | 'delivering' | 'succeeded' | 'failed';
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until?: string | null;
+  response_status?: number | null;
+  last_error?: string | null;
+  delivered_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ImageTasksTable {
   Insert: ImageTask;
   Update: Partial<ImageTask>;
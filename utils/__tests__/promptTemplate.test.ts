@@ -0,0 +1,176 @@
+import {
+  buildTemplatePrompt,
+  escapePromptTemplate,
+  extractSlotNames,
+  findMissingSlots,
+  localizeSlot,
+  parsePromptTemplate,
+  PromptSlot,
+  PromptTemplateError,
+  renderPromptTemplate,
+  resolveLocaleVariant,
+  validatePromptSlots,
+  validatePromptTemplate,
+  validateTemplateDefinition
+} from '../promptTemplate';
+
+describe('renderPromptTemplate', () => {
+  it('should fill named slots', () => {
+    expect(renderPromptTemplate('一只{animal}在{place}', { animal: '猫', place: '树下' })).toBe('一只猫在树下');
+  });
+
+  it('should use inline defaults and then slot defaults', () => {
+    const slots: PromptSlot[] = [{ name: 'place', label: '地点', default: '草地' }];
+
+    expect(renderPromptTemplate('{mood|温暖}的{place}', {}, slots)).toBe('温暖的草地');
+    expect(renderPromptTemplate('{mood|温暖}的{place}', { mood: '安静', place: ' 海边 ' }, slots)).toBe('安静的海边');
+  });
+
+  it('should omit optional sections with an empty slot', () => {
+    const template = '{subject}[，背景：{background}]';
+
+    expect(renderPromptTemplate(template, { subject: '猫' })).toBe('猫');
+    expect(renderPromptTemplate(template, { subject: '猫', background: '  ' })).toBe('猫');
+    expect(renderPromptTemplate(template, { subject: '猫', background: '星空' })).toBe('猫，背景：星空');
+  });
+
+  it('should output escaped brackets literally', () => {
+    expect(renderPromptTemplate('\\{raw\\} \\[x\\] {name}', { name: 'ok' })).toBe('{raw} [x] ok');
+  });
+
+  it('should collapse whitespace left by empty slots', () => {
+    expect(renderPromptTemplate('a {empty}  b ', {})).toBe('a b');
+  });
+});
+
+describe('parsePromptTemplate', () => {
+  it.each([
+    ['{subject', '没有闭合'],
+    ['subject}', '没有对应的 {'],
+    ['{1st}', '无效的插槽名称'],
+    ['[a [b]]', '不能嵌套'],
+    ['a]', '没有对应的 ['],
+    ['[a {b}', '没有闭合']
+  ])('should reject %s', (template, message) => {
+    expect(() => parsePromptTemplate(template)).toThrow(PromptTemplateError);
+    expect(() => parsePromptTemplate(template)).toThrow(message);
+  });
+
+  it('should round trip escaped user text', () => {
+    const text = '保留 {花括号} 和 [方括号] \\ 反斜杠';
+
+    expect(renderPromptTemplate(escapePromptTemplate(text), {})).toBe(text);
+  });
+});
+
+describe('extractSlotNames', () => {
+  it('should list unique slot names in order, including optional sections', () => {
+    expect(extractSlotNames('{a}{b|x}[{c}{a}]')).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('should report undeclared slots', () => {
+    expect(validatePromptTemplate('{subject}{extra}', ['subject'])).toEqual(['模板引用了未声明的插槽: {extra}']);
+  });
+
+  it('should report syntax errors instead of throwing', () => {
+    expect(validatePromptTemplate('{subject', ['subject'])).toHaveLength(1);
+  });
+});
+
+describe('validatePromptSlots', () => {
+  it('should accept valid declarations', () => {
+    expect(validatePromptSlots([
+      { name: 'subject', label: '主体', required: true },
+      { name: 'mood', label: '氛围', type: 'select', options: ['温暖', '冷峻'] }
+    ])).toEqual([]);
+  });
+
+  it('should report invalid, duplicate and incomplete slots', () => {
+    expect(validatePromptSlots('slots')).toEqual(['插槽声明必须是数组']);
+    expect(validatePromptSlots([
+      { name: '1bad', label: 'x' },
+      { name: 'dup', label: 'a' },
+      { name: 'dup', label: 'b' },
+      { name: 'nolabel', label: ' ' },
+      { name: 'choice', label: '选项', type: 'select' }
+    ])).toEqual([
+      '第1个插槽名称无效: 1bad',
+      '插槽名称重复: dup',
+      '插槽 nolabel 缺少显示名称',
+      '插槽 choice 为下拉选择时必须提供可选值'
+    ]);
+  });
+});
+
+describe('validateTemplateDefinition', () => {
+  it('should only allow {user_prompt} in templates without slots', () => {
+    expect(validateTemplateDefinition({ base_prompt: '水彩风格，{user_prompt}' })).toEqual([]);
+    expect(validateTemplateDefinition({ base_prompt: '水彩风格，{subject}' })).toEqual([
+      '模板引用了未声明的插槽: {subject}'
+    ]);
+  });
+
+  it('should validate locale variants', () => {
+    expect(validateTemplateDefinition({
+      base_prompt: '{subject}',
+      prompt_slots: [{ name: 'subject', label: '主体' }],
+      prompt_variants: { en: '{subject}, {other}', ja: ' ' }
+    })).toEqual([
+      '[en] 模板引用了未声明的插槽: {other}',
+      '语言版本 ja 的模板不能为空'
+    ]);
+  });
+});
+
+describe('findMissingSlots', () => {
+  it('should return required slots without a value or default', () => {
+    const slots: PromptSlot[] = [
+      { name: 'subject', label: '主体', required: true },
+      { name: 'mood', label: '氛围', required: true, default: '温暖' },
+      { name: 'note', label: '备注' }
+    ];
+
+    expect(findMissingSlots(slots, { subject: ' ' }).map(slot => slot.name)).toEqual(['subject']);
+    expect(findMissingSlots(slots, { subject: '猫' })).toEqual([]);
+  });
+});
+
+describe('locales', () => {
+  it('should pick exact, language prefix or base variants', () => {
+    const variants = { en: 'A {subject}', 'ja-JP': '{subject}の絵' };
+
+    expect(resolveLocaleVariant('一只{subject}', variants, 'en')).toBe('A {subject}');
+    expect(resolveLocaleVariant('一只{subject}', variants, 'en-US')).toBe('A {subject}');
+    expect(resolveLocaleVariant('一只{subject}', variants, 'ja')).toBe('{subject}の絵');
+    expect(resolveLocaleVariant('一只{subject}', variants, 'fr')).toBe('一只{subject}');
+    expect(resolveLocaleVariant('一只{subject}', null, 'en')).toBe('一只{subject}');
+  });
+
+  it('should merge localized slot texts', () => {
+    const slot: PromptSlot = { name: 'subject', label: '主体', locales: { en: { label: 'Subject' } } };
+
+    expect(localizeSlot(slot, 'en-GB').label).toBe('Subject');
+    expect(localizeSlot(slot, 'zh-CN')).toBe(slot);
+  });
+});
+
+describe('buildTemplatePrompt', () => {
+  it('should render the locale variant of slotted templates', () => {
+    const template = {
+      base_prompt: '一只{subject}',
+      prompt_slots: [{ name: 'subject', label: '主体' }],
+      prompt_variants: { en: 'A {subject}' }
+    };
+
+    expect(buildTemplatePrompt(template, { subject: 'cat' }, 'en')).toBe('A cat');
+    expect(buildTemplatePrompt(template, { subject: '猫' })).toBe('一只猫');
+  });
+
+  it('should fill or append the free text prompt for legacy templates', () => {
+    expect(buildTemplatePrompt({ base_prompt: '{user_prompt}，水彩风格' }, { user_prompt: '猫' })).toBe('猫，水彩风格');
+    expect(buildTemplatePrompt({ base_prompt: '水彩风格' }, { user_prompt: '猫' })).toBe('水彩风格，猫');
+    expect(buildTemplatePrompt({ base_prompt: '水彩风格' }, {})).toBe('水彩风格');
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * 相册：把生成历史中的图片分组整理
+ * 相册和相册内图片都按 position 排序，表结构见 sql/migrations/20261102_albums.sql。
+ * 相册非空时总有封面：加入第一批图片时自动设置，封面图片被移出后改用排在最前的图片
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { normalizeHistoryImageUrl } from '@/utils/history/historySearch';
+
+const logger = createLogger('相册');
+
+export const MAX_ALBUMS = 100;
+export const MAX_ALBUM_SIZE = 1000;
+// 单次批量添加或移除的图片数
+export const MAX_ALBUM_BATCH = 200;
+
+const ALBUM_COLUMNS = 'id, name, description, cover_history_id, position, created_at, updated_at, cover:ai_images_creator_history!cover_history_id(image_url), image_album_items(count)';
+
+export interface Album {
+  id: string;
+  name: string;
+  description: string | null;
+  cover_history_id: number | null;
+  cover_url: string | null;
+  item_count: number;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlbumItem {
+  id: number;
+  image_url: string;
+  prompt: string | null;
+  style: string | null;
+  aspect_ratio: string | null;
+  created_at: string;
+  position: number;
+  added_at: string;
+}
+
+export class AlbumValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlbumValidationError';
+  }
+}
+
+function toAlbum(row: any): Album {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    cover_history_id: row.cover_history_id,
+    cover_url: row.cover?.image_url ? normalizeHistoryImageUrl(row.cover.image_url) : null,
+    item_count: row.image_album_items?.[0]?.count ?? 0,
+    position: row.position,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+function validateName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) {
+    throw new AlbumValidationError('请填写相册名称');
+  }
+  if (name.length > 50) {
+    throw new AlbumValidationError('相册名称不能超过50个字');
+  }
+  return name;
+}
+
+function validateDescription(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') {
+    throw new AlbumValidationError('相册描述格式无效');
+  }
+  const description = value.trim();
+  if (description.length > 200) {
+    throw new AlbumValidationError('相册描述不能超过200个字');
+  }
+  return description || null;
+}
+
+/**
+ * 校验历史记录ID列表
+ */
+export function validateHistoryIds(value: unknown): number[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new AlbumValidationError('请选择图片');
+  }
+  if (value.length > MAX_ALBUM_BATCH) {
+    throw new AlbumValidationError(`每次最多操作${MAX_ALBUM_BATCH}张图片`);
+  }
+
+  const ids = value.map(id => Number(id));
+  if (ids.some(id => !Number.isInteger(id) || id <= 0)) {
+    throw new AlbumValidationError('图片ID无效');
+  }
+  return Array.from(new Set(ids));
+}
+
+async function findOwnedAlbum(userId: string, albumId: string): Promise<{ id: string; cover_history_id: number | null } | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_albums')
+    .select('id, cover_history_id')
+    .eq('id', albumId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`查询相册失败: ${error.message}`);
+  }
+  return data;
+}
+
+// 相册内排在最前的图片，用作默认封面
+async function findFirstItemId(albumId: string): Promise<number | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data } = await supabaseAdmin
+    .from('image_album_items')
+    .select('history_id')
+    .eq('album_id', albumId)
+    .order('position', { ascending: true })
+    .order('added_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.history_id ?? null;
+}
+
+async function touchAlbum(albumId: string, changes: Record<string, any> = {}) {
+  const supabaseAdmin = createAdminClient();
+  const { error } = await supabaseAdmin
+    .from('image_albums')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', albumId);
+
+  if (error) {
+    logger.warn(`更新相册 ${albumId} 失败: ${error.message}`);
+  }
+}
+
+/**
+ * 用户的相册列表，包含封面和图片数量
+ */
+export async function listAlbums(userId: string): Promise<Album[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_albums')
+    .select(ALBUM_COLUMNS)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`查询相册失败: ${error.message}`);
+  }
+
+  return (data || []).map(toAlbum);
+}
+
+/**
+ * 查询单个相册，不存在或不属于该用户时返回null
+ */
+export async function getAlbum(userId: string, albumId: string): Promise<Album | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_albums')
+    .select(ALBUM_COLUMNS)
+    .eq('id', albumId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`查询相册失败: ${error.message}`);
+  }
+  return data ? toAlbum(data) : null;
+}
+
+/**
+ * 创建相册，新相册排在最后
+ */
+export async function createAlbum(
+  userId: string,
+  input: { name?: unknown; description?: unknown }
+): Promise<Album> {
+  const name = validateName(input.name);
+  const description = validateDescription(input.description);
+
+  const supabaseAdmin = createAdminClient();
+  const { data: last, count } = await supabaseAdmin
+    .from('image_albums')
+    .select('position', { count: 'exact' })
+    .eq('user_id', userId)
+    .order('position', { ascending: false })
+    .limit(1);
+
+  if ((count || 0) >= MAX_ALBUMS) {
+    throw new AlbumValidationError(`最多只能创建${MAX_ALBUMS}个相册`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('image_albums')
+    .insert({
+      user_id: userId,
+      name,
+      description,
+      position: (last?.[0]?.position ?? -1) + 1
+    })
+    .select(ALBUM_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`创建相册失败: ${error?.message || '未返回数据'}`);
+  }
+
+  logger.info(`用户${userId}创建了相册${data.id}`);
+  return toAlbum(data);
+}
+
+/**
+ * 修改相册名称、描述或封面，相册不存在时返回null
+ * @param input.coverHistoryId 封面必须是相册中的图片
+ */
+export async function updateAlbum(
+  userId: string,
+  albumId: string,
+  input: { name?: unknown; description?: unknown; coverHistoryId?: unknown }
+): Promise<Album | null> {
+  const album = await findOwnedAlbum(userId, albumId);
+  if (!album) return null;
+
+  const changes: Record<string, any> = {};
+  if (input.name !== undefined) {
+    changes.name = validateName(input.name);
+  }
+  if (input.description !== undefined) {
+    changes.description = validateDescription(input.description);
+  }
+  if (input.coverHistoryId !== undefined) {
+    const [coverId] = validateHistoryIds([input.coverHistoryId]);
+    const supabaseAdmin = createAdminClient();
+    const { data } = await supabaseAdmin
+      .from('image_album_items')
+      .select('history_id')
+      .eq('album_id', albumId)
+      .eq('history_id', coverId)
+      .maybeSingle();
+
+    if (!data) {
+      throw new AlbumValidationError('封面图片不在该相册中');
+    }
+    changes.cover_history_id = coverId;
+  }
+
+  if (Object.keys(changes).length > 0) {
+    const supabaseAdmin = createAdminClient();
+    const { error } = await supabaseAdmin
+      .from('image_albums')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', albumId);
+
+    if (error) {
+      throw new Error(`更新相册失败: ${error.message}`);
+    }
+  }
+
+  return getAlbum(userId, albumId);
+}
+
+/**
+ * 删除相册，相册中的图片仍保留在历史记录中
+ */
+export async function deleteAlbum(userId: string, albumId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_albums')
+    .delete()
+    .eq('id', albumId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`删除相册失败: ${error.message}`);
+  }
+
+  const deleted = (data || []).length > 0;
+  if (deleted) {
+    logger.info(`用户${userId}删除了相册${albumId}`);
+  }
+  return deleted;
+}
+
+/**
+ * 按给定顺序排列用户的相册
+ */
+export async function reorderAlbums(userId: string, albumIds: unknown): Promise<void> {
+  if (!Array.isArray(albumIds) || albumIds.length === 0 || albumIds.length > MAX_ALBUMS) {
+    throw new AlbumValidationError('相册顺序无效');
+  }
+  if (albumIds.some(id => typeof id !== 'string')) {
+    throw new AlbumValidationError('相册ID无效');
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { error } = await supabaseAdmin.rpc('reorder_image_albums', {
+    p_user_id: userId,
+    p_album_ids: albumIds
+  });
+
+  if (error) {
+    throw new Error(`调整相册顺序失败: ${error.message}`);
+  }
+}
+
+/**
+ * 相册中的图片，按相册内顺序排列；相册不存在时返回null
+ */
+export async function listAlbumItems(userId: string, albumId: string): Promise<AlbumItem[] | null> {
+  const album = await findOwnedAlbum(userId, albumId);
+  if (!album) return null;
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_album_items')
+    .select('history_id, position, added_at, history:ai_images_creator_history(id, image_url, prompt, style, aspect_ratio, created_at)')
+    .eq('album_id', albumId)
+    .order('position', { ascending: true })
+    .order('added_at', { ascending: true })
+    .limit(MAX_ALBUM_SIZE);
+
+  if (error) {
+    throw new Error(`查询相册图片失败: ${error.message}`);
+  }
+
+  return (data || [])
+    .filter((row: any) => row.history)
+    .map((row: any) => ({
+      id: row.history.id,
+      image_url: normalizeHistoryImageUrl(row.history.image_url),
+      prompt: row.history.prompt,
+      style: row.history.style,
+      aspect_ratio: row.history.aspect_ratio,
+      created_at: row.history.created_at,
+      position: row.position,
+      added_at: row.added_at
+    }));
+}
+
+/**
+ * 把图片加入相册，已在相册中的图片会被跳过
+ * @returns 新加入的数量，相册不存在时返回null
+ */
+export async function addAlbumItems(userId: string, albumId: string, historyIds: unknown): Promise<{ added: number } | null> {
+  const ids = validateHistoryIds(historyIds);
+  const album = await findOwnedAlbum(userId, albumId);
+  if (!album) return null;
+
+  const supabaseAdmin = createAdminClient();
+
+  // 只能加入自己的图片
+  const { data: owned, error: ownedError } = await supabaseAdmin
+    .from('ai_images_creator_history')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', ids);
+
+  if (ownedError) {
+    throw new Error(`查询图片失败: ${ownedError.message}`);
+  }
+  const ownedIds = new Set((owned || []).map((row: { id: number }) => Number(row.id)));
+  if (ownedIds.size !== ids.length) {
+    throw new AlbumValidationError('部分图片不存在或已删除');
+  }
+
+  const { data: existing, count } = await supabaseAdmin
+    .from('image_album_items')
+    .select('history_id, position', { count: 'exact' })
+    .eq('album_id', albumId)
+    .order('position', { ascending: false })
+    .limit(MAX_ALBUM_SIZE);
+
+  const existingIds = new Set((existing || []).map((row: { history_id: number }) => Number(row.history_id)));
+  const newIds = ids.filter(id => !existingIds.has(id));
+  if (newIds.length === 0) {
+    return { added: 0 };
+  }
+  if ((count || 0) + newIds.length > MAX_ALBUM_SIZE) {
+    throw new AlbumValidationError(`每个相册最多${MAX_ALBUM_SIZE}张图片`);
+  }
+
+  const startPosition = (existing?.[0]?.position ?? -1) + 1;
+  const { error } = await supabaseAdmin
+    .from('image_album_items')
+    .upsert(
+      newIds.map((historyId, index) => ({
+        album_id: albumId,
+        history_id: historyId,
+        position: startPosition + index
+      })),
+      { onConflict: 'album_id,history_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw new Error(`添加图片到相册失败: ${error.message}`);
+  }
+
+  await touchAlbum(albumId, album.cover_history_id ? {} : { cover_history_id: newIds[0] });
+  return { added: newIds.length };
+}
+
+/**
+ * 从相册移出图片，不会删除历史记录
+ * @returns 移出的数量，相册不存在时返回null
+ */
+export async function removeAlbumItems(userId: string, albumId: string, historyIds: unknown): Promise<{ removed: number } | null> {
+  const ids = validateHistoryIds(historyIds);
+  const album = await findOwnedAlbum(userId, albumId);
+  if (!album) return null;
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_album_items')
+    .delete()
+    .eq('album_id', albumId)
+    .in('history_id', ids)
+    .select('history_id');
+
+  if (error) {
+    throw new Error(`从相册移出图片失败: ${error.message}`);
+  }
+
+  const coverRemoved = album.cover_history_id !== null && ids.includes(Number(album.cover_history_id));
+  await touchAlbum(albumId, coverRemoved ? { cover_history_id: await findFirstItemId(albumId) } : {});
+  return { removed: (data || []).length };
+}
+
+/**
+ * 按给定顺序排列相册中的图片，相册不存在时返回false
+ */
+export async function reorderAlbumItems(userId: string, albumId: string, historyIds: unknown): Promise<boolean> {
+  if (!Array.isArray(historyIds) || historyIds.length === 0 || historyIds.length > MAX_ALBUM_SIZE) {
+    throw new AlbumValidationError('图片顺序无效');
+  }
+  const ids = historyIds.map(id => Number(id));
+  if (ids.some(id => !Number.isInteger(id) || id <= 0)) {
+    throw new AlbumValidationError('图片ID无效');
+  }
+
+  const album = await findOwnedAlbum(userId, albumId);
+  if (!album) return false;
+
+  const supabaseAdmin = createAdminClient();
+  const { error } = await supabaseAdmin.rpc('reorder_image_album_items', {
+    p_album_id: albumId,
+    p_history_ids: ids
+  });
+
+  if (error) {
+    throw new Error(`调整图片顺序失败: ${error.message}`);
+  }
+
+  await touchAlbum(albumId);
+  return true;
+}
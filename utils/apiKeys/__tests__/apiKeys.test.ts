@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  API_KEY_SCOPES,
+  ApiKeyValidationError,
+  authenticateApiKey,
+  createApiKey,
+  extractApiKey,
+  hashApiKey
+} from '../apiKeys';
+import { withApiKeyAuth } from '../withApiKeyAuth';
+import { setRateLimitStore } from '@/utils/rate-limiter';
+import { MemoryRateLimitStore } from '@/utils/rateLimit/rateLimitStore';
+
+// 每次 from() 返回的查询结果，按调用顺序取出
+const mockResults: Array<{ data?: unknown; error?: unknown; count?: number }> = [];
+// 记录查询链上的调用，便于断言写入的数据和过滤条件
+const mockCalls: Array<{ table: string; method: string; args: unknown[] }> = [];
+
+jest.mock('@/utils/supabase/admin', () => ({
+  createAdminClient: () => ({
+    from: (table: string) => {
+      const result = mockResults.shift() || { data: null, error: null };
+      const query: Record<string, unknown> = {};
+      ['select', 'insert', 'update', 'eq', 'is', 'order', 'single', 'maybeSingle'].forEach(method => {
+        query[method] = (...args: unknown[]) => {
+          mockCalls.push({ table, method, args });
+          return query;
+        };
+      });
+      query.then = (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve({ error: null, ...result }).then(resolve, reject);
+      return query;
+    }
+  })
+}));
+
+jest.mock('@/utils/logger', () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })
+}));
+
+jest.mock('@/utils/auth-middleware', () => ({ getClientIP: () => '127.0.0.1' }));
+
+const VALID_KEY = 'sk_img_abcdefghijklmnopqrstuvwxyz012345';
+
+function keyRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'key-1',
+    user_id: 'user-1',
+    scopes: ['tasks:read'],
+    last_used_at: new Date().toISOString(),
+    expires_at: null,
+    revoked_at: null,
+    ...overrides
+  };
+}
+
+function callsFor(method: string) {
+  return mockCalls.filter(call => call.method === method);
+}
+
+describe('api keys', () => {
+  beforeEach(() => {
+    mockResults.length = 0;
+    mockCalls.length = 0;
+  });
+
+  describe('hashApiKey', () => {
+    it('should hash keys with sha256', () => {
+      const expected = crypto.createHash('sha256').update(VALID_KEY).digest('hex');
+
+      expect(hashApiKey(VALID_KEY)).toBe(expected);
+      expect(hashApiKey(VALID_KEY)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashApiKey(`${VALID_KEY}x`)).not.toBe(expected);
+    });
+  });
+
+  describe('extractApiKey', () => {
+    it('should read prefixed keys from the bearer or x-api-key header', () => {
+      expect(extractApiKey(new Headers({ Authorization: `Bearer ${VALID_KEY}` }))).toBe(VALID_KEY);
+      expect(extractApiKey(new Headers({ 'X-API-Key': ` ${VALID_KEY} ` }))).toBe(VALID_KEY);
+    });
+
+    it('should ignore tokens without the key prefix', () => {
+      // 会话JWT等其他Bearer令牌不当作API密钥
+      expect(extractApiKey(new Headers({ Authorization: 'Bearer eyJhbGciOi' }))).toBeNull();
+      expect(extractApiKey(new Headers({ 'X-API-Key': 'secret' }))).toBeNull();
+      expect(extractApiKey(new Headers())).toBeNull();
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should store only the hash and return the plaintext once', async () => {
+      mockResults.push({ count: 0 }, { data: { id: 'key-1', scopes: ['tasks:read'] } });
+
+      const { apiKey, key } = await createApiKey('user-1', { name: ' 脚本 ', scopes: ['tasks:read', 'tasks:read'] });
+
+      const inserted = callsFor('insert')[0].args[0] as Record<string, unknown>;
+      expect(key).toMatch(/^sk_img_[A-Za-z0-9_-]{32}$/);
+      expect(apiKey.id).toBe('key-1');
+      expect(inserted).toMatchObject({
+        user_id: 'user-1',
+        name: '脚本',
+        key_prefix: key.substring(0, 12),
+        key_hash: hashApiKey(key),
+        scopes: ['tasks:read'],
+        expires_at: null
+      });
+      expect(JSON.stringify(inserted)).not.toContain(key);
+    });
+
+    it('should default to all scopes', async () => {
+      mockResults.push({ count: 0 }, { data: { id: 'key-1' } });
+
+      await createApiKey('user-1', { name: '脚本' });
+
+      expect((callsFor('insert')[0].args[0] as Record<string, unknown>).scopes).toEqual([...API_KEY_SCOPES]);
+    });
+
+    it.each([
+      [{ name: '' }, '请填写密钥名称'],
+      [{ name: '脚本', scopes: [] }, '至少需要选择一个权限'],
+      [{ name: '脚本', scopes: ['tasks:read', 'admin'] }, '不支持的权限: admin'],
+      [{ name: '脚本', expiresInDays: 0 }, '有效期必须是1到365天'],
+      [{ name: '脚本', expiresInDays: 366 }, '有效期必须是1到365天']
+    ])('should reject invalid input %j', async (input, message) => {
+      await expect(createApiKey('user-1', input)).rejects.toThrow(new ApiKeyValidationError(message));
+      expect(callsFor('insert')).toHaveLength(0);
+    });
+
+    it('should limit the number of active keys', async () => {
+      mockResults.push({ count: 10 });
+
+      await expect(createApiKey('user-1', { name: '脚本' })).rejects.toBeInstanceOf(ApiKeyValidationError);
+      expect(callsFor('insert')).toHaveLength(0);
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    it('should look keys up by hash', async () => {
+      mockResults.push({ data: keyRecord() });
+
+      await expect(authenticateApiKey(VALID_KEY)).resolves.toEqual({
+        keyId: 'key-1',
+        userId: 'user-1',
+        scopes: ['tasks:read']
+      });
+      expect(callsFor('eq')[0].args).toEqual(['key_hash', hashApiKey(VALID_KEY)]);
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', keyRecord({ revoked_at: new Date().toISOString() })],
+      ['expired', keyRecord({ expires_at: new Date(Date.now() - 1000).toISOString() })]
+    ])('should reject %s keys', async (_label, data) => {
+      mockResults.push({ data });
+
+      await expect(authenticateApiKey(VALID_KEY)).resolves.toBeNull();
+    });
+
+    it('should refresh last_used_at only after the update interval', async () => {
+      mockResults.push({ data: keyRecord() });
+      await authenticateApiKey(VALID_KEY);
+      expect(callsFor('update')).toHaveLength(0);
+
+      mockResults.push({ data: keyRecord({ last_used_at: null }) });
+      await authenticateApiKey(VALID_KEY);
+      expect(callsFor('update')).toHaveLength(1);
+    });
+  });
+
+  describe('withApiKeyAuth', () => {
+    let store: MemoryRateLimitStore;
+    const handler = jest.fn(async () => NextResponse.json({ success: true }));
+
+    beforeEach(() => {
+      store = new MemoryRateLimitStore();
+      setRateLimitStore(store);
+      handler.mockClear();
+    });
+
+    afterEach(() => {
+      store.stopCleanup();
+      setRateLimitStore(null);
+    });
+
+    function request(headers: Record<string, string> = { Authorization: `Bearer ${VALID_KEY}` }) {
+      return new NextRequest('http://localhost/api/v1/tasks', { headers });
+    }
+
+    it('should require a key', async () => {
+      const response = await withApiKeyAuth(request({}), 'tasks:read', handler);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe('missing_api_key');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject keys that do not authenticate', async () => {
+      mockResults.push({ data: null });
+
+      const response = await withApiKeyAuth(request(), 'tasks:read', handler);
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).code).toBe('invalid_api_key');
+    });
+
+    it('should reject keys without the required scope', async () => {
+      mockResults.push({ data: keyRecord({ scopes: ['tasks:read'] }) });
+
+      const response = await withApiKeyAuth(request(), 'tasks:write', handler);
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).code).toBe('insufficient_scope');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should pass the principal to the handler and rate limit per key', async () => {
+      mockResults.push({ data: keyRecord() }, { data: keyRecord() });
+      const options = { limit: 1, windowMs: 60000 };
+
+      const first = await withApiKeyAuth(request(), 'tasks:read', handler, options);
+      const second = await withApiKeyAuth(request({ 'X-API-Key': VALID_KEY }), 'tasks:read', handler, options);
+
+      expect(first.status).toBe(200);
+      expect(handler).toHaveBeenCalledWith({ keyId: 'key-1', userId: 'user-1', scopes: ['tasks:read'] });
+      expect(second.status).toBe(429);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * 个人API密钥
+ * 密钥明文只在创建时返回一次，数据库只保存SHA-256哈希；
+ * 每个密钥带有权限范围，吊销或过期后立即失效
+ */
+import crypto from 'crypto';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('API密钥');
+
+// 密钥前缀，便于在日志和代码仓库扫描中识别
+const API_KEY_PREFIX = 'sk_img_';
+
+// 列表中展示的密钥前缀长度
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// 每个用户最多持有的有效密钥数
+export const MAX_API_KEYS = 10;
+
+// last_used_at 的最小更新间隔，避免每次请求都写库
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// 权限范围
+export const API_KEY_SCOPES = ['tasks:write', 'tasks:read', 'history:read', 'credits:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// 通过密钥认证后的调用方
+export interface ApiKeyPrincipal {
+  keyId: string;
+  userId: string;
+  scopes: ApiKeyScope[];
+}
+
+export class ApiKeyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyValidationError';
+  }
+}
+
+const API_KEY_COLUMNS = 'id, user_id, name, key_prefix, scopes, last_used_at, expires_at, revoked_at, created_at';
+
+/**
+ * 计算密钥哈希，密钥本身为高熵随机串，无需加盐
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * 从请求头中读取密钥，支持 Authorization: Bearer 与 X-API-Key
+ */
+export function extractApiKey(headers: Headers): string | null {
+  const authHeader = headers.get('authorization') || '';
+  if (authHeader.startsWith('Bearer ')) {
+    const token = authHeader.substring(7).trim();
+    if (token.startsWith(API_KEY_PREFIX)) {
+      return token;
+    }
+  }
+
+  const apiKeyHeader = headers.get('x-api-key')?.trim();
+  return apiKeyHeader && apiKeyHeader.startsWith(API_KEY_PREFIX) ? apiKeyHeader : null;
+}
+
+function validateScopes(scopes?: string[]): ApiKeyScope[] {
+  if (scopes === undefined) {
+    return [...API_KEY_SCOPES];
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    throw new ApiKeyValidationError('至少需要选择一个权限');
+  }
+
+  const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+  if (unknown.length > 0) {
+    throw new ApiKeyValidationError(`不支持的权限: ${unknown.join(', ')}`);
+  }
+
+  return Array.from(new Set(scopes)) as ApiKeyScope[];
+}
+
+/**
+ * 列出用户的密钥（不含哈希），包括已吊销的
+ */
+export async function listApiKeys(userId: string): Promise<ApiKey[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`查询API密钥失败: ${error.message}`);
+  }
+
+  return (data || []) as ApiKey[];
+}
+
+/**
+ * 创建密钥，返回记录与只出现这一次的明文密钥
+ * @param expiresInDays 有效天数，为空表示不过期
+ */
+export async function createApiKey(
+  userId: string,
+  input: { name?: string; scopes?: string[]; expiresInDays?: number | null }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const name = (input.name || '').trim();
+  if (!name) {
+    throw new ApiKeyValidationError('请填写密钥名称');
+  }
+
+  const scopes = validateScopes(input.scopes);
+
+  let expiresAt: string | null = null;
+  if (input.expiresInDays !== undefined && input.expiresInDays !== null) {
+    const days = Number(input.expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      throw new ApiKeyValidationError('有效期必须是1到365天');
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { count } = await supabaseAdmin
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if ((count || 0) >= MAX_API_KEYS) {
+    throw new ApiKeyValidationError(`最多只能持有${MAX_API_KEYS}个有效密钥，请先吊销不用的密钥`);
+  }
+
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .insert({
+      user_id: userId,
+      name: name.substring(0, 100),
+      key_prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+      key_hash: hashApiKey(key),
+      scopes,
+      expires_at: expiresAt
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`创建API密钥失败: ${error?.message || '未返回数据'}`);
+  }
+
+  logger.info(`用户${userId}创建了API密钥${data.id}`);
+  return { apiKey: data as ApiKey, key };
+}
+
+/**
+ * 吊销密钥，密钥不存在、不属于该用户或已吊销时返回false
+ */
+export async function revokeApiKey(userId: string, keyId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`吊销API密钥失败: ${error.message}`);
+  }
+
+  const revoked = (data || []).length > 0;
+  if (revoked) {
+    logger.info(`用户${userId}吊销了API密钥${keyId}`);
+  }
+  return revoked;
+}
+
+/**
+ * 校验密钥，有效时返回调用方信息
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKeyPrincipal | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select('id, user_id, scopes, last_used_at, expires_at, revoked_at')
+    .eq('key_hash', hashApiKey(key))
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`查询API密钥失败: ${error.message}`);
+    return null;
+  }
+
+  if (!data || data.revoked_at) {
+    return null;
+  }
+
+  if (data.expires_at && new Date(data.expires_at).getTime() < Date.now()) {
+    return null;
+  }
+
+  // 记录最近使用时间，失败不影响本次请求
+  const lastUsed = data.last_used_at ? new Date(data.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    supabaseAdmin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', data.id)
+      .then(({ error: updateError }) => {
+        if (updateError) {
+          logger.warn(`更新API密钥${data.id}使用时间失败: ${updateError.message}`);
+        }
+      });
+  }
+
+  return {
+    keyId: data.id,
+    userId: data.user_id,
+    scopes: (data.scopes || []) as ApiKeyScope[]
+  };
+}
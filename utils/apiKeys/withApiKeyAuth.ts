@@ -0,0 +1,47 @@
+/**
+ * 开放接口(/api/v1)的密钥认证
+ * 校验密钥与权限范围，并按密钥应用速率限制
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitPresets, RateLimitOptions, withRateLimit } from '@/utils/rate-limiter';
+import { ApiKeyPrincipal, ApiKeyScope, authenticateApiKey, extractApiKey } from './apiKeys';
+
+/**
+ * 开放接口统一的错误响应
+ */
+export function apiError(status: number, code: string, message: string, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ success: false, error: message, code, ...extra }, { status });
+}
+
+/**
+ * 使用API密钥认证执行处理函数
+ * @param scope 接口所需的权限
+ * @param rateLimitOptions 按密钥计数的速率限制，默认每分钟60次
+ */
+export async function withApiKeyAuth(
+  request: NextRequest,
+  scope: ApiKeyScope,
+  handler: (principal: ApiKeyPrincipal) => Promise<NextResponse>,
+  rateLimitOptions: Pick<RateLimitOptions, 'limit' | 'windowMs' | 'algorithm' | 'burst'> = rateLimitPresets.standard
+): Promise<NextResponse> {
+  const key = extractApiKey(request.headers);
+  if (!key) {
+    return apiError(401, 'missing_api_key', '缺少API密钥，请通过 Authorization: Bearer <key> 传递');
+  }
+
+  const principal = await authenticateApiKey(key);
+  if (!principal) {
+    return apiError(401, 'invalid_api_key', 'API密钥无效、已过期或已被吊销');
+  }
+
+  if (!principal.scopes.includes(scope)) {
+    return apiError(403, 'insufficient_scope', `该密钥没有 ${scope} 权限`);
+  }
+
+  // 同一密钥的所有请求共用一个计数，与调用方IP无关
+  return withRateLimit(() => handler(principal), {
+    ...rateLimitOptions,
+    keyGenerator: () => `api-key:${principal.keyId}`,
+    message: 'API调用过于频繁，请稍后再试'
+  })(request);
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient as createServerClient } from '@/utils/supabase/server';
-import { createAdminClient } from '@/utils/supabase/admin';
+import { getUserRole, hasRole } from '@/utils/roles/roles';
 
 /**
  * API身份验证类型
@@ -116,27 +116,9 @@ export async function authenticate(
     
     // 管理员认证需额外检查角色
     if (authType === AuthType.ADMIN) {
-      // 使用admin客户端查询，避免权限问题
-      const adminClient = await createAdminClient();
-      const { data: profile, error: profileError } = await adminClient
-        .from('profiles')
-        .select('role')
-        .eq('id', session.user.id)
-        .single();
-        
-      if (profileError) {
-        console.error('获取用户角色失败:', profileError);
-        return {
-          authenticated: false,
-          error: '获取用户角色失败',
-          response: NextResponse.json(
-            { success: false, error: '权限验证失败' },
-            { status: 500 }
-          )
-        };
-      }
+      const role = await getUserRole(session.user.id);
       
-      if (!profile || profile.role !== 'admin') {
+      if (!hasRole(role, 'admin')) {
         console.warn(`管理员权限验证失败: 用户 ${session.user.id} 不是管理员`);
         return { 
           authenticated: false, 
@@ -0,0 +1,216 @@
+import {
+  captureTaskCredits,
+  creditPaymentOrder,
+  ensureUserCredits,
+  grantCredits,
+  INITIAL_CREDITS,
+  reconcileCreditLedger,
+  releaseTaskCredits,
+  reserveTaskCredits
+} from '../taskCredits';
+
+const mockRpc = jest.fn();
+
+jest.mock('@/utils/supabase/admin', () => ({
+  createAdminClient: () => ({ rpc: mockRpc })
+}));
+
+jest.mock('@/utils/logger', () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })
+}));
+
+// 模拟数据库函数的返回
+function resolveRpc(data: unknown) {
+  mockRpc.mockResolvedValueOnce({ data, error: null });
+}
+
+function rejectRpc(message: string) {
+  mockRpc.mockResolvedValueOnce({ data: null, error: { message } });
+}
+
+describe('task credit ledger', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+  });
+
+  describe('reserveTaskCredits', () => {
+    it('should reserve credits keyed by the task id', async () => {
+      resolveRpc(7);
+
+      const result = await reserveTaskCredits('user-1', 'task-1', 3, '图像生成任务');
+
+      expect(result).toEqual({ success: true, remaining: 7 });
+      expect(mockRpc).toHaveBeenCalledWith('reserve_task_credits', {
+        p_user_id: 'user-1',
+        p_task_id: 'task-1',
+        p_amount: 3,
+        p_note: '图像生成任务'
+      });
+    });
+
+    it('should reuse the same task id when a reservation is retried', async () => {
+      // 数据库函数对同一任务只扣一次，重复预留返回当前余额
+      resolveRpc(7);
+      resolveRpc(7);
+
+      const first = await reserveTaskCredits('user-1', 'task-1', 3);
+      const retry = await reserveTaskCredits('user-1', 'task-1', 3);
+
+      expect(retry).toEqual(first);
+      expect(mockRpc.mock.calls[0][1]).toEqual(mockRpc.mock.calls[1][1]);
+    });
+
+    it('should report insufficient credits separately from other errors', async () => {
+      rejectRpc('insufficient_credits');
+      rejectRpc('credits_not_found');
+      rejectRpc('connection reset');
+
+      await expect(reserveTaskCredits('user-1', 'task-1', 3)).resolves.toEqual({
+        success: false,
+        insufficient: true,
+        error: '点数不足'
+      });
+      await expect(reserveTaskCredits('user-1', 'task-2', 3)).resolves.toEqual({
+        success: false,
+        error: '无法获取用户点数信息'
+      });
+      await expect(reserveTaskCredits('user-1', 'task-3', 3)).resolves.toEqual({
+        success: false,
+        error: '扣除用户点数失败'
+      });
+    });
+  });
+
+  describe('captureTaskCredits and releaseTaskCredits', () => {
+    it('should settle a reservation only once', async () => {
+      // 第二次确认时预留已结算，数据库函数返回false
+      resolveRpc(true);
+      resolveRpc(false);
+
+      await expect(captureTaskCredits('task-1')).resolves.toBe(true);
+      await expect(captureTaskCredits('task-1')).resolves.toBe(false);
+      expect(mockRpc).toHaveBeenCalledWith('capture_task_credits', { p_task_id: 'task-1' });
+    });
+
+    it('should not refund a reservation twice', async () => {
+      resolveRpc(true);
+      resolveRpc(false);
+
+      await expect(releaseTaskCredits('task-1', '任务失败')).resolves.toBe(true);
+      await expect(releaseTaskCredits('task-1', '任务失败')).resolves.toBe(false);
+    });
+
+    it('should truncate long release reasons', async () => {
+      resolveRpc(true);
+
+      await releaseTaskCredits('task-1', 'x'.repeat(500));
+
+      expect(mockRpc.mock.calls[0][1].p_reason).toHaveLength(200);
+    });
+
+    it('should treat database errors as not settled', async () => {
+      rejectRpc('timeout');
+      rejectRpc('timeout');
+
+      await expect(captureTaskCredits('task-1')).resolves.toBe(false);
+      await expect(releaseTaskCredits('task-1', '任务失败')).resolves.toBe(false);
+    });
+  });
+
+  describe('grants', () => {
+    it('should grant the initial credits through the ledger', async () => {
+      resolveRpc(INITIAL_CREDITS);
+
+      await expect(ensureUserCredits('user-1')).resolves.toBe(INITIAL_CREDITS);
+      expect(mockRpc).toHaveBeenCalledWith('ensure_user_credits', {
+        p_user_id: 'user-1',
+        p_initial: INITIAL_CREDITS
+      });
+    });
+
+    it('should return null when the balance cannot be initialised', async () => {
+      rejectRpc('timeout');
+
+      await expect(ensureUserCredits('user-1')).resolves.toBeNull();
+    });
+
+    it('should adjust credits without an order by default', async () => {
+      resolveRpc(2);
+
+      const result = await grantCredits('user-1', -3, 'deduct', '扣除点数');
+
+      expect(result).toEqual({ success: true, credits: 2 });
+      expect(mockRpc).toHaveBeenCalledWith('grant_credits', {
+        p_user_id: 'user-1',
+        p_amount: -3,
+        p_operation_type: 'deduct',
+        p_note: '扣除点数',
+        p_order_no: null
+      });
+    });
+
+    it('should reject deductions below zero', async () => {
+      rejectRpc('insufficient_credits');
+
+      await expect(grantCredits('user-1', -10, 'deduct')).resolves.toEqual({
+        success: false,
+        insufficient: true,
+        error: '点数不足'
+      });
+    });
+
+    it('should credit payment orders keyed by the order number', async () => {
+      // 回调与补单重复入账时数据库函数按订单去重，返回同样的余额
+      resolveRpc(105);
+      resolveRpc(105);
+
+      const first = await creditPaymentOrder('user-1', 'order-1', 100);
+      const retry = await creditPaymentOrder('user-1', 'order-1', 100, '手动同步充值100点');
+
+      expect(first).toEqual({ success: true, credits: 105 });
+      expect(retry).toEqual(first);
+      expect(mockRpc.mock.calls.map(call => call[1])).toEqual([
+        {
+          p_user_id: 'user-1',
+          p_amount: 100,
+          p_operation_type: 'recharge',
+          p_note: '充值100点',
+          p_order_no: 'order-1'
+        },
+        {
+          p_user_id: 'user-1',
+          p_amount: 100,
+          p_operation_type: 'recharge',
+          p_note: '手动同步充值100点',
+          p_order_no: 'order-1'
+        }
+      ]);
+    });
+
+    it('should report failed order credits', async () => {
+      rejectRpc('timeout');
+
+      await expect(creditPaymentOrder('user-1', 'order-1', 100)).resolves.toEqual({
+        success: false,
+        error: '更新用户点数失败'
+      });
+    });
+  });
+
+  describe('reconcileCreditLedger', () => {
+    it('should map mismatched balances', async () => {
+      resolveRpc([{ user_id: 'user-1', balance: 10, ledger_total: '7', difference: '3' }]);
+
+      await expect(reconcileCreditLedger('user-1')).resolves.toEqual([
+        { userId: 'user-1', balance: 10, ledgerTotal: 7, difference: 3 }
+      ]);
+      expect(mockRpc).toHaveBeenCalledWith('reconcile_credit_ledger', { p_user_id: 'user-1' });
+    });
+
+    it('should throw when reconciliation fails', async () => {
+      rejectRpc('timeout');
+
+      await expect(reconcileCreditLedger()).rejects.toThrow('点数对账失败: timeout');
+    });
+  });
+});
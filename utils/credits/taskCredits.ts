@@ -0,0 +1,189 @@
+/**
+ * 生成任务点数账本
+ * 每个任务先预留点数（立即从余额扣除并记入 ai_images_creator_credit_logs），
+ * 完成时确认，失败、取消或租约过期时释放退还。所有操作都在数据库函数中加锁完成且幂等。
+ * 新用户初始点数和手动增减也通过账本函数完成，不直接写 ai_images_creator_credits
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('点数账本');
+
+// 新用户初始赠送的点数
+export const INITIAL_CREDITS = 5;
+
+export interface ReserveResult {
+  success: boolean;
+  // 预留后的余额
+  remaining?: number;
+  // 余额不足时为true，其余失败为数据库错误
+  insufficient?: boolean;
+  error?: string;
+}
+
+export interface CreditLedgerMismatch {
+  userId: string;
+  balance: number;
+  ledgerTotal: number;
+  difference: number;
+}
+
+export interface GrantResult {
+  success: boolean;
+  // 调整后的余额
+  credits?: number;
+  // 扣除后余额为负时为true
+  insufficient?: boolean;
+  error?: string;
+}
+
+/**
+ * 确保用户有点数记录，新用户创建记录并通过账本发放初始点数，返回当前余额，失败时返回null
+ */
+export async function ensureUserCredits(userId: string): Promise<number | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('ensure_user_credits', {
+    p_user_id: userId,
+    p_initial: INITIAL_CREDITS
+  });
+
+  if (error) {
+    logger.error(`初始化用户${userId}点数失败: ${error.message}`);
+    return null;
+  }
+  return data as number;
+}
+
+/**
+ * 增减用户点数并写入账本，amount 为负数时扣除
+ * 指定 orderNo 时按订单已入账的净额去重：已入账时不再增加，未入账时不再扣除，跳过时返回当前余额
+ */
+export async function grantCredits(
+  userId: string,
+  amount: number,
+  operationType: string,
+  note?: string,
+  orderNo?: string
+): Promise<GrantResult> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('grant_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_operation_type: operationType,
+    p_note: note || null,
+    p_order_no: orderNo || null
+  });
+
+  if (error) {
+    if (error.message.includes('insufficient_credits')) {
+      return { success: false, insufficient: true, error: '点数不足' };
+    }
+    logger.error(`调整用户${userId}点数失败: ${error.message}`);
+    return { success: false, error: '更新用户点数失败' };
+  }
+
+  logger.info(`用户${userId}点数变更${amount > 0 ? '+' : ''}${amount}(${operationType})，余额${data}`);
+  return { success: true, credits: data as number };
+}
+
+/**
+ * 为支付成功的订单增加点数，支付回调、订单检查、补单等入口都通过这里入账，重复调用不会重复增加
+ */
+export function creditPaymentOrder(
+  userId: string,
+  orderNo: string,
+  credits: number,
+  note?: string
+): Promise<GrantResult> {
+  return grantCredits(userId, credits, 'recharge', note || `充值${credits}点`, orderNo);
+}
+
+/**
+ * 为任务预留点数，同一任务重复预留不会重复扣除
+ */
+export async function reserveTaskCredits(
+  userId: string,
+  taskId: string,
+  amount: number,
+  note?: string
+): Promise<ReserveResult> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('reserve_task_credits', {
+    p_user_id: userId,
+    p_task_id: taskId,
+    p_amount: amount,
+    p_note: note || null
+  });
+
+  if (error) {
+    if (error.message.includes('insufficient_credits')) {
+      return { success: false, insufficient: true, error: '点数不足' };
+    }
+    if (error.message.includes('credits_not_found')) {
+      logger.error(`用户${userId}没有点数记录`);
+      return { success: false, error: '无法获取用户点数信息' };
+    }
+    logger.error(`为任务${taskId}预留点数失败: ${error.message}`);
+    return { success: false, error: '扣除用户点数失败' };
+  }
+
+  logger.info(`已为任务${taskId}预留${amount}个点数，用户${userId}剩余${data}`);
+  return { success: true, remaining: data as number };
+}
+
+/**
+ * 任务完成后确认扣除
+ */
+export async function captureTaskCredits(taskId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('capture_task_credits', { p_task_id: taskId });
+
+  if (error) {
+    logger.error(`确认任务${taskId}扣点失败: ${error.message}`);
+    return false;
+  }
+  return data === true;
+}
+
+/**
+ * 任务失败或取消后释放预留的点数
+ * 返回false表示没有可释放的预留（未预留或已经结算）
+ */
+export async function releaseTaskCredits(taskId: string, reason: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('release_task_credits', {
+    p_task_id: taskId,
+    p_reason: reason.substring(0, 200)
+  });
+
+  if (error) {
+    logger.error(`释放任务${taskId}预留点数失败: ${error.message}`);
+    return false;
+  }
+
+  if (data === true) {
+    logger.info(`已释放任务${taskId}预留的点数: ${reason}`);
+  }
+  return data === true;
+}
+
+/**
+ * 对账：返回余额与账本记录之和不一致的用户
+ */
+export async function reconcileCreditLedger(userId?: string): Promise<CreditLedgerMismatch[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('reconcile_credit_ledger', {
+    p_user_id: userId || null
+  });
+
+  if (error) {
+    throw new Error(`点数对账失败: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    userId: row.user_id,
+    balance: row.balance,
+    ledgerTotal: Number(row.ledger_total),
+    difference: Number(row.difference)
+  }));
+}
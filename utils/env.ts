@@ -2,6 +2,7 @@
  * 环境变量管理工具
  * 提供统一的环境变量获取和验证方法
  */
+import type { ImageProviderId } from '@/utils/imageProviders/types';
 
 /**
  * 安全获取环境变量
@@ -110,63 +111,91 @@ export function getApiConfig(type: 'security' | 'tuzi' | 'all' = 'security'): Se
   };
 }
 
+/**
+ * OpenAI官方API配置接口
+ */
+export interface OfficialOpenAIConfig {
+  apiKey: string;
+  apiUrl: string;
+  model: string;
+  editModel: string;
+  isConfigComplete: boolean;
+}
+
 /**
  * 获取OpenAI官方API配置
+ * 官方API使用独立的密钥，避免与兔子API共用的OPENAI_API_KEY混淆；
+ * 只有设置了OPENAI_OFFICIAL_API_KEY才视为已配置，不会把兔子API的密钥发往官方地址
  * @returns OpenAI配置对象
  */
-export function getOfficialOpenAIConfig() {
-  const apiKey = getEnv('OPENAI_API_KEY');
+export function getOfficialOpenAIConfig(): OfficialOpenAIConfig {
+  const apiKey = getEnv('OPENAI_OFFICIAL_API_KEY');
   
   // 检查必要的环境变量是否存在
   const isConfigComplete = !!apiKey;
   
   return {
     apiKey,
+    apiUrl: getEnv('OPENAI_OFFICIAL_BASE_URL', 'https://api.openai.com/v1'),
+    model: getEnv('OPENAI_OFFICIAL_IMAGE_MODEL', 'dall-e-3'),
+    editModel: getEnv('OPENAI_OFFICIAL_EDIT_MODEL', 'gpt-image-1'),
     isConfigComplete
   };
 }
 
 /**
  * 获取API偏好设置
+ * IMAGE_PROVIDER 可显式指定 tuzi / openai / mock，
+ * 未指定时沿用 USE_TUZI_API 与配置完整性判断
  * @returns API偏好配置对象
  */
-export function getApiPreference() {
+export function getApiPreference(): {
+  preferredProvider: ImageProviderId;
+  preferTuzi: boolean;
+  tuziConfigComplete: boolean;
+  openaiConfigComplete: boolean;
+} {
   // 默认优先使用官方API，如果设置了USE_TUZI_API=true则使用TUZI
   const useTuziApi = getEnv('USE_TUZI_API', 'false').toLowerCase() === 'true';
+  const explicitProvider = getEnv('IMAGE_PROVIDER').toLowerCase();
   
   // 检查两种API配置是否完整
   const tuziConfig = getApiConfig('tuzi') as TuziConfig;
   const openaiConfig = getOfficialOpenAIConfig();
+  const configState = {
+    tuziConfigComplete: tuziConfig.isConfigComplete,
+    openaiConfigComplete: openaiConfig.isConfigComplete
+  };
   
-  // 如果用户指定了TUZI API且配置完整，则使用TUZI
-  if (useTuziApi && tuziConfig.isConfigComplete) {
+  // 显式指定的提供商优先（mock无需任何配置）
+  if (explicitProvider === 'mock' ||
+      (explicitProvider === 'tuzi' && tuziConfig.isConfigComplete) ||
+      (explicitProvider === 'openai' && openaiConfig.isConfigComplete)) {
     return {
-      preferTuzi: true,
-      tuziConfigComplete: tuziConfig.isConfigComplete,
-      openaiConfigComplete: openaiConfig.isConfigComplete
+      preferredProvider: explicitProvider as ImageProviderId,
+      preferTuzi: explicitProvider === 'tuzi',
+      ...configState
     };
   }
   
+  // 如果用户指定了TUZI API且配置完整，则使用TUZI
+  if (useTuziApi && tuziConfig.isConfigComplete) {
+    return { preferredProvider: 'tuzi', preferTuzi: true, ...configState };
+  }
+  
   // 如果OpenAI官方API配置完整，优先使用官方API
   if (openaiConfig.isConfigComplete) {
-    return {
-      preferTuzi: false,
-      tuziConfigComplete: tuziConfig.isConfigComplete,
-      openaiConfigComplete: openaiConfig.isConfigComplete
-    };
+    return { preferredProvider: 'openai', preferTuzi: false, ...configState };
   }
   
   // 如果官方API不完整但TUZI配置完整，则使用TUZI
   if (tuziConfig.isConfigComplete) {
-    return {
-      preferTuzi: true,
-      tuziConfigComplete: tuziConfig.isConfigComplete,
-      openaiConfigComplete: openaiConfig.isConfigComplete
-    };
+    return { preferredProvider: 'tuzi', preferTuzi: true, ...configState };
   }
   
   // 两种配置都不完整，返回默认值
   return {
+    preferredProvider: 'tuzi',
     preferTuzi: false,
     tuziConfigComplete: false,
     openaiConfigComplete: false
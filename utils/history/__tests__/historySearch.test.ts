@@ -0,0 +1,48 @@
+import { tokenizeSearchQuery } from '../historySearch';
+
+jest.mock('@/utils/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+jest.mock('@/utils/logger', () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })
+}));
+
+describe('tokenizeSearchQuery', () => {
+  it('should return no terms for an empty query', () => {
+    expect(tokenizeSearchQuery('')).toEqual([]);
+    expect(tokenizeSearchQuery('  ，。 ')).toEqual([]);
+  });
+
+  it('should split Chinese text into words and drop single character stop words', () => {
+    expect(tokenizeSearchQuery('一只猫在树下')).toEqual(['一只', '猫', '树']);
+  });
+
+  it('should lowercase, drop punctuation and deduplicate', () => {
+    expect(tokenizeSearchQuery('A Cat, a CAT! Cyberpunk 2077')).toEqual(['a', 'cat', 'cyberpunk', '2077']);
+    expect(tokenizeSearchQuery('猫 猫 猫的 照片')).toEqual(['猫', '照片']);
+  });
+
+  it('should keep at most eight terms', () => {
+    expect(tokenizeSearchQuery('a b c d e f g h i j')).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']);
+  });
+
+  describe('without Intl.Segmenter', () => {
+    const segmenter = Object.getOwnPropertyDescriptor(Intl, 'Segmenter');
+
+    beforeEach(() => {
+      delete (Intl as { Segmenter?: unknown }).Segmenter;
+    });
+
+    afterEach(() => {
+      if (segmenter) {
+        Object.defineProperty(Intl, 'Segmenter', segmenter);
+      }
+    });
+
+    it('should treat runs of Chinese text as single terms', () => {
+      expect(tokenizeSearchQuery('赛博朋克，城市夜景 Neon')).toEqual(['赛博朋克', '城市夜景', 'neon']);
+    });
+
+    it('should still drop single character stop words', () => {
+      expect(tokenizeSearchQuery('猫 的 狗')).toEqual(['猫', '狗']);
+    });
+  });
+});
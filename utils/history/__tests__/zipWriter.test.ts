@@ -0,0 +1,103 @@
+import { crc32, ZipWriter } from '../zipWriter';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
+
+// 按中央目录读取条目，并对照本地文件头取出数据
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  const directorySize = view.getUint32(end + 12, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  expect(directoryOffset + directorySize).toBe(end);
+
+  const entries = [];
+  let position = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(zip.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint16(offset + 6, true)).toBe(0x0800);
+    expect(view.getUint16(offset + 8, true)).toBe(0);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    expect(view.getUint16(offset + 26, true)).toBe(nameLength);
+    const dataStart = offset + 30 + nameLength;
+
+    entries.push({ name, crc, data: zip.subarray(dataStart, dataStart + size) });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('should match the standard check values', () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+});
+
+describe('ZipWriter', () => {
+  it('should write local headers, central directory and end record for every file', () => {
+    const writer = new ZipWriter();
+    const files: Array<[string, string]> = [
+      ['manifest.json', '{"count":2}'],
+      ['images/001-一只猫.png', 'png-data'],
+      ['images/002.webp', '']
+    ];
+
+    const zip = concat([
+      ...files.map(([name, content]) => writer.addFile(name, encoder.encode(content), new Date(2026, 0, 2, 3, 4, 6))),
+      writer.finish()
+    ]);
+
+    const entries = readZip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(files.map(([name]) => name));
+    entries.forEach((entry, index) => {
+      expect(decoder.decode(entry.data)).toBe(files[index][1]);
+      expect(entry.crc).toBe(crc32(encoder.encode(files[index][1])));
+    });
+  });
+
+  it('should encode the modification time in DOS format', () => {
+    const writer = new ZipWriter();
+    const chunk = writer.addFile('a.txt', encoder.encode('a'), new Date(2026, 0, 2, 3, 4, 6));
+    const view = new DataView(chunk.buffer);
+
+    expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+    expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (1 << 5) | 2);
+  });
+
+  it('should write an empty archive', () => {
+    const zip = new ZipWriter().finish();
+
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+
+  it('should reject duplicate file names', () => {
+    const writer = new ZipWriter();
+    writer.addFile('a.png', new Uint8Array([1]));
+
+    expect(() => writer.addFile('a.png', new Uint8Array([2]))).toThrow('ZIP中已存在同名文件: a.png');
+  });
+});
@@ -0,0 +1,542 @@
+/**
+ * 生成历史批量导出
+ * 导出包含原图和 manifest.json / manifest.csv（提示词、风格、比例、模型、创建时间）。
+ * 少量图片直接流式输出ZIP；大批量导出创建后台任务，由定时任务分卷打包上传到私有存储桶，
+ * 完成后通过签名链接下载，见 sql/migrations/20261103_history_exports.sql
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { BucketType, getBucketConfig } from '@/utils/storage/storageConfig';
+import { getStorageBackend } from '@/utils/storage/backends';
+import {
+  HISTORY_ITEM_COLUMNS,
+  HistorySearchItem,
+  MAX_HISTORY_PAGE_SIZE,
+  normalizeHistoryImageUrl,
+  searchImageHistory
+} from '@/utils/history/historySearch';
+import { ZipWriter } from '@/utils/history/zipWriter';
+
+const logger = createLogger('历史导出');
+
+// 不超过该数量时直接下载，否则创建后台任务
+export const STREAM_EXPORT_LIMIT = 50;
+export const MAX_EXPORT_ITEMS = 1000;
+// 后台导出每个分卷包含的图片数
+export const EXPORT_PART_SIZE = 100;
+export const EXPORT_RETENTION_DAYS = 7;
+// 每个用户同时进行的后台导出数
+const MAX_ACTIVE_EXPORTS = 2;
+const DOWNLOAD_LINK_TTL_SECONDS = 60 * 60;
+const EXPORT_LOCK_MINUTES = 5;
+const IMAGE_FETCH_TIMEOUT_MS = 30 * 1000;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+export type HistoryExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface HistoryExportSelection {
+  ids?: number[];
+  q?: string;
+  style?: string;
+  aspectRatio?: string;
+  model?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface HistoryExportPart {
+  path: string;
+  size: number;
+  count: number;
+}
+
+export interface HistoryExport {
+  id: string;
+  status: HistoryExportStatus;
+  selection: HistoryExportSelection;
+  total_count: number;
+  processed_count: number;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  // 已完成时的分卷下载链接
+  downloads: Array<{ url: string; filename: string; size: number; count: number }>;
+}
+
+interface ManifestEntry {
+  file: string | null;
+  id: number;
+  prompt: string | null;
+  style: string | null;
+  aspect_ratio: string | null;
+  model: string | null;
+  created_at: string;
+  image_url: string;
+  error?: string;
+}
+
+export class HistoryExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryExportError';
+  }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * 解析导出条件
+ * ids 可以是数组或逗号分隔的字符串；不传 ids 时按筛选条件导出，全部为空表示导出全部历史
+ */
+export function parseExportSelection(input: Record<string, unknown>): HistoryExportSelection {
+  const rawIds = typeof input.ids === 'string' ? input.ids.split(',') : input.ids;
+  if (rawIds !== undefined && rawIds !== null && rawIds !== '') {
+    if (!Array.isArray(rawIds) || rawIds.length === 0) {
+      throw new HistoryExportError('请选择要导出的图片');
+    }
+    if (rawIds.length > MAX_EXPORT_ITEMS) {
+      throw new HistoryExportError(`单次最多导出${MAX_EXPORT_ITEMS}张图片`);
+    }
+    const ids = rawIds.map(id => Number(id));
+    if (ids.some(id => !Number.isInteger(id) || id <= 0)) {
+      throw new HistoryExportError('图片ID无效');
+    }
+    return { ids: Array.from(new Set(ids)) };
+  }
+
+  return {
+    q: optionalString(input.q),
+    style: optionalString(input.style),
+    aspectRatio: optionalString(input.aspect_ratio ?? input.aspectRatio),
+    model: optionalString(input.model),
+    from: optionalString(input.from),
+    to: optionalString(input.to)
+  };
+}
+
+/**
+ * 按导出条件查询图片，按创建时间倒序
+ */
+export async function resolveExportItems(userId: string, selection: HistoryExportSelection): Promise<HistorySearchItem[]> {
+  if (selection.ids) {
+    return fetchHistoryItems(userId, selection.ids);
+  }
+
+  // 复用历史搜索的筛选逻辑，逐页读取
+  const items: HistorySearchItem[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await searchImageHistory(userId, { ...selection, cursor, limit: MAX_HISTORY_PAGE_SIZE });
+    items.push(...page.items);
+    if (items.length > MAX_EXPORT_ITEMS) {
+      throw new HistoryExportError(`单次最多导出${MAX_EXPORT_ITEMS}张图片，请缩小时间范围或筛选条件`);
+    }
+    cursor = page.nextCursor || undefined;
+  } while (cursor);
+
+  return items;
+}
+
+// 查询指定ID的图片，已删除或不属于该用户的会被忽略
+async function fetchHistoryItems(userId: string, ids: number[]): Promise<HistorySearchItem[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('ai_images_creator_history')
+    .select(HISTORY_ITEM_COLUMNS)
+    .eq('user_id', userId)
+    .in('id', ids)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (error) {
+    throw new Error(`查询历史记录失败: ${error.message}`);
+  }
+
+  return ((data || []) as HistorySearchItem[]).map(item => ({
+    ...item,
+    image_url: normalizeHistoryImageUrl(item.image_url)
+  }));
+}
+
+async function fetchImage(url: string): Promise<{ data: Uint8Array; extension: string }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), IMAGE_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { cache: 'no-store', signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    const data = new Uint8Array(await response.arrayBuffer());
+    return { data, extension: IMAGE_EXTENSIONS[contentType] || 'png' };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function toCsv(entries: ManifestEntry[]): string {
+  const columns: Array<keyof ManifestEntry> = ['file', 'id', 'prompt', 'style', 'aspect_ratio', 'model', 'created_at', 'image_url', 'error'];
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.join(',')];
+  for (const entry of entries) {
+    lines.push(columns.map(column => escape(entry[column])).join(','));
+  }
+  // 带BOM，Excel 打开中文不乱码
+  return String.fromCharCode(0xfeff) + lines.join('\r\n');
+}
+
+/**
+ * 逐个下载图片并输出ZIP数据块，下载失败的图片在清单中记录错误
+ * @param startIndex 文件序号起点，分卷导出时保证文件名不重复
+ */
+async function* generateExportZip(items: HistorySearchItem[], startIndex = 0): AsyncGenerator<Uint8Array> {
+  const zip = new ZipWriter();
+  const encoder = new TextEncoder();
+  const manifest: ManifestEntry[] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const entry: ManifestEntry = {
+      file: null,
+      id: item.id,
+      prompt: item.prompt,
+      style: item.style,
+      aspect_ratio: item.aspect_ratio,
+      model: item.model_used,
+      created_at: item.created_at,
+      image_url: item.image_url
+    };
+
+    try {
+      const { data, extension } = await fetchImage(item.image_url);
+      const file = `images/${String(startIndex + i + 1).padStart(4, '0')}-${item.id}.${extension}`;
+      yield zip.addFile(file, data, new Date(item.created_at));
+      entry.file = file;
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error);
+      logger.warn(`导出图片 ${item.id} 失败: ${entry.error}`);
+    }
+    manifest.push(entry);
+  }
+
+  yield zip.addFile('manifest.json', encoder.encode(JSON.stringify(manifest, null, 2)));
+  yield zip.addFile('manifest.csv', encoder.encode(toCsv(manifest)));
+  yield zip.finish();
+}
+
+/**
+ * 以流的形式输出导出ZIP，用于直接下载
+ */
+export function createExportZipStream(items: HistorySearchItem[]): ReadableStream<Uint8Array> {
+  const iterator = generateExportZip(items);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    }
+  });
+}
+
+async function buildExportZip(items: HistorySearchItem[], startIndex: number): Promise<Buffer> {
+  const chunks: Uint8Array[] = [];
+  const iterator = generateExportZip(items, startIndex);
+  for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+    chunks.push(result.value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * 导出文件名，如 history-export-20261019.zip，多分卷时带序号
+ */
+export function getExportFilename(createdAt: string, part?: number): string {
+  const date = createdAt.slice(0, 10).replace(/-/g, '');
+  return part ? `history-export-${date}-part${part}.zip` : `history-export-${date}.zip`;
+}
+
+async function toHistoryExport(row: any): Promise<HistoryExport> {
+  const parts: HistoryExportPart[] = row.parts || [];
+  let downloads: HistoryExport['downloads'] = [];
+
+  if (row.status === 'completed' && parts.length > 0) {
+    const bucket = getBucketConfig(BucketType.EXPORTS).name;
+    const backend = getStorageBackend(BucketType.EXPORTS);
+    downloads = await Promise.all(parts.map(async (part, index) => {
+      const filename = getExportFilename(row.created_at, parts.length > 1 ? index + 1 : undefined);
+      let url = '';
+      try {
+        url = await backend.createSignedUrl(bucket, part.path, DOWNLOAD_LINK_TTL_SECONDS, { download: filename });
+      } catch (signError) {
+        logger.warn(`生成导出 ${row.id} 的下载链接失败: ${signError instanceof Error ? signError.message : String(signError)}`);
+      }
+      return { url, filename, size: part.size, count: part.count };
+    }));
+  }
+
+  return {
+    id: row.id,
+    status: row.status,
+    selection: row.selection || {},
+    total_count: row.total_count,
+    processed_count: row.processed_count,
+    error: row.error,
+    created_at: row.created_at,
+    completed_at: row.completed_at,
+    expires_at: row.expires_at,
+    downloads
+  };
+}
+
+const EXPORT_COLUMNS = 'id, status, selection, total_count, processed_count, parts, error, created_at, completed_at, expires_at';
+
+/**
+ * 创建后台导出任务，图片列表在创建时确定
+ */
+export async function createHistoryExport(
+  userId: string,
+  selection: HistoryExportSelection,
+  items: HistorySearchItem[]
+): Promise<HistoryExport> {
+  if (items.length === 0) {
+    throw new HistoryExportError('没有符合条件的图片');
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { count } = await supabaseAdmin
+    .from('history_exports')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ['pending', 'processing']);
+
+  if ((count || 0) >= MAX_ACTIVE_EXPORTS) {
+    throw new HistoryExportError('已有导出任务正在进行，请等待完成后再试');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('history_exports')
+    .insert({
+      user_id: userId,
+      selection,
+      history_ids: items.map(item => item.id),
+      total_count: items.length
+    })
+    .select(EXPORT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`创建导出任务失败: ${error?.message || '未返回数据'}`);
+  }
+
+  logger.info(`用户${userId}创建了导出任务${data.id}，共${items.length}张图片`);
+  return toHistoryExport(data);
+}
+
+/**
+ * 用户最近的导出任务
+ */
+export async function listHistoryExports(userId: string): Promise<HistoryExport[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('history_exports')
+    .select(EXPORT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    throw new Error(`查询导出任务失败: ${error.message}`);
+  }
+
+  return Promise.all((data || []).map(toHistoryExport));
+}
+
+/**
+ * 查询单个导出任务，不存在或不属于该用户时返回null
+ */
+export async function getHistoryExport(userId: string, exportId: string): Promise<HistoryExport | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('history_exports')
+    .select(EXPORT_COLUMNS)
+    .eq('id', exportId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`查询导出任务失败: ${error.message}`);
+  }
+  return data ? toHistoryExport(data) : null;
+}
+
+/**
+ * 打包并上传导出任务的下一个分卷
+ */
+async function processNextPart(row: any): Promise<HistoryExportStatus> {
+  const supabaseAdmin = createAdminClient();
+  const parts: HistoryExportPart[] = row.parts || [];
+  const offset: number = row.processed_count;
+  const ids: number[] = (row.history_ids || []).slice(offset, offset + EXPORT_PART_SIZE).map(Number);
+
+  // 保持创建时的顺序
+  const found = await fetchHistoryItems(row.user_id, ids);
+  const byId = new Map(found.map(item => [Number(item.id), item]));
+  const items = ids.map(id => byId.get(id)).filter((item): item is HistorySearchItem => !!item);
+
+  if (items.length > 0) {
+    const buffer = await buildExportZip(items, offset);
+    const path = `${row.user_id}/${row.id}/part-${parts.length + 1}.zip`;
+    try {
+      await getStorageBackend(BucketType.EXPORTS).put(getBucketConfig(BucketType.EXPORTS).name, path, buffer, {
+        contentType: 'application/zip',
+        upsert: true
+      });
+    } catch (uploadError) {
+      throw new Error(`上传导出文件失败: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`);
+    }
+    parts.push({ path, size: buffer.length, count: items.length });
+  }
+
+  const processedCount = offset + ids.length;
+  const finished = processedCount >= row.total_count;
+  const now = new Date();
+  const status: HistoryExportStatus = !finished ? 'processing' : parts.length > 0 ? 'completed' : 'failed';
+
+  const { error } = await supabaseAdmin
+    .from('history_exports')
+    .update({
+      status,
+      parts,
+      processed_count: processedCount,
+      error: status === 'failed' ? '图片均已删除，没有可导出的内容' : null,
+      locked_until: null,
+      updated_at: now.toISOString(),
+      ...(finished ? {
+        completed_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      } : {})
+    })
+    .eq('id', row.id);
+
+  if (error) {
+    throw new Error(`更新导出任务失败: ${error.message}`);
+  }
+  return status;
+}
+
+/**
+ * 处理等待中的导出任务，每个任务每次只打包一个分卷
+ * @param maxExports 本次最多处理的任务数
+ */
+export async function processPendingExports(maxExports = 3): Promise<{ processed: number; completed: number; failed: number }> {
+  const supabaseAdmin = createAdminClient();
+  const now = new Date();
+  const result = { processed: 0, completed: 0, failed: 0 };
+
+  const { data: candidates, error } = await supabaseAdmin
+    .from('history_exports')
+    .select('id')
+    .in('status', ['pending', 'processing'])
+    .or(`locked_until.is.null,locked_until.lt."${now.toISOString()}"`)
+    .order('created_at', { ascending: true })
+    .limit(maxExports);
+
+  if (error) {
+    throw new Error(`查询导出任务失败: ${error.message}`);
+  }
+
+  for (const candidate of candidates || []) {
+    // 加锁，其他定时任务实例会跳过该任务
+    const { data: claimed } = await supabaseAdmin
+      .from('history_exports')
+      .update({
+        status: 'processing',
+        locked_until: new Date(now.getTime() + EXPORT_LOCK_MINUTES * 60 * 1000).toISOString()
+      })
+      .eq('id', candidate.id)
+      .in('status', ['pending', 'processing'])
+      .or(`locked_until.is.null,locked_until.lt."${now.toISOString()}"`)
+      .select('id, user_id, status, history_ids, total_count, processed_count, parts')
+      .maybeSingle();
+
+    if (!claimed) continue;
+
+    result.processed++;
+    try {
+      const status = await processNextPart(claimed);
+      if (status === 'completed') result.completed++;
+      if (status === 'failed') result.failed++;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      logger.error(`处理导出任务 ${claimed.id} 失败: ${message}`);
+      result.failed++;
+      await supabaseAdmin
+        .from('history_exports')
+        .update({ status: 'failed', error: message, locked_until: null, updated_at: new Date().toISOString() })
+        .eq('id', claimed.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 删除过期导出的文件，任务记录保留为 expired
+ */
+export async function purgeExpiredExports(): Promise<number> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('history_exports')
+    .select('id, parts')
+    .eq('status', 'completed')
+    .lt('expires_at', new Date().toISOString())
+    .limit(50);
+
+  if (error) {
+    throw new Error(`查询过期导出失败: ${error.message}`);
+  }
+
+  let purged = 0;
+  for (const row of data || []) {
+    const paths = ((row.parts || []) as HistoryExportPart[]).map(part => part.path);
+    if (paths.length > 0) {
+      try {
+        await getStorageBackend(BucketType.EXPORTS).delete(getBucketConfig(BucketType.EXPORTS).name, paths);
+      } catch (removeError) {
+        logger.warn(`删除导出 ${row.id} 的文件失败: ${removeError instanceof Error ? removeError.message : String(removeError)}`);
+        continue;
+      }
+    }
+
+    await supabaseAdmin
+      .from('history_exports')
+      .update({ status: 'expired', parts: [], updated_at: new Date().toISOString() })
+      .eq('id', row.id);
+    purged++;
+  }
+
+  return purged;
+}
@@ -0,0 +1,75 @@
+/**
+ * 历史记录重新创作（Remix）
+ * 把一条历史记录的提示词、风格、比例和参考图还原到创作页。
+ * 历史表没有保存参考图，通过同一用户、同一结果图地址的生成任务找回 input_image_url
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { normalizeHistoryImageUrl } from './historySearch';
+
+const logger = createLogger('历史重新创作');
+
+export interface HistoryRemixSource {
+  historyId: number;
+  prompt: string;
+  style: string | null;
+  aspectRatio: string | null;
+  standardAspectRatio: string | null;
+  // 原任务的参考图，纯文字生成或旧记录找不到任务时为null
+  inputImageUrl: string | null;
+  // 本条记录的生成结果，用作"以此图继续编辑"的参考图
+  outputImageUrl: string;
+}
+
+/**
+ * 查找原生成任务的参考图
+ * 任务完成后 image_url 与历史记录一致，图片持久化时两边会同步更新
+ */
+async function findInputImageUrl(userId: string, imageUrl: string): Promise<string | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_tasks')
+    .select('input_image_url')
+    .eq('user_id', userId)
+    .eq('image_url', imageUrl)
+    .not('input_image_url', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn(`查询原任务参考图失败: ${error.message}`);
+    return null;
+  }
+  return data?.input_image_url || null;
+}
+
+/**
+ * 获取重新创作所需的参数，记录不存在或不属于该用户时返回null
+ */
+export async function getHistoryRemixSource(userId: string, historyId: number): Promise<HistoryRemixSource | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('ai_images_creator_history')
+    .select('id, image_url, prompt, style, aspect_ratio, standard_aspect_ratio')
+    .eq('id', historyId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`查询历史记录失败: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  return {
+    historyId: data.id,
+    prompt: data.prompt || '',
+    style: data.style || null,
+    aspectRatio: data.aspect_ratio || null,
+    standardAspectRatio: data.standard_aspect_ratio || null,
+    inputImageUrl: await findInputImageUrl(userId, data.image_url),
+    outputImageUrl: normalizeHistoryImageUrl(data.image_url)
+  };
+}
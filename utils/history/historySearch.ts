@@ -0,0 +1,260 @@
+/**
+ * 生成历史搜索
+ * 支持提示词全文、风格、比例、模型和时间范围筛选，按 (created_at, id) 倒序游标分页。
+ * 中文提示词没有空格，查询词先用 Intl.Segmenter 分词，再逐词做不区分大小写的子串匹配（AND）
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('历史搜索');
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 24;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+// 查询最多使用的分词数，避免过长的查询生成大量条件
+const MAX_SEARCH_TERMS = 8;
+
+// 单字虚词不参与匹配，"一只猫在树下" 只匹配 一只/猫/树
+const CJK_STOP_WORDS = new Set(['的', '了', '在', '和', '与', '及', '是', '个', '把', '被', '着', '地', '得', '之', '下', '上', '中']);
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+// 搜索和导出返回的历史记录字段
+export const HISTORY_ITEM_COLUMNS = 'id, image_url, prompt, style, aspect_ratio, model_used, status, created_at';
+
+export interface HistorySearchParams {
+  q?: string;
+  style?: string;
+  aspectRatio?: string;
+  model?: string;
+  // ISO 日期或时间，from 包含，to 不包含；to 只有日期时包含当天
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface HistorySearchItem {
+  id: number;
+  image_url: string;
+  prompt: string | null;
+  style: string | null;
+  aspect_ratio: string | null;
+  model_used: string | null;
+  status: string | null;
+  created_at: string;
+}
+
+export interface HistorySearchResult {
+  items: HistorySearchItem[];
+  nextCursor: string | null;
+  terms: string[];
+}
+
+export interface HistoryFacets {
+  styles: Array<{ value: string; count: number }>;
+  aspectRatios: Array<{ value: string; count: number }>;
+  models: Array<{ value: string; count: number }>;
+}
+
+export class HistorySearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistorySearchError';
+  }
+}
+
+/**
+ * 把查询拆分为匹配词
+ * 中文按词切分并去掉单字虚词，英文和数字按单词切分，结果去重
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+  const text = query.trim().toLowerCase();
+  if (!text) return [];
+
+  let words: string[];
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter('zh', { granularity: 'word' });
+    words = Array.from(segmenter.segment(text))
+      .filter(segment => segment.isWordLike)
+      .map(segment => segment.segment);
+  } else {
+    // 不支持分词时，连续的中文作为一个词
+    words = text.split(/[\s,，。.!！?？;；:："'“”‘’()（）\[\]【】]+/);
+  }
+
+  const terms: string[] = [];
+  for (const word of words) {
+    const term = word.trim();
+    if (!term || terms.includes(term)) continue;
+    if (term.length === 1 && CJK_PATTERN.test(term) && CJK_STOP_WORDS.has(term)) continue;
+    terms.push(term);
+  }
+
+  return terms.slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * 游标编码最后一条记录的 (created_at, id)
+ */
+export function encodeHistoryCursor(item: Pick<HistorySearchItem, 'created_at' | 'id'>): string {
+  return Buffer.from(`${item.created_at}|${item.id}`).toString('base64url');
+}
+
+function decodeHistoryCursor(cursor: string): { createdAt: string; id: number } {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  if (!createdAt || isNaN(Date.parse(createdAt)) || !/^\d+$/.test(id || '')) {
+    throw new HistorySearchError('无效的分页游标');
+  }
+  return { createdAt, id: Number(id) };
+}
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 解析日期参数
+ * @param endOfDay 只有日期时取次日零点，使结束日期包含当天
+ */
+function parseDate(value: string | undefined, field: string, endOfDay = false): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new HistorySearchError(`${field}格式无效`);
+  }
+  const date = new Date(time);
+  if (endOfDay && DATE_ONLY_PATTERN.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString();
+}
+
+// 转义 LIKE 通配符
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * 从URL查询参数解析搜索条件
+ */
+export function parseHistorySearchParams(searchParams: URLSearchParams): HistorySearchParams {
+  const limit = parseInt(searchParams.get('limit') || '', 10);
+  return {
+    q: searchParams.get('q') || undefined,
+    style: searchParams.get('style') || undefined,
+    aspectRatio: searchParams.get('aspect_ratio') || undefined,
+    model: searchParams.get('model') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    cursor: searchParams.get('cursor') || undefined,
+    limit: isNaN(limit) ? undefined : limit
+  };
+}
+
+/**
+ * 搜索用户的生成历史
+ */
+export async function searchImageHistory(
+  userId: string,
+  params: HistorySearchParams
+): Promise<HistorySearchResult> {
+  const limit = Math.min(Math.max(params.limit || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+  const terms = tokenizeSearchQuery((params.q || '').slice(0, 200));
+  const from = parseDate(params.from, '开始日期');
+  const to = parseDate(params.to, '结束日期', true);
+  const cursor = params.cursor ? decodeHistoryCursor(params.cursor) : null;
+
+  const supabaseAdmin = createAdminClient();
+  let query = supabaseAdmin
+    .from('ai_images_creator_history')
+    .select(HISTORY_ITEM_COLUMNS)
+    .eq('user_id', userId);
+
+  for (const term of terms) {
+    query = query.ilike('prompt', `%${escapeLike(term)}%`);
+  }
+  if (params.style) query = query.eq('style', params.style);
+  if (params.aspectRatio) query = query.eq('aspect_ratio', params.aspectRatio);
+  if (params.model) query = query.eq('model_used', params.model);
+  if (from) query = query.gte('created_at', from);
+  if (to) query = query.lt('created_at', to);
+
+  if (cursor) {
+    query = query.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+    );
+  }
+
+  // 多取一条判断是否还有下一页
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    logger.error(`搜索用户 ${userId} 的历史记录失败: ${error.message}`);
+    throw new Error('搜索历史记录失败');
+  }
+
+  const rows = (data || []) as HistorySearchItem[];
+  const items = rows.slice(0, limit).map(item => ({
+    ...item,
+    image_url: normalizeHistoryImageUrl(item.image_url)
+  }));
+
+  return {
+    items,
+    nextCursor: rows.length > limit ? encodeHistoryCursor(items[items.length - 1]) : null,
+    terms
+  };
+}
+
+/**
+ * 用户历史中出现过的风格、比例和模型，用于筛选项
+ */
+export async function getHistoryFacets(userId: string): Promise<HistoryFacets> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('get_history_facets', { p_user_id: userId });
+
+  if (error) {
+    logger.error(`查询用户 ${userId} 的历史筛选项失败: ${error.message}`);
+    throw new Error('查询筛选项失败');
+  }
+
+  const facets: HistoryFacets = { styles: [], aspectRatios: [], models: [] };
+  for (const row of (data || []) as Array<{ facet: string; value: string; count: number }>) {
+    const entry = { value: row.value, count: Number(row.count) };
+    if (row.facet === 'style') facets.styles.push(entry);
+    else if (row.facet === 'aspect_ratio') facets.aspectRatios.push(entry);
+    else if (row.facet === 'model') facets.models.push(entry);
+  }
+
+  const byCount = (a: { count: number }, b: { count: number }) => b.count - a.count;
+  facets.styles.sort(byCount);
+  facets.aspectRatios.sort(byCount);
+  facets.models.sort(byCount);
+  return facets;
+}
+
+/**
+ * 规范化历史记录中的图片地址：去掉两端引号、补全协议
+ */
+export function normalizeHistoryImageUrl(url: string): string {
+  if (!url || typeof url !== 'string') return url;
+
+  let imageUrl = url.trim();
+  if ((imageUrl.startsWith('"') && imageUrl.endsWith('"')) ||
+      (imageUrl.startsWith("'") && imageUrl.endsWith("'"))) {
+    imageUrl = imageUrl.slice(1, -1);
+  }
+
+  if (!imageUrl.startsWith('http://') && !imageUrl.startsWith('https://')) {
+    imageUrl = `https://${imageUrl}`;
+  }
+
+  // filesystem.site 的地址末尾可能带有多余标点
+  if (imageUrl.includes('filesystem.site')) {
+    imageUrl = imageUrl.replace(/[.,;:!?)]$/, '');
+  }
+
+  return imageUrl;
+}
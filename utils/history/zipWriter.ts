@@ -0,0 +1,143 @@
+/**
+ * 极简ZIP写入器
+ * 只支持不压缩（STORE）的条目：导出的图片本身已是压缩格式，再压缩几乎没有收益。
+ * 条目逐个输出，调用方可以边下载边写入响应流；不支持ZIP64，总大小需小于4GB
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// 单个ZIP文件的上限（不使用ZIP64）
+export const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// 通用标志位11：文件名使用UTF-8编码
+const UTF8_FLAG = 0x0800;
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 转为DOS格式的日期和时间
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+  private names = new Set<string>();
+
+  /**
+   * 添加文件，返回需要写出的字节（本地文件头 + 数据）
+   */
+  addFile(name: string, data: Uint8Array, modifiedAt: Date = new Date()): Uint8Array {
+    if (this.names.has(name)) {
+      throw new Error(`ZIP中已存在同名文件: ${name}`);
+    }
+    if (this.entries.length >= MAX_ZIP_ENTRIES) {
+      throw new Error('ZIP文件数量超出上限');
+    }
+
+    const nameBytes = new TextEncoder().encode(name);
+    if (this.offset + 30 + nameBytes.length + data.length > MAX_ZIP_SIZE) {
+      throw new Error('ZIP文件大小超出上限');
+    }
+
+    const { time, date } = toDosDateTime(modifiedAt);
+    const crc = crc32(data);
+
+    const header = new Uint8Array(30 + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true);
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, nameBytes.length, true);
+    view.setUint16(28, 0, true);
+    header.set(nameBytes, 30);
+
+    this.entries.push({ name: nameBytes, crc, size: data.length, offset: this.offset, time, date });
+    this.names.add(name);
+    this.offset += header.length + data.length;
+
+    const chunk = new Uint8Array(header.length + data.length);
+    chunk.set(header, 0);
+    chunk.set(data, header.length);
+    return chunk;
+  }
+
+  /**
+   * 结束写入，返回中央目录和结束记录
+   */
+  finish(): Uint8Array {
+    const directorySize = this.entries.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+    const output = new Uint8Array(directorySize + 22);
+    const view = new DataView(output.buffer);
+    let position = 0;
+
+    for (const entry of this.entries) {
+      view.setUint32(position, 0x02014b50, true);
+      view.setUint16(position + 4, 20, true);
+      view.setUint16(position + 6, 20, true);
+      view.setUint16(position + 8, UTF8_FLAG, true);
+      view.setUint16(position + 10, 0, true);
+      view.setUint16(position + 12, entry.time, true);
+      view.setUint16(position + 14, entry.date, true);
+      view.setUint32(position + 16, entry.crc, true);
+      view.setUint32(position + 20, entry.size, true);
+      view.setUint32(position + 24, entry.size, true);
+      view.setUint16(position + 28, entry.name.length, true);
+      view.setUint16(position + 30, 0, true);
+      view.setUint16(position + 32, 0, true);
+      view.setUint16(position + 34, 0, true);
+      view.setUint16(position + 36, 0, true);
+      view.setUint32(position + 38, 0, true);
+      view.setUint32(position + 42, entry.offset, true);
+      output.set(entry.name, position + 46);
+      position += 46 + entry.name.length;
+    }
+
+    view.setUint32(position, 0x06054b50, true);
+    view.setUint16(position + 4, 0, true);
+    view.setUint16(position + 6, 0, true);
+    view.setUint16(position + 8, this.entries.length, true);
+    view.setUint16(position + 10, this.entries.length, true);
+    view.setUint32(position + 12, directorySize, true);
+    view.setUint32(position + 16, this.offset, true);
+    view.setUint16(position + 20, 0, true);
+
+    return output;
+  }
+}
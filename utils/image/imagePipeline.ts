@@ -0,0 +1,298 @@
+/**
+ * 图片处理流水线
+ * 保存生成结果和用户上传的图片前统一处理：按EXIF方向旋转后重新编码，去除EXIF/GPS等元数据；
+ * 再生成缩略图、中等尺寸和 WebP/AVIF 版本，上传到原图旁边，并在 image_assets 中记录尺寸、大小和格式
+ */
+import sharp from 'sharp';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { getStorageBackendForBucket } from '@/utils/storage/backends';
+import {
+  IMAGE_VARIANT_MIME_TYPES,
+  ImageAssetInfo,
+  ImageVariant,
+  ImageVariantFormat,
+  ImageVariantName
+} from './imageVariants';
+
+const logger = createLogger('图片处理');
+
+type ProcessedImageFormat = 'png' | 'jpeg' | 'webp';
+
+interface VariantSpec {
+  name: ImageVariantName;
+  // 目标宽度，null 表示保持原图尺寸
+  width: number | null;
+  formats: ImageVariantFormat[];
+}
+
+// 原图宽度不超过目标宽度时跳过该尺寸，不做放大
+const VARIANT_SPECS: VariantSpec[] = [
+  { name: 'thumb', width: 320, formats: ['webp', 'avif'] },
+  { name: 'medium', width: 1024, formats: ['webp', 'avif'] },
+  { name: 'full', width: null, formats: ['webp'] }
+];
+
+const WEBP_QUALITY = 82;
+const AVIF_QUALITY = 55;
+const JPEG_QUALITY = 90;
+
+const FORMAT_DETAILS: Record<ProcessedImageFormat, { mimeType: string; extension: string }> = {
+  png: { mimeType: 'image/png', extension: 'png' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  webp: { mimeType: 'image/webp', extension: 'webp' }
+};
+
+export interface ProcessedImageVariant {
+  name: ImageVariantName;
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface ProcessedImage {
+  // 去除元数据后的原图
+  data: Buffer;
+  format: ProcessedImageFormat;
+  mimeType: string;
+  extension: string;
+  width: number;
+  height: number;
+  variants: ProcessedImageVariant[];
+}
+
+export interface ProcessImageOptions {
+  // 是否生成衍生版本，临时图片只需去除元数据
+  variants?: boolean;
+}
+
+/**
+ * 处理图片：矫正方向、去除元数据，按需生成衍生版本
+ * 动图和无法识别的格式会抛出错误，调用方应退回保存原始数据
+ */
+export async function processImage(input: Buffer, options: ProcessImageOptions = {}): Promise<ProcessedImage> {
+  const metadata = await sharp(input).metadata();
+  if (!metadata.format || !metadata.width || !metadata.height) {
+    throw new Error('无法识别的图片格式');
+  }
+  if ((metadata.pages || 1) > 1) {
+    throw new Error('不处理多帧图片');
+  }
+
+  // JPEG 和 WebP 保持原格式，其他格式统一转为无损的 PNG
+  const format: ProcessedImageFormat =
+    metadata.format === 'jpeg' || metadata.format === 'webp' ? metadata.format : 'png';
+
+  // sharp 默认不输出元数据，rotate() 先按 EXIF 方向旋转，去掉方向信息后图片仍然是正的
+  let pipeline = sharp(input).rotate();
+  if (format === 'jpeg') {
+    pipeline = pipeline.jpeg({ quality: JPEG_QUALITY, mozjpeg: true });
+  } else if (format === 'webp') {
+    pipeline = pipeline.webp({ quality: WEBP_QUALITY });
+  } else {
+    pipeline = pipeline.png();
+  }
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+
+  const variants = options.variants === false
+    ? []
+    : await createVariants(data, info.width, format);
+
+  return {
+    data,
+    format,
+    ...FORMAT_DETAILS[format],
+    width: info.width,
+    height: info.height,
+    variants
+  };
+}
+
+async function createVariants(
+  source: Buffer,
+  width: number,
+  sourceFormat: ProcessedImageFormat
+): Promise<ProcessedImageVariant[]> {
+  const variants: ProcessedImageVariant[] = [];
+
+  for (const spec of VARIANT_SPECS) {
+    if (spec.width !== null && spec.width >= width) continue;
+
+    for (const format of spec.formats) {
+      // 原图本身就是 WebP 时不再生成同尺寸的 WebP
+      if (spec.width === null && format === sourceFormat) continue;
+
+      let pipeline = sharp(source);
+      if (spec.width !== null) {
+        pipeline = pipeline.resize({ width: spec.width, withoutEnlargement: true });
+      }
+      pipeline = format === 'avif'
+        ? pipeline.avif({ quality: AVIF_QUALITY })
+        : pipeline.webp({ quality: WEBP_QUALITY });
+
+      const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+      variants.push({
+        name: spec.name,
+        format,
+        width: info.width,
+        height: info.height,
+        data
+      });
+    }
+  }
+
+  return variants;
+}
+
+/**
+ * 处理图片，失败时记录警告并返回null，调用方继续保存原始数据
+ */
+export async function tryProcessImage(input: Buffer, options: ProcessImageOptions = {}): Promise<ProcessedImage | null> {
+  try {
+    const startTime = Date.now();
+    const processed = await processImage(input, options);
+    logger.info(
+      `图片处理完成: ${processed.width}x${processed.height} ${processed.format}, ` +
+      `${input.length} -> ${processed.data.length} 字节, ${processed.variants.length}个衍生版本, 耗时${Date.now() - startTime}ms`
+    );
+    return processed;
+  } catch (error) {
+    logger.warn(`图片处理失败，保存原始数据: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * 衍生版本的存储路径，与原图放在同一目录：a/b/123.png -> a/b/123.thumb.webp
+ */
+function getVariantPath(storagePath: string, name: ImageVariantName, format: ImageVariantFormat): string {
+  const base = storagePath.replace(/\.[^./]+$/, '');
+  return `${base}.${name}.${format}`;
+}
+
+/**
+ * 上传衍生版本并记录图片信息，衍生版本写入原图所在存储桶的存储后端
+ * 单个版本上传失败只跳过该版本，整个过程不抛出错误，不影响原图的保存
+ * @param url 原图的公共URL，历史记录按它关联
+ */
+export async function saveImageVariants(params: {
+  url: string;
+  userId: string | null;
+  bucket: string;
+  storagePath: string;
+  processed: ProcessedImage;
+}): Promise<ImageAssetInfo | null> {
+  const { url, userId, bucket, storagePath, processed } = params;
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const backend = getStorageBackendForBucket(bucket);
+    const variants: Array<ImageVariant & { path: string }> = [];
+
+    for (const variant of processed.variants) {
+      const path = getVariantPath(storagePath, variant.name, variant.format);
+      try {
+        await backend.put(bucket, path, variant.data, {
+          contentType: IMAGE_VARIANT_MIME_TYPES[variant.format],
+          cacheControlSeconds: 31536000,
+          upsert: true
+        });
+      } catch (uploadError) {
+        logger.warn(`上传衍生版本 ${variant.name}.${variant.format} 失败: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`);
+        continue;
+      }
+
+      const publicUrl = backend.getPublicUrl(bucket, path);
+      variants.push({
+        name: variant.name,
+        format: variant.format,
+        width: variant.width,
+        height: variant.height,
+        bytes: variant.data.length,
+        url: publicUrl,
+        path
+      });
+    }
+
+    const asset: ImageAssetInfo = {
+      width: processed.width,
+      height: processed.height,
+      bytes: processed.data.length,
+      format: processed.format,
+      variants
+    };
+
+    const { error } = await supabaseAdmin
+      .from('image_assets')
+      .upsert({
+        url,
+        user_id: userId,
+        bucket,
+        path: storagePath,
+        width: asset.width,
+        height: asset.height,
+        bytes: asset.bytes,
+        format: asset.format,
+        variants
+      }, { onConflict: 'url' });
+
+    if (error) {
+      logger.warn(`记录图片信息失败: ${error.message}`);
+    } else {
+      logger.info(`已保存${variants.length}个衍生版本: ${storagePath}`);
+    }
+
+    return asset;
+  } catch (error) {
+    logger.warn(`保存衍生版本失败: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * 按原图URL批量查询图片信息，没有记录的URL不在结果中
+ */
+export async function getImageAssets(urls: string[]): Promise<Map<string, ImageAssetInfo>> {
+  const assets = new Map<string, ImageAssetInfo>();
+  const uniqueUrls = Array.from(new Set(urls.filter(Boolean)));
+  if (uniqueUrls.length === 0) return assets;
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_assets')
+    .select('url, width, height, bytes, format, variants')
+    .in('url', uniqueUrls);
+
+  if (error) {
+    logger.warn(`查询图片信息失败: ${error.message}`);
+    return assets;
+  }
+
+  for (const row of data || []) {
+    assets.set(row.url, {
+      width: row.width,
+      height: row.height,
+      bytes: Number(row.bytes),
+      format: row.format,
+      variants: ((row.variants || []) as Array<ImageVariant & { path?: string }>).map(({ path, ...variant }) => variant)
+    });
+  }
+
+  return assets;
+}
+
+/**
+ * 为历史记录附加图片信息，前端据此通过 srcset 选择合适的版本
+ */
+export async function attachImageAssets<T extends { image_url: string }>(
+  items: T[]
+): Promise<Array<T & { asset?: ImageAssetInfo }>> {
+  const assets = await getImageAssets(items.map(item => item.image_url));
+  if (assets.size === 0) return items;
+
+  return items.map(item => {
+    const asset = assets.get(item.image_url);
+    return asset ? { ...item, asset } : item;
+  });
+}
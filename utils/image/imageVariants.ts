@@ -0,0 +1,50 @@
+/**
+ * 图片衍生版本
+ * 服务端处理流水线为保存的图片生成缩略图、中等尺寸和 WebP/AVIF 版本，
+ * 这里定义前后端共用的类型和 srcset 拼接方法，不依赖 sharp，可在客户端引入
+ */
+
+export type ImageVariantName = 'thumb' | 'medium' | 'full';
+
+export type ImageVariantFormat = 'webp' | 'avif';
+
+export interface ImageVariant {
+  name: ImageVariantName;
+  format: ImageVariantFormat;
+  width: number;
+  height: number;
+  bytes: number;
+  url: string;
+}
+
+/**
+ * 原图的尺寸、大小、格式和衍生版本
+ */
+export interface ImageAssetInfo {
+  width: number;
+  height: number;
+  bytes: number;
+  format: string;
+  variants: ImageVariant[];
+}
+
+export const IMAGE_VARIANT_MIME_TYPES: Record<ImageVariantFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+// 历史记录网格中单张图片的显示宽度，与页面的列数断点对应
+export const HISTORY_GRID_IMAGE_SIZES = '(min-width: 1280px) 320px, (min-width: 768px) 25vw, (min-width: 640px) 33vw, 50vw';
+
+/**
+ * 拼接指定格式的 srcset，按宽度从小到大排列，没有该格式的版本时返回空字符串
+ */
+export function buildImageSrcSet(variants: ImageVariant[] | undefined, format: ImageVariantFormat): string {
+  if (!variants || variants.length === 0) return '';
+
+  return variants
+    .filter(variant => variant.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map(variant => `${variant.url} ${variant.width}w`)
+    .join(', ');
+}
@@ -3,6 +3,9 @@
  * 将OpenAI等服务的临时URL转换为持久化URL
  */
 import { createAdminClient } from '@/utils/supabase/admin';
+import { saveImageVariants, tryProcessImage } from '@/utils/image/imagePipeline';
+import { getStorageBackend } from '@/utils/storage/backends';
+import { BucketType, getBucketConfig } from '@/utils/storage/storageConfig';
 
 // 日志工具
 const logger = {
@@ -35,7 +38,7 @@ export function isTemporaryUrl(url: string): boolean {
 }
 
 /**
- * 将图片URL转存到Supabase存储
+ * 将图片URL转存到图片存储桶
  */
 export async function persistImageUrl(
   imageUrl: string, 
@@ -51,11 +54,6 @@ export async function persistImageUrl(
 
     logger.info(`开始将临时URL转存为持久URL: ${imageUrl.substring(0, 50)}...`);
     
-    // 生成存储路径
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `${userId}/${taskId}-${timestamp}.png`;
-    const storagePath = `ai-images/${filename}`;
-    
     // 获取Supabase管理员客户端
     const supabase = createAdminClient();
     
@@ -66,28 +64,43 @@ export async function persistImageUrl(
       throw new Error(`获取图片数据失败: HTTP ${response.status}`);
     }
     
-    // 获取blob数据
-    const imageBlob = await response.blob();
+    const rawImage = Buffer.from(await response.arrayBuffer());
     
-    // 上传到Supabase存储
-    const { data, error } = await supabase.storage
-      .from('public')
-      .upload(storagePath, imageBlob, {
-        contentType: 'image/png',
+    // 去除元数据并生成衍生版本，处理失败时按PNG保存原始数据
+    const processed = await tryProcessImage(rawImage);
+    
+    // 生成存储路径
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filename = `${userId}/${taskId}-${timestamp}.${processed ? processed.extension : 'png'}`;
+    const storagePath = `ai-images/${filename}`;
+    
+    // 上传到图片存储桶
+    const bucket = getBucketConfig(BucketType.IMAGES).name;
+    const backend = getStorageBackend(BucketType.IMAGES);
+    try {
+      await backend.put(bucket, storagePath, processed ? processed.data : rawImage, {
+        contentType: processed ? processed.mimeType : 'image/png',
         upsert: true
       });
-    
-    if (error) {
-      throw new Error(`上传图片到存储失败: ${error.message}`);
+    } catch (uploadError) {
+      throw new Error(`上传图片到存储失败: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`);
     }
     
     // 获取公共URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('public')
-      .getPublicUrl(storagePath);
+    const publicUrl = backend.getPublicUrl(bucket, storagePath);
     
     logger.info(`图片已成功持久化，新URL: ${publicUrl}`);
     
+    if (processed) {
+      await saveImageVariants({
+        url: publicUrl,
+        userId,
+        bucket,
+        storagePath,
+        processed
+      });
+    }
+    
     // 更新数据库中的图片URL
     const { error: updateError } = await supabase
       .from('image_tasks')
@@ -0,0 +1,150 @@
+import { isProviderFailure, ProviderCircuitBreaker } from '../circuitBreaker';
+
+jest.mock('@/utils/logger', () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })
+}));
+
+describe('ProviderCircuitBreaker', () => {
+  let now: number;
+  let breaker: ProviderCircuitBreaker;
+
+  beforeEach(() => {
+    // 固定当前时间，便于推进统计窗口与冷却时间
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new ProviderCircuitBreaker({
+      windowMs: 60000,
+      minimumRequests: 4,
+      failureRateThreshold: 0.5,
+      openDurationMs: 30000
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stay closed until the minimum number of requests is reached', () => {
+    breaker.recordFailure('tuzi');
+    breaker.recordFailure('tuzi');
+    breaker.recordFailure('tuzi');
+
+    expect(breaker.getState('tuzi')).toBe('closed');
+    expect(breaker.canRequest('tuzi')).toBe(true);
+  });
+
+  it('should open when the failure rate reaches the threshold', () => {
+    breaker.recordSuccess('tuzi');
+    breaker.recordSuccess('tuzi');
+    breaker.recordFailure('tuzi');
+    breaker.recordFailure('tuzi');
+
+    expect(breaker.getState('tuzi')).toBe('open');
+    expect(breaker.canRequest('tuzi')).toBe(false);
+    expect(breaker.isHealthy('tuzi')).toBe(false);
+  });
+
+  it('should ignore outcomes outside the window', () => {
+    breaker.recordFailure('tuzi');
+    breaker.recordFailure('tuzi');
+    now += 61000;
+    breaker.recordSuccess('tuzi');
+    breaker.recordSuccess('tuzi');
+    breaker.recordSuccess('tuzi');
+    breaker.recordFailure('tuzi');
+
+    expect(breaker.getState('tuzi')).toBe('closed');
+  });
+
+  it('should track providers independently', () => {
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure('tuzi');
+    }
+
+    expect(breaker.getState('tuzi')).toBe('open');
+    expect(breaker.getState('openai')).toBe('closed');
+    expect(breaker.canRequest('openai')).toBe(true);
+  });
+
+  describe('half open', () => {
+    beforeEach(() => {
+      for (let i = 0; i < 4; i++) {
+        breaker.recordFailure('tuzi');
+      }
+      now += 30000;
+    });
+
+    it('should allow a single probe after the open duration', () => {
+      expect(breaker.isHealthy('tuzi')).toBe(true);
+      expect(breaker.canRequest('tuzi')).toBe(true);
+      expect(breaker.getState('tuzi')).toBe('half_open');
+
+      // 探测请求未结束前不再放行
+      expect(breaker.canRequest('tuzi')).toBe(false);
+      expect(breaker.isHealthy('tuzi')).toBe(false);
+    });
+
+    it('should close and clear statistics when the probe succeeds', () => {
+      breaker.canRequest('tuzi');
+      breaker.recordSuccess('tuzi');
+
+      expect(breaker.getState('tuzi')).toBe('closed');
+      expect(breaker.getSnapshot()).toEqual([
+        { provider: 'tuzi', state: 'closed', openedAt: null, failureRate: 0, requests: 0 }
+      ]);
+    });
+
+    it('should reopen when the probe fails', () => {
+      breaker.canRequest('tuzi');
+      breaker.recordFailure('tuzi');
+
+      expect(breaker.getState('tuzi')).toBe('open');
+      expect(breaker.canRequest('tuzi')).toBe(false);
+    });
+
+    it('should hand the probe back when it is released', () => {
+      breaker.canRequest('tuzi');
+      breaker.releaseProbe('tuzi');
+
+      expect(breaker.getState('tuzi')).toBe('half_open');
+      expect(breaker.canRequest('tuzi')).toBe(true);
+    });
+  });
+
+  it('should reset a single provider or all providers', () => {
+    for (let i = 0; i < 4; i++) {
+      breaker.recordFailure('tuzi');
+      breaker.recordFailure('openai');
+    }
+
+    breaker.reset('tuzi');
+    expect(breaker.getState('tuzi')).toBe('closed');
+    expect(breaker.getState('openai')).toBe('open');
+
+    breaker.reset();
+    expect(breaker.getState('openai')).toBe('closed');
+  });
+});
+
+describe('isProviderFailure', () => {
+  it('should count server errors, rate limits and timeouts by status', () => {
+    expect(isProviderFailure({ status: 500 })).toBe(true);
+    expect(isProviderFailure({ status: 503 })).toBe(true);
+    expect(isProviderFailure({ status: 429 })).toBe(true);
+    expect(isProviderFailure({ status: 408 })).toBe(true);
+    expect(isProviderFailure({ status: 400 })).toBe(false);
+  });
+
+  it('should count network errors by message', () => {
+    expect(isProviderFailure(new Error('Request timeout after 60s'))).toBe(true);
+    expect(isProviderFailure(new Error('请求超时'))).toBe(true);
+    expect(isProviderFailure(new Error('read ECONNRESET'))).toBe(true);
+    expect(isProviderFailure(new Error('TypeError: fetch failed'))).toBe(true);
+    expect(isProviderFailure(new Error('upstream returned 502'))).toBe(true);
+  });
+
+  it('should not count problems with the request itself', () => {
+    expect(isProviderFailure(new Error('内容违反安全策略'))).toBe(false);
+    expect(isProviderFailure(new Error('Invalid prompt'))).toBe(false);
+  });
+});
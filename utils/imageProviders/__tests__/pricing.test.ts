@@ -0,0 +1,94 @@
+import { findPricingRule, quoteImageGeneration } from '../pricing';
+import { ImageProvider, ImageProviderId } from '../types';
+
+// 报价只用到提供商的 id 和 model
+function provider(id: ImageProviderId, model: string): ImageProvider {
+  return { id, model } as ImageProvider;
+}
+
+describe('quoteImageGeneration', () => {
+  it('should charge the base credits for a square image', () => {
+    const quote = quoteImageGeneration(provider('tuzi', 'gpt-4o-image-vip'), {
+      size: '1024x1024',
+      hasReferenceImage: false
+    });
+
+    expect(quote).toEqual({
+      provider: 'tuzi',
+      model: 'gpt-4o-image-vip',
+      credits: 1,
+      breakdown: [{ label: '基础', credits: 1 }]
+    });
+  });
+
+  it('should ignore size and reference image for providers without those charges', () => {
+    const quote = quoteImageGeneration(provider('tuzi', 'gpt-4o-image-vip'), {
+      size: '1792x1024',
+      hasReferenceImage: true
+    });
+
+    expect(quote.credits).toBe(1);
+  });
+
+  it('should use the model specific rule before the provider wide rule', () => {
+    expect(findPricingRule('openai', 'gpt-image-1')?.baseCredits).toBe(2);
+    expect(findPricingRule('openai', 'dall-e-3')?.baseCredits).toBe(1);
+  });
+
+  it('should add size credits for large images', () => {
+    const quote = quoteImageGeneration(provider('openai', 'gpt-image-1'), {
+      size: '1024x1792',
+      hasReferenceImage: false
+    });
+
+    expect(quote.credits).toBe(3);
+    expect(quote.breakdown).toEqual([
+      { label: '基础', credits: 2 },
+      { label: '竖幅大图', credits: 1 }
+    ]);
+  });
+
+  it('should add reference image credits only when a reference image is used', () => {
+    const withReference = quoteImageGeneration(provider('openai', 'dall-e-3'), {
+      size: '1792x1024',
+      hasReferenceImage: true
+    });
+    const withoutReference = quoteImageGeneration(provider('openai', 'dall-e-3'), {
+      size: '1792x1024',
+      hasReferenceImage: false
+    });
+
+    expect(withReference.credits).toBe(3);
+    expect(withReference.breakdown.map(item => item.label)).toEqual(['基础', '横幅大图', '参考图']);
+    expect(withoutReference.credits).toBe(2);
+  });
+
+  it('should not charge reference image credits for gpt-image-1', () => {
+    const quote = quoteImageGeneration(provider('openai', 'gpt-image-1'), {
+      size: '1024x1024',
+      hasReferenceImage: true
+    });
+
+    expect(quote.credits).toBe(2);
+  });
+
+  it('should fall back to the default credits when no rule matches', () => {
+    const quote = quoteImageGeneration(provider('unknown' as ImageProviderId, 'any'), {
+      size: '1792x1024',
+      hasReferenceImage: true
+    });
+
+    expect(quote.credits).toBe(1);
+    expect(quote.breakdown).toEqual([{ label: '基础', credits: 1 }]);
+  });
+
+  it('should make the total equal to the sum of the breakdown', () => {
+    const quote = quoteImageGeneration(provider('openai', 'dall-e-3'), {
+      size: '1024x1792',
+      hasReferenceImage: true,
+      style: '吉卜力'
+    });
+
+    expect(quote.credits).toBe(quote.breakdown.reduce((sum, item) => sum + item.credits, 0));
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * 提供商熔断器
+ * 按提供商统计最近一段时间的失败率，超过阈值后熔断，冷却后半开放行探测请求
+ * 注意：状态保存在进程内存中，多实例部署时各实例独立统计
+ */
+import { getEnv } from '@/utils/env';
+import { createLogger } from '@/utils/logger';
+import { ImageProviderId } from './types';
+
+const logger = createLogger('提供商熔断器');
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** 统计窗口（毫秒） */
+  windowMs: number;
+  /** 窗口内至少多少次请求才计算失败率 */
+  minimumRequests: number;
+  /** 触发熔断的失败率，0-1 */
+  failureRateThreshold: number;
+  /** 熔断后等待多久进入半开状态（毫秒） */
+  openDurationMs: number;
+}
+
+export interface CircuitSnapshot {
+  provider: ImageProviderId;
+  state: CircuitState;
+  failureRate: number;
+  requests: number;
+  openedAt: number | null;
+}
+
+interface ProviderCircuit {
+  state: CircuitState;
+  outcomes: Array<{ at: number; success: boolean }>;
+  openedAt: number | null;
+  probeInFlight: boolean;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  windowMs: parseInt(getEnv('PROVIDER_BREAKER_WINDOW_MS', '120000')),
+  minimumRequests: parseInt(getEnv('PROVIDER_BREAKER_MIN_REQUESTS', '4')),
+  failureRateThreshold: parseFloat(getEnv('PROVIDER_BREAKER_FAILURE_RATE', '0.5')),
+  openDurationMs: parseInt(getEnv('PROVIDER_BREAKER_OPEN_MS', '60000'))
+};
+
+/**
+ * 判断错误是否说明提供商本身不可用（超时、5xx、网络错误），
+ * 这类错误计入熔断统计并触发故障转移；内容审核等请求本身的问题不计入
+ */
+export function isProviderFailure(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status;
+  if (typeof status === 'number') {
+    return status >= 500 || status === 429 || status === 408;
+  }
+
+  const errorMsg = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return (
+    errorMsg.includes('timeout') ||
+    errorMsg.includes('超时') ||
+    errorMsg.includes('econnreset') ||
+    errorMsg.includes('econnrefused') ||
+    errorMsg.includes('etimedout') ||
+    errorMsg.includes('network') ||
+    errorMsg.includes('socket') ||
+    errorMsg.includes('fetch failed') ||
+    errorMsg.includes('服务暂时不可用') ||
+    /\b5\d\d\b/.test(errorMsg)
+  );
+}
+
+export class ProviderCircuitBreaker {
+  private circuits: Map<ImageProviderId, ProviderCircuit> = new Map();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 当前是否允许向该提供商发送请求
+   * 熔断冷却结束后转为半开，同一时间只放行一个探测请求
+   */
+  canRequest(provider: ImageProviderId): boolean {
+    const circuit = this.getCircuit(provider);
+
+    if (circuit.state === 'open') {
+      if (circuit.openedAt && Date.now() - circuit.openedAt >= this.options.openDurationMs) {
+        this.transition(provider, circuit, 'half_open');
+      } else {
+        return false;
+      }
+    }
+
+    if (circuit.state === 'half_open') {
+      if (circuit.probeInFlight) return false;
+      circuit.probeInFlight = true;
+    }
+
+    return true;
+  }
+
+  /**
+   * 归还半开状态的探测名额，用于请求未发出或未记录结果就结束的情况；
+   * 已通过 recordSuccess / recordFailure 记录结果时调用也没有影响
+   */
+  releaseProbe(provider: ImageProviderId): void {
+    const circuit = this.getCircuit(provider);
+    if (circuit.state === 'half_open') {
+      circuit.probeInFlight = false;
+    }
+  }
+
+  /**
+   * 仅查询是否健康，不占用半开状态的探测名额
+   */
+  isHealthy(provider: ImageProviderId): boolean {
+    const circuit = this.getCircuit(provider);
+    if (circuit.state === 'closed') return true;
+    if (circuit.state === 'half_open') return !circuit.probeInFlight;
+    return !!circuit.openedAt && Date.now() - circuit.openedAt >= this.options.openDurationMs;
+  }
+
+  recordSuccess(provider: ImageProviderId): void {
+    const circuit = this.getCircuit(provider);
+    this.pushOutcome(circuit, true);
+
+    if (circuit.state !== 'closed') {
+      // 探测成功，恢复正常并清空统计
+      circuit.outcomes = [];
+      this.transition(provider, circuit, 'closed');
+    }
+  }
+
+  recordFailure(provider: ImageProviderId): void {
+    const circuit = this.getCircuit(provider);
+    this.pushOutcome(circuit, false);
+
+    if (circuit.state === 'half_open') {
+      this.transition(provider, circuit, 'open');
+      return;
+    }
+
+    const { failureRate, requests } = this.getStats(circuit);
+    if (
+      circuit.state === 'closed' &&
+      requests >= this.options.minimumRequests &&
+      failureRate >= this.options.failureRateThreshold
+    ) {
+      logger.warn(`提供商${provider}失败率${(failureRate * 100).toFixed(0)}%(${requests}次请求)，触发熔断`);
+      this.transition(provider, circuit, 'open');
+    }
+  }
+
+  getState(provider: ImageProviderId): CircuitState {
+    return this.getCircuit(provider).state;
+  }
+
+  getSnapshot(): CircuitSnapshot[] {
+    return Array.from(this.circuits.entries()).map(([provider, circuit]) => ({
+      provider,
+      state: circuit.state,
+      openedAt: circuit.openedAt,
+      ...this.getStats(circuit)
+    }));
+  }
+
+  /**
+   * 重置指定提供商或全部提供商的状态
+   */
+  reset(provider?: ImageProviderId): void {
+    if (provider) {
+      this.circuits.delete(provider);
+    } else {
+      this.circuits.clear();
+    }
+  }
+
+  private getCircuit(provider: ImageProviderId): ProviderCircuit {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], openedAt: null, probeInFlight: false };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  private pushOutcome(circuit: ProviderCircuit, success: boolean): void {
+    const now = Date.now();
+    circuit.outcomes.push({ at: now, success });
+    circuit.outcomes = circuit.outcomes.filter(outcome => now - outcome.at <= this.options.windowMs);
+  }
+
+  private getStats(circuit: ProviderCircuit): { failureRate: number; requests: number } {
+    const now = Date.now();
+    const recent = circuit.outcomes.filter(outcome => now - outcome.at <= this.options.windowMs);
+    const failures = recent.filter(outcome => !outcome.success).length;
+    return {
+      requests: recent.length,
+      failureRate: recent.length > 0 ? failures / recent.length : 0
+    };
+  }
+
+  private transition(provider: ImageProviderId, circuit: ProviderCircuit, state: CircuitState): void {
+    logger.info(`提供商${provider}熔断状态: ${circuit.state} -> ${state}`);
+    circuit.state = state;
+    circuit.probeInFlight = false;
+    circuit.openedAt = state === 'open' ? Date.now() : null;
+  }
+}
+
+// 全局熔断器实例
+export const providerCircuitBreaker = new ProviderCircuitBreaker();
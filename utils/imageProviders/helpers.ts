@@ -0,0 +1,177 @@
+/**
+ * 提供商共用的辅助函数
+ * 尺寸换算、URL提取与校验等逻辑原先散落在各个生成路由中
+ */
+import { createLogger } from '@/utils/logger';
+import { ImageSize } from './types';
+
+const logger = createLogger('图像提供商');
+
+/**
+ * 根据宽高比选择上游支持的输出尺寸
+ * @param aspectRatio 宽高比，如 "4:3"
+ * @returns 输出尺寸
+ */
+export function resolveImageSize(aspectRatio?: string | null): ImageSize {
+  if (!aspectRatio) return '1024x1024';
+
+  const [width, height] = aspectRatio.split(':').map(Number);
+  if (!width || !height || isNaN(width) || isNaN(height)) {
+    return '1024x1024';
+  }
+
+  const ratio = width / height;
+  if (ratio > 1) return '1792x1024'; // 宽屏
+  if (ratio < 1) return '1024x1792'; // 竖屏
+  return '1024x1024';
+}
+
+/**
+ * 将复杂比例转换为标准比例
+ * @param ratio 原始比例，如 "4284:5712"、"vertical"
+ * @returns 标准比例字符串
+ */
+export function getStandardRatio(ratio: string): string {
+  if (!ratio) return "1:1";
+
+  // 如果已经是标准格式(如 "1:1")，直接返回
+  if (/^\d+:\d+$/.test(ratio)) return ratio;
+
+  // 如果是"vertical"/"horizontal"格式，转换为标准比例
+  if (ratio === "vertical") return "3:4";
+  if (ratio === "horizontal") return "4:3";
+
+  // 其他带小数的比例，简化为最接近的标准比例
+  const parts = ratio.split(':');
+  if (parts.length === 2) {
+    const w = parseFloat(parts[0]);
+    const h = parseFloat(parts[1]);
+    if (!isNaN(w) && !isNaN(h) && h > 0) {
+      const r = w / h;
+      if (r > 1.3) return "4:3"; // 横向
+      if (r < 0.8) return "3:4"; // 竖向
+      return "1:1";             // 接近正方形
+    }
+  }
+
+  return "1:1";
+}
+
+/**
+ * 从聊天内容中提取图片URL
+ * @param content 上游返回的文本内容
+ * @returns 图片URL或null
+ */
+export function extractImageUrl(content: string): string | null {
+  if (!content) return null;
+
+  // 兔子API格式: ![gen_01....](https://...)
+  const tuziMatch = content.match(/!\[(gen_[a-zA-Z0-9_]+)\]\((https?:\/\/[^\s)]+)\)/i);
+  if (tuziMatch && tuziMatch[2]) {
+    return tuziMatch[2];
+  }
+
+  const patterns = [
+    // Markdown图片链接
+    /!\[.*?\]\((https?:\/\/[^\s)]+)\)/i,
+    // 常规图片URL
+    /(https?:\/\/[^\s"'<>]+\.(jpe?g|png|gif|webp|bmp))/i,
+    // HTML图片标签
+    /<img.*?src=["'](https?:\/\/[^\s"'<>]+)["']/i,
+    // JSON格式中的URL
+    /"url"\s*:\s*"(https?:\/\/[^"]+)"/i,
+    // 带有filesystem.site的URL
+    /(https?:\/\/[^\s"'<>]*filesystem\.site[^\s"'<>]*)/i,
+    // 任何URL (最后尝试)
+    /(https?:\/\/[^\s"'<>)]+)/i
+  ];
+
+  // 清理内容 - 处理转义字符
+  const cleanedContent = content
+    .replace(/\\"/g, '"')
+    .replace(/\\n/g, ' ')
+    .replace(/\\r/g, ' ')
+    .replace(/\\t/g, ' ');
+
+  for (const pattern of patterns) {
+    const match = cleanedContent.match(pattern);
+    if (match && match[1]) {
+      logger.debug(`使用模式 ${pattern} 提取到URL: ${match[1]}`);
+      return match[1];
+    }
+  }
+
+  logger.warn(`未能提取到任何URL，原内容: ${content.substring(0, 200)}`);
+  return null;
+}
+
+/**
+ * 清理提取到的URL中的多余字符
+ */
+export function cleanImageUrl(url: string): string {
+  return url
+    .replace(/["']/g, '')
+    .replace(/\\/g, '')
+    .replace(/[).,;}]+$/, '')
+    .trim();
+}
+
+/**
+ * 判断URL是否可能是有效的图片地址
+ * @param url 待验证的URL
+ * @returns 是否为图片URL
+ */
+export function isValidImageUrl(url: string): boolean {
+  try {
+    const parsedUrl = new URL(url);
+
+    if (!parsedUrl.protocol.startsWith('http')) {
+      logger.error(`URL协议不是http或https: ${parsedUrl.protocol}`);
+      return false;
+    }
+
+    // 已知图片服务商域名直接通过
+    const knownImageDomains = [
+      'openai.com', 'cloudfront.net', 'imgix.net', 'googleapis.com',
+      'googleusercontent.com', 'bing.com', 'tu-zi.com', 'azureedge.net',
+      's3.amazonaws.com', 'filesystem.site', 'cloudflare.com', 'cdn.tuzi.chat',
+      'iili.io', 'imgbb.com', 'supabase.co'
+    ];
+    if (knownImageDomains.some(domain => parsedUrl.hostname.includes(domain))) {
+      return true;
+    }
+
+    // 路径以常见图片扩展名结尾
+    if (/\.(jpe?g|png|gif|webp|svg|bmp|avif|tiff?)($|\?)/i.test(parsedUrl.pathname)) {
+      return true;
+    }
+
+    // URL非常长且无图片特征，可能不是图片URL
+    if (url.length > 300 && !/image|photo|picture/i.test(url)) {
+      logger.warn(`URL过长且无图片特征，可能不是图片URL: ${url.substring(0, 100)}...`);
+      return false;
+    }
+
+    // 无法确定时仍然允许通过
+    return true;
+  } catch (error) {
+    logger.error(`URL格式无效: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+/**
+ * 读取图片为Buffer，支持URL与data URL
+ * @param source 图片地址
+ */
+export async function loadImageBuffer(source: string): Promise<Buffer> {
+  if (source.startsWith('data:image/')) {
+    return Buffer.from(source.split(',')[1] || '', 'base64');
+  }
+
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`下载图片失败: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,164 @@
+/**
+ * 图像服务提供商注册表
+ * 按任务选择提供商，选中的提供商ID写入 image_tasks.provider；
+ * 首选提供商熔断时自动转移到下一个健康的提供商
+ */
+import { getApiPreference } from '@/utils/env';
+import { createLogger } from '@/utils/logger';
+import { providerCircuitBreaker } from './circuitBreaker';
+import { MockImageProvider } from './mockProvider';
+import { OpenAIImageProvider } from './openaiProvider';
+import { TuziImageProvider } from './tuziProvider';
+import { quoteImageGeneration } from './pricing';
+import { ImageCostOptions, ImageProvider, ImageProviderId } from './types';
+
+export * from './types';
+export { resolveImageSize, getStandardRatio, extractImageUrl, isValidImageUrl, loadImageBuffer } from './helpers';
+export { editWithMask, compositeMaskedEdit } from './maskedEdit';
+export { providerCircuitBreaker, isProviderFailure } from './circuitBreaker';
+export type { CircuitState, CircuitSnapshot } from './circuitBreaker';
+export { IMAGE_PRICING_TABLE, findPricingRule, quoteImageGeneration } from './pricing';
+export type { PricingRule, PriceQuote, PriceQuoteItem } from './pricing';
+
+const logger = createLogger('图像提供商');
+
+// 提供商工厂，每次调用读取最新的环境配置
+const providerFactories: Record<ImageProviderId, () => ImageProvider> = {
+  tuzi: () => new TuziImageProvider(),
+  openai: () => new OpenAIImageProvider(),
+  mock: () => new MockImageProvider()
+};
+
+// 故障转移顺序，mock 只在被显式选中时使用，不参与转移
+const FAILOVER_ORDER: ImageProviderId[] = ['tuzi', 'openai'];
+
+/**
+ * 一次提供商故障转移记录，追加到 image_tasks.failover_history
+ */
+export interface ProviderFailoverRecord {
+  from: ImageProviderId;
+  to: ImageProviderId;
+  reason: string;
+  at: string;
+}
+
+/**
+ * 故障转移的点数预算
+ * 任务入队时已按原提供商报价并预留点数，接替者的报价不能超过已预留的点数
+ */
+export interface FailoverBudget {
+  credits: number;
+  options: ImageCostOptions;
+}
+
+/**
+ * 任务的提供商选择结果
+ */
+export interface ProviderSelection {
+  provider: ImageProvider;
+  // 不考虑熔断时本应选择的提供商
+  preferredProvider: ImageProviderId;
+  // 因熔断改用其他提供商时的记录
+  failover: ProviderFailoverRecord | null;
+}
+
+/**
+ * 判断字符串是否为已知的提供商ID
+ */
+export function isImageProviderId(value: unknown): value is ImageProviderId {
+  return typeof value === 'string' && value in providerFactories;
+}
+
+/**
+ * 获取指定的提供商实例
+ * @param id 提供商ID
+ */
+export function getImageProvider(id: ImageProviderId): ImageProvider {
+  return providerFactories[id]();
+}
+
+/**
+ * 列出所有提供商
+ */
+export function listImageProviders(): ImageProvider[] {
+  return (Object.keys(providerFactories) as ImageProviderId[]).map(getImageProvider);
+}
+
+/**
+ * 获取可接替指定提供商的候选列表
+ * 只包含配置完整且熔断器健康的提供商
+ * @param current 当前提供商
+ * @param exclude 已经尝试过的提供商
+ * @param budget 已预留的点数，传入时只包含报价不超过预留点数的提供商
+ */
+export function getFailoverCandidates(
+  current: ImageProviderId,
+  exclude: ImageProviderId[] = [],
+  budget?: FailoverBudget
+): ImageProvider[] {
+  return FAILOVER_ORDER
+    .filter(id => id !== current && !exclude.includes(id))
+    .map(getImageProvider)
+    .filter(provider => provider.isConfigured() && providerCircuitBreaker.isHealthy(provider.id))
+    .filter(provider => !budget || quoteImageGeneration(provider, budget.options).credits <= budget.credits);
+}
+
+/**
+ * 不考虑熔断状态，按请求和环境偏好确定首选提供商
+ */
+function resolvePreferredProvider(requested?: string | null): ImageProvider {
+  if (requested) {
+    if (isImageProviderId(requested)) {
+      const provider = getImageProvider(requested);
+      if (provider.isConfigured()) {
+        return provider;
+      }
+      logger.warn(`请求的提供商 ${requested} 配置不完整，改用默认提供商`);
+    } else {
+      logger.warn(`未知的提供商 ${requested}，改用默认提供商`);
+    }
+  }
+
+  const { preferredProvider } = getApiPreference();
+  return getImageProvider(preferredProvider);
+}
+
+/**
+ * 为任务选择提供商，并返回是否发生了故障转移
+ * 首选提供商熔断时使用下一个健康的提供商；全部不可用时仍使用首选提供商
+ * @param requested 请求中指定的提供商，可为空
+ */
+export function selectImageProviderForTask(requested?: string | null): ProviderSelection {
+  const preferred = resolvePreferredProvider(requested);
+
+  if (providerCircuitBreaker.isHealthy(preferred.id)) {
+    return { provider: preferred, preferredProvider: preferred.id, failover: null };
+  }
+
+  const [fallback] = getFailoverCandidates(preferred.id);
+  if (!fallback) {
+    logger.warn(`提供商 ${preferred.id} 熔断中，且没有其他可用提供商，继续使用 ${preferred.id}`);
+    return { provider: preferred, preferredProvider: preferred.id, failover: null };
+  }
+
+  logger.warn(`提供商 ${preferred.id} 熔断中，任务转移到 ${fallback.id}`);
+  return {
+    provider: fallback,
+    preferredProvider: preferred.id,
+    failover: {
+      from: preferred.id,
+      to: fallback.id,
+      reason: `提供商${preferred.id}熔断中`,
+      at: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * 为任务选择提供商
+ * 请求中指定且配置完整的提供商优先，否则使用环境偏好；首选提供商熔断时自动转移
+ * @param requested 请求中指定的提供商，可为空
+ */
+export function selectImageProvider(requested?: string | null): ImageProvider {
+  return selectImageProviderForTask(requested).provider;
+}
@@ -0,0 +1,138 @@
+/**
+ * 蒙版局部编辑
+ * 原生支持蒙版的提供商直接传递蒙版；其他提供商先整图编辑，再按蒙版把结果合成回原图，
+ * 蒙版以外的像素与原图保持一致
+ */
+import sharp from 'sharp';
+import { createLogger } from '@/utils/logger';
+import { uploadImageToStorage } from '@/utils/image/uploadImageToStorage';
+import { BucketType } from '@/utils/storage/storageConfig';
+import { loadImageBuffer } from './helpers';
+import { ImageEditRequest, ImageGenerationResult, ImageProvider } from './types';
+
+const logger = createLogger('蒙版编辑');
+
+// 合成时蒙版边缘的羽化程度，避免修改区域出现明显接缝
+const MASK_FEATHER_SIGMA = 2;
+
+// 模拟蒙版编辑时追加的提示，让整图编辑尽量少改动其他区域
+const EMULATED_PROMPT_SUFFIX = '。只修改需要调整的局部，其余部分保持与原图一致';
+
+/**
+ * 读取图片尺寸
+ */
+async function readImageSize(image: Buffer): Promise<{ width: number; height: number }> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error('无法读取图片尺寸');
+  }
+  return { width, height };
+}
+
+/**
+ * 把蒙版缩放到目标尺寸并转换为单通道原始像素，255表示需要修改
+ * 透明背景按黑色处理
+ */
+async function normalizeMask(mask: Buffer, width: number, height: number): Promise<Buffer> {
+  return sharp(mask)
+    .resize(width, height, { fit: 'fill' })
+    .flatten({ background: '#000000' })
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * 单通道原始像素的读取参数
+ */
+function singleChannel(width: number, height: number) {
+  return { raw: { width, height, channels: 1 as const } };
+}
+
+/**
+ * 转换为OpenAI images.edit 要求的蒙版格式：与原图同尺寸，透明区域为需要修改的部分
+ * @param reference 原图
+ * @param mask 黑白蒙版，白色为需要修改的部分
+ */
+export async function toTransparentMask(reference: Buffer, mask: Buffer): Promise<Buffer> {
+  const { width, height } = await readImageSize(reference);
+  const alpha = await sharp(await normalizeMask(mask, width, height), singleChannel(width, height))
+    .negate()
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer();
+
+  return sharp({ create: { width, height, channels: 3, background: '#000000' } })
+    .joinChannel(alpha, singleChannel(width, height))
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 按蒙版把编辑结果合成回原图
+ * @param original 原图
+ * @param edited 整图编辑的结果，尺寸不同时会拉伸到原图尺寸
+ * @param mask 黑白蒙版，白色为需要修改的部分
+ */
+export async function compositeMaskedEdit(original: Buffer, edited: Buffer, mask: Buffer): Promise<Buffer> {
+  const { width, height } = await readImageSize(original);
+  const alpha = await sharp(await normalizeMask(mask, width, height), singleChannel(width, height))
+    .blur(MASK_FEATHER_SIGMA)
+    .toColourspace('b-w')
+    .raw()
+    .toBuffer();
+
+  // 缩放与追加通道需分两步，同一管道中追加的通道会先于缩放生效
+  const resized = await sharp(edited)
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .png()
+    .toBuffer();
+
+  const overlay = await sharp(resized)
+    .joinChannel(alpha, singleChannel(width, height))
+    .png()
+    .toBuffer();
+
+  return sharp(original)
+    .composite([{ input: overlay }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 带蒙版的参考图编辑
+ * 请求没有蒙版或提供商原生支持时直接调用 editWithReference
+ */
+export async function editWithMask(provider: ImageProvider, request: ImageEditRequest): Promise<ImageGenerationResult> {
+  if (!request.mask || provider.capabilities.maskedEdit) {
+    return provider.editWithReference(request);
+  }
+
+  if (!request.userId) {
+    throw new Error('缺少用户ID，无法上传合成后的图片');
+  }
+
+  logger.info(`提供商${provider.id}不支持蒙版，任务${request.taskId || ''}整图编辑后按蒙版合成`);
+
+  const result = await provider.editWithReference({
+    ...request,
+    prompt: `${request.prompt}${EMULATED_PROMPT_SUFFIX}`,
+    mask: null
+  });
+
+  const [original, edited, mask] = await Promise.all([
+    loadImageBuffer(request.referenceImage),
+    loadImageBuffer(result.imageUrl),
+    loadImageBuffer(request.mask)
+  ]);
+
+  const composite = await compositeMaskedEdit(original, edited, mask);
+  const imageUrl = await uploadImageToStorage(
+    `data:image/png;base64,${composite.toString('base64')}`,
+    request.userId,
+    BucketType.IMAGES
+  );
+
+  return { ...result, imageUrl };
+}
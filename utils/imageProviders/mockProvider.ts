@@ -0,0 +1,71 @@
+/**
+ * 本地模拟提供商
+ * 不调用任何上游服务，按固定节奏上报进度并返回示例图片，用于本地开发与联调
+ */
+import { getEnv } from '@/utils/env';
+import { TaskStages } from '@/utils/updateTaskProgress';
+import {
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageProvider,
+  ImageProviderCapabilities
+} from './types';
+
+// 每个模拟阶段的等待时间
+const STEP_DELAY = parseInt(getEnv('MOCK_PROVIDER_STEP_DELAY', '300'));
+
+// 模拟的进度阶段
+const MOCK_STEPS: Array<{ progress: number; stage: string }> = [
+  { progress: 5, stage: TaskStages.QUEUING },
+  { progress: 40, stage: TaskStages.GENERATING },
+  { progress: 80, stage: TaskStages.GENERATING },
+  { progress: 95, stage: TaskStages.EXTRACTING_IMAGE }
+];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class MockImageProvider implements ImageProvider {
+  public readonly id = 'mock' as const;
+  public readonly displayName = '本地模拟';
+  public readonly model = 'mock-image';
+  public readonly capabilities: ImageProviderCapabilities = {
+    textToImage: true,
+    referenceImage: true,
+    maskedEdit: false,
+    streamingProgress: true,
+    sizes: ['1024x1024', '1792x1024', '1024x1792']
+  };
+
+  // 生产环境只有显式指定 IMAGE_PROVIDER=mock 时才可用
+  public isConfigured(): boolean {
+    return process.env.NODE_ENV !== 'production' || getEnv('IMAGE_PROVIDER') === 'mock';
+  }
+
+  public async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    await this.simulateProgress(request);
+
+    const siteUrl = getEnv('NEXT_PUBLIC_SITE_URL', 'http://localhost:3000');
+    const imageUrl = getEnv('MOCK_PROVIDER_IMAGE_URL', `${siteUrl}/examples/ghibli.jpg`);
+
+    return { imageUrl, provider: this.id, model: this.model };
+  }
+
+  public async editWithReference(request: ImageEditRequest): Promise<ImageGenerationResult> {
+    await this.simulateProgress(request);
+
+    // 参考图本身是URL时直接返回，方便验证参考图链路
+    const imageUrl = request.referenceImage.startsWith('http')
+      ? request.referenceImage
+      : (await this.generate({ ...request, onProgress: undefined })).imageUrl;
+
+    return { imageUrl, provider: this.id, model: this.model };
+  }
+
+  private async simulateProgress(request: ImageGenerationRequest): Promise<void> {
+    for (const step of MOCK_STEPS) {
+      await delay(STEP_DELAY);
+      request.onProgress?.(step.progress, step.stage);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * OpenAI官方API提供商
+ * 文本生成使用 images.generate，参考图编辑使用 images.edit，局部编辑时同时传递蒙版
+ */
+import { OpenAI, toFile } from 'openai';
+import { getOfficialOpenAIConfig, OfficialOpenAIConfig } from '@/utils/env';
+import { createLogger } from '@/utils/logger';
+import { TaskStages } from '@/utils/updateTaskProgress';
+import { uploadImageToStorage } from '@/utils/image/uploadImageToStorage';
+import { BucketType } from '@/utils/storage/storageConfig';
+import { loadImageBuffer } from './helpers';
+import { toTransparentMask } from './maskedEdit';
+import {
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageProvider,
+  ImageProviderCapabilities
+} from './types';
+
+const logger = createLogger('OpenAI官方API');
+
+// 单次请求超时
+const API_TIMEOUT = 180000;
+
+export class OpenAIImageProvider implements ImageProvider {
+  public readonly id = 'openai' as const;
+  public readonly displayName = 'OpenAI';
+  public readonly capabilities: ImageProviderCapabilities = {
+    textToImage: true,
+    referenceImage: true,
+    maskedEdit: true,
+    streamingProgress: false,
+    sizes: ['1024x1024', '1792x1024', '1024x1792']
+  };
+
+  private config: OfficialOpenAIConfig;
+
+  constructor() {
+    this.config = getOfficialOpenAIConfig();
+  }
+
+  public get model(): string {
+    return this.config.model;
+  }
+
+  public isConfigured(): boolean {
+    return this.config.isConfigComplete;
+  }
+
+  public async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    const client = this.createClient();
+    request.onProgress?.(20, TaskStages.PROCESSING);
+
+    const response = await client.images.generate({
+      model: this.config.model,
+      prompt: request.prompt,
+      n: 1,
+      size: request.size,
+      quality: 'hd',
+      response_format: 'url'
+    });
+
+    const imageUrl = await this.resolveResultUrl(response.data?.[0], request);
+    return { imageUrl, provider: this.id, model: this.config.model };
+  }
+
+  public async editWithReference(request: ImageEditRequest): Promise<ImageGenerationResult> {
+    const client = this.createClient();
+    request.onProgress?.(15, TaskStages.PROCESSING);
+
+    const referenceBuffer = await loadImageBuffer(request.referenceImage);
+    const image = await toFile(referenceBuffer, 'reference.png', { type: 'image/png' });
+
+    // 蒙版需转换为官方格式：与原图同尺寸，透明区域为需要修改的部分
+    const mask = request.mask
+      ? await toFile(await toTransparentMask(referenceBuffer, await loadImageBuffer(request.mask)), 'mask.png', {
+          type: 'image/png'
+        })
+      : undefined;
+
+    request.onProgress?.(30, TaskStages.GENERATING);
+
+    // images.edit 目前只接受正方形尺寸
+    const response = await client.images.edit({
+      model: this.config.editModel,
+      image,
+      ...(mask ? { mask } : {}),
+      prompt: request.prompt,
+      n: 1,
+      size: '1024x1024'
+    });
+
+    const imageUrl = await this.resolveResultUrl(response.data?.[0], request);
+    return { imageUrl, provider: this.id, model: this.config.editModel };
+  }
+
+  private createClient(): OpenAI {
+    if (!this.config.apiKey) {
+      logger.error('官方API密钥未配置，请检查环境变量OPENAI_OFFICIAL_API_KEY');
+      throw new Error('API密钥未配置');
+    }
+
+    return new OpenAI({
+      apiKey: this.config.apiKey,
+      baseURL: this.config.apiUrl,
+      timeout: API_TIMEOUT,
+      maxRetries: 0
+    });
+  }
+
+  /**
+   * 官方API可能返回URL或base64，base64结果需先上传到存储
+   */
+  private async resolveResultUrl(
+    item: { url?: string; b64_json?: string } | undefined,
+    request: ImageGenerationRequest
+  ): Promise<string> {
+    if (item?.url) {
+      return item.url;
+    }
+
+    if (item?.b64_json) {
+      if (!request.userId) {
+        throw new Error('API返回base64图片，但缺少用户ID无法上传');
+      }
+      return uploadImageToStorage(`data:image/png;base64,${item.b64_json}`, request.userId, BucketType.IMAGES);
+    }
+
+    logger.error('API未返回有效的图片数据');
+    throw new Error('API返回的响应中没有包含有效的图像生成结果');
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * 图像生成计费表
+ * 按提供商、模型、输出尺寸和请求选项计算一次生成消耗的点数，
+ * 所有生成入口与前端报价都通过 quoteImageGeneration 计算，保证展示与实际扣除一致
+ */
+import { ImageCostOptions, ImageProvider, ImageProviderId, ImageSize } from './types';
+
+/**
+ * 计费规则
+ * 匹配时按表中顺序取第一条provider与model都符合的规则，model为空表示该提供商的所有模型
+ */
+export interface PricingRule {
+  provider: ImageProviderId;
+  model?: string;
+  baseCredits: number;                              // 基础点数
+  sizeCredits?: Partial<Record<ImageSize, number>>; // 各尺寸的附加点数
+  referenceImageCredits?: number;                   // 使用参考图的附加点数
+  styleCredits?: Record<string, number>;            // 特定风格的附加点数
+}
+
+/**
+ * 报价明细
+ */
+export interface PriceQuoteItem {
+  label: string;
+  credits: number;
+}
+
+export interface PriceQuote {
+  provider: ImageProviderId;
+  model: string;
+  credits: number;
+  breakdown: PriceQuoteItem[];
+}
+
+// 宽幅与竖幅输出的附加点数
+const LARGE_SIZE_CREDITS: Partial<Record<ImageSize, number>> = {
+  '1792x1024': 1,
+  '1024x1792': 1
+};
+
+export const IMAGE_PRICING_TABLE: PricingRule[] = [
+  { provider: 'tuzi', baseCredits: 1 },
+  // 官方API按尺寸计费；参考图编辑固定使用 gpt-image-1，因此对其他主模型额外收取参考图点数
+  { provider: 'openai', model: 'gpt-image-1', baseCredits: 2, sizeCredits: LARGE_SIZE_CREDITS },
+  { provider: 'openai', baseCredits: 1, sizeCredits: LARGE_SIZE_CREDITS, referenceImageCredits: 1 },
+  { provider: 'mock', baseCredits: 1 }
+];
+
+// 计费表中找不到规则时的兜底点数
+const DEFAULT_CREDITS = 1;
+
+const SIZE_LABELS: Record<ImageSize, string> = {
+  '1024x1024': '方形',
+  '1792x1024': '横幅大图',
+  '1024x1792': '竖幅大图'
+};
+
+/**
+ * 查找适用的计费规则
+ */
+export function findPricingRule(provider: ImageProviderId, model: string): PricingRule | null {
+  return IMAGE_PRICING_TABLE.find(rule =>
+    rule.provider === provider && (!rule.model || rule.model === model)
+  ) || null;
+}
+
+/**
+ * 计算一次生成的报价
+ */
+export function quoteImageGeneration(provider: ImageProvider, options: ImageCostOptions): PriceQuote {
+  const rule = findPricingRule(provider.id, provider.model);
+  const breakdown: PriceQuoteItem[] = [];
+
+  if (!rule) {
+    breakdown.push({ label: '基础', credits: DEFAULT_CREDITS });
+  } else {
+    breakdown.push({ label: '基础', credits: rule.baseCredits });
+
+    const sizeCredits = rule.sizeCredits?.[options.size];
+    if (sizeCredits) {
+      breakdown.push({ label: SIZE_LABELS[options.size], credits: sizeCredits });
+    }
+
+    if (options.hasReferenceImage && rule.referenceImageCredits) {
+      breakdown.push({ label: '参考图', credits: rule.referenceImageCredits });
+    }
+
+    const styleCredits = options.style ? rule.styleCredits?.[options.style] : undefined;
+    if (styleCredits) {
+      breakdown.push({ label: `风格: ${options.style}`, credits: styleCredits });
+    }
+  }
+
+  return {
+    provider: provider.id,
+    model: provider.model,
+    credits: breakdown.reduce((sum, item) => sum + item.credits, 0),
+    breakdown
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * 兔子(图资)API提供商
+ * 通过 chat.completions 流式接口生成图片，并从响应文本中解析进度与图片URL
+ */
+import { OpenAI } from 'openai';
+import { getApiConfig, TuziConfig } from '@/utils/env';
+import { createLogger } from '@/utils/logger';
+import { TaskStages } from '@/utils/updateTaskProgress';
+import { cleanImageUrl, extractImageUrl, getStandardRatio, isValidImageUrl } from './helpers';
+import {
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageGenerationResult,
+  ImageProvider,
+  ImageProviderCapabilities
+} from './types';
+
+const logger = createLogger('兔子API');
+
+// 单次请求超时，低于Vercel函数限制
+const API_TIMEOUT = 120000;
+
+// 指导模型严格遵循用户提示词
+const SYSTEM_PROMPT = '请严格按照用户的原始提示词生成图像，不要扩展、重写或修改提示词。保持用户意图的原始性。';
+
+/**
+ * 从兔子API响应片段中解析进度信息
+ * @param content 响应内容
+ * @returns 进度信息或null
+ */
+export function parseProgressFromContent(content: string): { progress: number, stage: string } | null {
+  // 例如: "> 进度 14%."
+  const tuziProgressMatch = content.match(/> 进度 (\d+)%/);
+  if (tuziProgressMatch && tuziProgressMatch[1]) {
+    const progressValue = parseInt(tuziProgressMatch[1], 10);
+    if (!isNaN(progressValue)) {
+      return { progress: progressValue, stage: TaskStages.GENERATING };
+    }
+  }
+
+  if (content.includes('> 排队中') || content.includes('🕐 排队中')) {
+    return { progress: 5, stage: TaskStages.QUEUING };
+  }
+
+  if (content.includes('> 生成中') || content.includes('⚡ 生成中')) {
+    return { progress: 15, stage: TaskStages.GENERATING };
+  }
+
+  if (content.includes('> 生成完成 ✅')) {
+    return { progress: 100, stage: TaskStages.COMPLETED };
+  }
+
+  // 其他常见进度格式
+  const altMatch = content.match(/>🏃‍ 进度 (\d+)\.\.|(\d+)%|当前进度：(\d+)|progress: (\d+)/i);
+  if (altMatch) {
+    const progressValue = parseInt(altMatch[1] || altMatch[2] || altMatch[3] || altMatch[4], 10);
+    if (!isNaN(progressValue)) {
+      return { progress: progressValue, stage: TaskStages.GENERATING };
+    }
+  }
+
+  return null;
+}
+
+export class TuziImageProvider implements ImageProvider {
+  public readonly id = 'tuzi' as const;
+  public readonly displayName = '兔子API';
+  public readonly capabilities: ImageProviderCapabilities = {
+    textToImage: true,
+    referenceImage: true,
+    maskedEdit: false,
+    streamingProgress: true,
+    sizes: ['1024x1024', '1792x1024', '1024x1792']
+  };
+
+  private config: TuziConfig;
+
+  constructor() {
+    this.config = getApiConfig('tuzi') as TuziConfig;
+  }
+
+  public get model(): string {
+    return this.config.model || 'gpt-4o-image-vip';
+  }
+
+  public isConfigured(): boolean {
+    return this.config.isConfigComplete;
+  }
+
+  public async generate(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
+    return this.runChatCompletion([
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: request.prompt }
+    ], request);
+  }
+
+  public async editWithReference(request: ImageEditRequest): Promise<ImageGenerationResult> {
+    // 已有历史生成ID时，使用JSON格式复用参考图
+    if (request.referenceGenId) {
+      const payload = JSON.stringify({
+        prompt: request.prompt,
+        ratio: request.aspectRatio ? getStandardRatio(request.aspectRatio) : "1:1",
+        gen_id: request.referenceGenId
+      });
+      logger.info(`使用JSON格式传递参考图片gen_id: ${request.referenceGenId}`);
+
+      return this.runChatCompletion([
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: payload }
+      ], request);
+    }
+
+    return this.runChatCompletion([
+      { role: 'system', content: SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: request.prompt },
+          { type: 'image_url', image_url: { url: request.referenceImage } }
+        ]
+      }
+    ], request);
+  }
+
+  /**
+   * 创建兔子API客户端
+   */
+  private createClient(): OpenAI {
+    const apiKey = this.config.apiKey;
+    if (!apiKey) {
+      logger.error('API密钥未配置，请检查环境变量OPENAI_API_KEY');
+      throw new Error('API密钥未配置');
+    }
+
+    // 修正API基础URL，去掉chat/completions路径
+    const baseURL = (this.config.apiUrl || "https://api.tu-zi.com/v1")
+      .replace(/\/chat\/completions\/?$/, '')
+      .replace(/\/+$/, '');
+
+    logger.debug(`创建兔子API客户端，BASE URL: ${baseURL}，模型: ${this.model}`);
+
+    return new OpenAI({
+      apiKey,
+      baseURL,
+      timeout: API_TIMEOUT,
+      maxRetries: 0,
+      defaultHeaders: {
+        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'Connection': 'keep-alive'
+      }
+    });
+  }
+
+  /**
+   * 调用流式聊天接口并从响应中提取图片URL
+   */
+  private async runChatCompletion(
+    messages: { role: 'user' | 'system'; content: any }[],
+    request: ImageGenerationRequest
+  ): Promise<ImageGenerationResult> {
+    const client = this.createClient();
+    const startTime = Date.now();
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        reject(new Error(`API请求超时，超过${API_TIMEOUT / 1000}秒未响应`));
+      }, API_TIMEOUT);
+    });
+
+    try {
+      const response = await Promise.race([
+        client.chat.completions.create({
+          model: this.model,
+          stream: true,
+          messages
+        }),
+        timeoutPromise
+      ]) as any;
+
+      request.onProgress?.(20, TaskStages.PROCESSING);
+
+      let fullContent = '';
+      let resultImageUrl: string | null = null;
+
+      if (response && typeof response[Symbol.asyncIterator] === 'function') {
+        for await (const chunk of response) {
+          const content: string | undefined = chunk.choices?.[0]?.delta?.content;
+          if (!content) continue;
+
+          fullContent += content;
+
+          const progressInfo = parseProgressFromContent(content);
+          if (progressInfo) {
+            request.onProgress?.(progressInfo.progress, progressInfo.stage);
+          }
+
+          // 出现Markdown图片后即可结束读取
+          const markdownImageMatch = fullContent.match(/!\[.*?\]\((https:\/\/.*?)\)/);
+          if (markdownImageMatch && markdownImageMatch[1]) {
+            resultImageUrl = markdownImageMatch[1].trim();
+            break;
+          }
+        }
+      } else if (response && typeof response.text === 'function') {
+        fullContent = await response.text();
+      }
+
+      if (!resultImageUrl && fullContent) {
+        resultImageUrl = extractImageUrl(fullContent);
+      }
+
+      if (resultImageUrl) {
+        resultImageUrl = cleanImageUrl(resultImageUrl);
+      }
+
+      if (!resultImageUrl || !isValidImageUrl(resultImageUrl)) {
+        logger.error(`无法提取有效的图片URL，响应内容: ${fullContent.substring(0, 200)}...`);
+        throw new Error('API返回的响应中没有包含有效的图像生成结果');
+      }
+
+      logger.info(`任务${request.taskId || ''}生成完成，耗时: ${Date.now() - startTime}ms`);
+
+      return {
+        imageUrl: resultImageUrl,
+        provider: this.id,
+        model: this.model,
+        rawContent: fullContent
+      };
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+    }
+  }
+}
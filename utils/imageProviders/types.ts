@@ -0,0 +1,81 @@
+/**
+ * 图像服务提供商抽象
+ * 所有图片生成路由通过统一的ImageProvider接口调用上游服务，
+ * 新增供应商时只需实现该接口并在注册表中登记
+ */
+
+// 已支持的提供商标识，写入 image_tasks.provider
+export type ImageProviderId = 'tuzi' | 'openai' | 'mock';
+
+// 上游模型支持的输出尺寸
+export type ImageSize = '1024x1024' | '1792x1024' | '1024x1792';
+
+/**
+ * 提供商能力描述
+ */
+export interface ImageProviderCapabilities {
+  textToImage: boolean;        // 支持纯文本生成
+  referenceImage: boolean;     // 支持参考图编辑
+  maskedEdit: boolean;         // 原生支持蒙版局部编辑，不支持时由合成模拟
+  streamingProgress: boolean;  // 生成过程中能上报进度
+  sizes: ImageSize[];          // 支持的输出尺寸
+}
+
+/**
+ * 生成请求
+ */
+export interface ImageGenerationRequest {
+  prompt: string;                 // 最终提示词(已包含风格与比例指令)
+  size: ImageSize;                // 输出尺寸
+  aspectRatio?: string | null;    // 原始宽高比，如 "4:3"
+  taskId?: string;                // 关联的任务ID，用于日志与进度上报
+  userId?: string;                // 用户ID，部分提供商需要上传结果
+  onProgress?: (progress: number, stage: string) => void; // 进度回调
+}
+
+/**
+ * 带参考图的编辑请求
+ */
+export interface ImageEditRequest extends ImageGenerationRequest {
+  referenceImage: string;         // 参考图片，URL或data URL
+  referenceGenId?: string | null; // 兔子API的历史生成ID，可复用参考图
+  mask?: string | null;           // 蒙版(data URL或URL)，白色区域为需要修改的部分，黑色区域保持不变
+}
+
+/**
+ * 生成结果
+ */
+export interface ImageGenerationResult {
+  imageUrl: string;
+  provider: ImageProviderId;
+  model: string;
+  rawContent?: string;            // 上游原始响应内容，便于排查
+}
+
+/**
+ * 计费参数
+ */
+export interface ImageCostOptions {
+  size: ImageSize;
+  hasReferenceImage: boolean;
+  style?: string | null;
+}
+
+/**
+ * 图像服务提供商接口
+ */
+export interface ImageProvider {
+  readonly id: ImageProviderId;
+  readonly displayName: string;
+  readonly model: string;
+  readonly capabilities: ImageProviderCapabilities;
+
+  // 当前环境变量是否足以调用该提供商
+  isConfigured(): boolean;
+
+  // 纯文本生成
+  generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+
+  // 基于参考图生成
+  editWithReference(request: ImageEditRequest): Promise<ImageGenerationResult>;
+}
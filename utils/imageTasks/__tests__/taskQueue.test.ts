@@ -0,0 +1,213 @@
+import { ImageTask } from '@/types/database';
+import { ImageTaskQueue, TASK_LEASE_SECONDS } from '../taskQueue';
+import { runImageTaskWorker } from '../worker';
+import { executeStoredImageTask, ImageTaskAttemptError, notifyTaskUpdate } from '../executeImageTask';
+import { deliverDueWebhooks } from '@/utils/webhooks/webhookDelivery';
+
+const mockRpc = jest.fn();
+
+jest.mock('@/utils/supabase/admin', () => ({
+  createAdminClient: () => ({ rpc: mockRpc })
+}));
+
+jest.mock('@/utils/logger', () => ({
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    stateChange: jest.fn()
+  })
+}));
+
+// worker依赖的执行与投递模块只保留错误类，避免加载提供商和存储
+jest.mock('../executeImageTask', () => {
+  class ImageTaskAttemptError extends Error {
+    constructor(message: string, public readonly retryable: boolean) {
+      super(message);
+    }
+  }
+  return {
+    ImageTaskAttemptError,
+    executeStoredImageTask: jest.fn(),
+    notifyTaskUpdate: jest.fn()
+  };
+});
+
+jest.mock('@/utils/webhooks/webhookDelivery', () => ({
+  deliverDueWebhooks: jest.fn()
+}));
+
+const mockExecute = executeStoredImageTask as jest.MockedFunction<typeof executeStoredImageTask>;
+const mockNotify = notifyTaskUpdate as jest.MockedFunction<typeof notifyTaskUpdate>;
+const mockDeliver = deliverDueWebhooks as jest.MockedFunction<typeof deliverDueWebhooks>;
+
+function task(taskId: string): ImageTask {
+  return { task_id: taskId, attempt_count: 1 } as ImageTask;
+}
+
+/**
+ * 按RPC名称返回结果，未配置的RPC返回空数据
+ */
+function mockRpcResults(results: Record<string, { data?: unknown; error?: { message: string } }>) {
+  mockRpc.mockImplementation(async (name: string) => ({
+    data: results[name]?.data ?? null,
+    error: results[name]?.error ?? null
+  }));
+}
+
+describe('ImageTaskQueue', () => {
+  let queue: ImageTaskQueue;
+
+  beforeEach(() => {
+    mockRpc.mockReset();
+    queue = new ImageTaskQueue('worker:test');
+  });
+
+  it('should claim tasks with its worker id and lease', async () => {
+    mockRpcResults({ claim_image_tasks: { data: [task('task-1'), task('task-2')] } });
+
+    const tasks = await queue.claim(2);
+
+    expect(tasks.map(t => t.task_id)).toEqual(['task-1', 'task-2']);
+    expect(mockRpc).toHaveBeenCalledWith('claim_image_tasks', {
+      p_worker_id: 'worker:test',
+      p_limit: 2,
+      p_lease_seconds: TASK_LEASE_SECONDS
+    });
+  });
+
+  it('should claim nothing when the claim fails', async () => {
+    mockRpcResults({ claim_image_tasks: { error: { message: 'connection reset' } } });
+
+    await expect(queue.claim()).resolves.toEqual([]);
+  });
+
+  it('should report a lost lease when the heartbeat is not renewed', async () => {
+    mockRpcResults({ heartbeat_image_task: { data: true } });
+    await expect(queue.heartbeat('task-1')).resolves.toBe(true);
+    expect(mockRpc).toHaveBeenCalledWith('heartbeat_image_task', {
+      p_task_id: 'task-1',
+      p_worker_id: 'worker:test',
+      p_lease_seconds: TASK_LEASE_SECONDS
+    });
+
+    // 租约已被回收或被其他worker领取
+    mockRpcResults({ heartbeat_image_task: { data: false } });
+    await expect(queue.heartbeat('task-1')).resolves.toBe(false);
+
+    mockRpcResults({ heartbeat_image_task: { error: { message: 'timeout' } } });
+    await expect(queue.heartbeat('task-1')).resolves.toBe(false);
+  });
+
+  it('should renew the lease in the background until stopped', async () => {
+    jest.useFakeTimers();
+    try {
+      mockRpcResults({ heartbeat_image_task: { data: true } });
+
+      const stop = queue.startHeartbeat('task-1');
+      await jest.advanceTimersByTimeAsync(TASK_LEASE_SECONDS * 1000);
+      const renewals = mockRpc.mock.calls.length;
+      stop();
+      await jest.advanceTimersByTimeAsync(TASK_LEASE_SECONDS * 1000);
+
+      // 每三分之一租约续约一次，租约到期前至少续约两次
+      expect(renewals).toBeGreaterThanOrEqual(2);
+      expect(mockRpc).toHaveBeenCalledTimes(renewals);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it.each([
+    ['pending', 'pending'],
+    ['failed', 'failed'],
+    [null, 'lost']
+  ])('should map release result %p to %s', async (data, outcome) => {
+    mockRpcResults({ release_image_task: { data } });
+
+    await expect(queue.release('task-1', '超时', true)).resolves.toBe(outcome);
+    expect(mockRpc).toHaveBeenCalledWith('release_image_task', {
+      p_task_id: 'task-1',
+      p_worker_id: 'worker:test',
+      p_error: '超时',
+      p_retryable: true
+    });
+  });
+
+  it('should treat a failed release as a lost lease', async () => {
+    mockRpcResults({ release_image_task: { error: { message: 'timeout' } } });
+
+    await expect(queue.release('task-1', '超时', true)).resolves.toBe('lost');
+  });
+
+  it('should return the number of requeued tasks', async () => {
+    mockRpcResults({ requeue_expired_image_tasks: { data: 3 } });
+    await expect(queue.requeueExpired()).resolves.toBe(3);
+
+    mockRpcResults({ requeue_expired_image_tasks: { error: { message: 'timeout' } } });
+    await expect(queue.requeueExpired()).resolves.toBe(0);
+  });
+});
+
+describe('runImageTaskWorker', () => {
+  beforeEach(() => {
+    mockRpc.mockReset();
+    mockExecute.mockReset();
+    mockNotify.mockReset();
+    mockDeliver.mockReset();
+  });
+
+  it('should requeue expired leases before claiming', async () => {
+    mockRpcResults({ requeue_expired_image_tasks: { data: 2 } });
+
+    const summary = await runImageTaskWorker({ limit: 3, source: 'test' });
+
+    expect(mockRpc.mock.calls.map(call => call[0])).toEqual(['requeue_expired_image_tasks', 'claim_image_tasks']);
+    expect(summary).toMatchObject({ requeued: 2, claimed: 0 });
+    expect(summary.workerId).toMatch(/^test:/);
+    expect(mockDeliver).not.toHaveBeenCalled();
+  });
+
+  it('should release failed attempts according to whether they are retryable', async () => {
+    mockRpc.mockImplementation(async (name: string, params: Record<string, unknown>) => {
+      if (name === 'claim_image_tasks') {
+        return { data: [task('retry'), task('fatal'), task('done'), task('lost')], error: null };
+      }
+      if (name === 'release_image_task') {
+        const outcomes: Record<string, string | null> = { retry: 'pending', fatal: 'failed', lost: null };
+        return { data: outcomes[params.p_task_id as string], error: null };
+      }
+      return { data: null, error: null };
+    });
+    mockExecute.mockImplementation(async (claimed) => {
+      if (claimed.task_id === 'retry' || claimed.task_id === 'lost') {
+        throw new ImageTaskAttemptError('提供商超时', true);
+      }
+      if (claimed.task_id === 'fatal') {
+        throw new Error('提示词不合规');
+      }
+      return {
+        taskId: claimed.task_id,
+        imageUrl: 'https://cdn.example.com/done.png',
+        prompt: '猫',
+        provider: 'mock',
+        model: 'mock'
+      };
+    });
+
+    const summary = await runImageTaskWorker({ limit: 4 });
+
+    expect(summary).toMatchObject({ claimed: 4, completed: 1, retrying: 1, failed: 1, lost: 1 });
+
+    const releases = mockRpc.mock.calls
+      .filter(call => call[0] === 'release_image_task')
+      .map(call => [call[1].p_task_id, call[1].p_retryable]);
+    expect(releases).toEqual(expect.arrayContaining([['retry', true], ['fatal', false], ['lost', true]]));
+
+    // 只有进入终态的失败需要通知，回到队列的任务稍后重试
+    expect(mockNotify).toHaveBeenCalledTimes(1);
+    expect(mockNotify).toHaveBeenCalledWith('fatal', 'failed', undefined, '提示词不合规');
+    expect(mockDeliver).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * 创建图像生成任务
+ * 校验请求、检查重复提交、上传参考图，再在同一个数据库事务中检查生成配额、按计费表为每个变体预留点数并写入队列，
+ * 网页端的 /api/generate-image-task 与开放接口 /api/v1/tasks 共用这一流程
+ */
+import { after } from 'next/server';
+import { v4 as uuid } from 'uuid';
+import crypto from 'crypto';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { estimateBase64Size } from '@/utils/image/image2Base64';
+import { createLogger } from '@/utils/logger';
+import { quoteImageGeneration, resolveImageSize, selectImageProviderForTask } from '@/utils/imageProviders';
+import { resolveStyleConfig, resolveTaskAspectRatio } from '@/utils/styles/styleCatalog';
+import { describeQuotaExceeded, GenerationQuotaUsage, resolveUserTier } from '@/utils/quotas/generationQuotas';
+import { BucketType, getBucketConfig } from '@/utils/storage/storageConfig';
+import { discardStoredTaskImages, storeTaskImage, StoredTaskImage } from './taskInputImages';
+import { runImageTaskWorker } from './worker';
+
+const logger = createLogger('图片任务');
+
+// 单张图片大小限制
+const MAX_IMAGE_SIZE_MB = 8;
+
+// 一次提交最多生成的变体数量
+export const MAX_VARIANTS = 4;
+
+export interface ImageTaskInput {
+  prompt?: string;
+  image?: string | null;
+  mask?: string | null;
+  style?: string | null;
+  aspectRatio?: string | null;
+  standardAspectRatio?: string | null;
+  provider?: string | null;
+  variants: number;
+}
+
+export interface CreatedImageTasks {
+  taskIds: string[];
+  batchId: string | null;
+  // 相同请求仍在处理中时返回已存在的任务
+  duplicate: boolean;
+  provider?: string;
+  model?: string;
+  credits?: number;
+  creditsPerVariant?: number;
+}
+
+/**
+ * 请求本身无效、点数不足或超出生成配额，status 为对应的HTTP状态码
+ */
+export class ImageTaskRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ImageTaskRequestError';
+  }
+}
+
+// 检查data URL的图片类型是否能保存到参考图存储桶，URL和纯base64不检查
+function isSupportedImageType(image: string): boolean {
+  const match = image.match(/^data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+);base64,/);
+  const allowedTypes = getBucketConfig(BucketType.UPLOADS).allowedFileTypes;
+  return !match || !allowedTypes || allowedTypes.includes(match[1]);
+}
+
+// 检查图片大小，超出限制时返回错误描述
+function checkImageSize(imageBase64: string): string | null {
+  try {
+    const sizeInMB = estimateBase64Size(imageBase64) / 1024;
+
+    if (sizeInMB > MAX_IMAGE_SIZE_MB) {
+      logger.error(`图片过大: ${sizeInMB.toFixed(2)}MB，超过限制(${MAX_IMAGE_SIZE_MB}MB)`);
+      return `图片过大(${sizeInMB.toFixed(1)}MB)，超过限制(${MAX_IMAGE_SIZE_MB}MB)，请减小图片尺寸或降低质量后重试`;
+    }
+    return null;
+  } catch (error) {
+    logger.error(`检查图片大小出错: ${error instanceof Error ? error.message : String(error)}`);
+    return null; // 出错时放行，由后续步骤处理
+  }
+}
+
+/**
+ * 从请求体中解析并校验任务参数
+ */
+export function parseImageTaskInput(body: any): ImageTaskInput {
+  const { prompt, image, mask, style, aspectRatio, standardAspectRatio, provider } = body || {};
+  const variants = body?.variants === undefined || body?.variants === null ? 1 : Number(body.variants);
+
+  if (!Number.isInteger(variants) || variants < 1 || variants > MAX_VARIANTS) {
+    throw new ImageTaskRequestError(`变体数量必须是1到${MAX_VARIANTS}之间的整数`, 400);
+  }
+
+  if (!prompt && !image) {
+    throw new ImageTaskRequestError('提示词和图片至少需要提供一项', 400);
+  }
+
+  // 蒙版只能用于参考图的局部编辑
+  if (mask && !image) {
+    throw new ImageTaskRequestError('局部编辑需要同时上传原图', 400);
+  }
+
+  if (mask && (typeof mask !== 'string' || !mask.startsWith('data:image/') || !isSupportedImageType(mask))) {
+    throw new ImageTaskRequestError('蒙版格式无效', 400);
+  }
+
+  if (image && !isSupportedImageType(image)) {
+    throw new ImageTaskRequestError('不支持的图片格式，请上传JPEG、PNG或WebP图片', 400);
+  }
+
+  if (image) {
+    const imageError = checkImageSize(image);
+    if (imageError) {
+      throw new ImageTaskRequestError(imageError, 413, {
+        suggestion: '请使用较小的图片或降低图片质量后重试'
+      });
+    }
+  }
+
+  if (mask) {
+    const maskError = checkImageSize(mask);
+    if (maskError) {
+      throw new ImageTaskRequestError(`蒙版${maskError}`, 413);
+    }
+  }
+
+  return { prompt, image, mask, style, aspectRatio, standardAspectRatio, provider, variants };
+}
+
+// 计算请求指纹，相同请求1分钟内被识别为重复请求
+function calculateRequestFingerprint(
+  userId: string,
+  input: ImageTaskInput,
+  imageHash: string,
+  maskHash: string | null
+): string {
+  const timeWindow = Math.floor(Date.now() / (1 * 60 * 1000));
+
+  const fingerprintData = {
+    userId,
+    prompt: input.prompt?.trim(),
+    style: input.style || '',
+    aspectRatio: input.aspectRatio || '',
+    // 使用图片哈希特征而非是否存在图片
+    imageHash: imageHash || '',
+    // 变体数量不同视为不同请求，单张生成保持原有指纹
+    ...(input.variants > 1 ? { variants: input.variants } : {}),
+    // 同一张图的不同蒙版是不同的局部编辑请求
+    ...(maskHash ? { maskHash } : {}),
+    timeWindow
+  };
+
+  return crypto
+    .createHash('md5')
+    .update(JSON.stringify(fingerprintData))
+    .digest('hex');
+}
+
+// 计算图片哈希特征，简化版的感知哈希
+function calculateImageHash(imageBase64: string): string {
+  try {
+    if (!imageBase64) return '';
+
+    // 只使用base64的前10000字符进行哈希计算
+    const sample = imageBase64.substring(0, 10000);
+    return crypto.createHash('md5').update(sample).digest('hex');
+  } catch (error) {
+    logger.error(`计算图片哈希失败: ${error instanceof Error ? error.message : String(error)}`);
+    return '';
+  }
+}
+
+/**
+ * 查找最近3分钟内相同指纹且仍在处理中的任务，批量请求返回同批次的全部任务
+ */
+async function findDuplicateTasks(
+  userId: string,
+  fingerprint: string
+): Promise<{ taskIds: string[]; batchId: string | null } | null> {
+  const supabaseAdmin = createAdminClient();
+
+  try {
+    const threeMinutesAgo = new Date(Date.now() - 3 * 60 * 1000).toISOString();
+
+    const { data: existingTasks, error } = await supabaseAdmin
+      .from('image_tasks')
+      .select('id, task_id, batch_id, status, created_at')
+      .eq('user_id', userId)
+      .eq('request_fingerprint', fingerprint)
+      .in('status', ['pending', 'processing'])
+      .gt('created_at', threeMinutesAgo)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      logger.warn(`检查重复请求失败: ${error.message}`);
+      return null;
+    }
+
+    if (!existingTasks || existingTasks.length === 0) {
+      return null;
+    }
+
+    const existing = existingTasks[0];
+    const elapsedSeconds = Math.floor((Date.now() - new Date(existing.created_at).getTime()) / 1000);
+    logger.info(`检测到重复请求，已存在处理中的任务: ${existing.task_id}，创建于${elapsedSeconds}秒前`);
+
+    // 记录重复请求，失败不影响主流程
+    try {
+      await supabaseAdmin
+        .from('duplicate_requests')
+        .insert({
+          user_id: userId,
+          original_task_id: existing.task_id,
+          fingerprint,
+          created_at: new Date().toISOString()
+        });
+    } catch (logError) {
+      logger.warn(`记录重复请求失败: ${logError}`);
+    }
+
+    let taskIds = [existing.task_id];
+    if (existing.batch_id) {
+      const { data: siblings } = await supabaseAdmin
+        .from('image_tasks')
+        .select('task_id')
+        .eq('batch_id', existing.batch_id)
+        .order('batch_index', { ascending: true });
+      if (siblings && siblings.length > 0) {
+        taskIds = siblings.map((sibling: { task_id: string }) => sibling.task_id);
+      }
+    }
+
+    return { taskIds, batchId: existing.batch_id || null };
+  } catch (err) {
+    logger.error(`检查重复请求出错: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+/**
+ * 为用户创建生成任务并放入队列，点数记在该用户名下
+ * 点数不足时抛出402的 ImageTaskRequestError，其余失败会退还已预留的点数后抛出
+ * @param source worker标识前缀，用于区分调用来源
+ */
+export async function createImageTasks(
+  userId: string,
+  input: ImageTaskInput,
+  source = 'enqueue'
+): Promise<CreatedImageTasks> {
+  const { prompt, image, mask, style, aspectRatio, standardAspectRatio, variants } = input;
+
+  // 生成请求指纹并检查重复请求
+  const imageHash = image ? calculateImageHash(image) : '';
+  const requestFingerprint = calculateRequestFingerprint(
+    userId,
+    input,
+    imageHash,
+    mask ? calculateImageHash(mask) : null
+  );
+
+  const duplicate = await findDuplicateTasks(userId, requestFingerprint);
+  if (duplicate) {
+    return { ...duplicate, duplicate: true };
+  }
+
+  // 用户等级决定并发数和每小时、每天的任务数上限，配额在入队时与点数预留一起检查
+  const tier = await resolveUserTier(userId);
+
+  // 已停用的风格不再接受新任务；未上传参考图时使用风格的默认比例
+  const styleConfig = await resolveStyleConfig(style);
+  if (styleConfig && !styleConfig.enabled) {
+    throw new ImageTaskRequestError(`风格「${styleConfig.name}」已停用，请选择其他风格`, 400);
+  }
+  const taskAspectRatio = resolveTaskAspectRatio(aspectRatio, styleConfig);
+
+  // 参考图和蒙版先上传到参考图存储桶，任务记录只保存URL和内容哈希；批量生成的各变体共用同一份
+  let inputImage: StoredTaskImage | null = null;
+  let maskImage: StoredTaskImage | null = null;
+  try {
+    inputImage = image ? await storeTaskImage(image, userId) : null;
+    maskImage = mask ? await storeTaskImage(mask, userId) : null;
+  } catch (uploadError) {
+    logger.error(`上传参考图失败: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`);
+    await discardStoredTaskImages([inputImage]);
+    throw new ImageTaskRequestError('参考图上传失败，请稍后重试', 502);
+  }
+
+  // 为任务选择图像提供商（首选提供商熔断时自动转移），并按计费表计算所需点数
+  const { provider, preferredProvider, failover } = selectImageProviderForTask(input.provider);
+  const quote = quoteImageGeneration(provider, {
+    size: resolveImageSize(taskAspectRatio),
+    hasReferenceImage: !!image,
+    style: style || undefined
+  });
+  const taskCost = quote.credits;
+  const totalCost = taskCost * variants;
+  logger.info(`任务使用提供商: ${provider.id}，模型: ${provider.model}，变体数量: ${variants}，所需点数: ${totalCost}`);
+
+  // 每个变体是一个独立任务，多个变体通过batch_id归为同一批次
+  const taskIds = Array.from({ length: variants }, () => uuid());
+  const batchId = variants > 1 ? uuid() : null;
+  const supabaseAdmin = createAdminClient();
+
+  // 在同一个数据库事务中检查配额、按变体分别预留点数并写入任务；任一步失败时全部回滚
+  // 预留的点数在任务完成时确认，失败或取消时自动退还
+  const { data: quotaUsage, error: enqueueError } = await supabaseAdmin.rpc('enqueue_image_tasks', {
+    p_user_id: userId,
+    p_note: variants > 1 ? `图像生成任务(批量${variants}张)` : '图像生成任务',
+    p_max_concurrent: tier.maxConcurrent,
+    p_max_per_hour: tier.maxPerHour,
+    p_max_per_day: tier.maxPerDay,
+    p_tasks: taskIds.map((taskId, index) => ({
+      id: uuid(),
+      task_id: taskId,
+      prompt: prompt,
+      input_image_url: inputImage?.url || null,
+      input_image_hash: inputImage?.hash || null,
+      mask_image_url: maskImage?.url || null,
+      mask_image_hash: maskImage?.hash || null,
+      image_hash: imageHash || null,
+      style: style || null,
+      aspect_ratio: taskAspectRatio,
+      standard_aspect_ratio: standardAspectRatio || null,
+      provider: provider.id,
+      model: provider.model,
+      preferred_provider: preferredProvider,
+      failover_reason: failover?.reason || null,
+      failover_count: failover ? 1 : 0,
+      failover_history: failover ? [failover] : [],
+      request_id: taskId,
+      credit_cost: taskCost,
+      batch_id: batchId,
+      batch_index: index,
+      batch_size: variants,
+      request_fingerprint: requestFingerprint // 保存请求指纹
+    }))
+  });
+
+  // 任务没有写入时，本次上传的参考图不会被任何任务引用，立即删除
+  if (enqueueError || quotaUsage) {
+    await discardStoredTaskImages([inputImage, maskImage]);
+  }
+
+  if (enqueueError) {
+    if (enqueueError.message.includes('insufficient_credits')) {
+      throw new ImageTaskRequestError(`点数不足，本次生成需要${totalCost}点`, 402, {
+        code: 'insufficient_credits',
+        required: totalCost,
+        suggestion: '请充值点数后再试'
+      });
+    }
+    if (enqueueError.message.includes('credits_not_found')) {
+      throw new ImageTaskRequestError('无法获取用户点数信息', 500);
+    }
+    logger.error(`创建任务失败: ${enqueueError.message}`);
+    throw new Error(`创建任务记录失败: ${enqueueError.message}`);
+  }
+
+  if (quotaUsage) {
+    const quotaExceeded = describeQuotaExceeded(tier, quotaUsage as GenerationQuotaUsage);
+    logger.info(`用户${userId}超出${quotaExceeded.kind}配额(${quotaExceeded.used}/${quotaExceeded.limit})`);
+    throw new ImageTaskRequestError(quotaExceeded.message, 429, {
+      code: 'quota_exceeded',
+      quota: quotaExceeded.kind,
+      tier: quotaExceeded.tier,
+      limit: quotaExceeded.limit,
+      used: quotaExceeded.used,
+      retryAfter: quotaExceeded.retryAfter
+    });
+  }
+
+  logger.info(`成功创建任务，已加入队列，ID: ${taskIds.join(', ')}${batchId ? `，批次: ${batchId}` : ''}`);
+
+  // 响应返回后立即运行一轮worker；没被领取到的任务由定时任务兜底
+  after(async () => {
+    try {
+      await runImageTaskWorker({ limit: taskIds.length, source });
+    } catch (workerError) {
+      logger.error(`入队后运行worker失败: ${workerError instanceof Error ? workerError.message : String(workerError)}`);
+    }
+  });
+
+  return {
+    taskIds,
+    batchId,
+    duplicate: false,
+    provider: provider.id,
+    model: provider.model,
+    credits: totalCost,
+    creditsPerVariant: taskCost
+  };
+}
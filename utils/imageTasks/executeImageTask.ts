@@ -0,0 +1,565 @@
+/**
+ * 图像任务执行器
+ * 负责被worker领取的 image_tasks 任务的一次执行尝试，
+ * 具体的上游调用交给选中的图像提供商完成，重试与失败终态由任务队列决定
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { reportProgress } from '@/utils/updateTaskProgress';
+import { ensureImageUrl } from '@/utils/image/uploadImageToStorage';
+import { BucketType } from '@/utils/storage/storageConfig';
+import { captureTaskCredits, releaseTaskCredits } from '@/utils/credits/taskCredits';
+import { generatePromptWithStyle } from '@/app/config/styles';
+import { resolveStyleConfig } from '@/utils/styles/styleCatalog';
+import {
+  getFailoverCandidates,
+  editWithMask,
+  FailoverBudget,
+  getImageProvider,
+  ImageGenerationResult,
+  ImageProvider,
+  ImageProviderId,
+  isImageProviderId,
+  isProviderFailure,
+  ProviderFailoverRecord,
+  providerCircuitBreaker,
+  resolveImageSize,
+  selectImageProvider
+} from '@/utils/imageProviders';
+import { ImageTask } from '@/types/database';
+
+const logger = createLogger('图片任务执行');
+
+export interface ImageTaskExecutionParams {
+  taskId: string;
+  userId: string;
+  prompt: string;
+  style?: string | null;
+  aspectRatio?: string | null;
+  standardAspectRatio?: string | null;
+  // 参考图，可以是base64或URL
+  image?: string | null;
+  // 参考图哈希，用于查找已有的gen_id
+  imageHash?: string;
+  // 局部编辑蒙版(data URL或URL)，白色区域为需要修改的部分
+  mask?: string | null;
+  provider: ImageProvider;
+  // 入队时预留的点数，故障转移只会选择报价不超过它的提供商
+  creditCost?: number | null;
+  // 领取任务的worker，完成时校验租约仍属于它
+  workerId?: string;
+}
+
+export interface ImageTaskExecutionResult {
+  taskId: string;
+  imageUrl: string;
+  prompt: string;
+  provider: string;
+  model: string;
+}
+
+/**
+ * 单次执行失败的错误
+ * retryable表示任务是否值得回到队列再试，由队列根据 attempt_count 决定是否还有机会
+ */
+export class ImageTaskAttemptError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean
+  ) {
+    super(message);
+    this.name = 'ImageTaskAttemptError';
+  }
+}
+
+/**
+ * 判断错误是否值得重试
+ */
+function shouldRetryError(error: unknown): boolean {
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  return (
+    errorMsg.includes('timeout') ||
+    errorMsg.includes('超时') ||
+    errorMsg.includes('rate limit') ||
+    errorMsg.includes('too many requests') ||
+    errorMsg.includes('服务暂时不可用') ||
+    errorMsg.includes('network error') ||
+    errorMsg.includes('connection') ||
+    errorMsg.includes('socket') ||
+    errorMsg.includes('没有包含有效的图像生成结果')
+  );
+}
+
+/**
+ * 根据风格与比例构建最终提示词
+ */
+export async function buildTaskPrompt(
+  prompt: string,
+  style?: string | null,
+  aspectRatio?: string | null
+): Promise<string> {
+  let finalPrompt = prompt || '生成图像';
+
+  if (style) {
+    const styleConfig = await resolveStyleConfig(style);
+    finalPrompt = generatePromptWithStyle(styleConfig, prompt || '生成图像');
+    logger.info(`使用风格配置模板构建提示词，风格: ${style}, 长度=${finalPrompt.length}字符`);
+  }
+
+  if (aspectRatio) {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    const ratio = width / height;
+
+    if (ratio > 1) {
+      finalPrompt += `，生成横向图片`;
+    } else if (ratio < 1) {
+      finalPrompt += `，生成竖向图片`;
+    } else if (ratio === 1) {
+      finalPrompt += `，生成正方形图片`;
+    }
+  }
+
+  return finalPrompt;
+}
+
+/**
+ * 将参考图转换为提供商可用的地址
+ * 优先上传到存储使用URL，失败时退回data URL
+ */
+async function prepareReferenceImage(taskId: string, image: string, userId: string): Promise<string> {
+  try {
+    const inputImageUrl = await ensureImageUrl(image, userId, BucketType.UPLOADS);
+    if (inputImageUrl) {
+      logger.info(`图片成功转换为URL: ${inputImageUrl.substring(0, 60)}...`);
+
+      const supabaseAdmin = createAdminClient();
+      const { error } = await supabaseAdmin
+        .from('image_tasks')
+        .update({
+          input_image_url: inputImageUrl,
+          updated_at: new Date().toISOString()
+        })
+        .eq('task_id', taskId);
+
+      if (error) {
+        logger.warn(`记录图片URL到数据库失败: ${error.message}`);
+      }
+      return inputImageUrl;
+    }
+  } catch (uploadError) {
+    logger.warn(`图片URL转换失败: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`);
+  }
+
+  const imageData = image.startsWith('data:image/') || image.startsWith('http')
+    ? image
+    : `data:image/jpeg;base64,${image}`;
+
+  if (imageData.length < 100 && !imageData.startsWith('http')) {
+    throw new Error('图片数据无效');
+  }
+  return imageData;
+}
+
+/**
+ * 查找参考图对应的历史生成ID
+ */
+async function findReferenceGenId(userId: string, imageHash?: string): Promise<string | null> {
+  if (!imageHash) return null;
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const { data } = await supabaseAdmin
+      .from('image_generation_references')
+      .select('gen_id')
+      .eq('image_hash', imageHash)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (data?.gen_id) {
+      logger.info(`找到参考图片的gen_id: ${data.gen_id}`);
+      return data.gen_id;
+    }
+  } catch (genIdError) {
+    logger.warn(`检查参考图片gen_id失败: ${genIdError instanceof Error ? genIdError.message : String(genIdError)}`);
+  }
+  return null;
+}
+
+/**
+ * 保存生成历史到数据库
+ */
+export async function saveGenerationHistory(
+  userId: string,
+  imageUrl: string,
+  prompt: string,
+  style: string | null | undefined,
+  aspectRatio: string | null | undefined,
+  standardAspectRatio: string | null | undefined,
+  provider: string,
+  model: string
+): Promise<boolean> {
+  try {
+    const supabaseAdmin = createAdminClient();
+
+    const historyData: Record<string, any> = {
+      user_id: userId,
+      image_url: imageUrl,
+      prompt: prompt || '',
+      style: style || null,
+      aspect_ratio: aspectRatio || null,
+      standard_aspect_ratio: standardAspectRatio || null,
+      model_used: model,
+      provider,
+      status: 'completed',
+      created_at: new Date().toISOString()
+    };
+
+    const { error } = await supabaseAdmin
+      .from('ai_images_creator_history')
+      .insert([historyData]);
+
+    if (error) {
+      // 旧表结构可能没有provider字段，移除后重试
+      if (error.message.toLowerCase().includes('provider')) {
+        logger.info(`检测到provider字段问题，尝试移除此字段后重新插入`);
+        delete historyData.provider;
+
+        const { error: retryError } = await supabaseAdmin
+          .from('ai_images_creator_history')
+          .insert([historyData]);
+
+        if (retryError) {
+          logger.error(`移除provider字段后仍插入失败: ${retryError.message}`);
+          return false;
+        }
+        return true;
+      }
+
+      logger.error(`保存生成历史失败: ${error.message}`);
+      return false;
+    }
+
+    logger.info(`成功保存图片生成历史记录`);
+    return true;
+  } catch (err) {
+    logger.error(`保存历史记录出错: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+}
+
+/**
+ * 更新任务终态、结算预留点数并通知任务通知接口
+ * 先直接写数据库，通知接口只作为次要手段。
+ * 只更新仍在处理中（失败时也包括已被队列标记为failed）的任务，传入workerId时还要求租约属于该worker；
+ * 任务已被取消或租约已失效时不修改状态、不结算点数，返回false
+ */
+export async function notifyTaskUpdate(
+  taskId: string,
+  status: 'completed' | 'failed',
+  imageUrl?: string,
+  error?: string,
+  workerId?: string
+): Promise<boolean> {
+  try {
+    const supabaseAdmin = createAdminClient();
+    const now = new Date().toISOString();
+
+    // 终态时一并释放租约
+    const updateData: Record<string, any> = status === 'completed'
+      ? { status, image_url: imageUrl, completed_at: now, updated_at: now }
+      : { status, error_message: (error || '未知错误').substring(0, 500), updated_at: now };
+    updateData.locked_by = null;
+    updateData.lease_expires_at = null;
+
+    // 失败的任务由 release_image_task 先标记为failed、写入错误信息并退还点数，这里补全未经队列失败的情况
+    let query = supabaseAdmin
+      .from('image_tasks')
+      .update(updateData)
+      .eq('task_id', taskId)
+      .in('status', status === 'completed' ? ['processing'] : ['processing', 'failed']);
+    if (workerId && status === 'completed') {
+      query = query.eq('locked_by', workerId);
+    }
+
+    const { data: updated, error: updateError } = await query.select('task_id');
+
+    if (updateError) {
+      logger.error(`更新任务${taskId}状态为${status}失败: ${updateError.message}`);
+      return false;
+    }
+    if (!updated || updated.length === 0) {
+      logger.warn(`任务${taskId}已被取消或租约已失效，不更新为${status}`);
+      return false;
+    }
+
+    logger.stateChange(taskId, 'processing', status);
+
+    // 结算预留的点数：成功确认扣除，失败退还
+    if (status === 'completed') {
+      await captureTaskCredits(taskId);
+    } else {
+      await releaseTaskCredits(taskId, error || '任务失败');
+    }
+  } catch (dbError) {
+    logger.error(`直接更新任务${taskId}状态到数据库失败: ${dbError instanceof Error ? dbError.message : String(dbError)}`);
+    return false;
+  }
+
+  try {
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000';
+    const response = await fetch(`${siteUrl}/api/task-notification`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.TASK_PROCESS_SECRET_KEY}`
+      },
+      body: JSON.stringify({ taskId, status, imageUrl, error, source: 'image-task-executor' }),
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (!response.ok) {
+      logger.warn(`通知任务${taskId}状态失败: ${response.status} ${response.statusText}，但数据库已直接更新`);
+    }
+  } catch (notifyError) {
+    logger.warn(`通知任务${taskId}状态失败: ${notifyError instanceof Error ? notifyError.message : String(notifyError)}，但数据库已直接更新`);
+  }
+  return true;
+}
+
+/**
+ * 记录一次提供商故障转移
+ * 追加到 failover_history，并把任务的提供商切换为接替者
+ */
+export async function recordProviderFailover(
+  taskId: string,
+  record: ProviderFailoverRecord,
+  model: string
+): Promise<void> {
+  try {
+    const supabaseAdmin = createAdminClient();
+    const { data: task } = await supabaseAdmin
+      .from('image_tasks')
+      .select('failover_history, failover_count')
+      .eq('task_id', taskId)
+      .single();
+
+    const history: ProviderFailoverRecord[] = Array.isArray(task?.failover_history) ? task.failover_history : [];
+
+    const { error } = await supabaseAdmin
+      .from('image_tasks')
+      .update({
+        provider: record.to,
+        model,
+        failover_reason: record.reason.substring(0, 500),
+        failover_count: (task?.failover_count || 0) + 1,
+        failover_history: [...history, record],
+        updated_at: new Date().toISOString()
+      })
+      .eq('task_id', taskId);
+
+    if (error) {
+      logger.warn(`记录任务${taskId}故障转移失败: ${error.message}`);
+    }
+  } catch (recordError) {
+    logger.warn(`记录任务${taskId}故障转移出错: ${recordError instanceof Error ? recordError.message : String(recordError)}`);
+  }
+}
+
+/**
+ * 把任务转移到下一个健康且报价不超过预留点数的提供商，没有可用提供商时返回null
+ * @param exclude 本次执行已经尝试过的提供商
+ */
+async function failoverTask(
+  taskId: string,
+  current: ImageProvider,
+  reason: string,
+  budget: FailoverBudget,
+  exclude: ImageProviderId[] = []
+): Promise<ImageProvider | null> {
+  const [next] = getFailoverCandidates(current.id, [current.id, ...exclude], budget);
+  if (!next) return null;
+
+  logger.warn(`任务${taskId}从提供商${current.id}转移到${next.id}: ${reason}`);
+  await recordProviderFailover(taskId, {
+    from: current.id,
+    to: next.id,
+    reason,
+    at: new Date().toISOString()
+  }, next.model);
+
+  return next;
+}
+
+/**
+ * 占用提供商的请求名额，紧挨着提供商调用执行
+ * 熔断器关闭时直接放行；半开时只有拿到探测名额的任务可以调用，
+ * 拿不到名额（仍在熔断或其他任务正在探测）时转移到下一个健康的提供商，
+ * 没有可转移的提供商时抛出可重试的错误，任务回到队列稍后再试
+ */
+async function acquireProvider(
+  taskId: string,
+  provider: ImageProvider,
+  budget: FailoverBudget
+): Promise<{ provider: ImageProvider; holdsProbe: boolean }> {
+  const tried: ImageProviderId[] = [];
+  let current = provider;
+
+  while (true) {
+    if (providerCircuitBreaker.canRequest(current.id)) {
+      return { provider: current, holdsProbe: providerCircuitBreaker.getState(current.id) === 'half_open' };
+    }
+
+    tried.push(current.id);
+    const next = await failoverTask(taskId, current, `提供商${current.id}熔断中`, budget, tried);
+    if (!next) {
+      throw new ImageTaskAttemptError(`提供商${current.id}熔断中，且没有可用的备用提供商，稍后重试`, true);
+    }
+    current = next;
+  }
+}
+
+/**
+ * 执行一次图像生成尝试
+ * 任务需已被worker领取（状态为processing），成功时写入completed并保存历史；
+ * 失败时抛出 ImageTaskAttemptError，由worker根据 retryable 决定回到队列还是标记失败。
+ * 提供商超时或返回5xx时计入熔断统计，并把任务切换到下一个健康的提供商，下次领取时直接使用；
+ * 提供商熔断中或半开探测名额已被占用时同样先转移，无处可转时任务回到队列
+ */
+export async function executeImageTask(params: ImageTaskExecutionParams): Promise<ImageTaskExecutionResult> {
+  const { taskId, userId, prompt, style, aspectRatio, standardAspectRatio, image, imageHash, mask } = params;
+  const startTime = Date.now();
+  const supabaseAdmin = createAdminClient();
+  let provider = params.provider;
+
+  // 任务记录缺少点数时按列默认值1点计算
+  const budget: FailoverBudget = {
+    credits: params.creditCost ?? 1,
+    options: { size: resolveImageSize(aspectRatio), hasReferenceImage: !!image, style }
+  };
+
+  logger.info(`开始处理任务${taskId}，提供商: ${provider.id}，模型: ${provider.model}`);
+
+  const onProgress = (progress: number, stage: string) => {
+    reportProgress(taskId, progress, stage);
+  };
+
+  let finalPrompt: string;
+  let result: ImageGenerationResult;
+  try {
+    finalPrompt = await buildTaskPrompt(prompt, style, aspectRatio);
+    const size = resolveImageSize(aspectRatio);
+    const referenceImage = image ? await prepareReferenceImage(taskId, image, userId) : null;
+
+    const request = { prompt: finalPrompt, size, aspectRatio, taskId, userId, onProgress };
+    const referenceGenId = referenceImage ? await findReferenceGenId(userId, imageHash) : undefined;
+
+    // 半开状态的探测名额在结束时总是归还，避免名额泄漏导致提供商无法恢复
+    const acquired = await acquireProvider(taskId, provider, budget);
+    provider = acquired.provider;
+    const holdsProbe = acquired.holdsProbe;
+    try {
+      result = referenceImage
+        ? await editWithMask(provider, { ...request, referenceImage, referenceGenId, mask })
+        : await provider.generate(request);
+      providerCircuitBreaker.recordSuccess(provider.id);
+    } catch (providerError) {
+      // 只有提供商自身故障计入熔断；提示词被拒等请求问题不能说明提供商是否健康，不记录结果，只归还探测名额
+      if (isProviderFailure(providerError)) {
+        providerCircuitBreaker.recordFailure(provider.id);
+        const errorMsg = providerError instanceof Error ? providerError.message : String(providerError);
+        await failoverTask(taskId, provider, errorMsg, budget);
+      }
+      throw providerError;
+    } finally {
+      if (holdsProbe) {
+        providerCircuitBreaker.releaseProbe(provider.id);
+      }
+    }
+
+    logger.info(`任务${taskId}生成成功: ${result.imageUrl.substring(0, 80)}...`);
+  } catch (attemptError) {
+    const errorMsg = attemptError instanceof Error ? attemptError.message : String(attemptError);
+    logger.error(`任务${taskId}本次尝试失败(${provider.id}): ${errorMsg}`);
+
+    await supabaseAdmin
+      .from('image_tasks')
+      .update({
+        error_details: JSON.stringify({
+          provider: provider.id,
+          timestamp: new Date().toISOString(),
+          error: errorMsg,
+          type: attemptError instanceof Error ? attemptError.name : 'Unknown'
+        }).substring(0, 1000),
+        updated_at: new Date().toISOString()
+      })
+      .eq('task_id', taskId);
+
+    if (attemptError instanceof ImageTaskAttemptError) {
+      throw attemptError;
+    }
+    throw new ImageTaskAttemptError(
+      errorMsg,
+      isProviderFailure(attemptError) || shouldRetryError(attemptError)
+    );
+  }
+
+  await supabaseAdmin
+    .from('image_tasks')
+    .update({
+      provider: result.provider,
+      model: result.model,
+      updated_at: new Date().toISOString()
+    })
+    .eq('task_id', taskId)
+    .eq('status', 'processing');
+
+  // 任务在生成期间被取消或租约已被回收时丢弃结果，不扣点数、不写历史
+  const finalized = await notifyTaskUpdate(taskId, 'completed', result.imageUrl, undefined, params.workerId);
+  if (!finalized) {
+    throw new ImageTaskAttemptError(`任务${taskId}已取消或租约已失效，丢弃生成结果`, false);
+  }
+
+  await saveGenerationHistory(
+    userId,
+    result.imageUrl,
+    finalPrompt,
+    style,
+    aspectRatio,
+    standardAspectRatio,
+    result.provider,
+    result.model
+  );
+  logger.timing(`图像生成任务完成，任务ID: ${taskId}`, Date.now() - startTime);
+
+  return {
+    taskId,
+    imageUrl: result.imageUrl,
+    prompt: finalPrompt,
+    provider: result.provider,
+    model: result.model
+  };
+}
+
+/**
+ * 执行已存在于数据库中的任务
+ * 供队列worker使用，参考图与提供商均从任务记录中读取
+ */
+export async function executeStoredImageTask(task: ImageTask, workerId?: string): Promise<ImageTaskExecutionResult> {
+  return executeImageTask({
+    taskId: task.task_id,
+    userId: task.user_id,
+    prompt: task.prompt,
+    style: task.style,
+    aspectRatio: task.aspect_ratio,
+    standardAspectRatio: task.standard_aspect_ratio,
+    image: task.input_image_url || task.image_base64,
+    imageHash: task.image_hash || undefined,
+    mask: task.mask_image_url || task.mask_base64,
+    creditCost: task.credit_cost,
+    // 使用任务记录的提供商，熔断时由执行器负责转移并记录
+    provider: isImageProviderId(task.provider) ? getImageProvider(task.provider) : selectImageProvider(),
+    workerId
+  });
+}
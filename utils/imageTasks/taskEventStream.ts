@@ -0,0 +1,198 @@
+/**
+ * 任务进度事件流(SSE)
+ * 单个任务和批次的事件接口共用：定时读取任务快照，进度或阶段变化时推送，
+ * 每个任务结束时推送一次结束事件，全部结束后发送 done 并关闭连接
+ */
+import type { NextRequest } from 'next/server';
+import { TASK_CONFIG } from '@/constants/taskConfig';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('任务事件流');
+
+// 服务端检查任务进度的间隔
+const CHECK_INTERVAL = 1000;
+// 保活注释的发送间隔，避免代理断开空闲连接
+const KEEPALIVE_INTERVAL = 15000;
+
+// 结束事件流的任务状态
+const FINAL_STATUSES = [
+  TASK_CONFIG.TASK_STATUS.COMPLETED,
+  TASK_CONFIG.TASK_STATUS.FAILED,
+  TASK_CONFIG.TASK_STATUS.CANCELLED
+];
+
+// 事件只需要这些字段，避免反复传输参考图数据
+export const TASK_SNAPSHOT_COLUMNS = 'task_id, status, progress, stage, image_url, error_message';
+
+export interface TaskSnapshot {
+  task_id: string;
+  status: string;
+  progress: number | null;
+  stage: string | null;
+  image_url: string | null;
+  error_message: string | null;
+}
+
+export interface TaskEventStreamOptions {
+  request: NextRequest;
+  // 订阅的任务，读取结果中缺少的任务视为已被删除
+  taskIds: string[];
+  // 建立连接前读取的快照，连接建立后立即推送
+  initial: TaskSnapshot[];
+  loadSnapshots: () => Promise<TaskSnapshot[]>;
+  // 单个连接的最长保持时间，超时后客户端需要重新订阅或改用轮询
+  maxDurationMs: number;
+  // 日志中的订阅对象，如「任务xxx」「批次xxx」
+  label: string;
+}
+
+/**
+ * 创建任务进度事件流
+ *
+ * 事件：
+ * - progress: { taskId, status, progress, stage }
+ * - completed: { taskId, status, imageUrl, progress, stage }
+ * - failed / cancelled: { taskId, status, error, progress, stage }
+ * - done: { taskIds }，全部任务都已结束
+ * - timeout: { taskIds, message }，连接达到最长保持时间，仍有任务未结束
+ */
+export function createTaskEventStream(options: TaskEventStreamOptions): Response {
+  const { request, taskIds, initial, loadSnapshots, maxDurationMs, label } = options;
+  const encoder = new TextEncoder();
+  let cleanup: () => void = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let checking = false;
+      const lastProgress: Record<string, number | null> = {};
+      const lastStage: Record<string, string | null> = {};
+      const finished: Record<string, boolean> = {};
+      const startedAt = Date.now();
+
+      const send = (event: string, data: Record<string, unknown>) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(checkTimer);
+        clearInterval(keepAliveTimer);
+        request.signal.removeEventListener('abort', close);
+        try {
+          controller.close();
+        } catch {
+          // 客户端已断开时流可能已经关闭
+        }
+      };
+      cleanup = close;
+
+      // 推送一次任务快照，任务结束时记录下来，之后不再推送
+      const emit = (task: TaskSnapshot) => {
+        const taskId = task.task_id;
+        if (finished[taskId]) return;
+
+        if (task.status === TASK_CONFIG.TASK_STATUS.COMPLETED) {
+          finished[taskId] = true;
+          send('completed', {
+            taskId,
+            status: task.status,
+            imageUrl: task.image_url,
+            progress: 100,
+            stage: TASK_CONFIG.GENERATION_STAGES.COMPLETED
+          });
+          return;
+        }
+
+        if (FINAL_STATUSES.includes(task.status)) {
+          finished[taskId] = true;
+          send(task.status, {
+            taskId,
+            status: task.status,
+            error: task.error_message || (task.status === TASK_CONFIG.TASK_STATUS.CANCELLED ? '任务已取消' : '图片生成失败'),
+            progress: task.progress,
+            stage: task.status
+          });
+          return;
+        }
+
+        // 只在进度或阶段变化时推送
+        if (task.progress !== lastProgress[taskId] || task.stage !== lastStage[taskId]) {
+          lastProgress[taskId] = task.progress;
+          lastStage[taskId] = task.stage;
+          send('progress', {
+            taskId,
+            status: task.status,
+            progress: task.progress,
+            stage: task.stage
+          });
+        }
+      };
+
+      // 推送一批快照，全部任务结束时发送done并关闭
+      const emitAll = (tasks: TaskSnapshot[]) => {
+        const byId = new Map(tasks.map(task => [task.task_id, task]));
+        for (const taskId of taskIds) {
+          const task = byId.get(taskId);
+          if (task) {
+            emit(task);
+          } else if (!finished[taskId]) {
+            finished[taskId] = true;
+            send('failed', { taskId, status: 'failed', error: '任务不存在或已被删除' });
+          }
+        }
+
+        if (taskIds.every(taskId => finished[taskId])) {
+          send('done', { taskIds });
+          close();
+        }
+      };
+
+      const check = async () => {
+        if (closed || checking) return;
+
+        if (Date.now() - startedAt > maxDurationMs) {
+          send('timeout', { taskIds, message: '连接已达到最长保持时间，请重新订阅' });
+          close();
+          return;
+        }
+
+        checking = true;
+        try {
+          emitAll(await loadSnapshots());
+        } catch (error) {
+          // 偶发的查询失败不中断事件流，下一轮继续
+          logger.warn(`检查${label}进度失败: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+          checking = false;
+        }
+      };
+
+      const checkTimer = setInterval(check, CHECK_INTERVAL);
+      const keepAliveTimer = setInterval(() => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(': keepalive\n\n'));
+        }
+      }, KEEPALIVE_INTERVAL);
+
+      request.signal.addEventListener('abort', close);
+
+      // 建立连接时先推送当前状态，已全部结束时直接关闭
+      emitAll(initial);
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * 任务参考图和蒙版
+ * 创建任务前上传到参考图存储桶（长期保存，重新创作时仍要读取），任务记录只保存URL和内容哈希，不再写入base64；
+ * 同一用户重复提交相同图片时复用之前任务中已上传的文件
+ */
+import crypto from 'crypto';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { cleanupTemporaryImage, uploadImageToStorage } from '@/utils/image/uploadImageToStorage';
+import { BucketType } from '@/utils/storage/storageConfig';
+
+const logger = createLogger('任务图片');
+
+export interface StoredTaskImage {
+  url: string;
+  // 图片内容的SHA-256，输入本身就是URL时为null
+  hash: string | null;
+  // 本次新上传的文件；复用之前的文件或输入本身就是URL时为false
+  uploaded: boolean;
+}
+
+function isRemoteUrl(image: string): boolean {
+  return image.startsWith('http://') || image.startsWith('https://');
+}
+
+// 没有前缀的纯base64按PNG处理，与 ensureImageUrl 一致
+function toDataUrl(image: string): string {
+  return image.startsWith('data:image/') ? image : `data:image/png;base64,${image}`;
+}
+
+/**
+ * 计算base64图片解码后内容的SHA-256
+ */
+export function hashImageContent(image: string): string {
+  const base64Data = image.includes(';base64,') ? image.split(';base64,')[1] : image;
+  return crypto.createHash('sha256').update(Buffer.from(base64Data, 'base64')).digest('hex');
+}
+
+/**
+ * 查找用户之前任务中内容相同的参考图或蒙版地址
+ */
+async function findStoredTaskImage(userId: string, hash: string): Promise<string | null> {
+  const { data, error } = await createAdminClient()
+    .from('image_tasks')
+    .select('input_image_url, input_image_hash, mask_image_url, mask_image_hash')
+    .eq('user_id', userId)
+    .or(`input_image_hash.eq.${hash},mask_image_hash.eq.${hash}`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn(`查询可复用的参考图失败: ${error.message}`);
+    return null;
+  }
+  if (!data) return null;
+
+  if (data.input_image_hash === hash && data.input_image_url) return data.input_image_url;
+  if (data.mask_image_hash === hash && data.mask_image_url) return data.mask_image_url;
+  return null;
+}
+
+/**
+ * 把参考图或蒙版保存到参考图存储桶，返回URL和内容哈希，上传失败时抛出错误
+ */
+export async function storeTaskImage(image: string, userId: string): Promise<StoredTaskImage> {
+  if (isRemoteUrl(image)) {
+    return { url: image, hash: null, uploaded: false };
+  }
+
+  const hash = hashImageContent(image);
+
+  const reusable = await findStoredTaskImage(userId, hash);
+  if (reusable) {
+    logger.info(`复用已上传的相同图片: ${reusable.substring(0, 80)}`);
+    return { url: reusable, hash, uploaded: false };
+  }
+
+  const url = await uploadImageToStorage(toDataUrl(image), userId, BucketType.UPLOADS);
+  return { url, hash, uploaded: true };
+}
+
+/**
+ * 删除本次新上传、但没有写入任务的参考图和蒙版
+ * 参考图存储桶没有过期清理，任务创建失败（点数不足、超出配额等）时由调用方负责删除
+ */
+export async function discardStoredTaskImages(images: Array<StoredTaskImage | null>): Promise<void> {
+  for (const image of images) {
+    if (!image?.uploaded) continue;
+    const removed = await cleanupTemporaryImage(image.url);
+    if (!removed) {
+      logger.warn(`删除未使用的参考图失败: ${image.url.substring(0, 80)}`);
+    }
+  }
+}
+
+/**
+ * 把旧任务中的base64参考图和蒙版上传到存储并清空对应列，返回本批处理结果
+ * 上传失败（如格式不受支持）时保留base64，只在 input_migration_error 中记录原因，
+ * 之后的批次跳过这些任务，避免同一批记录反复失败阻塞迁移
+ */
+export async function migrateLegacyTaskInputs(limit: number = 20): Promise<{ migrated: number; failed: number }> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_tasks')
+    .select('task_id, user_id, image_base64, mask_base64, input_image_url, mask_image_url')
+    .or('image_base64.not.is.null,mask_base64.not.is.null')
+    .is('input_migration_error', null)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`查询待迁移的任务失败: ${error.message}`);
+  }
+
+  let migrated = 0;
+  let failed = 0;
+
+  for (const task of data || []) {
+    try {
+      const update: Record<string, string | null> = {
+        image_base64: null,
+        mask_base64: null
+      };
+
+      // 执行过的任务已经上传过参考图，只补充哈希
+      if (task.image_base64) {
+        if (task.input_image_url) {
+          update.input_image_hash = isRemoteUrl(task.image_base64) ? null : hashImageContent(task.image_base64);
+        } else {
+          const stored = await storeTaskImage(task.image_base64, task.user_id);
+          update.input_image_url = stored.url;
+          update.input_image_hash = stored.hash;
+        }
+      }
+
+      if (task.mask_base64 && !task.mask_image_url) {
+        const stored = await storeTaskImage(task.mask_base64, task.user_id);
+        update.mask_image_url = stored.url;
+        update.mask_image_hash = stored.hash;
+      }
+
+      const { error: updateError } = await supabaseAdmin
+        .from('image_tasks')
+        .update(update)
+        .eq('task_id', task.task_id);
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+      migrated++;
+    } catch (migrateError) {
+      failed++;
+      logger.warn(`迁移任务${task.task_id}的图片失败: ${migrateError instanceof Error ? migrateError.message : String(migrateError)}`);
+
+      await supabaseAdmin
+        .from('image_tasks')
+        .update({ input_migration_error: migrateError instanceof Error ? migrateError.message : String(migrateError) })
+        .eq('task_id', task.task_id);
+    }
+  }
+
+  if (migrated > 0 || failed > 0) {
+    logger.info(`迁移旧任务图片: 成功${migrated}个，失败${failed}个`);
+  }
+  return { migrated, failed };
+}
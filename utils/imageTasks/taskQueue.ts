@@ -0,0 +1,138 @@
+/**
+ * 图像任务队列
+ * 基于 image_tasks 表实现：API只负责入队，worker通过租约领取任务并定期心跳续约，
+ * 租约过期的任务由数据库函数回收到队列，尝试次数与退避均以 attempt_count 为准
+ */
+import os from 'os';
+import { v4 as uuid } from 'uuid';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getEnv } from '@/utils/env';
+import { createLogger } from '@/utils/logger';
+import { ImageTask } from '@/types/database';
+
+const logger = createLogger('图像任务队列');
+
+// 租约时长，worker需在到期前心跳续约
+export const TASK_LEASE_SECONDS = parseInt(getEnv('TASK_LEASE_SECONDS', '120'));
+
+// 心跳间隔，取租约的三分之一，保证网络抖动时仍能续上
+const HEARTBEAT_INTERVAL_MS = Math.max(5, Math.floor(TASK_LEASE_SECONDS / 3)) * 1000;
+
+export type ReleaseOutcome = 'pending' | 'failed' | 'lost';
+
+/**
+ * 生成worker标识，便于从 locked_by 追溯任务由哪个实例处理
+ */
+export function createWorkerId(prefix = 'worker'): string {
+  return `${prefix}:${os.hostname()}:${process.pid}:${uuid().slice(0, 8)}`;
+}
+
+export class ImageTaskQueue {
+  public readonly workerId: string;
+
+  constructor(workerId: string = createWorkerId()) {
+    this.workerId = workerId;
+  }
+
+  /**
+   * 回收租约过期的任务，返回回收数量
+   */
+  async requeueExpired(): Promise<number> {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin.rpc('requeue_expired_image_tasks');
+
+    if (error) {
+      logger.error(`回收过期租约失败: ${error.message}`);
+      return 0;
+    }
+
+    const count = typeof data === 'number' ? data : 0;
+    if (count > 0) {
+      logger.warn(`已回收${count}个租约过期的任务`);
+    }
+    return count;
+  }
+
+  /**
+   * 领取最多limit个可执行的任务，领取后任务状态为processing且 attempt_count 已加1
+   */
+  async claim(limit = 1): Promise<ImageTask[]> {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin.rpc('claim_image_tasks', {
+      p_worker_id: this.workerId,
+      p_limit: limit,
+      p_lease_seconds: TASK_LEASE_SECONDS
+    });
+
+    if (error) {
+      logger.error(`领取任务失败: ${error.message}`);
+      return [];
+    }
+
+    const tasks = (data || []) as ImageTask[];
+    tasks.forEach(task => {
+      logger.stateChange(task.task_id, 'pending', 'processing');
+    });
+    return tasks;
+  }
+
+  /**
+   * 续约，返回false说明租约已丢失（已过期被回收或被其他worker领取）
+   */
+  async heartbeat(taskId: string): Promise<boolean> {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin.rpc('heartbeat_image_task', {
+      p_task_id: taskId,
+      p_worker_id: this.workerId,
+      p_lease_seconds: TASK_LEASE_SECONDS
+    });
+
+    if (error) {
+      logger.warn(`任务${taskId}续约失败: ${error.message}`);
+      return false;
+    }
+    return data === true;
+  }
+
+  /**
+   * 在后台定期续约，返回停止函数
+   */
+  startHeartbeat(taskId: string): () => void {
+    const timer = setInterval(async () => {
+      const renewed = await this.heartbeat(taskId);
+      if (!renewed) {
+        logger.warn(`任务${taskId}的租约已不属于${this.workerId}`);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * 本次尝试失败后释放任务
+   * retryable为true且未达到 max_attempts 时按退避回到队列，否则标记为failed
+   */
+  async release(taskId: string, errorMessage: string, retryable: boolean): Promise<ReleaseOutcome> {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin.rpc('release_image_task', {
+      p_task_id: taskId,
+      p_worker_id: this.workerId,
+      p_error: errorMessage,
+      p_retryable: retryable
+    });
+
+    if (error) {
+      // 释放失败时不做处理，租约到期后任务会被自动回收
+      logger.error(`释放任务${taskId}失败: ${error.message}`);
+      return 'lost';
+    }
+
+    if (data !== 'pending' && data !== 'failed') {
+      logger.warn(`释放任务${taskId}时租约已不属于${this.workerId}`);
+      return 'lost';
+    }
+
+    logger.stateChange(taskId, 'processing', data);
+    return data;
+  }
+}
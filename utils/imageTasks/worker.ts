@@ -0,0 +1,118 @@
+/**
+ * 图像任务worker
+ * 回收过期租约后领取一批任务并执行，执行期间定期心跳续约；
+ * 失败的任务交还队列，由队列根据 attempt_count 决定退避重试还是标记失败
+ */
+import { createLogger } from '@/utils/logger';
+import { ImageTask } from '@/types/database';
+import { createWorkerId, ImageTaskQueue, ReleaseOutcome } from './taskQueue';
+import { executeStoredImageTask, ImageTaskAttemptError, notifyTaskUpdate } from './executeImageTask';
+import { deliverDueWebhooks } from '@/utils/webhooks/webhookDelivery';
+
+const logger = createLogger('图像任务Worker');
+
+export interface ImageTaskWorkerOptions {
+  // 本次最多领取的任务数
+  limit?: number;
+  // worker标识前缀，用于区分调用来源
+  source?: string;
+}
+
+export interface ImageTaskWorkerSummary {
+  workerId: string;
+  requeued: number;
+  claimed: number;
+  completed: number;
+  retrying: number;
+  failed: number;
+  lost: number;
+}
+
+type TaskOutcome = 'completed' | ReleaseOutcome;
+
+/**
+ * 执行一个已领取的任务，返回任务的去向
+ */
+async function processClaimedTask(queue: ImageTaskQueue, task: ImageTask): Promise<TaskOutcome> {
+  const stopHeartbeat = queue.startHeartbeat(task.task_id);
+  logger.info(`开始执行任务${task.task_id}，第${task.attempt_count}次尝试`);
+
+  try {
+    await executeStoredImageTask(task, queue.workerId);
+    return 'completed';
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const retryable = error instanceof ImageTaskAttemptError ? error.retryable : false;
+
+    const outcome = await queue.release(task.task_id, errorMessage, retryable);
+    if (outcome === 'failed') {
+      await notifyTaskUpdate(task.task_id, 'failed', undefined, errorMessage);
+    }
+    return outcome;
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * 运行一轮worker
+ * 可由任务创建后的 after()、定时任务或外部轮询调用，多个worker并发运行是安全的
+ */
+export async function runImageTaskWorker(options: ImageTaskWorkerOptions = {}): Promise<ImageTaskWorkerSummary> {
+  const { limit = 1, source = 'worker' } = options;
+  const queue = new ImageTaskQueue(createWorkerId(source));
+
+  const summary: ImageTaskWorkerSummary = {
+    workerId: queue.workerId,
+    requeued: 0,
+    claimed: 0,
+    completed: 0,
+    retrying: 0,
+    failed: 0,
+    lost: 0
+  };
+
+  summary.requeued = await queue.requeueExpired();
+
+  const tasks = await queue.claim(limit);
+  summary.claimed = tasks.length;
+  if (tasks.length === 0) {
+    return summary;
+  }
+
+  const outcomes = await Promise.allSettled(tasks.map(task => processClaimedTask(queue, task)));
+
+  outcomes.forEach(outcome => {
+    if (outcome.status === 'rejected') {
+      // 未预期的错误，任务仍持有租约，到期后会被回收
+      logger.error(`执行任务出错: ${outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)}`);
+      summary.lost++;
+      return;
+    }
+
+    switch (outcome.value) {
+      case 'completed':
+        summary.completed++;
+        break;
+      case 'pending':
+        summary.retrying++;
+        break;
+      case 'failed':
+        summary.failed++;
+        break;
+      default:
+        summary.lost++;
+    }
+  });
+
+  logger.info(
+    `${queue.workerId}本轮处理完成: 领取${summary.claimed}，成功${summary.completed}，` +
+    `待重试${summary.retrying}，失败${summary.failed}，租约丢失${summary.lost}`
+  );
+
+  // 有任务进入终态时立即投递Webhook，投递失败的由定时任务按退避重试
+  if (summary.completed + summary.failed > 0) {
+    await deliverDueWebhooks();
+  }
+  return summary;
+}
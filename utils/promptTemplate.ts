@@ -0,0 +1,341 @@
+/**
+ * 提示词模板
+ *
+ * 语法：
+ * - {subject}            命名插槽，替换为填写的值
+ * - {mood|温暖}          带默认值的插槽，未填写时使用默认值
+ * - [，背景：{background}] 可选片段，片段内所有插槽都有值时才输出
+ * - \{ \} \[ \]           输出字面量括号
+ *
+ * 风格模板只使用 {prompt} 插槽；创意广场模板通过 PromptSlot 声明插槽，
+ * 页面据此渲染结构化表单，并可按语言提供不同的模板文本
+ */
+
+// 插槽名称：字母或下划线开头，可包含数字
+const SLOT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// 没有指定语言或找不到对应版本时使用的语言
+export const DEFAULT_PROMPT_LOCALE = 'zh-CN';
+
+export type PromptSlotType = 'text' | 'textarea' | 'select';
+
+// 插槽在某种语言下的展示文本
+export interface PromptSlotLocale {
+  label?: string;
+  placeholder?: string;
+  default?: string;
+  options?: string[];
+}
+
+// 模板中声明的插槽
+export interface PromptSlot {
+  name: string;
+  label: string;
+  type?: PromptSlotType;
+  required?: boolean;
+  default?: string;
+  placeholder?: string;
+  // type 为 select 时的可选值
+  options?: string[];
+  maxLength?: number;
+  // 按语言覆盖展示文本，键为 zh-CN、en 等
+  locales?: Record<string, PromptSlotLocale>;
+}
+
+export type PromptSlotValues = Record<string, string | null | undefined>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'slot'; name: string; default?: string }
+  | { type: 'optional'; nodes: TemplateNode[] };
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * 解析模板文本，语法错误时抛出 PromptTemplateError
+ */
+export function parsePromptTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  let current = root;
+  let optional: TemplateNode[] | null = null;
+  let text = '';
+
+  const flushText = () => {
+    if (text) {
+      current.push({ type: 'text', value: text });
+      text = '';
+    }
+  };
+
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+
+    if (char === '\\' && i + 1 < template.length && '{}[]\\'.includes(template[i + 1])) {
+      text += template[++i];
+      continue;
+    }
+
+    if (char === '{') {
+      const end = template.indexOf('}', i);
+      if (end === -1) {
+        throw new PromptTemplateError(`第${i + 1}个字符处的 { 没有闭合`);
+      }
+
+      const body = template.slice(i + 1, end);
+      const separator = body.indexOf('|');
+      const name = (separator === -1 ? body : body.slice(0, separator)).trim();
+      if (!SLOT_NAME_PATTERN.test(name)) {
+        throw new PromptTemplateError(`无效的插槽名称: {${body}}`);
+      }
+
+      flushText();
+      current.push(separator === -1
+        ? { type: 'slot', name }
+        : { type: 'slot', name, default: body.slice(separator + 1) });
+      i = end;
+      continue;
+    }
+
+    if (char === '[') {
+      if (optional) {
+        throw new PromptTemplateError('可选片段不能嵌套');
+      }
+      flushText();
+      optional = [];
+      current = optional;
+      continue;
+    }
+
+    if (char === ']') {
+      if (!optional) {
+        throw new PromptTemplateError(`第${i + 1}个字符处的 ] 没有对应的 [`);
+      }
+      flushText();
+      root.push({ type: 'optional', nodes: optional });
+      optional = null;
+      current = root;
+      continue;
+    }
+
+    if (char === '}') {
+      throw new PromptTemplateError(`第${i + 1}个字符处的 } 没有对应的 {`);
+    }
+
+    text += char;
+  }
+
+  if (optional) {
+    throw new PromptTemplateError('可选片段的 [ 没有闭合');
+  }
+
+  flushText();
+  return root;
+}
+
+/**
+ * 转义普通文本中的模板语法字符，使其作为字面量输出
+ * 用户提示词直接作为模板文本保存时使用
+ */
+export function escapePromptTemplate(text: string): string {
+  return text.replace(/[\\{}\[\]]/g, char => `\\${char}`);
+}
+
+/**
+ * 模板中引用的插槽名称（去重，按出现顺序）
+ */
+export function extractSlotNames(template: string): string[] {
+  const names: string[] = [];
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'slot' && !names.includes(node.name)) {
+        names.push(node.name);
+      } else if (node.type === 'optional') {
+        visit(node.nodes);
+      }
+    }
+  };
+  visit(parsePromptTemplate(template));
+  return names;
+}
+
+/**
+ * 渲染模板
+ * 插槽取值顺序：填写的值、模板内默认值、插槽声明的默认值
+ */
+export function renderPromptTemplate(
+  template: string,
+  values: PromptSlotValues,
+  slots: PromptSlot[] = []
+): string {
+  const resolve = (node: { name: string; default?: string }) => {
+    const value = values[node.name]?.trim();
+    if (value) return value;
+    if (node.default !== undefined) return node.default.trim();
+    return slots.find(slot => slot.name === node.name)?.default?.trim() || '';
+  };
+
+  const renderNodes = (nodes: TemplateNode[]): string => nodes.map(node => {
+    if (node.type === 'text') return node.value;
+    if (node.type === 'slot') return resolve(node);
+
+    // 可选片段内任一插槽为空时整段省略
+    const slotNodes = node.nodes.filter((child): child is Extract<TemplateNode, { type: 'slot' }> => child.type === 'slot');
+    return slotNodes.every(child => resolve(child)) ? renderNodes(node.nodes) : '';
+  }).join('');
+
+  return renderNodes(parsePromptTemplate(template)).replace(/\s{2,}/g, ' ').trim();
+}
+
+/**
+ * 检查必填插槽，返回未填写的插槽
+ */
+export function findMissingSlots(slots: PromptSlot[], values: PromptSlotValues): PromptSlot[] {
+  return slots.filter(slot => slot.required && !values[slot.name]?.trim() && !slot.default?.trim());
+}
+
+/**
+ * 选择语言版本：完全匹配、语言前缀匹配（en-US -> en），否则使用基础模板
+ */
+export function resolveLocaleVariant(
+  base: string,
+  variants: Record<string, string> | null | undefined,
+  locale?: string | null
+): string {
+  if (!variants || !locale) return base;
+  if (variants[locale]) return variants[locale];
+
+  const language = locale.split('-')[0];
+  const matched = Object.keys(variants).find(key => key.split('-')[0] === language);
+  return matched ? variants[matched] : base;
+}
+
+/**
+ * 合并插槽在指定语言下的展示文本
+ */
+export function localizeSlot(slot: PromptSlot, locale?: string | null): PromptSlot {
+  if (!slot.locales || !locale) return slot;
+
+  const language = locale.split('-')[0];
+  const key = slot.locales[locale]
+    ? locale
+    : Object.keys(slot.locales).find(item => item.split('-')[0] === language);
+  if (!key) return slot;
+
+  return { ...slot, ...slot.locales[key] };
+}
+
+/**
+ * 校验模板与插槽声明，返回错误描述列表（为空表示有效）
+ * @param allowedSlots 模板可以引用的插槽，未声明的插槽视为错误
+ */
+export function validatePromptTemplate(template: string, allowedSlots: string[]): string[] {
+  let names: string[];
+  try {
+    names = extractSlotNames(template);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  return names
+    .filter(name => !allowedSlots.includes(name))
+    .map(name => `模板引用了未声明的插槽: {${name}}`);
+}
+
+/**
+ * 校验插槽声明，返回错误描述列表
+ */
+export function validatePromptSlots(slots: unknown): string[] {
+  if (!Array.isArray(slots)) {
+    return ['插槽声明必须是数组'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  slots.forEach((slot: PromptSlot, index) => {
+    if (!slot || typeof slot !== 'object') {
+      errors.push(`第${index + 1}个插槽格式无效`);
+      return;
+    }
+    if (!SLOT_NAME_PATTERN.test(slot.name || '')) {
+      errors.push(`第${index + 1}个插槽名称无效: ${slot.name || '(空)'}`);
+    } else if (seen.has(slot.name)) {
+      errors.push(`插槽名称重复: ${slot.name}`);
+    } else {
+      seen.add(slot.name);
+    }
+    if (!slot.label?.trim()) {
+      errors.push(`插槽 ${slot.name || index + 1} 缺少显示名称`);
+    }
+    if (slot.type === 'select' && (!Array.isArray(slot.options) || slot.options.length === 0)) {
+      errors.push(`插槽 ${slot.name} 为下拉选择时必须提供可选值`);
+    }
+  });
+
+  return errors;
+}
+
+// 未声明插槽的旧模板中，用户自由输入的提示词对应的插槽
+export const FREE_TEXT_SLOT = 'user_prompt';
+
+export interface SlottedTemplate {
+  base_prompt: string;
+  prompt_slots?: PromptSlot[] | null;
+  prompt_variants?: Record<string, string> | null;
+}
+
+/**
+ * 校验模板定义：插槽声明、基础模板与各语言版本
+ * 未声明插槽的旧模板只允许引用 {user_prompt}
+ */
+export function validateTemplateDefinition(template: SlottedTemplate): string[] {
+  const errors = validatePromptSlots(template.prompt_slots || []);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const slots = template.prompt_slots || [];
+  const allowed = slots.length > 0 ? slots.map(slot => slot.name) : [FREE_TEXT_SLOT];
+
+  errors.push(...validatePromptTemplate(template.base_prompt || '', allowed));
+
+  for (const [locale, variant] of Object.entries(template.prompt_variants || {})) {
+    if (typeof variant !== 'string' || !variant.trim()) {
+      errors.push(`语言版本 ${locale} 的模板不能为空`);
+      continue;
+    }
+    errors.push(...validatePromptTemplate(variant, allowed).map(error => `[${locale}] ${error}`));
+  }
+
+  return errors;
+}
+
+/**
+ * 生成模板的最终提示词
+ * 声明了插槽时按语言选择模板文本后渲染；旧模板把用户输入填入 {user_prompt}，
+ * 模板中没有该插槽时追加在基础提示词之后
+ */
+export function buildTemplatePrompt(
+  template: SlottedTemplate,
+  values: PromptSlotValues,
+  locale?: string | null
+): string {
+  const slots = template.prompt_slots || [];
+  const text = resolveLocaleVariant(template.base_prompt || '', template.prompt_variants, locale);
+
+  if (slots.length > 0) {
+    return renderPromptTemplate(text, values, slots);
+  }
+
+  const userPrompt = values[FREE_TEXT_SLOT]?.trim() || '';
+  if (extractSlotNames(text).includes(FREE_TEXT_SLOT)) {
+    return renderPromptTemplate(text, values);
+  }
+
+  return [text.trim(), userPrompt].filter(Boolean).join('，');
+}
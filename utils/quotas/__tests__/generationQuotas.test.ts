@@ -0,0 +1,136 @@
+import type * as GenerationQuotas from '../generationQuotas';
+
+const mockPaymentsResult: { data: unknown; error: unknown } = { data: [], error: null };
+
+jest.mock('@/utils/supabase/admin', () => ({
+  createAdminClient: () => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      then: (resolve: (value: unknown) => unknown) => Promise.resolve(mockPaymentsResult).then(resolve)
+    };
+    return { from: () => query };
+  }
+}));
+
+jest.mock('@/utils/logger', () => ({
+  createLogger: () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() })
+}));
+
+/**
+ * 等级表在模块内缓存，每个用例重新加载模块以读取当前的 GENERATION_QUOTAS
+ */
+function loadQuotas(): typeof GenerationQuotas {
+  let loaded: typeof GenerationQuotas | undefined;
+  jest.isolateModules(() => {
+    loaded = require('../generationQuotas');
+  });
+  return loaded!;
+}
+
+describe('generation quotas', () => {
+  const originalQuotas = process.env.GENERATION_QUOTAS;
+
+  beforeEach(() => {
+    delete process.env.GENERATION_QUOTAS;
+    mockPaymentsResult.data = [];
+    mockPaymentsResult.error = null;
+  });
+
+  afterAll(() => {
+    if (originalQuotas === undefined) {
+      delete process.env.GENERATION_QUOTAS;
+    } else {
+      process.env.GENERATION_QUOTAS = originalQuotas;
+    }
+  });
+
+  describe('resolveUserTier', () => {
+    it.each([
+      [[], 'free'],
+      [[{ amount: 0.5 }], 'free'],
+      [[{ amount: 1 }], 'supporter'],
+      [[{ amount: '120.50' }, { amount: 79.5 }], 'pro'],
+      [[{ amount: 150 }, { amount: null }], 'supporter']
+    ])('should resolve payments %j to the %s tier', async (payments, tier) => {
+      mockPaymentsResult.data = payments;
+
+      const { resolveUserTier } = loadQuotas();
+
+      await expect(resolveUserTier('user-1')).resolves.toMatchObject({ tier });
+    });
+
+    it('should fall back to the free tier when payments cannot be read', async () => {
+      mockPaymentsResult.data = null;
+      mockPaymentsResult.error = { message: 'timeout' };
+
+      const { resolveUserTier } = loadQuotas();
+
+      await expect(resolveUserTier('user-1')).resolves.toMatchObject({ tier: 'free', maxConcurrent: 4 });
+    });
+
+    it('should apply GENERATION_QUOTAS overrides', async () => {
+      process.env.GENERATION_QUOTAS = JSON.stringify({
+        free: { maxConcurrent: 2, maxPerHour: 10 },
+        pro: { minRechargeAmount: 50, tier: 'free' }
+      });
+      mockPaymentsResult.data = [{ amount: 60 }];
+
+      const { getGenerationTiers, resolveUserTier } = loadQuotas();
+
+      // 覆盖值不能修改等级标识
+      expect(getGenerationTiers().map(tier => tier.tier)).toEqual(['pro', 'supporter', 'free']);
+      expect(getGenerationTiers()[2]).toMatchObject({ maxConcurrent: 2, maxPerHour: 10, maxPerDay: 100 });
+      await expect(resolveUserTier('user-1')).resolves.toMatchObject({ tier: 'pro' });
+    });
+
+    it('should keep tiers ordered when an override changes the thresholds', () => {
+      process.env.GENERATION_QUOTAS = JSON.stringify({ supporter: { minRechargeAmount: 500 } });
+
+      const { getGenerationTiers } = loadQuotas();
+
+      expect(getGenerationTiers().map(tier => tier.tier)).toEqual(['supporter', 'pro', 'free']);
+    });
+
+    it('should ignore invalid GENERATION_QUOTAS', () => {
+      process.env.GENERATION_QUOTAS = '{free:';
+
+      const { getGenerationTiers } = loadQuotas();
+
+      expect(getGenerationTiers().map(tier => [tier.tier, tier.maxConcurrent])).toEqual([
+        ['pro', 16],
+        ['supporter', 8],
+        ['free', 4]
+      ]);
+    });
+  });
+
+  describe('describeQuotaExceeded', () => {
+    it('should suggest a default wait when concurrency is full', () => {
+      const { describeQuotaExceeded, getGenerationTiers } = loadQuotas();
+      const free = getGenerationTiers()[2];
+
+      const exceeded = describeQuotaExceeded(free, { kind: 'concurrent', used: 4, limit: 4, retryAfter: null });
+
+      expect(exceeded).toEqual({
+        kind: 'concurrent',
+        tier: 'free',
+        limit: 4,
+        used: 4,
+        retryAfter: 30,
+        message: '免费用户最多同时进行4个生成任务，当前有4个正在进行，请等待完成后再试'
+      });
+    });
+
+    it('should round hourly and daily waits up', () => {
+      const { describeQuotaExceeded, getGenerationTiers } = loadQuotas();
+      const supporter = getGenerationTiers()[1];
+
+      const hourly = describeQuotaExceeded(supporter, { kind: 'hourly', used: 100, limit: 100, retryAfter: 61 });
+      const daily = describeQuotaExceeded(supporter, { kind: 'daily', used: 500, limit: 500, retryAfter: 3601 });
+
+      expect(hourly).toMatchObject({ retryAfter: 61, message: '付费用户每小时最多创建100个生成任务，请2分钟后再试' });
+      expect(daily).toMatchObject({ retryAfter: 3601, message: '付费用户每天最多创建500个生成任务，请2小时后再试' });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * 生成配额
+ * 按用户等级限制同时进行的任务数、每小时和每天创建的任务数，
+ * 等级由成功充值的累计金额决定，充值越多额度越高。
+ * 配额在数据库函数 enqueue_image_tasks 中与点数预留、任务写入一起检查，这里只负责等级和提示
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('生成配额');
+
+export type UserTier = 'free' | 'supporter' | 'pro';
+
+export interface GenerationTier {
+  tier: UserTier;
+  label: string;
+  // 成功充值累计金额(元)达到该值即属于此等级
+  minRechargeAmount: number;
+  maxConcurrent: number;
+  maxPerHour: number;
+  maxPerDay: number;
+}
+
+export type GenerationQuotaKind = 'concurrent' | 'hourly' | 'daily';
+
+export interface GenerationQuotaExceeded {
+  kind: GenerationQuotaKind;
+  tier: UserTier;
+  limit: number;
+  used: number;
+  // 建议的重试等待秒数
+  retryAfter: number;
+  message: string;
+}
+
+/**
+ * 等级表，按累计充值金额从高到低匹配第一条
+ * 可通过 GENERATION_QUOTAS 环境变量覆盖部分数值，如 {"free":{"maxConcurrent":3}}
+ */
+const DEFAULT_GENERATION_TIERS: GenerationTier[] = [
+  { tier: 'pro', label: '专业用户', minRechargeAmount: 200, maxConcurrent: 16, maxPerHour: 300, maxPerDay: 2000 },
+  { tier: 'supporter', label: '付费用户', minRechargeAmount: 1, maxConcurrent: 8, maxPerHour: 100, maxPerDay: 500 },
+  // 并发数不低于一次提交的最大变体数，免费用户也能使用批量生成
+  { tier: 'free', label: '免费用户', minRechargeAmount: 0, maxConcurrent: 4, maxPerHour: 30, maxPerDay: 100 }
+];
+
+// 并发已满时建议的等待时间，一个任务通常在这段时间内完成
+const CONCURRENT_RETRY_SECONDS = 30;
+
+let cachedTiers: GenerationTier[] | null = null;
+
+export function getGenerationTiers(): GenerationTier[] {
+  if (cachedTiers) return cachedTiers;
+
+  let overrides: Partial<Record<UserTier, Partial<GenerationTier>>> = {};
+  if (process.env.GENERATION_QUOTAS) {
+    try {
+      overrides = JSON.parse(process.env.GENERATION_QUOTAS);
+    } catch (error) {
+      logger.warn(`GENERATION_QUOTAS 不是有效的JSON，使用默认配额: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  cachedTiers = DEFAULT_GENERATION_TIERS
+    .map(tier => ({ ...tier, ...overrides[tier.tier], tier: tier.tier }))
+    .sort((a, b) => b.minRechargeAmount - a.minRechargeAmount);
+  return cachedTiers;
+}
+
+/**
+ * 根据充值记录确定用户等级
+ */
+export async function resolveUserTier(userId: string): Promise<GenerationTier> {
+  const tiers = getGenerationTiers();
+  const freeTier = tiers[tiers.length - 1];
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('ai_images_creator_payments')
+    .select('amount')
+    .eq('user_id', userId)
+    .eq('status', 'success');
+
+  if (error) {
+    logger.warn(`查询用户${userId}充值记录失败，按免费用户处理: ${error.message}`);
+    return freeTier;
+  }
+
+  const totalAmount = (data || []).reduce((sum: number, row: { amount: number | string }) => sum + Number(row.amount || 0), 0);
+  return tiers.find(tier => totalAmount >= tier.minRechargeAmount) || freeTier;
+}
+
+/**
+ * 入队函数返回的配额占用情况
+ */
+export interface GenerationQuotaUsage {
+  kind: GenerationQuotaKind;
+  used: number;
+  limit: number;
+  // 并发超出时为null
+  retryAfter: number | null;
+}
+
+/**
+ * 根据入队函数返回的超出信息生成提示
+ */
+export function describeQuotaExceeded(tier: GenerationTier, usage: GenerationQuotaUsage): GenerationQuotaExceeded {
+  const retryAfter = usage.retryAfter ?? CONCURRENT_RETRY_SECONDS;
+  let message: string;
+  switch (usage.kind) {
+    case 'concurrent':
+      message = `${tier.label}最多同时进行${usage.limit}个生成任务，当前有${usage.used}个正在进行，请等待完成后再试`;
+      break;
+    case 'hourly':
+      message = `${tier.label}每小时最多创建${usage.limit}个生成任务，请${Math.ceil(retryAfter / 60)}分钟后再试`;
+      break;
+    default:
+      message = `${tier.label}每天最多创建${usage.limit}个生成任务，请${Math.ceil(retryAfter / 3600)}小时后再试`;
+  }
+
+  return {
+    kind: usage.kind,
+    tier: tier.tier,
+    limit: usage.limit,
+    used: usage.used,
+    retryAfter,
+    message
+  };
+}
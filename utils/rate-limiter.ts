@@ -1,103 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getClientIP } from './auth-middleware';
+import {
+  MemoryRateLimitStore,
+  RateLimitAlgorithm,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitStore
+} from './rateLimit/rateLimitStore';
+import { PostgresRateLimitStore } from './rateLimit/postgresRateLimitStore';
 
 /**
- * 简单的内存缓存，用于存储请求计数
- * 注意：在多实例环境中，应使用Redis等分布式缓存替代
+ * 速率限制使用的存储
+ * 默认在配置了Supabase服务端密钥时使用数据库，各实例共享计数；
+ * 可通过 RATE_LIMIT_STORE=memory|postgres 指定
  */
-class RateLimitStore {
-  private store: Map<string, { count: number, resetTime: number }>;
-  private cleanupInterval: NodeJS.Timeout | null = null;
-  
-  constructor() {
-    this.store = new Map();
-    // 定期清理过期记录
-    this.startCleanup();
-  }
-  
-  /**
-   * 增加指定键的计数并检查是否超出限制
-   * @param key 唯一标识符（如IP地址或用户ID）
-   * @param limit 限制次数
-   * @param windowMs 时间窗口（毫秒）
-   * @returns 是否达到速率限制
-   */
-  increment(key: string, limit: number, windowMs: number): boolean {
-    const now = Date.now();
-    const record = this.store.get(key);
-    
-    // 如果不存在记录或已过期，创建新记录
-    if (!record || now > record.resetTime) {
-      this.store.set(key, {
-        count: 1,
-        resetTime: now + windowMs
-      });
-      return false; // 未达到限制
-    }
-    
-    // 增加计数
-    record.count += 1;
-    
-    // 检查是否超出限制
-    return record.count > limit;
-  }
-  
-  /**
-   * 获取指定键的剩余请求次数和重置时间
-   * @param key 唯一标识符
-   * @param limit 限制次数
-   * @returns 剩余次数和重置时间
-   */
-  getRemainingInfo(key: string, limit: number): { remaining: number, resetTime: number } {
-    const now = Date.now();
-    const record = this.store.get(key);
-    
-    if (!record || now > record.resetTime) {
-      return { 
-        remaining: limit, 
-        resetTime: now // 没有记录时重置时间为当前时间
-      };
-    }
-    
-    return {
-      remaining: Math.max(0, limit - record.count),
-      resetTime: record.resetTime
-    };
-  }
-  
-  /**
-   * 启动定期清理过期记录的任务
-   */
-  private startCleanup() {
-    // 每10分钟清理一次过期记录
-    this.cleanupInterval = setInterval(() => {
-      const now = Date.now();
-      Array.from(this.store.entries()).forEach(([key, record]) => {
-        if (now > record.resetTime) {
-          this.store.delete(key);
-        }
-      });
-    }, 10 * 60 * 1000);
-    
-    // 防止内存泄漏
-    if (typeof window === 'undefined' && this.cleanupInterval && this.cleanupInterval.unref) {
-      this.cleanupInterval.unref();
-    }
-  }
-  
-  /**
-   * 停止清理任务
-   */
-  stopCleanup() {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-    }
+let rateLimitStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    const configured = process.env.RATE_LIMIT_STORE;
+    const hasDatabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+    rateLimitStore = configured === 'memory' || (!configured && !hasDatabase)
+      ? new MemoryRateLimitStore()
+      : new PostgresRateLimitStore();
   }
+  return rateLimitStore;
+}
+
+/**
+ * 替换速率限制存储，用于测试
+ */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  rateLimitStore = store;
 }
 
-// 创建全局速率限制存储
-export const globalRateLimitStore = new RateLimitStore();
+/**
+ * 写入速率限制响应头
+ * 标准头 RateLimit-* 中 Reset 为剩余秒数；保留旧的 X-RateLimit-*（Reset 为Unix时间戳）兼容已有调用方
+ */
+export function applyRateLimitHeaders(headers: Headers, decision: RateLimitDecision, rule: RateLimitRule) {
+  const resetSeconds = Math.ceil(decision.resetMs / 1000);
+  const windowSeconds = Math.ceil(rule.windowMs / 1000);
+  const policy = rule.algorithm === 'token-bucket'
+    ? `${rule.limit};w=${windowSeconds};burst=${decision.limit}`
+    : `${rule.limit};w=${windowSeconds}`;
+
+  headers.set('RateLimit-Limit', decision.limit.toString());
+  headers.set('RateLimit-Remaining', decision.remaining.toString());
+  headers.set('RateLimit-Reset', resetSeconds.toString());
+  headers.set('RateLimit-Policy', policy);
+  headers.set('X-RateLimit-Limit', decision.limit.toString());
+  headers.set('X-RateLimit-Remaining', decision.remaining.toString());
+  headers.set('X-RateLimit-Reset', Math.ceil((Date.now() + decision.resetMs) / 1000).toString());
+
+  if (!decision.allowed) {
+    headers.set('Retry-After', Math.max(1, Math.ceil(decision.retryAfterMs / 1000)).toString());
+  }
+}
 
 /**
  * 速率限制配置选项
@@ -107,6 +66,10 @@ export interface RateLimitOptions {
   limit: number;
   /** 时间窗口（毫秒） */
   windowMs: number;
+  /** 限流算法，默认滑动窗口 */
+  algorithm?: RateLimitAlgorithm;
+  /** 令牌桶容量，默认等于 limit */
+  burst?: number;
   /** 用于生成键的函数，默认使用IP地址 */
   keyGenerator?: (req: NextRequest) => string;
   /** 是否在响应头中包含速率限制信息 */
@@ -120,59 +83,66 @@ export interface RateLimitOptions {
 }
 
 /**
- * 创建速率限制中间件
- * @param options 速率限制选项
- * @returns 中间件函数
+ * 为请求消耗额度
+ * @returns 判断结果和对应的规则，跳过限制时返回null
  */
-export function rateLimit(options: RateLimitOptions) {
+export async function checkRateLimit(
+  req: NextRequest,
+  options: RateLimitOptions
+): Promise<{ decision: RateLimitDecision; rule: RateLimitRule } | null> {
   const {
     limit = 60,
     windowMs = 60 * 1000, // 默认1分钟
-    keyGenerator = (req) => getClientIP(req),
+    algorithm = 'sliding-window',
+    burst,
+    keyGenerator = (request: NextRequest) => getClientIP(request),
+    skip
+  } = options;
+
+  // 检查是否跳过速率限制
+  if (skip && await skip(req)) {
+    return null;
+  }
+
+  const rule: RateLimitRule = { algorithm, limit, windowMs, burst };
+  const decision = await getRateLimitStore().consume(keyGenerator(req), rule);
+  return { decision, rule };
+}
+
+/**
+ * 构建达到限制时的响应
+ */
+function createLimitedResponse(decision: RateLimitDecision, rule: RateLimitRule, options: RateLimitOptions) {
+  const {
     headers = true,
     statusCode = 429,
-    message = '请求过于频繁，请稍后再试',
-    skip
+    message = '请求过于频繁，请稍后再试'
   } = options;
-  
+
+  const response = NextResponse.json({
+    success: false,
+    error: message,
+    retryAfter: Math.ceil(decision.retryAfterMs / 1000)
+  }, { status: statusCode });
+
+  if (headers) {
+    applyRateLimitHeaders(response.headers, decision, rule);
+  }
+  return response;
+}
+
+/**
+ * 创建速率限制中间件
+ * @param options 速率限制选项
+ * @returns 中间件函数，达到限制时返回429响应，否则返回null
+ */
+export function rateLimit(options: RateLimitOptions) {
   return async function rateLimitMiddleware(req: NextRequest) {
-    // 检查是否跳过速率限制
-    if (skip && await skip(req)) {
-      return null; // 跳过限制，继续处理请求
+    const result = await checkRateLimit(req, options);
+    if (!result || result.decision.allowed) {
+      return null;
     }
-    
-    // 生成键
-    const key = keyGenerator(req);
-    
-    // 检查是否达到限制
-    const limited = globalRateLimitStore.increment(key, limit, windowMs);
-    
-    // 获取剩余信息，用于响应头
-    const { remaining, resetTime } = globalRateLimitStore.getRemainingInfo(key, limit);
-    
-    // 构建响应
-    if (limited) {
-      // 达到限制，返回429状态码
-      const response = NextResponse.json({
-        success: false,
-        error: message,
-        retryAfter: Math.ceil((resetTime - Date.now()) / 1000)
-      }, { status: statusCode });
-      
-      // 添加响应头
-      if (headers) {
-        response.headers.set('X-RateLimit-Limit', limit.toString());
-        response.headers.set('X-RateLimit-Remaining', '0');
-        response.headers.set('X-RateLimit-Reset', Math.ceil(resetTime / 1000).toString());
-        response.headers.set('Retry-After', Math.ceil((resetTime - Date.now()) / 1000).toString());
-      }
-      
-      return response;
-    }
-    
-    // 未达到限制，返回null继续处理请求
-    // 响应头将在withRateLimit中处理
-    return null;
+    return createLimitedResponse(result.decision, result.rule, options);
   };
 }
 
@@ -186,30 +156,22 @@ export function withRateLimit(
   handler: (req: NextRequest) => Promise<NextResponse> | NextResponse,
   options: RateLimitOptions
 ) {
-  const rateLimiter = rateLimit(options);
-  
   return async function rateLimitedHandler(req: NextRequest): Promise<NextResponse> {
-    // 应用速率限制
-    const rateLimitResult = await rateLimiter(req);
-    
-    // 如果达到限制，直接返回限制响应
-    if (rateLimitResult) {
-      return rateLimitResult;
+    const result = await checkRateLimit(req, options);
+
+    // 达到限制，直接返回限制响应
+    if (result && !result.decision.allowed) {
+      return createLimitedResponse(result.decision, result.rule, options);
     }
-    
+
     // 未达到限制，执行原始处理函数
     const response = await handler(req);
-    
-    // 如果需要，在响应头中添加速率限制信息
-    if (options.headers !== false) {
-      const key = options.keyGenerator ? options.keyGenerator(req) : getClientIP(req);
-      const { remaining, resetTime } = globalRateLimitStore.getRemainingInfo(key, options.limit);
-      
-      response.headers.set('X-RateLimit-Limit', options.limit.toString());
-      response.headers.set('X-RateLimit-Remaining', remaining.toString());
-      response.headers.set('X-RateLimit-Reset', Math.ceil(resetTime / 1000).toString());
+
+    // 在响应头中添加速率限制信息
+    if (result && options.headers !== false) {
+      applyRateLimitHeaders(response.headers, result.decision, result.rule);
     }
-    
+
     return response;
   };
 }
@@ -239,7 +201,7 @@ export function ipPathKeyGenerator(req: NextRequest) {
 /**
  * 常用的速率限制配置
  */
-export const rateLimitPresets = {
+export const rateLimitPresets: Record<'standard' | 'sensitive' | 'auth' | 'payment', Pick<RateLimitOptions, 'limit' | 'windowMs' | 'algorithm' | 'burst'>> = {
   // 通用API限制 - 每分钟60次
   standard: {
     limit: 60,
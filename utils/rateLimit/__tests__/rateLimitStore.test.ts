@@ -0,0 +1,226 @@
+import { NextRequest } from 'next/server';
+import {
+  decideSlidingWindow,
+  decideTokenBucket,
+  MemoryRateLimitStore,
+  RateLimitRule
+} from '../rateLimitStore';
+import { applyRateLimitHeaders, checkRateLimit, setRateLimitStore } from '../../rate-limiter';
+
+jest.mock('@/utils/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+jest.mock('../../auth-middleware', () => ({ getClientIP: () => '127.0.0.1' }));
+
+const slidingRule: RateLimitRule = { algorithm: 'sliding-window', limit: 5, windowMs: 60000 };
+// 每秒补充1个令牌，最多突发3个
+const bucketRule: RateLimitRule = { algorithm: 'token-bucket', limit: 1, windowMs: 1000, burst: 3 };
+
+describe('rate limit store', () => {
+  let now: number;
+  let store: MemoryRateLimitStore;
+
+  beforeEach(() => {
+    // 固定在窗口起点，便于推算滑动窗口的权重
+    now = 1_200_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new MemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    store.stopCleanup();
+    setRateLimitStore(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('decideSlidingWindow', () => {
+    it('should weight the previous window by the remaining share of the current window', () => {
+      // 当前窗口过去一半，上一个窗口的4次按一半计算
+      const decision = decideSlidingWindow(slidingRule, true, 4, 1, now + 30000);
+
+      expect(decision).toEqual({
+        allowed: true,
+        limit: 5,
+        remaining: 2,
+        resetMs: 30000,
+        retryAfterMs: 0
+      });
+    });
+
+    it('should wait for the next window when the current window is full', () => {
+      const decision = decideSlidingWindow(slidingRule, false, 0, 5, now);
+
+      expect(decision.remaining).toBe(0);
+      // 当前窗口结束后还要等它的权重降到 (5 - 1) / 5
+      expect(decision.retryAfterMs).toBe(72000);
+    });
+  });
+
+  describe('decideTokenBucket', () => {
+    it('should report the bucket capacity and time to refill', () => {
+      const decision = decideTokenBucket(bucketRule, true, 1.5);
+
+      expect(decision).toEqual({
+        allowed: true,
+        limit: 3,
+        remaining: 1,
+        resetMs: 1500,
+        retryAfterMs: 0
+      });
+    });
+
+    it('should report the time until enough tokens are refilled', () => {
+      const decision = decideTokenBucket(bucketRule, false, 0.25, 1);
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.retryAfterMs).toBe(750);
+    });
+  });
+
+  describe('MemoryRateLimitStore sliding window', () => {
+    it('should allow requests up to the limit and then reject', async () => {
+      const remaining: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        const decision = await store.consume('user-1', slidingRule);
+        expect(decision.allowed).toBe(true);
+        remaining.push(decision.remaining);
+      }
+
+      const rejected = await store.consume('user-1', slidingRule);
+
+      expect(remaining).toEqual([4, 3, 2, 1, 0]);
+      expect(rejected).toMatchObject({ allowed: false, remaining: 0, resetMs: 60000, retryAfterMs: 72000 });
+    });
+
+    it('should not count rejected requests', async () => {
+      for (let i = 0; i < 7; i++) {
+        await store.consume('user-1', slidingRule);
+      }
+
+      // 下一个窗口过半时上一个窗口按5次的一半计算，被拒绝的2次不计入
+      now += 90000;
+      const decision = await store.consume('user-1', slidingRule);
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.remaining).toBe(1);
+    });
+
+    it('should carry the weighted previous window over after rollover', async () => {
+      for (let i = 0; i < 5; i++) {
+        await store.consume('user-1', slidingRule);
+      }
+
+      now += 90000;
+      const first = await store.consume('user-1', slidingRule);
+      const second = await store.consume('user-1', slidingRule);
+      const third = await store.consume('user-1', slidingRule);
+
+      expect(first).toMatchObject({ allowed: true, remaining: 1, resetMs: 30000 });
+      expect(second).toMatchObject({ allowed: true, remaining: 0 });
+      // 2.5 + 2 + 1 > 5，等上一个窗口的权重降到0.4，即再过6秒
+      expect(third).toMatchObject({ allowed: false, retryAfterMs: 6000 });
+
+      now += 6000;
+      expect((await store.consume('user-1', slidingRule)).allowed).toBe(true);
+    });
+
+    it('should reset fully once the previous window is out of range', async () => {
+      for (let i = 0; i < 5; i++) {
+        await store.consume('user-1', slidingRule);
+      }
+
+      now += 120000;
+      const decision = await store.consume('user-1', slidingRule);
+
+      expect(decision).toMatchObject({ allowed: true, remaining: 4 });
+    });
+
+    it('should count keys and costs separately', async () => {
+      const heavy = await store.consume('user-1', slidingRule, 4);
+      const other = await store.consume('user-2', slidingRule);
+      const overCost = await store.consume('user-1', slidingRule, 2);
+
+      expect(heavy.remaining).toBe(1);
+      expect(other.remaining).toBe(4);
+      expect(overCost.allowed).toBe(false);
+    });
+  });
+
+  describe('MemoryRateLimitStore token bucket', () => {
+    it('should allow a burst up to the bucket capacity', async () => {
+      const decisions = [];
+      for (let i = 0; i < 4; i++) {
+        decisions.push(await store.consume('user-1', bucketRule));
+      }
+
+      expect(decisions.map(d => d.allowed)).toEqual([true, true, true, false]);
+      expect(decisions.map(d => d.remaining)).toEqual([2, 1, 0, 0]);
+      expect(decisions[2].resetMs).toBe(3000);
+      expect(decisions[3]).toMatchObject({ limit: 3, retryAfterMs: 1000 });
+    });
+
+    it('should refill tokens over time', async () => {
+      for (let i = 0; i < 3; i++) {
+        await store.consume('user-1', bucketRule);
+      }
+
+      now += 500;
+      const early = await store.consume('user-1', bucketRule);
+      now += 500;
+      const refilled = await store.consume('user-1', bucketRule);
+
+      expect(early).toMatchObject({ allowed: false, retryAfterMs: 500 });
+      expect(refilled).toMatchObject({ allowed: true, remaining: 0 });
+    });
+
+    it('should cap refilled tokens at the burst size', async () => {
+      for (let i = 0; i < 3; i++) {
+        await store.consume('user-1', bucketRule);
+      }
+
+      now += 10000;
+      const decision = await store.consume('user-1', bucketRule);
+
+      expect(decision).toMatchObject({ allowed: true, remaining: 2, resetMs: 1000 });
+    });
+  });
+
+  describe('rate limit headers', () => {
+    it('should set RateLimit-Remaining and RateLimit-Reset in seconds', () => {
+      const headers = new Headers();
+      applyRateLimitHeaders(headers, {
+        allowed: true,
+        limit: 5,
+        remaining: 3,
+        resetMs: 30500,
+        retryAfterMs: 0
+      }, slidingRule);
+
+      expect(headers.get('RateLimit-Limit')).toBe('5');
+      expect(headers.get('RateLimit-Remaining')).toBe('3');
+      expect(headers.get('RateLimit-Reset')).toBe('31');
+      expect(headers.get('RateLimit-Policy')).toBe('5;w=60');
+      // 旧头的 Reset 为Unix时间戳
+      expect(headers.get('X-RateLimit-Reset')).toBe(String(Math.ceil((now + 30500) / 1000)));
+      expect(headers.has('Retry-After')).toBe(false);
+    });
+
+    it('should set Retry-After and the burst policy for rejected token bucket requests', async () => {
+      setRateLimitStore(store);
+      const request = new NextRequest('http://localhost/api/test');
+      const options = { ...bucketRule, keyGenerator: () => 'user-1' };
+
+      let result = await checkRateLimit(request, options);
+      for (let i = 0; i < 3; i++) {
+        result = await checkRateLimit(request, options);
+      }
+
+      const headers = new Headers();
+      applyRateLimitHeaders(headers, result!.decision, result!.rule);
+
+      expect(headers.get('RateLimit-Limit')).toBe('3');
+      expect(headers.get('RateLimit-Remaining')).toBe('0');
+      expect(headers.get('RateLimit-Reset')).toBe('3');
+      expect(headers.get('RateLimit-Policy')).toBe('1;w=1;burst=3');
+      expect(headers.get('Retry-After')).toBe('1');
+    });
+  });
+});
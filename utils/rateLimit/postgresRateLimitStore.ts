@@ -0,0 +1,86 @@
+/**
+ * 基于Postgres(Supabase)的速率限制存储
+ * 计数保存在 rate_limit_windows / rate_limit_buckets，通过RPC原子地判断和计数，
+ * 表结构和函数见 sql/migrations/20261105_rate_limits.sql
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import {
+  decideSlidingWindow,
+  decideTokenBucket,
+  getBucketCapacity,
+  MemoryRateLimitStore,
+  RateLimitDecision,
+  RateLimitRule,
+  RateLimitStore
+} from './rateLimitStore';
+
+const logger = createLogger('速率限制');
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  /**
+   * @param fallback 数据库不可用时退回的存储，避免限流故障导致接口整体不可用
+   */
+  constructor(private readonly fallback: RateLimitStore = new MemoryRateLimitStore()) {}
+
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitDecision> {
+    try {
+      return rule.algorithm === 'token-bucket'
+        ? await this.consumeTokenBucket(key, rule, cost)
+        : await this.consumeSlidingWindow(key, rule, cost);
+    } catch (error) {
+      logger.warn(`数据库限流失败，退回进程内计数: ${error instanceof Error ? error.message : String(error)}`);
+      return this.fallback.consume(key, rule, cost);
+    }
+  }
+
+  private async consumeSlidingWindow(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitDecision> {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_sliding_window', {
+        p_key: key,
+        p_limit: rule.limit,
+        p_window_ms: rule.windowMs,
+        p_cost: cost
+      })
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || '未返回数据');
+    }
+
+    const row = data as { allowed: boolean; previous_count: number; current_count: number; now_ms: number };
+    return decideSlidingWindow(rule, row.allowed, row.previous_count, row.current_count, Number(row.now_ms), cost);
+  }
+
+  private async consumeTokenBucket(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitDecision> {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin
+      .rpc('rate_limit_token_bucket', {
+        p_key: key,
+        p_capacity: getBucketCapacity(rule),
+        p_refill_per_ms: rule.limit / rule.windowMs,
+        p_cost: cost
+      })
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message || '未返回数据');
+    }
+
+    const row = data as { allowed: boolean; remaining_tokens: number };
+    return decideTokenBucket(rule, row.allowed, row.remaining_tokens, cost);
+  }
+}
+
+/**
+ * 清理过期的计数记录，返回删除的行数
+ */
+export async function purgeRateLimitState(): Promise<number> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('purge_rate_limit_state');
+  if (error) {
+    throw new Error(`清理速率限制记录失败: ${error.message}`);
+  }
+  return Number(data) || 0;
+}
@@ -0,0 +1,197 @@
+/**
+ * 速率限制存储
+ * 定义存储适配器接口和两种算法的计算方式，并提供进程内存实现。
+ * 内存实现只在单实例内有效，用于测试和本地开发；生产环境使用 PostgresRateLimitStore
+ */
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  /** 时间窗口内允许的请求数；令牌桶中为每个窗口补充的令牌数 */
+  limit: number;
+  /** 时间窗口（毫秒） */
+  windowMs: number;
+  /** 令牌桶容量，即允许的突发请求数，默认等于 limit */
+  burst?: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** 对外展示的额度上限，令牌桶为桶容量 */
+  limit: number;
+  remaining: number;
+  /** 额度恢复所需的毫秒数 */
+  resetMs: number;
+  /** 被限制时距下次可以请求的毫秒数，允许时为0 */
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * 为键消耗额度，判断与计数需是原子的
+   * @param cost 本次请求消耗的额度，默认1
+   */
+  consume(key: string, rule: RateLimitRule, cost?: number): Promise<RateLimitDecision>;
+}
+
+/**
+ * 根据上一个和当前窗口的计数计算滑动窗口的结果
+ * @param previousCount 上一个窗口的计数
+ * @param currentCount 当前窗口的计数，已包含本次允许的请求
+ */
+export function decideSlidingWindow(
+  rule: RateLimitRule,
+  allowed: boolean,
+  previousCount: number,
+  currentCount: number,
+  nowMs: number,
+  cost: number = 1
+): RateLimitDecision {
+  const { limit, windowMs } = rule;
+  const elapsed = nowMs % windowMs;
+  const weight = 1 - elapsed / windowMs;
+  const used = previousCount * weight + currentCount;
+  const resetMs = windowMs - elapsed;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (currentCount + cost > limit) {
+      // 当前窗口已满，等它变成上一个窗口并衰减到足够低
+      const ratio = currentCount > 0 ? (limit - cost) / currentCount : 1;
+      retryAfterMs = resetMs + Math.max(0, windowMs * (1 - ratio));
+    } else {
+      // 等上一个窗口的权重衰减到足够低
+      const ratio = previousCount > 0 ? (limit - currentCount - cost) / previousCount : 1;
+      retryAfterMs = Math.max(0, windowMs * (1 - ratio) - elapsed);
+    }
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - used)),
+    resetMs: Math.ceil(resetMs),
+    retryAfterMs: Math.ceil(retryAfterMs)
+  };
+}
+
+/**
+ * 根据结算后的剩余令牌计算令牌桶的结果
+ */
+export function decideTokenBucket(
+  rule: RateLimitRule,
+  allowed: boolean,
+  tokens: number,
+  cost: number = 1
+): RateLimitDecision {
+  const capacity = getBucketCapacity(rule);
+  const refillPerMs = rule.limit / rule.windowMs;
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetMs: Math.ceil((capacity - tokens) / refillPerMs),
+    retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs)
+  };
+}
+
+export function getBucketCapacity(rule: RateLimitRule): number {
+  return rule.burst ?? rule.limit;
+}
+
+/**
+ * 进程内存实现
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  // 滑动窗口计数，键为 `${key}:${windowStart}`
+  private windows = new Map<string, { count: number; expiresAt: number }>();
+  private buckets = new Map<string, { tokens: number; updatedAt: number; expiresAt: number }>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.startCleanup();
+  }
+
+  async consume(key: string, rule: RateLimitRule, cost: number = 1): Promise<RateLimitDecision> {
+    return rule.algorithm === 'token-bucket'
+      ? this.consumeTokenBucket(key, rule, cost)
+      : this.consumeSlidingWindow(key, rule, cost);
+  }
+
+  private consumeSlidingWindow(key: string, rule: RateLimitRule, cost: number): RateLimitDecision {
+    const now = Date.now();
+    const currentStart = now - (now % rule.windowMs);
+    const currentKey = `${key}:${currentStart}`;
+    const previousCount = this.windows.get(`${key}:${currentStart - rule.windowMs}`)?.count || 0;
+    const currentCount = this.windows.get(currentKey)?.count || 0;
+
+    const weight = 1 - (now - currentStart) / rule.windowMs;
+    if (previousCount * weight + currentCount + cost > rule.limit) {
+      return decideSlidingWindow(rule, false, previousCount, currentCount, now, cost);
+    }
+
+    this.windows.set(currentKey, {
+      count: currentCount + cost,
+      expiresAt: currentStart + 2 * rule.windowMs
+    });
+    return decideSlidingWindow(rule, true, previousCount, currentCount + cost, now, cost);
+  }
+
+  private consumeTokenBucket(key: string, rule: RateLimitRule, cost: number): RateLimitDecision {
+    const now = Date.now();
+    const capacity = getBucketCapacity(rule);
+    const refillPerMs = rule.limit / rule.windowMs;
+    const bucket = this.buckets.get(key);
+
+    let tokens = bucket
+      ? Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs)
+      : capacity;
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      expiresAt: now + (capacity - tokens) / refillPerMs
+    });
+    return decideTokenBucket(rule, allowed, tokens, cost);
+  }
+
+  /**
+   * 定期清理过期记录
+   */
+  private startCleanup() {
+    this.cleanupInterval = setInterval(() => {
+      const now = Date.now();
+      Array.from(this.windows.entries()).forEach(([key, record]) => {
+        if (now > record.expiresAt) {
+          this.windows.delete(key);
+        }
+      });
+      Array.from(this.buckets.entries()).forEach(([key, record]) => {
+        if (now > record.expiresAt) {
+          this.buckets.delete(key);
+        }
+      });
+    }, 10 * 60 * 1000);
+
+    // 防止内存泄漏
+    if (typeof window === 'undefined' && this.cleanupInterval && this.cleanupInterval.unref) {
+      this.cleanupInterval.unref();
+    }
+  }
+
+  /**
+   * 停止清理任务
+   */
+  stopCleanup() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+}
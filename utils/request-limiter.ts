@@ -1,5 +1,6 @@
 /**
  * 请求限制器 - 用于限制API请求频率，合并短时间内的相同请求
+ * 在浏览器端运行，状态只属于当前页面，用于减少重复请求；服务端的限流见 utils/rate-limiter.ts
  */
 
 // 请求类型枚举 - 使用字符串枚举确保toString可用
@@ -0,0 +1,107 @@
+/**
+ * 特权操作审计日志
+ * 写入失败只记录日志，不影响已完成的操作
+ */
+import type { NextRequest } from 'next/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { getClientIP } from '@/utils/auth-middleware';
+import type { UserRole } from './roles';
+
+const logger = createLogger('审计日志');
+
+export interface AuditActor {
+  userId: string;
+  role: UserRole;
+}
+
+export interface AuditEntry {
+  action: string;
+  resourceType: string;
+  resourceId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLog {
+  id: string;
+  actor_id: string | null;
+  actor_role: string;
+  action: string;
+  resource_type: string;
+  resource_id: string | null;
+  metadata: Record<string, unknown>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+/**
+ * 记录一条特权操作
+ * @param actor 操作者，由 requireRole 的校验结果得到
+ * @param request 用于记录来源IP与User-Agent
+ */
+export async function recordAuditLog(
+  actor: AuditActor,
+  entry: AuditEntry,
+  request?: NextRequest
+): Promise<void> {
+  try {
+    const supabaseAdmin = createAdminClient();
+    const { error } = await supabaseAdmin
+      .from('audit_logs')
+      .insert({
+        actor_id: actor.userId,
+        actor_role: actor.role,
+        action: entry.action,
+        resource_type: entry.resourceType,
+        resource_id: entry.resourceId ?? null,
+        metadata: entry.metadata || {},
+        ip_address: request ? getClientIP(request) : null,
+        user_agent: request?.headers.get('user-agent') || null
+      });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    logger.error(`记录审计日志失败(${entry.action} ${entry.resourceType}:${entry.resourceId ?? '-'}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 查询审计日志，按时间倒序
+ */
+export async function listAuditLogs(options: {
+  limit?: number;
+  offset?: number;
+  action?: string;
+  resourceType?: string;
+  actorId?: string;
+} = {}): Promise<AuditLog[]> {
+  const limit = Math.min(Math.max(options.limit || 50, 1), 200);
+  const offset = Math.max(options.offset || 0, 0);
+
+  const supabaseAdmin = createAdminClient();
+  let query = supabaseAdmin
+    .from('audit_logs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (options.action) {
+    query = query.eq('action', options.action);
+  }
+  if (options.resourceType) {
+    query = query.eq('resource_type', options.resourceType);
+  }
+  if (options.actorId) {
+    query = query.eq('actor_id', options.actorId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`查询审计日志失败: ${error.message}`);
+  }
+
+  return (data || []) as AuditLog[];
+}
@@ -0,0 +1,131 @@
+/**
+ * 基于角色的访问控制
+ * 角色保存在 user_roles 表，层级为 user < editor < admin，
+ * 没有记录的登录用户视为普通用户
+ */
+import type { User } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('角色权限');
+
+export const USER_ROLES = ['user', 'editor', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// 角色等级，数值越大权限越高
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  editor: 1,
+  admin: 2
+};
+
+export type RoleGuardResult =
+  | { authorized: true; user: User; role: UserRole }
+  | { authorized: false; status: 401 | 403; error: string; user?: User; role?: UserRole };
+
+export class RoleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoleValidationError';
+  }
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * 判断角色是否达到要求的最低角色
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * 查询用户角色，查询失败时按普通用户处理（拒绝特权而非放行）
+ */
+export async function getUserRole(userId: string): Promise<UserRole> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`查询用户角色失败: ${error.message}`);
+    return 'user';
+  }
+
+  return isUserRole(data?.role) ? data.role : 'user';
+}
+
+/**
+ * 校验当前登录用户是否具备指定角色
+ * 路由处理函数中配合 roleGuardResponse 返回错误，布局中根据 status 重定向
+ * @param required 要求的最低角色
+ */
+export async function requireRole(required: UserRole): Promise<RoleGuardResult> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { authorized: false, status: 401, error: '未授权访问' };
+  }
+
+  const role = await getUserRole(user.id);
+  if (!hasRole(role, required)) {
+    logger.warn(`用户 ${user.id} 角色为 ${role}，访问需要 ${required} 权限`);
+    return { authorized: false, status: 403, error: '权限不足', user, role };
+  }
+
+  return { authorized: true, user, role };
+}
+
+/**
+ * 将未通过的校验结果转换为统一的错误响应
+ */
+export function roleGuardResponse(guard: Extract<RoleGuardResult, { authorized: false }>) {
+  return NextResponse.json({ success: false, error: guard.error }, { status: guard.status });
+}
+
+/**
+ * 设置用户角色，设置为 user 时删除记录
+ */
+export async function setUserRole(userId: string, role: UserRole, grantedBy: string): Promise<UserRole> {
+  if (!isUserRole(role)) {
+    throw new RoleValidationError(`无效的角色: ${role}`);
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const previous = await getUserRole(userId);
+
+  if (role === 'user') {
+    const { error } = await supabaseAdmin
+      .from('user_roles')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`更新用户角色失败: ${error.message}`);
+    }
+  } else {
+    const { error } = await supabaseAdmin
+      .from('user_roles')
+      .upsert({
+        user_id: userId,
+        role,
+        granted_by: grantedBy,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`更新用户角色失败: ${error.message}`);
+    }
+  }
+
+  logger.info(`用户 ${userId} 角色变更: ${previous} -> ${role}`);
+  return previous;
+}
@@ -0,0 +1,231 @@
+/**
+ * 图片分享链接
+ * 用户为历史图片生成公开链接 /share/[token]，可随时撤销，也可设置有效期。
+ * token 为随机字符串，公开页面只能通过 token 访问，表结构见 sql/migrations/20261104_image_shares.sql
+ */
+import crypto from 'crypto';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { normalizeHistoryImageUrl } from '@/utils/history/historySearch';
+
+const logger = createLogger('图片分享');
+
+export const MAX_SHARE_DAYS = 365;
+// 每张图片同时有效的分享链接数
+const MAX_ACTIVE_SHARES_PER_IMAGE = 10;
+
+const SHARE_COLUMNS = 'id, token, history_id, show_prompt, view_count, expires_at, revoked_at, created_at';
+
+export interface ImageShare {
+  id: string;
+  token: string;
+  history_id: number;
+  show_prompt: boolean;
+  view_count: number;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  // 分享页路径，如 /share/abc123
+  path: string;
+}
+
+// 分享页展示的内容，隐藏提示词时 prompt 为 null
+export interface PublicImageShare {
+  token: string;
+  image_url: string;
+  prompt: string | null;
+  style: string | null;
+  aspect_ratio: string | null;
+  created_at: string;
+  expires_at: string | null;
+}
+
+export class ImageShareValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageShareValidationError';
+  }
+}
+
+function toImageShare(row: any): ImageShare {
+  return { ...row, path: `/share/${row.token}` };
+}
+
+/**
+ * 创建分享链接
+ * 通过 historyId 或 imageUrl 指定图片，生成结果页只有图片地址时使用 imageUrl
+ * @param input.expiresInDays 有效天数，为空表示长期有效
+ */
+export async function createImageShare(
+  userId: string,
+  input: { historyId?: unknown; imageUrl?: unknown; showPrompt?: unknown; expiresInDays?: unknown }
+): Promise<ImageShare> {
+  const supabaseAdmin = createAdminClient();
+
+  let query = supabaseAdmin
+    .from('ai_images_creator_history')
+    .select('id')
+    .eq('user_id', userId);
+
+  if (input.historyId !== undefined && input.historyId !== null) {
+    const historyId = Number(input.historyId);
+    if (!Number.isInteger(historyId) || historyId <= 0) {
+      throw new ImageShareValidationError('图片ID无效');
+    }
+    query = query.eq('id', historyId);
+  } else if (typeof input.imageUrl === 'string' && input.imageUrl) {
+    query = query.eq('image_url', input.imageUrl);
+  } else {
+    throw new ImageShareValidationError('请指定要分享的图片');
+  }
+
+  let expiresAt: string | null = null;
+  if (input.expiresInDays !== undefined && input.expiresInDays !== null) {
+    const days = Number(input.expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_DAYS) {
+      throw new ImageShareValidationError(`有效期必须是1到${MAX_SHARE_DAYS}天`);
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const { data: history, error: historyError } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (historyError) {
+    throw new Error(`查询图片失败: ${historyError.message}`);
+  }
+  if (!history) {
+    throw new ImageShareValidationError('图片不存在或已删除');
+  }
+
+  const { count } = await supabaseAdmin
+    .from('image_shares')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('history_id', history.id)
+    .is('revoked_at', null);
+
+  if ((count || 0) >= MAX_ACTIVE_SHARES_PER_IMAGE) {
+    throw new ImageShareValidationError('这张图片的分享链接过多，请先撤销不用的链接');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('image_shares')
+    .insert({
+      token: crypto.randomBytes(12).toString('base64url'),
+      user_id: userId,
+      history_id: history.id,
+      show_prompt: input.showPrompt !== false,
+      expires_at: expiresAt
+    })
+    .select(SHARE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`创建分享链接失败: ${error?.message || '未返回数据'}`);
+  }
+
+  logger.info(`用户${userId}为图片${history.id}创建了分享链接${data.id}`);
+  return toImageShare(data);
+}
+
+/**
+ * 用户的分享链接，包括已撤销和已过期的
+ * @param historyId 只列出某张图片的链接
+ */
+export async function listImageShares(userId: string, historyId?: number): Promise<ImageShare[]> {
+  const supabaseAdmin = createAdminClient();
+  let query = supabaseAdmin
+    .from('image_shares')
+    .select(SHARE_COLUMNS)
+    .eq('user_id', userId);
+
+  if (historyId) {
+    query = query.eq('history_id', historyId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    throw new Error(`查询分享链接失败: ${error.message}`);
+  }
+  return (data || []).map(toImageShare);
+}
+
+/**
+ * 撤销分享链接，链接不存在、不属于该用户或已撤销时返回false
+ */
+export async function revokeImageShare(userId: string, shareId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`撤销分享链接失败: ${error.message}`);
+  }
+
+  const revoked = (data || []).length > 0;
+  if (revoked) {
+    logger.info(`用户${userId}撤销了分享链接${shareId}`);
+  }
+  return revoked;
+}
+
+/**
+ * 按 token 查询公开分享，已撤销、已过期或图片已删除时返回null
+ */
+export async function getPublicShare(token: string): Promise<PublicImageShare | null> {
+  if (!/^[A-Za-z0-9_-]{8,64}$/.test(token)) {
+    return null;
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('image_shares')
+    .select('token, show_prompt, expires_at, revoked_at, history:ai_images_creator_history(image_url, prompt, style, aspect_ratio, created_at)')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (error) {
+    logger.error(`查询分享链接失败: ${error.message}`);
+    return null;
+  }
+
+  const history = data?.history as any;
+  if (!data || !history || data.revoked_at) {
+    return null;
+  }
+  if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  return {
+    token: data.token,
+    image_url: normalizeHistoryImageUrl(history.image_url),
+    prompt: data.show_prompt ? history.prompt : null,
+    style: history.style,
+    aspect_ratio: history.aspect_ratio,
+    created_at: history.created_at,
+    expires_at: data.expires_at
+  };
+}
+
+/**
+ * 记录一次分享页访问，失败不影响页面展示
+ */
+export async function recordShareView(token: string): Promise<void> {
+  const supabaseAdmin = createAdminClient();
+  const { error } = await supabaseAdmin.rpc('increment_share_view', { p_token: token });
+  if (error) {
+    logger.warn(`记录分享访问失败: ${error.message}`);
+  }
+}
@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import os from 'os';
+import nodePath from 'path';
+import { LocalStorageBackend } from '../localBackend';
+import { StorageError } from '../types';
+
+const PUBLIC_URL = 'http://localhost:3000/api/storage';
+
+describe('LocalStorageBackend', () => {
+  let rootDir: string;
+  let backend: LocalStorageBackend;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'local-storage-'));
+    backend = new LocalStorageBackend({ rootDir, publicUrl: `${PUBLIC_URL}/`, secret: 'test-secret' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should require a signing secret', () => {
+    expect(() => new LocalStorageBackend({ rootDir, publicUrl: PUBLIC_URL, secret: '' })).toThrow(StorageError);
+  });
+
+  it('should store files under the bucket directory', async () => {
+    await backend.put('uploads', 'user-1/a.png', Buffer.from('data'));
+
+    expect(await fs.readFile(nodePath.join(rootDir, 'uploads', 'user-1', 'a.png'), 'utf8')).toBe('data');
+    expect((await backend.get('uploads', 'user-1/a.png')).toString()).toBe('data');
+  });
+
+  describe('path traversal', () => {
+    beforeEach(async () => {
+      await fs.mkdir(nodePath.join(rootDir, 'private'), { recursive: true });
+      await fs.writeFile(nodePath.join(rootDir, 'private', 'secret.txt'), 'secret');
+    });
+
+    it.each([
+      ['uploads', '../private/secret.txt'],
+      ['uploads', 'user-1/../../private/secret.txt'],
+      ['uploads', '/etc/passwd'],
+      ['..', 'etc/passwd'],
+      ['', 'private/secret.txt']
+    ])('should reject %s/%s', async (bucket, path) => {
+      await expect(backend.get(bucket, path)).rejects.toMatchObject({ name: 'StorageError', status: 400 });
+      await expect(backend.put(bucket, path, Buffer.from('x'))).rejects.toMatchObject({ status: 400 });
+      await expect(backend.delete(bucket, [path])).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should keep files outside the bucket untouched', async () => {
+      await expect(backend.delete('uploads', ['../private/secret.txt'])).rejects.toThrow(StorageError);
+
+      expect(await fs.readFile(nodePath.join(rootDir, 'private', 'secret.txt'), 'utf8')).toBe('secret');
+    });
+  });
+
+  describe('signed urls', () => {
+    let now: number;
+
+    // 从签名地址中取出路由收到的参数
+    const parseSignedUrl = (url: string) => {
+      const parsed = new URL(url);
+      const location = backend.parsePublicUrl(url);
+      return {
+        bucket: location?.bucket || '',
+        path: location?.path || '',
+        expires: parsed.searchParams.get('expires'),
+        signature: parsed.searchParams.get('signature')
+      };
+    };
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    it('should verify a fresh signed url', async () => {
+      const url = await backend.createSignedUrl('exports', 'user-1/导出 1.zip', 60, { download: 'history.zip' });
+      const { bucket, path, expires, signature } = parseSignedUrl(url);
+
+      expect(url.startsWith(`${PUBLIC_URL}/exports/user-1/`)).toBe(true);
+      expect(new URL(url).searchParams.get('download')).toBe('history.zip');
+      expect(path).toBe('user-1/导出 1.zip');
+      expect(backend.verifySignedUrl(bucket, path, expires, signature)).toBe(true);
+    });
+
+    it('should reject the url after it expires', async () => {
+      const { bucket, path, expires, signature } = parseSignedUrl(
+        await backend.createSignedUrl('exports', 'user-1/a.zip', 60)
+      );
+
+      now += 60 * 1000;
+      expect(backend.verifySignedUrl(bucket, path, expires, signature)).toBe(true);
+      now += 1000;
+      expect(backend.verifySignedUrl(bucket, path, expires, signature)).toBe(false);
+    });
+
+    it('should reject tampered parameters', async () => {
+      const { bucket, path, expires, signature } = parseSignedUrl(
+        await backend.createSignedUrl('exports', 'user-1/a.zip', 60)
+      );
+
+      expect(backend.verifySignedUrl(bucket, 'user-2/a.zip', expires, signature)).toBe(false);
+      expect(backend.verifySignedUrl('uploads', path, expires, signature)).toBe(false);
+      expect(backend.verifySignedUrl(bucket, path, String(Number(expires) + 3600), signature)).toBe(false);
+      expect(backend.verifySignedUrl(bucket, path, expires, `${signature}x`)).toBe(false);
+      expect(backend.verifySignedUrl(bucket, path, expires, null)).toBe(false);
+      expect(backend.verifySignedUrl(bucket, path, 'never', signature)).toBe(false);
+    });
+
+    it('should reject urls signed with another secret', async () => {
+      const other = new LocalStorageBackend({ rootDir, publicUrl: PUBLIC_URL, secret: 'other-secret' });
+      const { bucket, path, expires, signature } = parseSignedUrl(
+        await other.createSignedUrl('exports', 'user-1/a.zip', 60)
+      );
+
+      expect(backend.verifySignedUrl(bucket, path, expires, signature)).toBe(false);
+    });
+  });
+});
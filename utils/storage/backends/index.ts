@@ -0,0 +1,92 @@
+/**
+ * 存储后端选择
+ * 按 bucketConfigs 中各存储桶的 provider 创建对应后端，同一 provider 的实例共享；
+ * 测试中可以用 setStorageBackend 替换为本地文件系统等实现
+ */
+import { BucketType, StorageProvider, bucketConfigs } from '../storageConfig';
+import { LocalStorageBackend } from './localBackend';
+import { S3StorageBackend } from './s3Backend';
+import { SupabaseStorageBackend } from './supabaseBackend';
+import { StorageBackend } from './types';
+
+export * from './types';
+export { LocalStorageBackend } from './localBackend';
+
+const backends = new Map<StorageProvider, StorageBackend>();
+
+function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+function createBackend(provider: StorageProvider): StorageBackend {
+  switch (provider) {
+    case StorageProvider.GOOGLE_CLOUD:
+      // 通过 GCS 的 XML API 访问，需要在 GCS 控制台创建 HMAC 密钥
+      return new S3StorageBackend({
+        provider,
+        endpoint: 'https://storage.googleapis.com',
+        region: 'auto',
+        accessKeyId: process.env.GCS_HMAC_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.GCS_HMAC_SECRET || '',
+        forcePathStyle: true,
+        publicUrl: process.env.GCS_PUBLIC_URL
+      });
+    case StorageProvider.CUSTOM:
+      return new S3StorageBackend({
+        provider,
+        endpoint: process.env.S3_ENDPOINT || '',
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+        publicUrl: process.env.S3_PUBLIC_URL
+      });
+    case StorageProvider.LOCAL:
+      return new LocalStorageBackend({
+        rootDir: process.env.LOCAL_STORAGE_DIR || '.storage',
+        publicUrl: process.env.LOCAL_STORAGE_PUBLIC_URL || `${getSiteUrl()}/api/storage`,
+        secret: process.env.LOCAL_STORAGE_SECRET || ''
+      });
+    case StorageProvider.SUPABASE:
+    default:
+      return new SupabaseStorageBackend();
+  }
+}
+
+/**
+ * 获取指定 provider 的存储后端
+ */
+export function getStorageBackendForProvider(provider: StorageProvider): StorageBackend {
+  let backend = backends.get(provider);
+  if (!backend) {
+    backend = createBackend(provider);
+    backends.set(provider, backend);
+  }
+  return backend;
+}
+
+/**
+ * 获取存储桶类型对应的存储后端
+ */
+export function getStorageBackend(bucketType: BucketType): StorageBackend {
+  return getStorageBackendForProvider(bucketConfigs[bucketType].provider);
+}
+
+/**
+ * 按存储桶名称获取存储后端，未配置的存储桶使用图片存储桶的后端
+ */
+export function getStorageBackendForBucket(bucketName: string): StorageBackend {
+  const config = Object.values(bucketConfigs).find(item => item.name === bucketName);
+  return getStorageBackendForProvider((config || bucketConfigs[BucketType.IMAGES]).provider);
+}
+
+/**
+ * 替换指定 provider 的存储后端，传入null时恢复默认实现，主要用于测试
+ */
+export function setStorageBackend(provider: StorageProvider, backend: StorageBackend | null): void {
+  if (backend) {
+    backends.set(provider, backend);
+  } else {
+    backends.delete(provider);
+  }
+}
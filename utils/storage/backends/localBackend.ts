@@ -0,0 +1,189 @@
+/**
+ * 本地文件系统存储后端
+ * 文件保存在 LOCAL_STORAGE_DIR/<bucket>/<path>，通过 /api/storage/<bucket>/<path> 访问；
+ * 非公开存储桶需要带 expires 和 signature 参数的签名地址。适用于单机部署和测试
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import nodePath from 'path';
+import { StorageProvider } from '../storageConfig';
+import {
+  DEFAULT_LIST_LIMIT,
+  StorageBackend,
+  StorageError,
+  StorageListOptions,
+  StorageObject,
+  StoragePutOptions,
+  StorageSignedUrlOptions
+} from './types';
+
+export interface LocalStorageOptions {
+  // 文件根目录
+  rootDir: string;
+  // 访问地址前缀，对应 /api/storage 路由
+  publicUrl: string;
+  // 签名地址使用的密钥
+  secret: string;
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+export class LocalStorageBackend implements StorageBackend {
+  readonly provider = StorageProvider.LOCAL;
+  private readonly rootDir: string;
+  private readonly publicUrl: string;
+
+  constructor(private readonly options: LocalStorageOptions) {
+    if (!options.secret) {
+      throw new StorageError('本地文件系统存储缺少 LOCAL_STORAGE_SECRET 签名密钥配置');
+    }
+    this.rootDir = nodePath.resolve(options.rootDir);
+    this.publicUrl = options.publicUrl.replace(/\/+$/, '');
+  }
+
+  async put(bucket: string, path: string, data: Buffer, options: StoragePutOptions = {}): Promise<void> {
+    const filePath = this.resolveFile(bucket, path);
+    await fs.mkdir(nodePath.dirname(filePath), { recursive: true });
+
+    try {
+      await fs.writeFile(filePath, data, { flag: options.upsert === false ? 'wx' : 'w' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        throw new StorageError(`上传文件失败: ${path} 已存在`, 409);
+      }
+      throw new StorageError(`上传文件失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async get(bucket: string, path: string): Promise<Buffer> {
+    const filePath = this.resolveFile(bucket, path);
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageError(`读取文件失败: ${path} 不存在`, 404);
+      }
+      throw new StorageError(`读取文件失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async delete(bucket: string, paths: string[]): Promise<void> {
+    for (const path of paths) {
+      const filePath = this.resolveFile(bucket, path);
+      try {
+        await fs.unlink(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new StorageError(`删除文件失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    return `${this.publicUrl}/${encodeURIComponent(bucket)}/${encodePath(path)}`;
+  }
+
+  parsePublicUrl(url: string): { bucket: string; path: string } | null {
+    const withoutQuery = url.split(/[?#]/)[0];
+    if (!withoutQuery.startsWith(`${this.publicUrl}/`)) return null;
+
+    const [bucket, ...rest] = withoutQuery.slice(this.publicUrl.length + 1).split('/');
+    if (!bucket || rest.length === 0) return null;
+    return { bucket: decodeURIComponent(bucket), path: decodeURIComponent(rest.join('/')) };
+  }
+
+  async createSignedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+    options: StorageSignedUrlOptions = {}
+  ): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + Math.max(Math.floor(expiresInSeconds), 1);
+    const params = new URLSearchParams({
+      expires: String(expires),
+      signature: this.signPath(bucket, path, expires)
+    });
+    if (options.download) {
+      params.set('download', options.download);
+    }
+    return `${this.getPublicUrl(bucket, path)}?${params.toString()}`;
+  }
+
+  /**
+   * 校验签名地址，过期或签名不符时返回false
+   */
+  verifySignedUrl(bucket: string, path: string, expires: string | null, signature: string | null): boolean {
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isFinite(expiresAt) || expiresAt * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signPath(bucket, path, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  async list(bucket: string, prefix: string = '', options: StorageListOptions = {}): Promise<StorageObject[]> {
+    const limit = options.limit || DEFAULT_LIST_LIMIT;
+    const bucketDir = this.resolveFile(bucket, '');
+    const objects: StorageObject[] = [];
+
+    // 从前缀所在的目录开始遍历，避免扫描整个存储桶
+    const slashIndex = prefix.lastIndexOf('/');
+    const startFolder = slashIndex >= 0 ? prefix.slice(0, slashIndex) : '';
+    const folders = [startFolder];
+
+    while (folders.length > 0 && objects.length < limit) {
+      const folder = folders.shift() as string;
+      let entries;
+      try {
+        entries = await fs.readdir(nodePath.join(bucketDir, folder), { withFileTypes: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw new StorageError(`列出文件失败: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const path = folder ? `${folder}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          // 目录路径与前缀有重叠时才需要展开
+          if (path.startsWith(prefix) || prefix.startsWith(`${path}/`)) {
+            folders.push(path);
+          }
+          continue;
+        }
+        if (!path.startsWith(prefix)) continue;
+
+        const stat = await fs.stat(nodePath.join(bucketDir, path));
+        objects.push({ path, size: stat.size, updatedAt: stat.mtime.toISOString() });
+        if (objects.length >= limit) break;
+      }
+    }
+
+    return objects;
+  }
+
+  private signPath(bucket: string, path: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.options.secret)
+      .update(`${bucket}/${path}:${expires}`)
+      .digest('base64url');
+  }
+
+  /**
+   * 解析文件的绝对路径，拒绝跳出存储桶目录的路径
+   */
+  private resolveFile(bucket: string, path: string): string {
+    const bucketDir = nodePath.resolve(this.rootDir, bucket);
+    const filePath = nodePath.resolve(bucketDir, path);
+
+    if (!bucketDir.startsWith(`${this.rootDir}${nodePath.sep}`) ||
+        (filePath !== bucketDir && !filePath.startsWith(`${bucketDir}${nodePath.sep}`))) {
+      throw new StorageError(`无效的存储路径: ${bucket}/${path}`, 400);
+    }
+    return filePath;
+  }
+}
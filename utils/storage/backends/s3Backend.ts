@@ -0,0 +1,328 @@
+/**
+ * S3 兼容存储后端
+ * 直接按 AWS Signature V4 签名调用 S3 REST 接口，适用于 MinIO 等自建服务（STORAGE_PROVIDER=custom），
+ * 以及通过 XML API 和 HMAC 密钥访问的 Google Cloud Storage（STORAGE_PROVIDER=gcs）
+ */
+import crypto from 'crypto';
+import { StorageProvider } from '../storageConfig';
+import {
+  DEFAULT_LIST_LIMIT,
+  StorageBackend,
+  StorageError,
+  StorageListOptions,
+  StorageObject,
+  StoragePutOptions,
+  StorageSignedUrlOptions
+} from './types';
+
+export interface S3StorageOptions {
+  provider: StorageProvider;
+  // 服务地址，如 http://localhost:9000
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // true 时使用 endpoint/bucket/key 形式的地址，否则使用 bucket.endpoint/key
+  forcePathStyle: boolean;
+  // 公开文件地址的前缀，默认与访问地址相同，可设置为CDN地址
+  publicUrl?: string;
+}
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+// 签名URL的最长有效期，S3 限制为7天
+const MAX_SIGNED_URL_SECONDS = 7 * 24 * 60 * 60;
+
+// 并发删除的请求数，GCS 的 XML API 不支持批量删除，统一逐个删除
+const DELETE_CONCURRENCY = 8;
+
+/**
+ * 按 RFC 3986 编码，S3 签名要求比 encodeURIComponent 更严格
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readXmlTag(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+export class S3StorageBackend implements StorageBackend {
+  readonly provider: StorageProvider;
+  private readonly endpoint: URL;
+
+  constructor(private readonly options: S3StorageOptions) {
+    if (!options.endpoint || !options.accessKeyId || !options.secretAccessKey) {
+      throw new StorageError('S3兼容存储缺少 endpoint 或访问密钥配置');
+    }
+    this.provider = options.provider;
+    this.endpoint = new URL(options.endpoint);
+  }
+
+  async put(bucket: string, path: string, data: Buffer, options: StoragePutOptions = {}): Promise<void> {
+    const headers: Record<string, string> = {
+      'content-type': options.contentType || 'application/octet-stream'
+    };
+    if (options.cacheControlSeconds !== undefined) {
+      headers['cache-control'] = `public, max-age=${options.cacheControlSeconds}`;
+    }
+    // 不覆盖时依赖条件写入，文件已存在返回412
+    if (options.upsert === false) {
+      headers['if-none-match'] = '*';
+    }
+
+    const response = await this.request('PUT', bucket, path, { headers, body: data });
+    if (!response.ok) {
+      throw await this.toError(response, '上传文件失败');
+    }
+  }
+
+  async get(bucket: string, path: string): Promise<Buffer> {
+    const response = await this.request('GET', bucket, path);
+    if (!response.ok) {
+      throw await this.toError(response, '读取文件失败');
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(bucket: string, paths: string[]): Promise<void> {
+    for (let i = 0; i < paths.length; i += DELETE_CONCURRENCY) {
+      await Promise.all(paths.slice(i, i + DELETE_CONCURRENCY).map(async path => {
+        const response = await this.request('DELETE', bucket, path);
+        // 删除不存在的文件时 S3 返回204，部分兼容服务返回404
+        if (!response.ok && response.status !== 404) {
+          throw await this.toError(response, '删除文件失败');
+        }
+      }));
+    }
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    return `${this.getPublicBase(bucket)}/${encodeKey(path)}`;
+  }
+
+  parsePublicUrl(url: string): { bucket: string; path: string } | null {
+    const withoutQuery = url.split(/[?#]/)[0];
+
+    if (this.options.publicUrl || this.options.forcePathStyle) {
+      const base = (this.options.publicUrl || this.endpoint.origin).replace(/\/+$/, '');
+      if (!withoutQuery.startsWith(`${base}/`)) return null;
+
+      const [bucket, ...rest] = withoutQuery.slice(base.length + 1).split('/');
+      if (!bucket || rest.length === 0) return null;
+      return { bucket: decodeURIComponent(bucket), path: decodeURIComponent(rest.join('/')) };
+    }
+
+    try {
+      const parsed = new URL(withoutQuery);
+      const suffix = `.${this.endpoint.host}`;
+      if (!parsed.host.endsWith(suffix)) return null;
+      return {
+        bucket: parsed.host.slice(0, -suffix.length),
+        path: decodeURIComponent(parsed.pathname.replace(/^\//, ''))
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async createSignedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+    options: StorageSignedUrlOptions = {}
+  ): Promise<string> {
+    const { url, host } = this.getObjectUrl(bucket, path);
+    const { amzDate, dateStamp } = this.getTimestamps();
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${this.options.accessKeyId}/${scope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(Math.max(Math.floor(expiresInSeconds), 1), MAX_SIGNED_URL_SECONDS)),
+      'X-Amz-SignedHeaders': 'host'
+    };
+    if (options.download) {
+      query['response-content-disposition'] = `attachment; filename*=UTF-8''${encodeRfc3986(options.download)}`;
+    }
+
+    const canonicalQuery = this.canonicalQuery(query);
+    const canonicalRequest = [
+      'GET',
+      url.pathname,
+      canonicalQuery,
+      `host:${host}\n`,
+      'host',
+      'UNSIGNED-PAYLOAD'
+    ].join('\n');
+
+    const signature = this.sign(canonicalRequest, amzDate, dateStamp);
+    return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  }
+
+  async list(bucket: string, prefix: string = '', options: StorageListOptions = {}): Promise<StorageObject[]> {
+    const limit = options.limit || DEFAULT_LIST_LIMIT;
+    const objects: StorageObject[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = {
+        'list-type': '2',
+        'max-keys': String(Math.min(limit - objects.length, DEFAULT_LIST_LIMIT))
+      };
+      if (prefix) query.prefix = prefix;
+      if (continuationToken) query['continuation-token'] = continuationToken;
+
+      const response = await this.request('GET', bucket, '', { query });
+      if (!response.ok) {
+        throw await this.toError(response, '列出文件失败');
+      }
+
+      const xml = await response.text();
+      const contents = xml.match(/<Contents>[\s\S]*?<\/Contents>/g) || [];
+      for (const item of contents) {
+        const key = readXmlTag(item, 'Key');
+        if (!key) continue;
+        objects.push({
+          path: key,
+          size: Number(readXmlTag(item, 'Size')) || 0,
+          updatedAt: readXmlTag(item, 'LastModified')
+        });
+      }
+
+      continuationToken = readXmlTag(xml, 'IsTruncated') === 'true'
+        ? readXmlTag(xml, 'NextContinuationToken')
+        : null;
+    } while (continuationToken && objects.length < limit);
+
+    return objects.slice(0, limit);
+  }
+
+  /**
+   * 发送签名请求，path 为空时请求存储桶本身
+   */
+  private async request(
+    method: string,
+    bucket: string,
+    path: string,
+    init: { headers?: Record<string, string>; body?: Buffer; query?: Record<string, string> } = {}
+  ): Promise<Response> {
+    const { url, host } = this.getObjectUrl(bucket, path);
+    const { amzDate, dateStamp } = this.getTimestamps();
+    const payloadHash = init.body ? sha256Hex(init.body) : EMPTY_PAYLOAD_HASH;
+
+    const headers: Record<string, string> = {
+      ...init.headers,
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaderNames = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const canonicalHeaders = signedHeaderNames
+      .map(name => `${name}:${String(headers[name]).trim()}\n`)
+      .join('');
+    const canonicalQuery = this.canonicalQuery(init.query || {});
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      canonicalHeaders,
+      signedHeaderNames.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const signature = this.sign(canonicalRequest, amzDate, dateStamp);
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    // host 由 fetch 根据地址自动设置
+    const requestHeaders = { ...headers };
+    delete requestHeaders.host;
+
+    return fetch(`${url.origin}${url.pathname}${canonicalQuery ? `?${canonicalQuery}` : ''}`, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`
+      },
+      body: init.body ? new Uint8Array(init.body) : undefined
+    });
+  }
+
+  private getObjectUrl(bucket: string, path: string): { url: URL; host: string } {
+    const basePath = this.endpoint.pathname.replace(/\/+$/, '');
+    const key = path ? `/${encodeKey(path)}` : '/';
+
+    if (this.options.forcePathStyle) {
+      const url = new URL(`${this.endpoint.origin}${basePath}/${encodeRfc3986(bucket)}${path ? key : ''}`);
+      return { url, host: url.host };
+    }
+
+    const url = new URL(`${this.endpoint.protocol}//${bucket}.${this.endpoint.host}${basePath}${key}`);
+    return { url, host: url.host };
+  }
+
+  private getPublicBase(bucket: string): string {
+    if (this.options.publicUrl) {
+      return `${this.options.publicUrl.replace(/\/+$/, '')}/${encodeRfc3986(bucket)}`;
+    }
+    const { url } = this.getObjectUrl(bucket, '');
+    return url.href.replace(/\/+$/, '');
+  }
+
+  private getTimestamps(): { amzDate: string; dateStamp: string } {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    return { amzDate, dateStamp: amzDate.slice(0, 8) };
+  }
+
+  private canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+      .sort()
+      .map(key => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+      .join('&');
+  }
+
+  private sign(canonicalRequest: string, amzDate: string, dateStamp: string): string {
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const dateKey = hmac(`AWS4${this.options.secretAccessKey}`, dateStamp);
+    const regionKey = hmac(dateKey, this.options.region);
+    const serviceKey = hmac(regionKey, 's3');
+    const signingKey = hmac(serviceKey, 'aws4_request');
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private async toError(response: Response, action: string): Promise<StorageError> {
+    let message = `${response.status} ${response.statusText}`;
+    try {
+      const body = await response.text();
+      message = readXmlTag(body, 'Message') || readXmlTag(body, 'Code') || message;
+    } catch {
+      // 保留状态码描述
+    }
+    return new StorageError(`${action}: ${message}`, response.status);
+  }
+}
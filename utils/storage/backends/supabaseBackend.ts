@@ -0,0 +1,133 @@
+/**
+ * Supabase 存储后端
+ * 使用服务端管理员客户端读写，绕过存储桶的RLS策略
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { StorageProvider } from '../storageConfig';
+import {
+  DEFAULT_LIST_LIMIT,
+  StorageBackend,
+  StorageError,
+  StorageListOptions,
+  StorageObject,
+  StoragePutOptions,
+  StorageSignedUrlOptions
+} from './types';
+
+// 公开文件地址：.../storage/v1/object/public/<bucket>/<path>
+const PUBLIC_URL_PATTERN = /\/storage\/v1\/object\/public\/([^/?#]+)\/([^?#]+)/;
+
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly provider = StorageProvider.SUPABASE;
+
+  async put(bucket: string, path: string, data: Buffer, options: StoragePutOptions = {}): Promise<void> {
+    const { error } = await createAdminClient().storage
+      .from(bucket)
+      .upload(path, data, {
+        contentType: options.contentType,
+        cacheControl: options.cacheControlSeconds !== undefined ? String(options.cacheControlSeconds) : undefined,
+        upsert: options.upsert !== false
+      });
+
+    if (error) {
+      throw new StorageError(`上传文件失败: ${error.message}`);
+    }
+  }
+
+  async get(bucket: string, path: string): Promise<Buffer> {
+    const { data, error } = await createAdminClient().storage.from(bucket).download(path);
+    if (error || !data) {
+      const notFound = !!error?.message && /not found|does not exist/i.test(error.message);
+      throw new StorageError(`读取文件失败: ${error?.message || '未返回数据'}`, notFound ? 404 : undefined);
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(bucket: string, paths: string[]): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await createAdminClient().storage.from(bucket).remove(paths);
+    if (error) {
+      throw new StorageError(`删除文件失败: ${error.message}`);
+    }
+  }
+
+  getPublicUrl(bucket: string, path: string): string {
+    const { data: { publicUrl } } = createAdminClient().storage.from(bucket).getPublicUrl(path);
+    return publicUrl;
+  }
+
+  parsePublicUrl(url: string): { bucket: string; path: string } | null {
+    const match = url.match(PUBLIC_URL_PATTERN);
+    if (!match) return null;
+
+    try {
+      return { bucket: decodeURIComponent(match[1]), path: decodeURIComponent(match[2]) };
+    } catch {
+      return { bucket: match[1], path: match[2] };
+    }
+  }
+
+  async createSignedUrl(
+    bucket: string,
+    path: string,
+    expiresInSeconds: number,
+    options: StorageSignedUrlOptions = {}
+  ): Promise<string> {
+    const { data, error } = await createAdminClient().storage
+      .from(bucket)
+      .createSignedUrl(path, expiresInSeconds, options.download ? { download: options.download } : undefined);
+
+    if (error || !data?.signedUrl) {
+      throw new StorageError(`生成签名链接失败: ${error?.message || '未返回链接'}`);
+    }
+    return data.signedUrl;
+  }
+
+  async list(bucket: string, prefix: string = '', options: StorageListOptions = {}): Promise<StorageObject[]> {
+    const limit = options.limit || DEFAULT_LIST_LIMIT;
+    const objects: StorageObject[] = [];
+
+    // Supabase 按目录列出，前缀拆成所在目录和文件名前缀，子目录逐层展开
+    const slashIndex = prefix.lastIndexOf('/');
+    const folders = [slashIndex >= 0 ? prefix.slice(0, slashIndex) : ''];
+    const namePrefix = slashIndex >= 0 ? prefix.slice(slashIndex + 1) : prefix;
+    let isTopLevel = true;
+
+    while (folders.length > 0 && objects.length < limit) {
+      const folder = folders.shift() as string;
+      const { data, error } = await createAdminClient().storage
+        .from(bucket)
+        .list(folder, {
+          limit: DEFAULT_LIST_LIMIT,
+          ...(isTopLevel && namePrefix ? { search: namePrefix } : {})
+        });
+
+      if (error) {
+        throw new StorageError(`列出文件失败: ${error.message}`);
+      }
+
+      for (const entry of data || []) {
+        // search 是模糊匹配，这里只保留前缀匹配的结果
+        if (isTopLevel && namePrefix && !entry.name.startsWith(namePrefix)) continue;
+
+        const path = folder ? `${folder}/${entry.name}` : entry.name;
+        // 没有id的是目录
+        if (!entry.id) {
+          folders.push(path);
+          continue;
+        }
+
+        objects.push({
+          path,
+          size: Number(entry.metadata?.size) || 0,
+          updatedAt: entry.updated_at || entry.created_at || null
+        });
+        if (objects.length >= limit) break;
+      }
+      isTopLevel = false;
+    }
+
+    return objects;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * 存储后端抽象
+ * 图片、临时文件和导出文件都通过统一的 StorageBackend 读写，
+ * 具体实现由存储桶配置中的 provider 决定，新增存储服务时只需实现该接口并在 index.ts 中登记
+ */
+import { StorageProvider } from '../storageConfig';
+
+export interface StoragePutOptions {
+  contentType?: string;
+  // 公开访问时的浏览器缓存时长（秒）
+  cacheControlSeconds?: number;
+  // 是否覆盖已存在的文件，默认覆盖
+  upsert?: boolean;
+}
+
+export interface StorageSignedUrlOptions {
+  // 作为附件下载时使用的文件名
+  download?: string;
+}
+
+export interface StorageListOptions {
+  // 最多返回的文件数，默认1000
+  limit?: number;
+}
+
+export interface StorageObject {
+  // 相对存储桶的完整路径
+  path: string;
+  size: number;
+  updatedAt: string | null;
+}
+
+export interface StorageBackend {
+  readonly provider: StorageProvider;
+
+  /**
+   * 写入文件
+   */
+  put(bucket: string, path: string, data: Buffer, options?: StoragePutOptions): Promise<void>;
+
+  /**
+   * 读取文件内容，文件不存在时抛出 status 为404的 StorageError
+   */
+  get(bucket: string, path: string): Promise<Buffer>;
+
+  /**
+   * 删除文件，不存在的文件直接忽略
+   */
+  delete(bucket: string, paths: string[]): Promise<void>;
+
+  /**
+   * 公开存储桶中文件的访问地址
+   */
+  getPublicUrl(bucket: string, path: string): string;
+
+  /**
+   * 从 getPublicUrl 生成的地址中解析存储桶和路径，不是该后端的地址时返回null
+   */
+  parsePublicUrl(url: string): { bucket: string; path: string } | null;
+
+  /**
+   * 生成有时效的访问地址，用于非公开存储桶
+   */
+  createSignedUrl(bucket: string, path: string, expiresInSeconds: number, options?: StorageSignedUrlOptions): Promise<string>;
+
+  /**
+   * 列出路径以 prefix 开头的文件（包含子目录）
+   */
+  list(bucket: string, prefix?: string, options?: StorageListOptions): Promise<StorageObject[]>;
+}
+
+/**
+ * 存储操作失败，status 为存储服务返回的HTTP状态码（如果有）
+ */
+export class StorageError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+export const DEFAULT_LIST_LIMIT = 1000;
@@ -7,15 +7,18 @@
 export enum BucketType {
   IMAGES = 'images',
   TEMP = 'temp',
+  UPLOADS = 'uploads',
   AVATARS = 'avatars',
-  DOCUMENTS = 'documents'
+  DOCUMENTS = 'documents',
+  EXPORTS = 'exports'
 }
 
 // 存储提供商类型
 export enum StorageProvider {
   SUPABASE = 'supabase',
   GOOGLE_CLOUD = 'gcs',
-  CUSTOM = 'custom'
+  CUSTOM = 'custom',      // S3兼容存储，如 MinIO
+  LOCAL = 'local'         // 本地文件系统
 }
 
 // 存储桶配置接口
@@ -34,8 +37,10 @@ const getEnvBucketName = (bucketType: BucketType): string => {
   const envMap: Record<BucketType, string> = {
     [BucketType.IMAGES]: process.env.STORAGE_BUCKET_IMAGES || 'images',
     [BucketType.TEMP]: process.env.STORAGE_BUCKET_TEMP || 'temp',
+    [BucketType.UPLOADS]: process.env.STORAGE_BUCKET_UPLOADS || 'uploads',
     [BucketType.AVATARS]: process.env.STORAGE_BUCKET_AVATARS || 'avatars',
-    [BucketType.DOCUMENTS]: process.env.STORAGE_BUCKET_DOCUMENTS || 'documents'
+    [BucketType.DOCUMENTS]: process.env.STORAGE_BUCKET_DOCUMENTS || 'documents',
+    [BucketType.EXPORTS]: process.env.STORAGE_BUCKET_EXPORTS || 'exports'
   };
   
   return envMap[bucketType];
@@ -46,8 +51,10 @@ const getStorageProvider = (): StorageProvider => {
   const provider = process.env.STORAGE_PROVIDER?.toLowerCase();
   if (provider === 'gcs' || provider === 'google') {
     return StorageProvider.GOOGLE_CLOUD;
-  } else if (provider === 'custom') {
+  } else if (provider === 'custom' || provider === 's3' || provider === 'minio') {
     return StorageProvider.CUSTOM;
+  } else if (provider === 'local' || provider === 'filesystem') {
+    return StorageProvider.LOCAL;
   }
   return StorageProvider.SUPABASE; // 默认
 };
@@ -69,6 +76,14 @@ export const bucketConfigs: Record<BucketType, BucketConfig> = {
     allowedFileTypes: ['image/jpeg', 'image/png', 'image/webp'],
     maxFileSize: 20 * 1024 * 1024, // 20MB
   },
+  // 任务参考图和蒙版，长期保存，重新创作时仍需读取
+  [BucketType.UPLOADS]: {
+    name: getEnvBucketName(BucketType.UPLOADS),
+    provider: getStorageProvider(),
+    publicAccess: true,
+    allowedFileTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    maxFileSize: 20 * 1024 * 1024, // 20MB
+  },
   [BucketType.AVATARS]: {
     name: getEnvBucketName(BucketType.AVATARS),
     provider: getStorageProvider(),
@@ -82,6 +97,13 @@ export const bucketConfigs: Record<BucketType, BucketConfig> = {
     publicAccess: false,
     allowedFileTypes: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
     maxFileSize: 50 * 1024 * 1024, // 50MB
+  },
+  [BucketType.EXPORTS]: {
+    name: getEnvBucketName(BucketType.EXPORTS),
+    provider: getStorageProvider(),
+    publicAccess: false,
+    allowedFileTypes: ['application/zip'],
+    maxFileSize: 1024 * 1024 * 1024, // 1GB
   }
 };
 
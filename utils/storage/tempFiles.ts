@@ -0,0 +1,130 @@
+/**
+ * 临时文件
+ * 上传到带 tempFileTTL 的存储桶时记录到 storage_temp_files，过期后由定时任务删除；
+ * 任务的参考图和蒙版保存在参考图存储桶，不在此列；此前写入临时存储桶、仍被任务引用的文件转为长期保存，不会被删除
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { getStorageBackendForBucket } from '@/utils/storage/backends';
+
+const logger = createLogger('临时文件');
+
+// 每批删除的文件数，URL较长，批次过大会使查询串超出限制
+const PURGE_BATCH_SIZE = 50;
+
+/**
+ * 记录临时文件，失败只记录警告，不影响上传结果
+ */
+export async function recordTempFile(params: {
+  bucket: string;
+  path: string;
+  url: string;
+  userId: string | null;
+  contentHash: string | null;
+  ttlSeconds: number;
+}): Promise<void> {
+  const supabaseAdmin = createAdminClient();
+  const { error } = await supabaseAdmin
+    .from('storage_temp_files')
+    .upsert({
+      bucket: params.bucket,
+      path: params.path,
+      url: params.url,
+      user_id: params.userId,
+      content_hash: params.contentHash,
+      expires_at: new Date(Date.now() + params.ttlSeconds * 1000).toISOString()
+    }, { onConflict: 'bucket,path' });
+
+  if (error) {
+    logger.warn(`记录临时文件失败: ${params.bucket}/${params.path}, ${error.message}`);
+  }
+}
+
+/**
+ * 删除过期的临时文件，返回删除的文件数
+ */
+export async function purgeExpiredTempFiles(maxFiles: number = 500): Promise<number> {
+  const supabaseAdmin = createAdminClient();
+  let purged = 0;
+
+  while (purged < maxFiles) {
+    const { data: expired, error } = await supabaseAdmin
+      .from('storage_temp_files')
+      .select('bucket, path, url')
+      .lt('expires_at', new Date().toISOString())
+      .order('expires_at', { ascending: true })
+      .limit(Math.min(PURGE_BATCH_SIZE, maxFiles - purged));
+
+    if (error) {
+      throw new Error(`查询过期临时文件失败: ${error.message}`);
+    }
+    if (!expired || expired.length === 0) break;
+
+    const files = expired as Array<{ bucket: string; path: string; url: string }>;
+    const urls = files.map(file => file.url);
+
+    // 任务引用的文件（此前写入临时存储桶的参考图和蒙版）重新创作时还要读取，只取消跟踪不删除
+    const { data: referencingTasks, error: referenceError } = await supabaseAdmin
+      .from('image_tasks')
+      .select('input_image_url, mask_image_url')
+      .or(`input_image_url.in.(${urls.map(quoteFilterValue).join(',')}),mask_image_url.in.(${urls.map(quoteFilterValue).join(',')})`);
+
+    if (referenceError) {
+      throw new Error(`查询引用临时文件的任务失败: ${referenceError.message}`);
+    }
+
+    const inUse = new Set<string>();
+    for (const task of referencingTasks || []) {
+      if (task.input_image_url) inUse.add(task.input_image_url);
+      if (task.mask_image_url) inUse.add(task.mask_image_url);
+    }
+
+    const keptUrls = urls.filter(url => inUse.has(url));
+    if (keptUrls.length > 0) {
+      const { error: untrackError } = await supabaseAdmin
+        .from('storage_temp_files')
+        .delete()
+        .in('url', keptUrls);
+      if (untrackError) {
+        throw new Error(`取消跟踪任务引用的临时文件失败: ${untrackError.message}`);
+      }
+      logger.info(`${keptUrls.length}个临时文件被任务引用，已转为长期保存`);
+    }
+
+    const removable = files.filter(file => !inUse.has(file.url));
+    if (removable.length === 0) continue;
+
+    const pathsByBucket = new Map<string, string[]>();
+    for (const file of removable) {
+      pathsByBucket.set(file.bucket, [...(pathsByBucket.get(file.bucket) || []), file.path]);
+    }
+
+    for (const [bucket, paths] of Array.from(pathsByBucket.entries())) {
+      // 文件已不存在时 delete 不会报错，记录照常删除
+      await getStorageBackendForBucket(bucket).delete(bucket, paths);
+
+      const { error: deleteError } = await supabaseAdmin
+        .from('storage_temp_files')
+        .delete()
+        .eq('bucket', bucket)
+        .in('path', paths);
+      if (deleteError) {
+        throw new Error(`删除临时文件记录失败: ${deleteError.message}`);
+      }
+    }
+
+    purged += removable.length;
+  }
+
+  if (purged > 0) {
+    logger.info(`已删除${purged}个过期临时文件`);
+  }
+  return purged;
+}
+
+/**
+ * PostgREST 过滤条件中的值加引号，URL中的逗号和括号不会被当作分隔符
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
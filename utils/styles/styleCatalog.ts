@@ -0,0 +1,283 @@
+/**
+ * 风格目录
+ * 风格保存在 styles 表，生成页的风格列表和生成任务的提示词构建都从这里读取；
+ * 读取结果在实例内缓存一分钟，管理后台修改后立即失效
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { PROMPT_PLACEHOLDER, PROMPT_SLOT, StyleConfig } from '@/app/config/styles';
+import { extractSlotNames, validatePromptTemplate } from '@/utils/promptTemplate';
+
+const logger = createLogger('风格目录');
+
+// 实例内缓存时长
+const CACHE_TTL_MS = 60 * 1000;
+
+// 风格ID会出现在URL路径中，不允许空白和路径分隔等字符
+const STYLE_ID_PATTERN = /^[^\s/\\?#%&]{1,40}$/;
+const ASPECT_RATIO_PATTERN = /^\d{1,2}:\d{1,2}$/;
+
+export interface StyleRecord {
+  id: string;
+  name: string;
+  description: string;
+  preview_image: string | null;
+  prompt_template: string;
+  negative_prompt: string | null;
+  default_aspect_ratio: string | null;
+  enabled: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StyleInput {
+  id?: string;
+  name?: string;
+  description?: string;
+  preview_image?: string | null;
+  prompt_template?: string;
+  negative_prompt?: string | null;
+  default_aspect_ratio?: string | null;
+  enabled?: boolean;
+  sort_order?: number;
+}
+
+export class StyleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StyleValidationError';
+  }
+}
+
+let cache: { styles: StyleRecord[]; expiresAt: number } | null = null;
+
+/**
+ * 数据库记录转换为前端使用的风格配置
+ */
+export function toStyleConfig(record: StyleRecord): StyleConfig {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    imageUrl: record.preview_image || '',
+    promptTemplate: record.prompt_template,
+    negativePrompt: record.negative_prompt,
+    defaultAspectRatio: record.default_aspect_ratio,
+    enabled: record.enabled,
+    sortOrder: record.sort_order
+  };
+}
+
+async function loadStyles(): Promise<StyleRecord[]> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.styles;
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('styles')
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`查询风格失败: ${error.message}`);
+  }
+
+  const styles = (data || []) as StyleRecord[];
+  cache = { styles, expiresAt: Date.now() + CACHE_TTL_MS };
+  return styles;
+}
+
+function invalidateCache() {
+  cache = null;
+}
+
+/**
+ * 风格列表，按排序值升序
+ * @param includeDisabled 是否包含已停用的风格（管理后台使用）
+ */
+export async function listStyles(includeDisabled = false): Promise<StyleRecord[]> {
+  const styles = await loadStyles();
+  return includeDisabled ? styles : styles.filter(style => style.enabled);
+}
+
+/**
+ * 按ID获取风格，不存在时返回null
+ */
+export async function getStyle(styleId: string): Promise<StyleRecord | null> {
+  const styles = await loadStyles();
+  return styles.find(style => style.id === styleId) || null;
+}
+
+/**
+ * 获取生成任务使用的风格配置
+ * 风格不存在或查询失败时返回null，调用方按不应用风格处理
+ */
+export async function resolveStyleConfig(styleId?: string | null): Promise<StyleConfig | null> {
+  if (!styleId) {
+    return null;
+  }
+
+  try {
+    const style = await getStyle(styleId);
+    if (!style) {
+      logger.warn(`风格不存在: ${styleId}，不应用风格模板`);
+      return null;
+    }
+    return toStyleConfig(style);
+  } catch (error) {
+    logger.error(`读取风格 ${styleId} 失败，不应用风格模板: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * 任务使用的图片比例，请求未指定时使用风格的默认比例；创建任务和生成前报价共用，保证报价与实际扣点一致
+ */
+export function resolveTaskAspectRatio(aspectRatio: string | null | undefined, styleConfig: StyleConfig | null): string | null {
+  return aspectRatio || styleConfig?.defaultAspectRatio || null;
+}
+
+function normalizeOptional(value: unknown, field: string, maxLength: number): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    throw new StyleValidationError(`${field}格式无效`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new StyleValidationError(`${field}不能超过${maxLength}个字符`);
+  }
+  return trimmed || null;
+}
+
+function validateStyleInput(input: StyleInput, isCreate: boolean): Partial<StyleRecord> {
+  const values: Partial<StyleRecord> = {};
+
+  if (isCreate || input.name !== undefined) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > 40) {
+      throw new StyleValidationError('风格名称不能为空且不能超过40个字符');
+    }
+    values.name = name;
+  }
+
+  if (input.description !== undefined) {
+    values.description = normalizeOptional(input.description, '风格描述', 200) || '';
+  }
+
+  if (isCreate || input.prompt_template !== undefined) {
+    const template = typeof input.prompt_template === 'string' ? input.prompt_template.trim() : '';
+    const templateErrors = validatePromptTemplate(template, [PROMPT_SLOT]);
+    if (templateErrors.length > 0) {
+      throw new StyleValidationError(`提示词模板无效: ${templateErrors.join('；')}`);
+    }
+    if (!extractSlotNames(template).includes(PROMPT_SLOT)) {
+      throw new StyleValidationError(`提示词模板必须包含 ${PROMPT_PLACEHOLDER} 占位符`);
+    }
+    if (template.length > 2000) {
+      throw new StyleValidationError('提示词模板不能超过2000个字符');
+    }
+    values.prompt_template = template;
+  }
+
+  const previewImage = normalizeOptional(input.preview_image, '预览图地址', 1000);
+  if (previewImage !== undefined) values.preview_image = previewImage;
+
+  const negativePrompt = normalizeOptional(input.negative_prompt, '负面提示', 500);
+  if (negativePrompt !== undefined) values.negative_prompt = negativePrompt;
+
+  const aspectRatio = normalizeOptional(input.default_aspect_ratio, '默认比例', 5);
+  if (aspectRatio !== undefined) {
+    if (aspectRatio && !ASPECT_RATIO_PATTERN.test(aspectRatio)) {
+      throw new StyleValidationError('默认比例格式应为 宽:高，例如 3:4');
+    }
+    values.default_aspect_ratio = aspectRatio;
+  }
+
+  if (input.enabled !== undefined) {
+    values.enabled = input.enabled === true;
+  }
+
+  if (input.sort_order !== undefined) {
+    const sortOrder = Number(input.sort_order);
+    if (!Number.isInteger(sortOrder)) {
+      throw new StyleValidationError('排序值必须是整数');
+    }
+    values.sort_order = sortOrder;
+  }
+
+  return values;
+}
+
+/**
+ * 创建风格，ID创建后不可修改（任务和模板中保存的是风格ID）
+ */
+export async function createStyle(input: StyleInput): Promise<StyleRecord> {
+  const id = typeof input.id === 'string' ? input.id.trim() : '';
+  if (!STYLE_ID_PATTERN.test(id)) {
+    throw new StyleValidationError('风格ID不能为空、不能包含空格和 / ? # % & 等字符，且不超过40个字符');
+  }
+
+  const values = validateStyleInput(input, true);
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('styles')
+    .insert({ ...values, id })
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new StyleValidationError(`风格ID已存在: ${id}`);
+    }
+    throw new Error(`创建风格失败: ${error.message}`);
+  }
+
+  invalidateCache();
+  logger.info(`已创建风格: ${id}`);
+  return data as StyleRecord;
+}
+
+/**
+ * 更新风格，返回null表示风格不存在
+ */
+export async function updateStyle(styleId: string, input: StyleInput): Promise<StyleRecord | null> {
+  const values = validateStyleInput(input, false);
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('styles')
+    .update({ ...values, updated_at: new Date().toISOString() })
+    .eq('id', styleId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`更新风格失败: ${error.message}`);
+  }
+
+  invalidateCache();
+  return data as StyleRecord | null;
+}
+
+/**
+ * 删除风格，返回是否删除了记录
+ * 已使用该风格的历史任务不受影响，停用通常比删除更合适
+ */
+export async function deleteStyle(styleId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('styles')
+    .delete()
+    .eq('id', styleId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`删除风格失败: ${error.message}`);
+  }
+
+  invalidateCache();
+  return (data || []).length > 0;
+}
@@ -0,0 +1,267 @@
+/**
+ * 任务事件订阅工具
+ * 通过 /api/tasks/[taskId]/events 的SSE事件流接收任务进度，批量生成通过
+ * /api/tasks/batches/[batchId]/events 用一个连接接收整个批次的进度，
+ * 浏览器不支持EventSource或事件流中途不可用时退回到轮询
+ */
+
+import { enhancedPollTaskStatus, PollOptions, PollingResult } from './taskPoller';
+import { updatePendingTaskStatus } from './taskStorage';
+
+// signal 中止订阅，同时关闭事件流或停止轮询
+export type TaskEventOptions = PollOptions;
+
+export interface BatchEventOptions extends Omit<TaskEventOptions, 'onProgress'> {
+  onProgress?: (taskId: string, progress: number, stage: string) => void;
+}
+
+/**
+ * 订阅任务状态直到任务结束
+ * 结果与 enhancedPollTaskStatus 一致：完成时resolve，失败、取消或超时时以 { status, error } reject
+ */
+export function watchTaskStatus(
+  taskId: string,
+  options: TaskEventOptions = {}
+): Promise<PollingResult> {
+  if (typeof window === 'undefined' || typeof window.EventSource === 'undefined') {
+    return enhancedPollTaskStatus(taskId, options);
+  }
+
+  const { signal, onProgress, onStateChange } = options;
+  const startTime = Date.now();
+  let eventCount = 0;
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/tasks/${encodeURIComponent(taskId)}/events`);
+    let settled = false;
+
+    const finish = () => {
+      settled = true;
+      source.close();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const buildResult = (status: PollingResult['status'], extra: Partial<PollingResult> = {}): PollingResult => ({
+      status,
+      attempts: eventCount,
+      elapsedTime: Date.now() - startTime,
+      ...extra
+    });
+
+    // 事件流不可用时退回轮询，由轮询负责后续结果
+    const fallbackToPolling = (reason: string) => {
+      if (settled) return;
+      finish();
+      console.warn(`[任务事件] 任务${taskId}${reason}，改用轮询`);
+      enhancedPollTaskStatus(taskId, options).then(resolve, reject);
+    };
+
+    const handleAbort = () => {
+      if (settled) return;
+      finish();
+      onStateChange?.('cancelled');
+      reject(buildResult('cancelled', { error: '订阅已取消' }));
+    };
+
+    const parse = (event: MessageEvent): any => {
+      eventCount++;
+      try {
+        return JSON.parse(event.data);
+      } catch {
+        return {};
+      }
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    onStateChange?.('polling');
+
+    source.addEventListener('progress', (event) => {
+      const data = parse(event as MessageEvent);
+      if (typeof data.progress === 'number' && data.stage) {
+        onProgress?.(data.progress, data.stage);
+      }
+      if (data.status) {
+        onStateChange?.(data.status);
+      }
+    });
+
+    source.addEventListener('completed', (event) => {
+      const data = parse(event as MessageEvent);
+      finish();
+      onProgress?.(100, 'completed');
+      onStateChange?.('completed');
+      resolve(buildResult('completed', { data }));
+    });
+
+    const handleFailure = (status: 'failed' | 'cancelled') => (event: Event) => {
+      const data = parse(event as MessageEvent);
+      const error = data.error || (status === 'cancelled' ? '任务已取消' : '图片生成失败');
+      finish();
+      onStateChange?.(status);
+      updatePendingTaskStatus(taskId, status, error);
+      reject(buildResult(status, { error }));
+    };
+
+    source.addEventListener('failed', handleFailure('failed'));
+    source.addEventListener('cancelled', handleFailure('cancelled'));
+
+    source.addEventListener('timeout', () => {
+      fallbackToPolling('的事件流已达到最长保持时间');
+    });
+
+    // 连接被拒绝（如401、404）时EventSource不会重连；网络抖动时由EventSource自动重连
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        fallbackToPolling('的事件流连接失败');
+      }
+    };
+  });
+}
+
+/**
+ * 订阅批次内所有任务直到全部结束，整个批次只建立一个事件流连接
+ * 结果按 taskIds 顺序返回，每个任务的结果与 watchTaskStatus 一致：完成为fulfilled，失败、取消或超时为rejected
+ */
+export function watchBatchStatus(
+  batchId: string,
+  taskIds: string[],
+  options: BatchEventOptions = {}
+): Promise<PromiseSettledResult<PollingResult>[]> {
+  const { signal, onProgress, onStateChange } = options;
+
+  // 单个任务的轮询选项，进度回调带上任务ID
+  const pollOptionsFor = (taskId: string): TaskEventOptions => ({
+    ...options,
+    onProgress: (progress, stage) => onProgress?.(taskId, progress, stage)
+  });
+
+  if (typeof window === 'undefined' || typeof window.EventSource === 'undefined') {
+    return Promise.allSettled(taskIds.map(taskId => enhancedPollTaskStatus(taskId, pollOptionsFor(taskId))));
+  }
+
+  const startTime = Date.now();
+  let eventCount = 0;
+
+  return new Promise((resolve) => {
+    const source = new EventSource(`/api/tasks/batches/${encodeURIComponent(batchId)}/events`);
+    const outcomes: Record<string, PromiseSettledResult<PollingResult>> = {};
+    let settled = false;
+
+    const finish = () => {
+      settled = true;
+      source.close();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const buildResult = (status: PollingResult['status'], extra: Partial<PollingResult> = {}): PollingResult => ({
+      status,
+      attempts: eventCount,
+      elapsedTime: Date.now() - startTime,
+      ...extra
+    });
+
+    const collect = () => taskIds.map(taskId => outcomes[taskId] || {
+      status: 'rejected' as const,
+      reason: buildResult('failed', { error: '未收到任务结果' })
+    });
+
+    // 全部任务都有结果时结束订阅
+    const settleIfDone = () => {
+      if (settled || !taskIds.every(taskId => outcomes[taskId])) return;
+      finish();
+      resolve(collect());
+    };
+
+    // 事件流不可用时，尚未结束的任务各自退回轮询
+    const fallbackToPolling = (reason: string) => {
+      if (settled) return;
+      finish();
+      console.warn(`[任务事件] 批次${batchId}${reason}，改用轮询`);
+
+      const pending = taskIds.filter(taskId => !outcomes[taskId]);
+      Promise.allSettled(pending.map(taskId => enhancedPollTaskStatus(taskId, pollOptionsFor(taskId))))
+        .then(results => {
+          results.forEach((result, index) => {
+            outcomes[pending[index]] = result;
+          });
+          resolve(collect());
+        });
+    };
+
+    const handleAbort = () => {
+      if (settled) return;
+      finish();
+      onStateChange?.('cancelled');
+      taskIds.forEach(taskId => {
+        outcomes[taskId] = outcomes[taskId] || { status: 'rejected', reason: buildResult('cancelled', { error: '订阅已取消' }) };
+      });
+      resolve(collect());
+    };
+
+    const parse = (event: MessageEvent): any => {
+      eventCount++;
+      try {
+        return JSON.parse(event.data);
+      } catch {
+        return {};
+      }
+    };
+
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+
+    onStateChange?.('polling');
+
+    source.addEventListener('progress', (event) => {
+      const data = parse(event as MessageEvent);
+      if (data.taskId && typeof data.progress === 'number' && data.stage) {
+        onProgress?.(data.taskId, data.progress, data.stage);
+      }
+    });
+
+    source.addEventListener('completed', (event) => {
+      const data = parse(event as MessageEvent);
+      if (!data.taskId || outcomes[data.taskId]) return;
+      onProgress?.(data.taskId, 100, 'completed');
+      outcomes[data.taskId] = { status: 'fulfilled', value: buildResult('completed', { data }) };
+      settleIfDone();
+    });
+
+    const handleFailure = (status: 'failed' | 'cancelled') => (event: Event) => {
+      const data = parse(event as MessageEvent);
+      if (!data.taskId || outcomes[data.taskId]) return;
+      const error = data.error || (status === 'cancelled' ? '任务已取消' : '图片生成失败');
+      updatePendingTaskStatus(data.taskId, status, error);
+      outcomes[data.taskId] = { status: 'rejected', reason: buildResult(status, { error }) };
+      settleIfDone();
+    };
+
+    source.addEventListener('failed', handleFailure('failed'));
+    source.addEventListener('cancelled', handleFailure('cancelled'));
+
+    // 服务端认为全部结束时，没有收到结果的任务按失败处理
+    source.addEventListener('done', () => {
+      if (settled) return;
+      finish();
+      resolve(collect());
+    });
+
+    source.addEventListener('timeout', () => {
+      fallbackToPolling('的事件流已达到最长保持时间');
+    });
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        fallbackToPolling('的事件流连接失败');
+      }
+    };
+  });
+}
@@ -15,6 +15,8 @@ export interface PollOptions {
   failureRetries?: number;
   onProgress?: (progress: number, stage: string) => void;
   onStateChange?: (state: string) => void;
+  // 中止轮询：停止后续检查并以 cancelled 结果reject
+  signal?: AbortSignal;
 }
 
 // 轮询状态
@@ -50,7 +52,8 @@ export async function enhancedPollTaskStatus(
     exponentialFactor = 1.5,
     failureRetries = 3,
     onProgress,
-    onStateChange
+    onStateChange,
+    signal
   } = options;
 
   let attempts = 0;
@@ -181,7 +184,31 @@ export async function enhancedPollTaskStatus(
     }
   };
   
-  return new Promise((resolve, reject) => {
+  let detachAbort = () => {};
+  
+  const polling = new Promise<PollingResult>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    
+    // 安排下一次检查
+    const schedule = (delay: number) => {
+      if (!cancelled) {
+        timer = setTimeout(checkStatus, delay);
+      }
+    };
+    
+    // 中止时立即结束，不等待下一次检查
+    const handleAbort = () => {
+      if (cancelled) return;
+      cancel();
+      if (timer) clearTimeout(timer);
+      reject({
+        status: 'cancelled',
+        error: '轮询已取消',
+        attempts,
+        elapsedTime: Date.now() - startTime
+      });
+    };
+    
     // 检查任务状态函数
     const checkStatus = async () => {
       // 如果已取消，停止轮询
@@ -227,7 +254,7 @@ export async function enhancedPollTaskStatus(
         }
         
         // 短暂延迟后继续
-        setTimeout(checkStatus, 1000);
+        schedule(1000);
         return;
       }
       
@@ -236,7 +263,7 @@ export async function enhancedPollTaskStatus(
         console.log(`[轮询] 第${attempts}次检查任务${taskId}状态`);
         
         // 尝试获取任务状态
-        const response = await fetch(`/api/image-task-status/${taskId}`);
+        const response = await fetch(`/api/image-task-status/${taskId}`, { signal });
         
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`);
@@ -360,9 +387,12 @@ export async function enhancedPollTaskStatus(
         );
         
         // 安排下一次检查
-        setTimeout(checkStatus, currentInterval);
+        schedule(currentInterval);
         
       } catch (error) {
+        // 中止导致的请求失败不计入失败次数
+        if (cancelled) return;
+        
         console.error(`[轮询错误] 尝试 ${attempts + 1}/${maxAttempts}:`, error);
         
         consecutiveFailures++;
@@ -382,9 +412,20 @@ export async function enhancedPollTaskStatus(
       }
     };
     
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+    signal?.addEventListener('abort', handleAbort);
+    detachAbort = () => signal?.removeEventListener('abort', handleAbort);
+    
     // 开始第一次检查
     checkStatus();
   });
+  
+  // 轮询结束后移除中止监听
+  polling.then(() => detachAbort(), () => detachAbort());
+  return polling;
 }
 
 /**
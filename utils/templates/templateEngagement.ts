@@ -0,0 +1,198 @@
+/**
+ * 模板互动：收藏、评分和热门分数
+ * 收藏数、评分均值由数据库触发器维护在 templates 表上，热门分数由定时任务调用
+ * refresh_template_trending_scores() 计算，见 sql/migrations/20261031_template_engagement.sql
+ */
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('模板互动');
+
+// 收藏列表最多返回的模板数
+const MAX_FAVORITES = 500;
+
+// 使用记录保留天数，超过后不再参与热门计算
+export const TEMPLATE_USE_RETENTION_DAYS = 90;
+
+export interface TemplateEngagement {
+  favorited: boolean;
+  rating: number | null;
+}
+
+export class TemplateEngagementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateEngagementError';
+  }
+}
+
+async function requirePublishedTemplate(templateId: string) {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('templates')
+    .select('id, status')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`查询模板失败: ${error.message}`);
+  }
+  if (!data || data.status !== 'published') {
+    throw new TemplateEngagementError('模板不存在或未发布');
+  }
+}
+
+/**
+ * 当前用户对模板的收藏和评分
+ */
+export async function getTemplateEngagement(userId: string, templateId: string): Promise<TemplateEngagement> {
+  const supabaseAdmin = createAdminClient();
+  const [favorite, rating] = await Promise.all([
+    supabaseAdmin
+      .from('template_favorites')
+      .select('template_id')
+      .eq('user_id', userId)
+      .eq('template_id', templateId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('template_ratings')
+      .select('rating')
+      .eq('user_id', userId)
+      .eq('template_id', templateId)
+      .maybeSingle()
+  ]);
+
+  if (favorite.error || rating.error) {
+    logger.warn(`查询用户 ${userId} 对模板 ${templateId} 的互动失败: ${(favorite.error || rating.error)?.message}`);
+  }
+
+  return {
+    favorited: !!favorite.data,
+    rating: rating.data?.rating ?? null
+  };
+}
+
+/**
+ * 收藏或取消收藏，返回最新的收藏数
+ */
+export async function setTemplateFavorite(
+  userId: string,
+  templateId: string,
+  favorited: boolean
+): Promise<{ favorited: boolean; favoriteCount: number }> {
+  const supabaseAdmin = createAdminClient();
+
+  if (favorited) {
+    await requirePublishedTemplate(templateId);
+    const { error } = await supabaseAdmin
+      .from('template_favorites')
+      .upsert({ user_id: userId, template_id: templateId }, { onConflict: 'user_id,template_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`收藏模板失败: ${error.message}`);
+    }
+  } else {
+    const { error } = await supabaseAdmin
+      .from('template_favorites')
+      .delete()
+      .eq('user_id', userId)
+      .eq('template_id', templateId);
+
+    if (error) {
+      throw new Error(`取消收藏失败: ${error.message}`);
+    }
+  }
+
+  const { data } = await supabaseAdmin
+    .from('templates')
+    .select('favorite_count')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  return { favorited, favoriteCount: data?.favorite_count ?? 0 };
+}
+
+/**
+ * 评分（1-5星），重复评分覆盖之前的评分，返回最新的均值和人数
+ */
+export async function rateTemplate(
+  userId: string,
+  templateId: string,
+  rating: unknown
+): Promise<{ rating: number; ratingAvg: number; ratingCount: number }> {
+  const value = Number(rating);
+  if (!Number.isInteger(value) || value < 1 || value > 5) {
+    throw new TemplateEngagementError('评分必须是1到5之间的整数');
+  }
+
+  await requirePublishedTemplate(templateId);
+
+  const supabaseAdmin = createAdminClient();
+  const { error } = await supabaseAdmin
+    .from('template_ratings')
+    .upsert({
+      user_id: userId,
+      template_id: templateId,
+      rating: value,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,template_id' });
+
+  if (error) {
+    throw new Error(`评分失败: ${error.message}`);
+  }
+
+  const { data } = await supabaseAdmin
+    .from('templates')
+    .select('rating_avg, rating_count')
+    .eq('id', templateId)
+    .maybeSingle();
+
+  return {
+    rating: value,
+    ratingAvg: Number(data?.rating_avg ?? value),
+    ratingCount: data?.rating_count ?? 1
+  };
+}
+
+/**
+ * 用户收藏的模板ID，按收藏时间倒序
+ */
+export async function listFavoriteTemplateIds(userId: string): Promise<string[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('template_favorites')
+    .select('template_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_FAVORITES);
+
+  if (error) {
+    throw new Error(`查询收藏失败: ${error.message}`);
+  }
+
+  return (data || []).map(row => row.template_id as string);
+}
+
+/**
+ * 重新计算热门分数并清理过期的使用记录，返回分数有变化的模板数
+ */
+export async function refreshTrendingScores(): Promise<number> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('refresh_template_trending_scores');
+
+  if (error) {
+    throw new Error(`计算热门分数失败: ${error.message}`);
+  }
+
+  const cutoff = new Date(Date.now() - TEMPLATE_USE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error: pruneError } = await supabaseAdmin
+    .from('template_uses')
+    .delete()
+    .lt('created_at', cutoff);
+
+  if (pruneError) {
+    logger.warn(`清理模板使用记录失败: ${pruneError.message}`);
+  }
+
+  return (data as number) || 0;
+}
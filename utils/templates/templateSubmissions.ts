@@ -0,0 +1,216 @@
+/**
+ * 用户投稿模板
+ * 用户把历史记录中的作品（提示词、风格、图片）投稿为模板，进入待审核状态；
+ * 编辑及以上角色在管理后台审核，通过后在创意广场展示并署名作者
+ */
+import type { User } from '@supabase/supabase-js';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { escapePromptTemplate } from '@/utils/promptTemplate';
+import type { Template } from '@/app/api/templates/types';
+
+const logger = createLogger('模板投稿');
+
+export const TEMPLATE_STATUSES = ['draft', 'pending', 'published', 'rejected'] as const;
+export type TemplateStatus = typeof TEMPLATE_STATUSES[number];
+
+export type TemplateReviewDecision = 'approve' | 'reject';
+
+// 每个用户同时处于待审核状态的投稿上限
+const MAX_PENDING_SUBMISSIONS = 5;
+const MAX_TAGS = 5;
+
+export interface TemplateSubmissionInput {
+  historyId?: unknown;
+  name?: unknown;
+  description?: unknown;
+  tags?: unknown;
+}
+
+export class TemplateSubmissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSubmissionError';
+  }
+}
+
+export function isTemplateStatus(value: unknown): value is TemplateStatus {
+  return typeof value === 'string' && (TEMPLATE_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * 广场展示的作者名称，取用户资料中的昵称，不使用邮箱以免泄露
+ */
+export function getAuthorName(user: User): string {
+  const metadata = user.user_metadata || {};
+  const name = [metadata.full_name, metadata.name, metadata.user_name]
+    .find(value => typeof value === 'string' && value.trim());
+  return name ? String(name).trim().slice(0, 40) : `用户${user.id.slice(0, 6)}`;
+}
+
+function requireText(value: unknown, field: string, maxLength: number): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) {
+    throw new TemplateSubmissionError(`${field}不能为空`);
+  }
+  if (text.length > maxLength) {
+    throw new TemplateSubmissionError(`${field}不能超过${maxLength}个字符`);
+  }
+  return text;
+}
+
+function normalizeTags(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new TemplateSubmissionError('标签格式无效');
+  }
+
+  const tags = Array.from(new Set(
+    value
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.trim())
+      .filter(Boolean)
+  ));
+
+  if (tags.length > MAX_TAGS) {
+    throw new TemplateSubmissionError(`标签最多${MAX_TAGS}个`);
+  }
+  if (tags.some(tag => tag.length > 20)) {
+    throw new TemplateSubmissionError('单个标签不能超过20个字符');
+  }
+  return tags;
+}
+
+/**
+ * 从历史记录投稿模板
+ * 历史记录的最终提示词作为基础提示词（转义模板语法字符），生成图作为预览图；
+ * 使用者可以在此基础上补充描述，因此提示词设为可选
+ */
+export async function submitTemplateFromHistory(
+  user: User,
+  input: TemplateSubmissionInput
+): Promise<Template> {
+  const historyId = Number(input.historyId);
+  if (!Number.isInteger(historyId) || historyId <= 0) {
+    throw new TemplateSubmissionError('无效的历史记录ID');
+  }
+
+  const name = requireText(input.name, '模板名称', 40);
+  const description = requireText(input.description, '模板描述', 200);
+  const tags = normalizeTags(input.tags);
+
+  const supabaseAdmin = createAdminClient();
+
+  const { data: history, error: historyError } = await supabaseAdmin
+    .from('ai_images_creator_history')
+    .select('id, image_url, prompt, style')
+    .eq('id', historyId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (historyError) {
+    throw new Error(`查询历史记录失败: ${historyError.message}`);
+  }
+  if (!history) {
+    throw new TemplateSubmissionError('未找到该历史记录');
+  }
+  if (!history.prompt?.trim()) {
+    throw new TemplateSubmissionError('该作品没有提示词，无法投稿为模板');
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from('templates')
+    .select('id', { count: 'exact', head: true })
+    .eq('author_id', user.id)
+    .eq('status', 'pending');
+
+  if (countError) {
+    throw new Error(`查询待审核投稿失败: ${countError.message}`);
+  }
+  if ((count || 0) >= MAX_PENDING_SUBMISSIONS) {
+    throw new TemplateSubmissionError(`待审核的投稿最多${MAX_PENDING_SUBMISSIONS}个，请等待审核完成后再投稿`);
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('templates')
+    .insert({
+      name,
+      description,
+      preview_image: history.image_url,
+      base_prompt: escapePromptTemplate(history.prompt.trim()),
+      prompt_slots: [],
+      prompt_variants: {},
+      style_id: history.style || null,
+      requires_image: false,
+      prompt_required: false,
+      prompt_guide: '可以补充想要调整的细节，留空则直接使用作者的提示词',
+      prompt_placeholder: null,
+      tags,
+      status: 'pending',
+      use_count: 0,
+      author_id: user.id,
+      author_name: getAuthorName(user),
+      source_history_id: history.id,
+      submitted_at: now,
+      created_at: now,
+      updated_at: now
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`提交模板失败: ${error.message}`);
+  }
+
+  logger.info(`用户 ${user.id} 投稿模板 ${data.id}（历史记录 ${historyId}）`);
+  return data as Template;
+}
+
+/**
+ * 审核投稿，只处理待审核状态的模板
+ * 返回null表示模板不存在或已被审核
+ */
+export async function reviewTemplate(
+  templateId: string,
+  reviewerId: string,
+  decision: TemplateReviewDecision,
+  note?: unknown
+): Promise<Template | null> {
+  if (decision !== 'approve' && decision !== 'reject') {
+    throw new TemplateSubmissionError('审核结果必须是 approve 或 reject');
+  }
+
+  const reviewNote = typeof note === 'string' ? note.trim() : '';
+  if (decision === 'reject' && !reviewNote) {
+    throw new TemplateSubmissionError('驳回时需要填写原因');
+  }
+  if (reviewNote.length > 500) {
+    throw new TemplateSubmissionError('审核意见不能超过500个字符');
+  }
+
+  const now = new Date().toISOString();
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('templates')
+    .update({
+      status: decision === 'approve' ? 'published' : 'rejected',
+      reviewed_by: reviewerId,
+      reviewed_at: now,
+      review_note: reviewNote || null,
+      updated_at: now
+    })
+    .eq('id', templateId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`审核模板失败: ${error.message}`);
+  }
+
+  if (data) {
+    logger.info(`模板 ${templateId} 审核${decision === 'approve' ? '通过' : '驳回'}，审核人 ${reviewerId}`);
+  }
+  return data as Template | null;
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_TOLERANCE_SECONDS
+} from '../signature';
+
+describe('webhook signature', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ event: 'task.completed', taskId: 'task-1' });
+  let nowSeconds: number;
+
+  beforeEach(() => {
+    nowSeconds = 1_700_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => nowSeconds * 1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should generate prefixed random secrets', () => {
+    const first = generateWebhookSecret();
+    const second = generateWebhookSecret();
+
+    expect(first).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(first).not.toBe(second);
+  });
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', secret).update(`${nowSeconds}.${body}`).digest('hex');
+
+    expect(signWebhookPayload(body, secret, nowSeconds)).toBe(`sha256=${expected}`);
+  });
+
+  it('should verify its own signature', () => {
+    const signature = signWebhookPayload(body, secret, nowSeconds);
+
+    expect(verifyWebhookSignature(body, signature, secret, nowSeconds)).toBe(true);
+  });
+
+  it('should reject a modified body, a different secret or a different timestamp', () => {
+    const signature = signWebhookPayload(body, secret, nowSeconds);
+
+    expect(verifyWebhookSignature(`${body} `, signature, secret, nowSeconds)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'whsec_other', nowSeconds)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, secret, nowSeconds - 1)).toBe(false);
+  });
+
+  it('should reject malformed signatures without throwing', () => {
+    expect(verifyWebhookSignature(body, '', secret, nowSeconds)).toBe(false);
+    expect(verifyWebhookSignature(body, 'sha256=abc', secret, nowSeconds)).toBe(false);
+  });
+
+  it('should reject timestamps outside the tolerance', () => {
+    const stale = nowSeconds - WEBHOOK_TOLERANCE_SECONDS - 1;
+    const future = nowSeconds + WEBHOOK_TOLERANCE_SECONDS + 1;
+    const edge = nowSeconds - WEBHOOK_TOLERANCE_SECONDS;
+
+    expect(verifyWebhookSignature(body, signWebhookPayload(body, secret, stale), secret, stale)).toBe(false);
+    expect(verifyWebhookSignature(body, signWebhookPayload(body, secret, future), secret, future)).toBe(false);
+    expect(verifyWebhookSignature(body, signWebhookPayload(body, secret, edge), secret, edge)).toBe(true);
+  });
+});
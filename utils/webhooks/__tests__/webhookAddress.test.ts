@@ -0,0 +1,105 @@
+import dns from 'dns';
+import { isPrivateAddress, WebhookAddressError, webhookLookup } from '../webhookAddress';
+import { validateWebhookUrl, WebhookValidationError } from '../webhookEndpoints';
+
+jest.mock('@/utils/supabase/admin', () => ({ createAdminClient: jest.fn() }));
+
+type LookupResult = { error: Error | null; address: unknown; family?: number };
+
+// 调用 webhookLookup 并收集回调结果
+function lookup(hostname: string, options: dns.LookupOptions = {}): Promise<LookupResult> {
+  return new Promise(resolve => {
+    webhookLookup(hostname, options, (error, address, family) => resolve({ error, address, family }));
+  });
+}
+
+// 模拟DNS解析结果
+function mockResolve(addresses: dns.LookupAddress[]) {
+  jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: Function) => {
+    callback(null, addresses);
+  }) as unknown as typeof dns.lookup);
+}
+
+describe('webhook address', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_NETWORK;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '[::1]',
+    'fe80::1',
+    'fd00::1',
+    '::ffff:10.0.0.1',
+    'not-an-ip'
+  ])('should treat %s as private', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111'])('should treat %s as public', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('should reject hostnames resolving to a private address', async () => {
+    // 任一解析结果为内网地址都拒绝，避免连接时选中该地址
+    mockResolve([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 }
+    ]);
+
+    const result = await lookup('hooks.example.com');
+
+    expect(result.error).toBeInstanceOf(WebhookAddressError);
+    expect(result.error?.message).toContain('10.0.0.5');
+  });
+
+  it('should pass through public addresses in the requested shape', async () => {
+    mockResolve([{ address: '93.184.216.34', family: 4 }]);
+
+    await expect(lookup('hooks.example.com')).resolves.toEqual({
+      error: null,
+      address: '93.184.216.34',
+      family: 4
+    });
+    await expect(lookup('hooks.example.com', { all: true })).resolves.toEqual({
+      error: null,
+      address: [{ address: '93.184.216.34', family: 4 }],
+      family: undefined
+    });
+  });
+
+  it('should allow private addresses only when explicitly enabled outside production', async () => {
+    mockResolve([{ address: '127.0.0.1', family: 4 }]);
+    process.env.WEBHOOK_ALLOW_PRIVATE_NETWORK = 'true';
+
+    expect((await lookup('localhost')).error).toBeNull();
+
+    (process.env as Record<string, string>).NODE_ENV = 'production';
+    expect((await lookup('localhost')).error).toBeInstanceOf(WebhookAddressError);
+  });
+
+  it('should reject private hosts at registration outside production', () => {
+    expect(() => validateWebhookUrl('http://localhost:3000/hook')).toThrow(WebhookValidationError);
+    expect(() => validateWebhookUrl('http://[fd00::1]/hook')).toThrow(WebhookValidationError);
+    expect(() => validateWebhookUrl('http://100.64.0.1/hook')).toThrow(WebhookValidationError);
+    expect(validateWebhookUrl('http://hooks.example.com/hook')).toBe('http://hooks.example.com/hook');
+
+    process.env.WEBHOOK_ALLOW_PRIVATE_NETWORK = 'true';
+    expect(validateWebhookUrl('http://localhost:3000/hook')).toBe('http://localhost:3000/hook');
+  });
+});
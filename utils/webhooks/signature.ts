@@ -0,0 +1,57 @@
+/**
+ * Webhook签名
+ * 与支付回调的 generateSign 思路一致：把待签名内容拼成固定格式的字符串后用密钥计算摘要，
+ * 这里改用HMAC-SHA256，并把时间戳纳入签名防止重放
+ */
+import crypto from 'crypto';
+
+// 请求头名称
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// 接收方校验时允许的时间偏差（秒）
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * 生成端点签名密钥
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * 计算签名
+ * @param body 请求体原文
+ * @param secret 端点签名密钥
+ * @param timestamp 秒级时间戳，与 X-Webhook-Timestamp 一致
+ * @returns 形如 sha256=<hex> 的签名
+ */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * 验证签名，供接收方参考实现
+ * @param body 请求体原文
+ * @param signature X-Webhook-Signature 请求头
+ * @param secret 端点签名密钥
+ * @param timestamp X-Webhook-Timestamp 请求头
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string,
+  secret: string,
+  timestamp: number
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
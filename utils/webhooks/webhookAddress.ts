@@ -0,0 +1,85 @@
+/**
+ * Webhook回调地址的网络校验
+ * 登记时只能按主机名判断，公网域名仍可能解析到内网地址；投递时在建立连接的DNS解析阶段
+ * 检查实际连接的IP，拒绝内网、回环和链路本地地址，同时避免DNS重绑定绕过登记时的检查
+ */
+import dns from 'dns';
+import net from 'net';
+
+// 不允许回调连接的地址段
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export class WebhookAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookAddressError';
+  }
+}
+
+/**
+ * 是否允许回调内网地址
+ * 仅用于本地开发调试（WEBHOOK_ALLOW_PRIVATE_NETWORK=true），生产环境总是拒绝
+ */
+export function allowPrivateWebhookAddresses(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.WEBHOOK_ALLOW_PRIVATE_NETWORK === 'true';
+}
+
+/**
+ * 判断IP是否属于内网、回环、链路本地等不允许回调的地址段
+ * IPv4映射的IPv6地址（::ffff:10.0.0.1）按IPv4判断；无法识别的地址视为不允许
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '');
+  const family = net.isIP(host);
+  if (family === 4) return BLOCKED_ADDRESSES.check(host, 'ipv4');
+  if (family === 6) return BLOCKED_ADDRESSES.check(host, 'ipv6');
+  return true;
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+/**
+ * 供 http(s).request 使用的DNS解析：解析结果中任一地址不允许回调时返回错误，连接不会建立
+ */
+export function webhookLookup(hostname: string, options: dns.LookupOptions, callback: LookupCallback): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (!allowPrivateWebhookAddresses()) {
+      const blocked = addresses.find(item => isPrivateAddress(item.address));
+      if (blocked) {
+        callback(new WebhookAddressError(`回调地址 ${hostname} 解析到内网地址 ${blocked.address}`), '');
+        return;
+      }
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Webhook投递
+ * 领取到期的投递记录并发送签名请求，失败时由数据库函数按 attempt_count 退避重新排队，
+ * 达到 max_attempts 后标记失败，每次结果都记录在 webhook_deliveries 中；
+ * 回调地址解析到内网地址时不发送请求，按投递失败处理
+ */
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { WebhookDelivery } from '@/types/database';
+import {
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER
+} from './signature';
+import {
+  allowPrivateWebhookAddresses,
+  isPrivateAddress,
+  WebhookAddressError,
+  webhookLookup
+} from './webhookAddress';
+
+const logger = createLogger('Webhook投递');
+
+// 单次请求超时
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// 投递租约，需大于请求超时
+const DELIVERY_LEASE_SECONDS = 60;
+
+// 记录到日志中的响应内容长度
+const MAX_RESPONSE_SNIPPET = 200;
+
+export interface WebhookDeliverySummary {
+  claimed: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+interface DeliveryTarget {
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+interface AttemptResult {
+  success: boolean;
+  responseStatus: number | null;
+  error?: string;
+}
+
+/**
+ * 发送POST请求，返回状态码和响应开头的内容
+ * 不跟随重定向；连接前由 webhookLookup 检查实际连接的IP，IP形式的主机在这里检查
+ */
+function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<{ status: number; snippet: string }> {
+  const target = new URL(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && isPrivateAddress(hostname) && !allowPrivateWebhookAddresses()) {
+    return Promise.reject(new WebhookAddressError(`回调地址不能指向内网地址: ${hostname}`));
+  }
+
+  const client = target.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: webhookLookup,
+      timeout: DELIVERY_TIMEOUT_MS
+    }, (response) => {
+      let snippet = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (snippet.length < MAX_RESPONSE_SNIPPET) {
+          snippet += chunk;
+        }
+      });
+      response.on('end', () => resolve({
+        status: response.statusCode || 0,
+        snippet: snippet.substring(0, MAX_RESPONSE_SNIPPET)
+      }));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`请求超时(${DELIVERY_TIMEOUT_MS}ms)`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * 发送一次投递请求
+ */
+async function sendDelivery(delivery: WebhookDelivery, target: DeliveryTarget): Promise<AttemptResult> {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await postWebhook(target.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'imgtutu-webhooks/1.0',
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Event': delivery.event,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, target.secret, timestamp)
+    }, body);
+
+    if (response.status >= 200 && response.status < 300) {
+      return { success: true, responseStatus: response.status };
+    }
+
+    return {
+      success: false,
+      responseStatus: response.status,
+      error: `HTTP ${response.status}${response.snippet ? `: ${response.snippet}` : ''}`
+    };
+  } catch (error) {
+    return {
+      success: false,
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * 记录投递结果，返回记录的新状态
+ */
+async function recordResult(deliveryId: string, result: AttemptResult): Promise<string | null> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.rpc('record_webhook_delivery', {
+    p_delivery_id: deliveryId,
+    p_success: result.success,
+    p_response_status: result.responseStatus,
+    p_error: result.error || null
+  });
+
+  if (error) {
+    logger.error(`记录投递${deliveryId}结果失败: ${error.message}`);
+    return null;
+  }
+  return data as string | null;
+}
+
+/**
+ * 投递一批到期的Webhook
+ * 可由任务worker、定时任务调用，多个实例并发运行是安全的
+ */
+export async function deliverDueWebhooks(limit = 20): Promise<WebhookDeliverySummary> {
+  const summary: WebhookDeliverySummary = { claimed: 0, succeeded: 0, retrying: 0, failed: 0 };
+  const supabaseAdmin = createAdminClient();
+
+  const { data, error } = await supabaseAdmin.rpc('claim_webhook_deliveries', {
+    p_limit: limit,
+    p_lease_seconds: DELIVERY_LEASE_SECONDS
+  });
+
+  if (error) {
+    logger.error(`领取待投递的Webhook失败: ${error.message}`);
+    return summary;
+  }
+
+  const deliveries = (data || []) as WebhookDelivery[];
+  summary.claimed = deliveries.length;
+  if (deliveries.length === 0) {
+    return summary;
+  }
+
+  const endpointIds = Array.from(new Set(deliveries.map(delivery => delivery.endpoint_id)));
+  const { data: endpoints, error: endpointError } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('id, url, secret, is_active')
+    .in('id', endpointIds);
+
+  if (endpointError) {
+    logger.error(`查询Webhook端点失败: ${endpointError.message}`);
+  }
+
+  const targets = new Map<string, DeliveryTarget>(
+    (endpoints || []).map((endpoint: any) => [endpoint.id, endpoint as DeliveryTarget])
+  );
+
+  const outcomes = await Promise.all(deliveries.map(async (delivery) => {
+    const target = targets.get(delivery.endpoint_id);
+    const result = target?.is_active
+      ? await sendDelivery(delivery, target)
+      : { success: false, responseStatus: null, error: '端点已停用' };
+
+    const status = await recordResult(delivery.id, result);
+    if (result.success) {
+      logger.info(`已投递${delivery.event}(任务${delivery.task_id})到端点${delivery.endpoint_id}`);
+    } else {
+      logger.warn(`投递${delivery.id}第${delivery.attempt_count}次失败: ${result.error}`);
+    }
+    return status;
+  }));
+
+  outcomes.forEach(status => {
+    if (status === 'succeeded') summary.succeeded++;
+    else if (status === 'pending') summary.retrying++;
+    else if (status === 'failed') summary.failed++;
+  });
+
+  return summary;
+}
@@ -0,0 +1,254 @@
+/**
+ * Webhook端点管理
+ * 用户登记的回调地址与签名密钥，投递记录由数据库触发器在任务进入终态时写入
+ */
+import net from 'net';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { createLogger } from '@/utils/logger';
+import { WebhookDelivery, WebhookEndpoint, WebhookEvent } from '@/types/database';
+import { generateWebhookSecret } from './signature';
+import { allowPrivateWebhookAddresses, isPrivateAddress } from './webhookAddress';
+
+const logger = createLogger('Webhook端点');
+
+// 支持订阅的事件
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['task.completed', 'task.failed'];
+
+// 每个用户最多登记的端点数
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+// 不允许作为回调地址的主机，避免服务端请求内网
+const BLOCKED_HOSTNAME_PATTERNS = [
+  /^localhost$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?::1\]?$/,
+  /\.internal$/i,
+  /\.local$/i
+];
+
+// 返回给用户的端点信息，密钥只在创建和重置时返回
+export type WebhookEndpointView = Omit<WebhookEndpoint, 'secret'>;
+
+export interface WebhookEndpointInput {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export class WebhookValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+/**
+ * 校验回调地址，生产环境只允许https；内网主机和IP只在开发环境显式允许时可以登记
+ */
+export function validateWebhookUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookValidationError('回调地址格式无效');
+  }
+
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  if (parsed.protocol !== 'https:' && (isProduction || parsed.protocol !== 'http:')) {
+    throw new WebhookValidationError(isProduction ? '回调地址必须使用https' : '回调地址必须使用http或https');
+  }
+
+  // 域名解析到的实际地址在投递时检查（见 webhookAddress.ts）
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const isBlockedHost = BLOCKED_HOSTNAME_PATTERNS.some(pattern => pattern.test(hostname))
+    || (net.isIP(hostname) !== 0 && isPrivateAddress(hostname));
+  if (isBlockedHost && !allowPrivateWebhookAddresses()) {
+    throw new WebhookValidationError('回调地址不能指向内网地址');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * 校验订阅的事件，未指定时订阅全部事件
+ */
+function validateEvents(events?: string[]): WebhookEvent[] {
+  if (events === undefined) {
+    return WEBHOOK_EVENTS;
+  }
+
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new WebhookValidationError('至少需要订阅一个事件');
+  }
+
+  const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+  if (unknown.length > 0) {
+    throw new WebhookValidationError(`不支持的事件: ${unknown.join(', ')}`);
+  }
+
+  return Array.from(new Set(events)) as WebhookEvent[];
+}
+
+/**
+ * 去掉签名密钥后的端点信息
+ */
+export function toWebhookEndpointView(endpoint: WebhookEndpoint): WebhookEndpointView {
+  const { secret: _secret, ...view } = endpoint;
+  return view;
+}
+
+/**
+ * 列出用户的端点
+ */
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpointView[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`查询Webhook端点失败: ${error.message}`);
+  }
+
+  return ((data || []) as WebhookEndpoint[]).map(toWebhookEndpointView);
+}
+
+/**
+ * 登记新端点，返回包含签名密钥的完整记录
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<WebhookEndpoint> {
+  if (!input.url) {
+    throw new WebhookValidationError('缺少回调地址');
+  }
+
+  const url = validateWebhookUrl(input.url);
+  const events = validateEvents(input.events);
+
+  const supabaseAdmin = createAdminClient();
+  const { count } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if ((count || 0) >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new WebhookValidationError(`最多只能登记${MAX_WEBHOOK_ENDPOINTS}个Webhook端点`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .insert({
+      user_id: userId,
+      url,
+      events,
+      secret: generateWebhookSecret(),
+      description: input.description?.substring(0, 200) || null,
+      is_active: input.isActive ?? true
+    })
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`创建Webhook端点失败: ${error?.message || '未返回数据'}`);
+  }
+
+  logger.info(`用户${userId}登记了Webhook端点${data.id}`);
+  return data as WebhookEndpoint;
+}
+
+/**
+ * 更新端点，rotateSecret为true时重新生成签名密钥并返回
+ * 端点不存在或不属于该用户时返回null
+ */
+export async function updateWebhookEndpoint(
+  userId: string,
+  endpointId: string,
+  input: WebhookEndpointInput & { rotateSecret?: boolean }
+): Promise<WebhookEndpoint | null> {
+  const updateData: Record<string, any> = { updated_at: new Date().toISOString() };
+
+  if (input.url !== undefined) {
+    updateData.url = validateWebhookUrl(input.url);
+  }
+  if (input.events !== undefined) {
+    updateData.events = validateEvents(input.events);
+  }
+  if (input.description !== undefined) {
+    updateData.description = input.description?.substring(0, 200) || null;
+  }
+  if (input.isActive !== undefined) {
+    updateData.is_active = Boolean(input.isActive);
+  }
+  if (input.rotateSecret) {
+    updateData.secret = generateWebhookSecret();
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .update(updateData)
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`更新Webhook端点失败: ${error.message}`);
+  }
+
+  return (data as WebhookEndpoint | null) || null;
+}
+
+/**
+ * 删除端点，投递日志随端点一并删除
+ */
+export async function deleteWebhookEndpoint(userId: string, endpointId: string): Promise<boolean> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`删除Webhook端点失败: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * 查询端点的投递日志，按创建时间倒序
+ */
+export async function listWebhookDeliveries(
+  userId: string,
+  endpointId: string,
+  limit = 50
+): Promise<WebhookDelivery[]> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Math.max(limit, 1), 100));
+
+  if (error) {
+    throw new Error(`查询投递日志失败: ${error.message}`);
+  }
+
+  return (data || []) as WebhookDelivery[];
+}